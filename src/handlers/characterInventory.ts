@@ -0,0 +1,402 @@
+import { App, TFile } from 'obsidian';
+import { CharacterChange, CharacterItemChange, ShopboardSettings } from '../types';
+import { ShopParser } from '../parsers/shopParser';
+import { PriceCalculator } from '../utils/priceCalculator';
+
+/**
+ * Gold and inventory fields copied from a character note
+ * Values are copied exactly as stored in frontmatter (undefined when absent)
+ */
+interface CharacterState {
+	gold: any;
+	inventory: any;
+}
+
+/**
+ * Character Inventory - Records purchases on player character notes
+ * Appends bought items to the character's `inventory` and debits their `gold`.
+ * Party notes keep their stash in the same `inventory` format.
+ */
+export class CharacterInventory {
+	private app: App;
+	private shopParser: ShopParser;
+	private priceCalculator: PriceCalculator;
+	private settings: ShopboardSettings;
+
+	constructor(app: App, shopParser: ShopParser, priceCalculator: PriceCalculator, settings: ShopboardSettings) {
+		this.app = app;
+		this.shopParser = shopParser;
+		this.priceCalculator = priceCalculator;
+		this.settings = settings;
+	}
+
+	/**
+	 * Convert a price in base currency to the unit of the `gold` field (display currency)
+	 * @param amount Amount in base currency
+	 */
+	toGold(amount: number): number {
+		const gold = this.priceCalculator.convertCurrency(
+			amount,
+			this.settings.currency.baseCurrency,
+			this.settings.currency.displayCurrency
+		);
+		return Math.round(gold * 100) / 100;
+	}
+
+	/**
+	 * Record a purchase on a character note
+	 * @param characterFile Character note file
+	 * @param itemRef Wikilink reference to the bought item
+	 * @param quantity Quantity bought
+	 * @param totalPrice Total price in base currency
+	 * @param allowShortfall Record the purchase even if the character can't cover the price
+	 * @returns Gold and inventory lines changed by the purchase
+	 */
+	async recordPurchase(
+		characterFile: TFile,
+		itemRef: string,
+		quantity: number,
+		totalPrice: number,
+		allowShortfall: boolean = false
+	): Promise<CharacterChange> {
+		// Validate inputs
+		if (!Number.isInteger(quantity) || quantity < 1) {
+			throw new Error('Quantity must be a positive integer');
+		}
+
+		if (typeof totalPrice !== 'number' || totalPrice < 0) {
+			throw new Error('Price must be a non-negative number');
+		}
+
+		const itemName = this.shopParser.parseWikilink(itemRef);
+		const cost = this.toGold(totalPrice);
+
+		let before: CharacterState = { gold: undefined, inventory: undefined };
+		let after: CharacterState = { gold: undefined, inventory: undefined };
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(characterFile, (frontmatter) => {
+			if (frontmatter.type !== 'character') {
+				throw new Error(`${characterFile.path} is not a character note`);
+			}
+
+			before = this.copyState(frontmatter);
+
+			// Debit gold (notes without a gold field don't track money)
+			if (typeof frontmatter.gold === 'number') {
+				if (frontmatter.gold < cost && !allowShortfall) {
+					throw new Error(`${frontmatter.name || characterFile.basename} cannot afford this purchase`);
+				}
+				frontmatter.gold = Math.max(0, Math.round((frontmatter.gold - cost) * 100) / 100);
+			}
+
+			this.stackItem(frontmatter, itemRef, quantity);
+
+			after = this.copyState(frontmatter);
+		});
+
+		console.log(`Character purchase recorded: ${quantity}x ${itemName} for ${characterFile.path}`);
+
+		return this.diffState(characterFile.path, before, after);
+	}
+
+	/**
+	 * Add items to a character's inventory or a party stash without touching gold
+	 * Unidentified items are stacked separately with `identified: false`
+	 * @param characterFile Character or party note file
+	 * @param items Wikilink references and quantities to add
+	 * @returns Gold and inventory lines changed
+	 */
+	async addItems(
+		characterFile: TFile,
+		items: Array<{ itemRef: string; quantity: number; identified?: boolean }>
+	): Promise<CharacterChange> {
+		// Validate inputs
+		for (const item of items) {
+			if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+				throw new Error('Quantity must be a positive integer');
+			}
+		}
+
+		let before: CharacterState = { gold: undefined, inventory: undefined };
+		let after: CharacterState = { gold: undefined, inventory: undefined };
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(characterFile, (frontmatter) => {
+			if (frontmatter.type !== 'character' && frontmatter.type !== 'party') {
+				throw new Error(`${characterFile.path} is not a character or party note`);
+			}
+
+			before = this.copyState(frontmatter);
+
+			for (const item of items) {
+				this.stackItem(frontmatter, item.itemRef, item.quantity, item.identified !== false);
+			}
+
+			after = this.copyState(frontmatter);
+		});
+
+		console.log(`Added ${items.length} item(s) to ${characterFile.path}`);
+
+		return this.diffState(characterFile.path, before, after);
+	}
+
+	/**
+	 * Remove items from a character's inventory and optionally debit their gold
+	 * Only identified items are removed
+	 * @param characterFile Character note file
+	 * @param items Wikilink references and quantities to remove
+	 * @param cost Gold to debit in base currency (ignored if the note doesn't track gold)
+	 * @returns Gold and inventory lines changed
+	 */
+	async removeItems(
+		characterFile: TFile,
+		items: Array<{ itemRef: string; quantity: number }>,
+		cost: number = 0
+	): Promise<CharacterChange> {
+		// Validate inputs
+		for (const item of items) {
+			if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+				throw new Error('Quantity must be a positive integer');
+			}
+		}
+
+		const gold = this.toGold(cost);
+
+		let before: CharacterState = { gold: undefined, inventory: undefined };
+		let after: CharacterState = { gold: undefined, inventory: undefined };
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(characterFile, (frontmatter) => {
+			if (frontmatter.type !== 'character') {
+				throw new Error(`${characterFile.path} is not a character note`);
+			}
+
+			before = this.copyState(frontmatter);
+			const characterName = frontmatter.name || characterFile.basename;
+
+			if (typeof frontmatter.gold === 'number' && gold > 0) {
+				if (frontmatter.gold < gold) {
+					throw new Error(`${characterName} cannot afford ${gold} gold`);
+				}
+				frontmatter.gold = Math.round((frontmatter.gold - gold) * 100) / 100;
+			}
+
+			const inventory: any[] = Array.isArray(frontmatter.inventory) ? frontmatter.inventory : [];
+
+			for (const item of items) {
+				const itemName = this.shopParser.parseWikilink(item.itemRef);
+				const index = this.findEntry(inventory, itemName, true);
+
+				const entry = inventory[index];
+				// Bare wikilinks count as one item
+				const carried = index === -1 ? 0 : typeof entry === 'string' ? 1 : (typeof entry.quantity === 'number' ? entry.quantity : 1);
+
+				if (carried < item.quantity) {
+					throw new Error(`${characterName} does not carry ${item.quantity}x ${itemName}`);
+				}
+
+				if (carried === item.quantity) {
+					inventory.splice(index, 1);
+				} else {
+					entry.quantity = carried - item.quantity;
+				}
+			}
+
+			frontmatter.inventory = inventory;
+			after = this.copyState(frontmatter);
+		});
+
+		console.log(`Removed ${items.length} item(s) from ${characterFile.path}`);
+
+		return this.diffState(characterFile.path, before, after);
+	}
+
+	/**
+	 * Mark an unidentified item as identified and optionally debit gold for the service
+	 * The identified copies stack onto any identified entry for the same item
+	 * @param characterFile Character or party note file
+	 * @param itemRef Wikilink reference to the unidentified item
+	 * @param cost Gold to debit in base currency (ignored if the note doesn't track gold)
+	 * @returns Gold and inventory lines changed
+	 */
+	async identifyItem(characterFile: TFile, itemRef: string, cost: number = 0): Promise<CharacterChange> {
+		const itemName = this.shopParser.parseWikilink(itemRef);
+		const gold = this.toGold(cost);
+
+		let before: CharacterState = { gold: undefined, inventory: undefined };
+		let after: CharacterState = { gold: undefined, inventory: undefined };
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(characterFile, (frontmatter) => {
+			if (frontmatter.type !== 'character' && frontmatter.type !== 'party') {
+				throw new Error(`${characterFile.path} is not a character or party note`);
+			}
+
+			before = this.copyState(frontmatter);
+			const holderName = frontmatter.name || characterFile.basename;
+
+			const inventory: any[] = Array.isArray(frontmatter.inventory) ? frontmatter.inventory : [];
+			const index = this.findEntry(inventory, itemName, false);
+			if (index === -1) {
+				throw new Error(`${holderName} does not carry an unidentified ${itemName}`);
+			}
+
+			if (typeof frontmatter.gold === 'number' && gold > 0) {
+				if (frontmatter.gold < gold) {
+					throw new Error(`${holderName} cannot afford ${gold} gold`);
+				}
+				frontmatter.gold = Math.round((frontmatter.gold - gold) * 100) / 100;
+			}
+
+			const [entry] = inventory.splice(index, 1);
+			frontmatter.inventory = inventory;
+			this.stackItem(frontmatter, entry.item, typeof entry.quantity === 'number' ? entry.quantity : 1, true);
+
+			after = this.copyState(frontmatter);
+		});
+
+		console.log(`Identified ${itemName} for ${characterFile.path}`);
+
+		return this.diffState(characterFile.path, before, after);
+	}
+
+	/**
+	 * Re-apply (1) or reverse (-1) a recorded change (used by undo/redo)
+	 * Only the recorded gold and item lines are touched; fails without writing
+	 * if the note no longer holds what has to be taken away
+	 * @param characterFile Character or party note file
+	 * @param change Change recorded by an earlier edit
+	 * @param direction 1 to re-apply, -1 to reverse
+	 */
+	async applyChange(characterFile: TFile, change: CharacterChange, direction: 1 | -1): Promise<void> {
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(characterFile, (frontmatter) => {
+			const holderName = frontmatter.name || characterFile.basename;
+
+			const goldDelta = change.goldDelta * direction;
+			if (goldDelta !== 0) {
+				const gold = Math.round(((typeof frontmatter.gold === 'number' ? frontmatter.gold : 0) + goldDelta) * 100) / 100;
+				if (gold < 0) {
+					throw new Error(`${holderName} no longer has ${-goldDelta} gold`);
+				}
+				frontmatter.gold = gold;
+			}
+
+			const inventory: any[] = Array.isArray(frontmatter.inventory) ? frontmatter.inventory : [];
+			frontmatter.inventory = inventory;
+
+			// Removals first so a missing item fails before anything is added
+			const lines = change.items
+				.map(line => ({ ...line, quantity: line.quantity * direction }))
+				.sort((a, b) => a.quantity - b.quantity);
+
+			for (const line of lines) {
+				if (line.quantity > 0) {
+					this.stackItem(frontmatter, line.itemRef, line.quantity, line.identified);
+					continue;
+				}
+
+				const itemName = this.shopParser.parseWikilink(line.itemRef);
+				const index = this.findEntry(inventory, itemName, line.identified);
+				const entry = inventory[index];
+				// Bare wikilinks count as one item
+				const carried = index === -1 ? 0 : typeof entry === 'string' ? 1 : (typeof entry.quantity === 'number' ? entry.quantity : 1);
+
+				if (carried < -line.quantity) {
+					throw new Error(`${holderName} no longer carries ${-line.quantity}x ${itemName}`);
+				}
+
+				if (carried === -line.quantity) {
+					inventory.splice(index, 1);
+				} else {
+					entry.quantity = carried + line.quantity;
+				}
+			}
+		});
+
+		console.log(`Character change ${direction === 1 ? 'reapplied' : 'reversed'}: ${characterFile.path}`);
+	}
+
+	/**
+	 * Add an item to the frontmatter inventory, stacking onto an existing entry for the same item
+	 * Identified and unidentified copies are kept in separate entries
+	 */
+	private stackItem(frontmatter: any, itemRef: string, quantity: number, identified: boolean = true): void {
+		if (!Array.isArray(frontmatter.inventory)) {
+			frontmatter.inventory = [];
+		}
+
+		const itemName = this.shopParser.parseWikilink(itemRef);
+		const existingIndex = this.findEntry(frontmatter.inventory, itemName, identified);
+
+		if (existingIndex === -1) {
+			frontmatter.inventory.push(identified ? { item: itemRef, quantity } : { item: itemRef, quantity, identified: false });
+		} else {
+			const existing = frontmatter.inventory[existingIndex];
+			if (typeof existing === 'string') {
+				// Bare wikilinks count as one item
+				frontmatter.inventory[existingIndex] = { item: existing, quantity: 1 + quantity };
+			} else {
+				existing.quantity = (typeof existing.quantity === 'number' ? existing.quantity : 1) + quantity;
+			}
+		}
+	}
+
+	/**
+	 * Find the inventory entry for an item with the given identification state
+	 * Bare wikilinks and entries without `identified: false` are identified
+	 */
+	private findEntry(inventory: any[], itemName: string, identified: boolean): number {
+		return inventory.findIndex((entry: any) => {
+			const ref = typeof entry === 'string' ? entry : entry?.item;
+			const entryIdentified = typeof entry === 'string' || entry.identified !== false;
+			return typeof ref === 'string' && this.shopParser.parseWikilink(ref) === itemName && entryIdentified === identified;
+		});
+	}
+
+	/**
+	 * Deep copy the gold and inventory fields of a frontmatter object
+	 */
+	private copyState(frontmatter: any): CharacterState {
+		return JSON.parse(JSON.stringify({
+			gold: frontmatter.gold,
+			inventory: frontmatter.inventory
+		}));
+	}
+
+	/**
+	 * Work out the gold and inventory lines an edit changed
+	 */
+	private diffState(characterPath: string, before: CharacterState, after: CharacterState): CharacterChange {
+		const goldBefore = typeof before.gold === 'number' ? before.gold : 0;
+		const goldAfter = typeof after.gold === 'number' ? after.gold : 0;
+
+		const totals = new Map<string, CharacterItemChange>();
+		const count = (inventory: any, sign: 1 | -1) => {
+			if (!Array.isArray(inventory)) return;
+
+			for (const entry of inventory) {
+				const itemRef = typeof entry === 'string' ? entry : entry?.item;
+				if (typeof itemRef !== 'string') continue;
+
+				const identified = typeof entry === 'string' || entry.identified !== false;
+				// Bare wikilinks count as one item
+				const quantity = typeof entry === 'string' ? 1 : (typeof entry.quantity === 'number' ? entry.quantity : 1);
+				const key = `${this.shopParser.parseWikilink(itemRef)}|${identified}`;
+
+				const line = totals.get(key) || { itemRef, quantity: 0, identified };
+				line.quantity += sign * quantity;
+				totals.set(key, line);
+			}
+		};
+		count(before.inventory, -1);
+		count(after.inventory, 1);
+
+		return {
+			characterPath,
+			goldDelta: Math.round((goldAfter - goldBefore) * 100) / 100,
+			items: Array.from(totals.values()).filter(line => line.quantity !== 0)
+		};
+	}
+}
@@ -0,0 +1,375 @@
+import { App, TFile } from 'obsidian';
+import {
+	CharacterChange,
+	CharacterData,
+	Crafter,
+	CraftingCheck,
+	CraftingDestination,
+	CraftingMaterial,
+	PartyData,
+	RecipeData,
+	ShopboardSettings,
+	ShopData,
+	ShopSnapshot,
+	WalletChange
+} from '../types';
+import { ItemParser } from '../parsers/itemParser';
+import { ShopParser } from '../parsers/shopParser';
+import { LootGenerator } from '../utils/lootGenerator';
+import { PriceCalculator } from '../utils/priceCalculator';
+import { CharacterInventory } from './characterInventory';
+import { PartyWallet } from './partyWallet';
+import { ShopModifier } from './shopModifier';
+import { InventoryHistory } from './inventoryHistory';
+
+/**
+ * Crafting Manager - Checks recipes against carried materials and crafts items
+ * Material tags come from the item note's `crafting_tags`, or from the salvage
+ * tables when the material has no item note. A party crafts with every member's
+ * materials and pays from the party purse.
+ */
+export class CraftingManager {
+	private app: App;
+	private itemParser: ItemParser;
+	private shopParser: ShopParser;
+	private lootGenerator: LootGenerator;
+	private characterInventory: CharacterInventory;
+	private partyWallet: PartyWallet;
+	private shopModifier: ShopModifier;
+	private inventoryHistory: InventoryHistory;
+	private priceCalculator: PriceCalculator;
+	private settings: ShopboardSettings;
+
+	constructor(
+		app: App,
+		itemParser: ItemParser,
+		shopParser: ShopParser,
+		lootGenerator: LootGenerator,
+		characterInventory: CharacterInventory,
+		partyWallet: PartyWallet,
+		shopModifier: ShopModifier,
+		inventoryHistory: InventoryHistory,
+		priceCalculator: PriceCalculator,
+		settings: ShopboardSettings
+	) {
+		this.app = app;
+		this.itemParser = itemParser;
+		this.shopParser = shopParser;
+		this.lootGenerator = lootGenerator;
+		this.characterInventory = characterInventory;
+		this.partyWallet = partyWallet;
+		this.shopModifier = shopModifier;
+		this.inventoryHistory = inventoryHistory;
+		this.priceCalculator = priceCalculator;
+		this.settings = settings;
+	}
+
+	/**
+	 * Build a crafter for a single character
+	 * @param character Parsed character
+	 */
+	getCharacterCrafter(character: CharacterData): Crafter {
+		return {
+			kind: 'character',
+			path: character.path,
+			name: character.name,
+			characters: [character],
+			party: null
+		};
+	}
+
+	/**
+	 * Build a crafter for a party, pooling the materials of its members
+	 * @param party Parsed party
+	 * @param characters All parsed characters (members are matched by note name)
+	 */
+	getPartyCrafter(party: PartyData, characters: CharacterData[]): Crafter {
+		const memberNames = party.members.map(member => this.shopParser.parseWikilink(member).toLowerCase());
+		const members = characters.filter(character => {
+			const basename = (character.path.split('/').pop() || '').replace(/\.md$/, '').toLowerCase();
+			return memberNames.includes(basename) || memberNames.includes(character.name.toLowerCase());
+		});
+
+		return {
+			kind: 'party',
+			path: party.path,
+			name: party.name,
+			characters: members,
+			party
+		};
+	}
+
+	/**
+	 * List the materials a crafter carries with their crafting tags
+	 * Unidentified items can't be used as materials
+	 * @param crafter Character or party
+	 */
+	getMaterials(crafter: Crafter): CraftingMaterial[] {
+		const materials: CraftingMaterial[] = [];
+
+		for (const character of crafter.characters) {
+			for (const entry of character.inventory) {
+				if (!entry.identified) continue;
+
+				const name = this.shopParser.parseWikilink(entry.itemRef);
+				materials.push({
+					characterPath: character.path,
+					itemRef: entry.itemRef,
+					name,
+					quantity: entry.quantity,
+					tags: this.getTags(name)
+				});
+			}
+		}
+
+		return materials;
+	}
+
+	/**
+	 * Check a recipe against a crafter's materials, gold and tool proficiencies
+	 * Named materials are matched first, then tagged ones from what is left
+	 * @param recipe Recipe to check
+	 * @param crafter Character or party
+	 */
+	checkRecipe(recipe: RecipeData, crafter: Crafter): CraftingCheck {
+		const pool = this.getMaterials(crafter).map(material => ({ ...material }));
+		const consumed: CraftingCheck['consumed'] = [];
+		const missing: string[] = [];
+
+		const requirements = [
+			...recipe.requirements.filter(requirement => requirement.name),
+			...recipe.requirements.filter(requirement => !requirement.name)
+		];
+
+		for (const requirement of requirements) {
+			let needed = requirement.quantity;
+
+			for (const material of pool) {
+				if (needed === 0) break;
+				if (material.quantity === 0) continue;
+
+				const matches = requirement.name
+					? material.name.toLowerCase() === requirement.name.toLowerCase()
+					: material.tags.includes(requirement.tag!);
+				if (!matches) continue;
+
+				const taken = Math.min(needed, material.quantity);
+				material.quantity -= taken;
+				needed -= taken;
+
+				const existing = consumed.find(entry => entry.characterPath === material.characterPath && entry.itemRef === material.itemRef);
+				if (existing) {
+					existing.quantity += taken;
+				} else {
+					consumed.push({ characterPath: material.characterPath, itemRef: material.itemRef, quantity: taken });
+				}
+			}
+
+			if (needed > 0) {
+				missing.push(`${needed}x ${requirement.name || `${requirement.tag} material`}`);
+			}
+		}
+
+		if (!this.canAfford(recipe, crafter)) {
+			missing.push(`${recipe.goldCost} gp`);
+		}
+
+		if (recipe.tool && !this.hasTool(recipe.tool, crafter)) {
+			missing.push(recipe.tool);
+		}
+
+		return { recipe, craftable: missing.length === 0, consumed, missing };
+	}
+
+	/**
+	 * Craft a recipe: consume the materials, pay the gold cost and deliver the item
+	 * Every note is checked before anything is written; if a write fails, the notes
+	 * already changed are put back. The party purse is debited last.
+	 * The craft is recorded in the destination's undo history.
+	 * @param check Craftable recipe check (from checkRecipe with fresh character data)
+	 * @param crafter Character or party crafting
+	 * @param destination Character inventory or shop receiving the crafted item
+	 */
+	async craft(check: CraftingCheck, crafter: Crafter, destination: CraftingDestination): Promise<void> {
+		if (!check.craftable) {
+			throw new Error(`Cannot craft ${check.recipe.name}: missing ${check.missing.join(', ')}`);
+		}
+
+		const recipe = check.recipe;
+		const cost = this.getCost(recipe);
+
+		// Consume materials per character; a character crafter pays with the same edit
+		const paths = new Set(check.consumed.map(entry => entry.characterPath));
+		if (!crafter.party && cost > 0) {
+			paths.add(crafter.path);
+		}
+
+		// Resolve every note up front so a missing one stops the craft before any write
+		const holderFiles = Array.from(paths).map(path => this.getFile(path));
+		const partyFile = crafter.party && cost > 0 ? this.getFile(crafter.party.path) : null;
+		const destinationFile = this.getFile(destination.path);
+
+		let shop: ShopData | null = null;
+		let shopBefore: ShopSnapshot | null = null;
+		if (destination.kind === 'shop') {
+			shop = await this.shopParser.parseShopNote(destinationFile);
+			if (!shop) {
+				throw new Error(`${destinationFile.path} is not a valid shop note`);
+			}
+			shopBefore = await this.inventoryHistory.capture(destinationFile);
+		}
+
+		const characterChanges: CharacterChange[] = [];
+		let walletChange: WalletChange | undefined;
+
+		try {
+			for (const file of holderFiles) {
+				const items = check.consumed
+					.filter(entry => entry.characterPath === file.path)
+					.map(entry => ({ itemRef: entry.itemRef, quantity: entry.quantity }));
+				const characterCost = !crafter.party && file.path === crafter.path ? cost : 0;
+
+				characterChanges.push(await this.characterInventory.removeItems(file, items, characterCost));
+			}
+
+			if (shop) {
+				await this.addToShop(destinationFile, shop, recipe);
+			} else {
+				characterChanges.push(await this.characterInventory.addItems(destinationFile, [
+					{ itemRef: recipe.outputRef, quantity: recipe.outputQuantity }
+				]));
+			}
+
+			// Pay last so a failed write never costs the party
+			if (partyFile) {
+				walletChange = await this.partyWallet.debit(partyFile, cost);
+			}
+		} catch (error) {
+			await this.rollback(characterChanges, destinationFile, shopBefore);
+			throw error;
+		}
+
+		try {
+			await this.inventoryHistory.record(
+				destinationFile,
+				`Craft ${recipe.outputQuantity}x ${this.shopParser.parseWikilink(recipe.outputRef)}`,
+				shopBefore,
+				[],
+				walletChange,
+				characterChanges
+			);
+		} catch (error) {
+			console.error(`Error recording craft history for ${destinationFile.path}:`, error);
+		}
+
+		console.log(`Crafted ${recipe.outputQuantity}x ${recipe.outputRef} (${recipe.name}) for ${crafter.name}`);
+	}
+
+	/**
+	 * Get the gold cost of a recipe in base currency
+	 * @param recipe Recipe
+	 */
+	getCost(recipe: RecipeData): number {
+		return Math.round(this.priceCalculator.convertCurrency(recipe.goldCost, 'gp', this.settings.currency.baseCurrency));
+	}
+
+	/**
+	 * Get the crafting tags of a material
+	 * The item note's `crafting_tags` win; otherwise salvage table entries with the same name are used
+	 */
+	private getTags(name: string): string[] {
+		const item = this.itemParser.getItemByName(name);
+		const itemTags = item?.metadata?.crafting_tags;
+		if (Array.isArray(itemTags)) {
+			return itemTags.map(tag => String(tag).toLowerCase());
+		}
+
+		const tags = new Set<string>();
+		for (const table of this.lootGenerator.getSalvageTables()) {
+			for (const material of table.materials) {
+				if (material.name.toLowerCase() === name.toLowerCase()) {
+					material.craftingTags.forEach(tag => tags.add(tag.toLowerCase()));
+				}
+			}
+		}
+
+		return Array.from(tags);
+	}
+
+	/**
+	 * Check whether a crafter can pay for a recipe
+	 * Characters without a gold field don't track money and can always pay
+	 */
+	private canAfford(recipe: RecipeData, crafter: Crafter): boolean {
+		const cost = this.getCost(recipe);
+		if (cost === 0) return true;
+
+		if (crafter.party) {
+			return this.partyWallet.canAfford(crafter.party.purse, cost);
+		}
+
+		const gold = crafter.characters[0]?.gold;
+		return gold === null || gold === undefined || gold >= this.characterInventory.toGold(cost);
+	}
+
+	/**
+	 * Check whether any of the crafter's characters is proficient with a tool
+	 * Characters without tool_proficiencies don't track them and count as proficient
+	 */
+	private hasTool(tool: string, crafter: Crafter): boolean {
+		return crafter.characters.some(character =>
+			character.toolProficiencies === null ||
+			character.toolProficiencies.some(proficiency => proficiency.toLowerCase() === tool.toLowerCase())
+		);
+	}
+
+	/**
+	 * Add a crafted item to a shop inventory, stacking onto an existing entry
+	 */
+	private async addToShop(shopFile: TFile, shop: ShopData, recipe: RecipeData): Promise<void> {
+		const existingIndex = shop.inventory.findIndex(item => item.itemRef === recipe.outputRef);
+
+		if (existingIndex !== -1) {
+			await this.shopModifier.updateItemQuantity(
+				shopFile,
+				existingIndex,
+				shop.inventory[existingIndex].quantity + recipe.outputQuantity
+			);
+		} else {
+			await this.shopModifier.addInventoryItem(shopFile, recipe.outputRef, recipe.outputQuantity, null);
+		}
+	}
+
+	/**
+	 * Put back the notes a failed craft already changed
+	 * Rollback failures are logged so the original error is the one reported
+	 */
+	private async rollback(characterChanges: CharacterChange[], shopFile: TFile, shopBefore: ShopSnapshot | null): Promise<void> {
+		for (const change of [...characterChanges].reverse()) {
+			try {
+				await this.characterInventory.applyChange(this.getFile(change.characterPath), change, -1);
+			} catch (error) {
+				console.error(`Error rolling back craft on ${change.characterPath}:`, error);
+			}
+		}
+
+		if (shopBefore) {
+			try {
+				await this.shopModifier.restoreSnapshot(shopFile, shopBefore);
+			} catch (error) {
+				console.error(`Error rolling back craft on ${shopFile.path}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Get a note file by path
+	 */
+	private getFile(path: string): TFile {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Note not found: ${path}`);
+		}
+		return file;
+	}
+}
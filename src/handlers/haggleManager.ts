@@ -0,0 +1,200 @@
+import { HaggleOutcome, HaggleSkill, HaggleTier, ShopData, ShopboardSettings } from '../types';
+
+/**
+ * Haggle Manager - Resolves haggle checks and tracks their effects
+ * Tracks attempts per item (for diminishing returns), one pending deal per item,
+ * and shopkeepers refusing to trade. State lasts until a new ledger session starts.
+ */
+export class HaggleManager {
+	private settings: ShopboardSettings;
+	private attempts: Map<string, number> = new Map();
+	private deals: Map<string, HaggleOutcome> = new Map();
+	private refusals: Map<string, number> = new Map();
+
+	constructor(settings: ShopboardSettings) {
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the shopkeeper's base DC from the shop note
+	 * The shopkeeper block's haggle_dc wins over the shop's haggle_dc
+	 * @param shop Parsed shop data
+	 */
+	getBaseDC(shop: ShopData): number {
+		if (shop.shopkeeper?.haggleDC !== undefined && shop.shopkeeper.haggleDC !== null) {
+			return shop.shopkeeper.haggleDC;
+		}
+
+		const dc = shop.metadata.haggle_dc;
+		return typeof dc === 'number' && Number.isFinite(dc) ? dc : this.settings.defaultHaggleDC;
+	}
+
+	/**
+	 * Get the DC for the next haggle attempt on an item
+	 * Each earlier attempt on the same item raises the DC
+	 * @param shop Parsed shop data
+	 * @param itemRef Wikilink reference to the item
+	 */
+	getDC(shop: ShopData, itemRef: string): number {
+		const previous = this.attempts.get(this.getKey(shop.path, itemRef)) || 0;
+		return this.getBaseDC(shop) + previous * this.settings.haggleDCIncrease;
+	}
+
+	/**
+	 * Get the number of earlier haggle attempts on an item
+	 * @param shopPath Shop note file path
+	 * @param itemRef Wikilink reference to the item
+	 */
+	getAttempts(shopPath: string, itemRef: string): number {
+		return this.attempts.get(this.getKey(shopPath, itemRef)) || 0;
+	}
+
+	/**
+	 * Resolve a haggle attempt against the haggle table
+	 * @param shop Parsed shop data
+	 * @param itemRef Wikilink reference to the item
+	 * @param skill Skill used
+	 * @param roll Total check result
+	 * @returns The outcome (stored as the item's pending deal unless refused)
+	 */
+	haggle(shop: ShopData, itemRef: string, skill: HaggleSkill, roll: number): HaggleOutcome {
+		// Validate inputs
+		if (!Number.isInteger(roll)) {
+			throw new Error('Roll must be a whole number');
+		}
+
+		if (this.isRefusing(shop.path)) {
+			throw new Error('The shopkeeper refuses to trade right now');
+		}
+
+		const key = this.getKey(shop.path, itemRef);
+		const dc = this.getDC(shop, itemRef);
+		const tier = this.findTier(roll - dc);
+		const attempt = (this.attempts.get(key) || 0) + 1;
+
+		const outcome: HaggleOutcome = {
+			skill,
+			roll,
+			dc,
+			modifier: tier.refuse ? 0 : tier.modifier,
+			refused: tier.refuse,
+			label: tier.label,
+			attempt
+		};
+
+		this.attempts.set(key, attempt);
+
+		if (outcome.refused) {
+			// Refusal cancels every deal at this shop
+			for (const dealKey of Array.from(this.deals.keys())) {
+				if (dealKey.startsWith(`${shop.path}::`)) {
+					this.deals.delete(dealKey);
+				}
+			}
+			this.refusals.set(shop.path, Date.now() + this.settings.haggleRefusalMinutes * 60 * 1000);
+		} else {
+			// Latest result replaces any earlier deal
+			this.deals.set(key, outcome);
+		}
+
+		console.log(`Haggle: ${skill} ${roll} vs DC ${dc} -> ${tier.label}`);
+
+		return outcome;
+	}
+
+	/**
+	 * Get the pending deal for an item, if any
+	 * @param shopPath Shop note file path
+	 * @param itemRef Wikilink reference to the item
+	 */
+	getDeal(shopPath: string, itemRef: string): HaggleOutcome | null {
+		return this.deals.get(this.getKey(shopPath, itemRef)) || null;
+	}
+
+	/**
+	 * Use up the pending deal for an item (deals apply to one transaction)
+	 * @param shopPath Shop note file path
+	 * @param itemRef Wikilink reference to the item
+	 */
+	consumeDeal(shopPath: string, itemRef: string): void {
+		this.deals.delete(this.getKey(shopPath, itemRef));
+	}
+
+	/**
+	 * Give back a deal used up by a sale that was undone
+	 * A deal struck since then is kept
+	 * @param shopPath Shop note file path
+	 * @param itemRef Wikilink reference to the item
+	 * @param deal The deal the sale used
+	 */
+	restoreDeal(shopPath: string, itemRef: string, deal: HaggleOutcome): void {
+		const key = this.getKey(shopPath, itemRef);
+		if (!this.deals.has(key)) {
+			this.deals.set(key, deal);
+		}
+	}
+
+	/**
+	 * Check whether a shopkeeper is currently refusing to trade
+	 * @param shopPath Shop note file path
+	 */
+	isRefusing(shopPath: string): boolean {
+		return this.getRefusalEnd(shopPath) !== null;
+	}
+
+	/**
+	 * Get when a shopkeeper's refusal ends
+	 * @param shopPath Shop note file path
+	 * @returns Timestamp (ms since epoch), or null if not refusing
+	 */
+	getRefusalEnd(shopPath: string): number | null {
+		const until = this.refusals.get(shopPath);
+
+		if (until === undefined) return null;
+
+		if (until <= Date.now()) {
+			this.refusals.delete(shopPath);
+			return null;
+		}
+
+		return until;
+	}
+
+	/**
+	 * End a refusal early (the DM decides the shopkeeper has calmed down)
+	 * @param shopPath Shop note file path
+	 */
+	clearRefusal(shopPath: string): void {
+		this.refusals.delete(shopPath);
+	}
+
+	/**
+	 * Forget all attempts, deals and refusals (called when a new ledger session starts)
+	 */
+	reset(): void {
+		this.attempts.clear();
+		this.deals.clear();
+		this.refusals.clear();
+	}
+
+	/**
+	 * Find the haggle table row for a roll margin
+	 * Rows are checked from the highest minMargin down; the lowest row is the fallback
+	 */
+	private findTier(margin: number): HaggleTier {
+		const table = [...this.settings.haggleTable].sort((a, b) => b.minMargin - a.minMargin);
+
+		if (table.length === 0) {
+			return { minMargin: 0, modifier: 0, refuse: false, label: 'No deal' };
+		}
+
+		return table.find(tier => margin >= tier.minMargin) || table[table.length - 1];
+	}
+
+	/**
+	 * Build the map key for a shop item
+	 */
+	private getKey(shopPath: string, itemRef: string): string {
+		return `${shopPath}::${itemRef}`;
+	}
+}
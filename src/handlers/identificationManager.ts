@@ -0,0 +1,228 @@
+import { App, TFile } from 'obsidian';
+import {
+	CharacterData,
+	GeneratedLoot,
+	IdentificationHolder,
+	ItemData,
+	PartyData,
+	ShopData,
+	ShopboardSettings,
+	UnidentifiedItem
+} from '../types';
+import { ItemParser } from '../parsers/itemParser';
+import { ShopParser } from '../parsers/shopParser';
+import { LootNoteWriter } from '../utils/lootNoteWriter';
+import { PriceCalculator } from '../utils/priceCalculator';
+import { CharacterInventory } from './characterInventory';
+import { PartyWallet } from './partyWallet';
+
+/**
+ * Identification Manager - Tracks unidentified magic items and reveals them
+ * Players see an item note's `unidentified_name` and `unidentified_description`
+ * (or a generic stand-in) until the DM identifies the item. Shops with an
+ * `identify_cost` (gp per item) offer identification as a paid service.
+ */
+export class IdentificationManager {
+	private app: App;
+	private itemParser: ItemParser;
+	private shopParser: ShopParser;
+	private lootNoteWriter: LootNoteWriter;
+	private characterInventory: CharacterInventory;
+	private partyWallet: PartyWallet;
+	private priceCalculator: PriceCalculator;
+	private settings: ShopboardSettings;
+
+	constructor(
+		app: App,
+		itemParser: ItemParser,
+		shopParser: ShopParser,
+		lootNoteWriter: LootNoteWriter,
+		characterInventory: CharacterInventory,
+		partyWallet: PartyWallet,
+		priceCalculator: PriceCalculator,
+		settings: ShopboardSettings
+	) {
+		this.app = app;
+		this.itemParser = itemParser;
+		this.shopParser = shopParser;
+		this.lootNoteWriter = lootNoteWriter;
+		this.characterInventory = characterInventory;
+		this.partyWallet = partyWallet;
+		this.priceCalculator = priceCalculator;
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the name players see for an item
+	 * @param itemData Resolved item data (null if the item note is missing)
+	 * @param itemRef Wikilink reference to the item
+	 * @param identified Whether the item is identified
+	 */
+	getDisplayName(itemData: ItemData | null, itemRef: string, identified: boolean): string {
+		if (identified) {
+			return itemData?.name || this.shopParser.parseWikilink(itemRef);
+		}
+
+		const name = itemData?.metadata?.unidentified_name;
+		if (typeof name === 'string' && name.trim()) {
+			return name.trim();
+		}
+
+		const type = this.getItemType(itemData)
+			.split(' ')
+			.map(word => word.charAt(0).toUpperCase() + word.slice(1))
+			.join(' ');
+		return `Unidentified ${type}`;
+	}
+
+	/**
+	 * Get the description players see for an item
+	 * @param itemData Resolved item data (null if the item note is missing)
+	 * @param identified Whether the item is identified
+	 * @returns Description, or null if there is none to show
+	 */
+	getDisplayDescription(itemData: ItemData | null, identified: boolean): string | null {
+		if (identified) {
+			return itemData?.description || null;
+		}
+
+		const description = itemData?.metadata?.unidentified_description;
+		if (typeof description === 'string' && description.trim()) {
+			return description.trim();
+		}
+
+		return `This ${this.getItemType(itemData)} radiates magic, but what it does stays a mystery until it is identified.`;
+	}
+
+	/**
+	 * Get a shop's identification price
+	 * @param shop Parsed shop
+	 * @returns Price per item in gp, or null if the shop doesn't identify items
+	 */
+	getServiceCost(shop: ShopData): number | null {
+		const cost = shop.metadata?.identify_cost;
+		return typeof cost === 'number' && cost >= 0 ? cost : null;
+	}
+
+	/**
+	 * List the unidentified magic items of a loot hoard
+	 * @param loot Generated loot
+	 * @param file Loot note the loot is saved in, if any
+	 */
+	getLootHolder(loot: GeneratedLoot, file: TFile | null): IdentificationHolder {
+		const items: UnidentifiedItem[] = [];
+
+		loot.magicItems.forEach((item, index) => {
+			if (item.identified) return;
+
+			items.push({
+				itemRef: item.itemRef,
+				itemData: item.itemData,
+				quantity: item.quantity,
+				lootIndex: index
+			});
+		});
+
+		return { kind: 'loot', path: file ? file.path : null, name: file ? file.basename : 'Displayed loot', items };
+	}
+
+	/**
+	 * List the unidentified items of a character or party stash
+	 * @param holder Parsed character or party
+	 * @param kind Whether the holder is a character or a party
+	 */
+	getInventoryHolder(holder: CharacterData | PartyData, kind: 'character' | 'party'): IdentificationHolder {
+		const items: UnidentifiedItem[] = holder.inventory
+			.filter(entry => !entry.identified)
+			.map(entry => ({
+				itemRef: entry.itemRef,
+				itemData: this.itemParser.getItemByName(this.shopParser.parseWikilink(entry.itemRef)),
+				quantity: entry.quantity,
+				lootIndex: null
+			}));
+
+		return { kind, path: holder.path, name: holder.name, items };
+	}
+
+	/**
+	 * Identify a magic item of a loot hoard
+	 * Saved loot notes are updated too
+	 * @param loot Generated loot (updated in place)
+	 * @param file Loot note the loot is saved in, if any
+	 * @param index Index of the item in loot.magicItems
+	 */
+	async identifyLootItem(loot: GeneratedLoot, file: TFile | null, index: number): Promise<void> {
+		const item = loot.magicItems[index];
+		if (!item) {
+			throw new Error(`Loot has no magic item at index ${index}`);
+		}
+
+		item.identified = true;
+
+		if (file) {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				if (Array.isArray(frontmatter.magic_items) && frontmatter.magic_items[index]) {
+					frontmatter.magic_items[index].identified = true;
+				}
+			});
+			await this.app.vault.process(file, (content) =>
+				this.lootNoteWriter.updateMagicItemsSection(content, loot.magicItems)
+			);
+		}
+
+		console.log(`Identified ${item.itemRef} in ${file ? file.path : 'displayed loot'}`);
+	}
+
+	/**
+	 * Identify an item in a character inventory or party stash
+	 * A shop's identification service is paid per item, by the character or from the party purse
+	 * @param holder Character or party holding the item
+	 * @param item Unidentified item
+	 * @param shop Shop providing the service (null when the DM reveals the item for free)
+	 * @returns Price paid in gp
+	 */
+	async identifyInventoryItem(holder: IdentificationHolder, item: UnidentifiedItem, shop: ShopData | null): Promise<number> {
+		if (holder.kind === 'loot' || !holder.path) {
+			throw new Error('Loot items are identified with identifyLootItem');
+		}
+
+		const file = this.app.vault.getAbstractFileByPath(holder.path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Note not found: ${holder.path}`);
+		}
+
+		const unitCost = shop ? this.getServiceCost(shop) : null;
+		if (shop && unitCost === null) {
+			throw new Error(`${shop.name} doesn't offer identification`);
+		}
+
+		const price = (unitCost || 0) * item.quantity;
+		const cost = Math.round(this.priceCalculator.convertCurrency(price, 'gp', this.settings.currency.baseCurrency));
+
+		if (holder.kind === 'party') {
+			// Identify first so a missing stash entry never costs the party
+			const change = await this.characterInventory.identifyItem(file, item.itemRef);
+			if (cost > 0) {
+				try {
+					await this.partyWallet.debit(file, cost);
+				} catch (error) {
+					// The party couldn't pay, so the item stays unidentified
+					await this.characterInventory.applyChange(file, change, -1);
+					throw error;
+				}
+			}
+		} else {
+			await this.characterInventory.identifyItem(file, item.itemRef, cost);
+		}
+
+		return price;
+	}
+
+	/**
+	 * Get the lowercase item type used in generic unidentified names
+	 */
+	private getItemType(itemData: ItemData | null): string {
+		const type = itemData?.metadata?.item_type;
+		return typeof type === 'string' && type.trim() ? type.trim().toLowerCase() : 'item';
+	}
+}
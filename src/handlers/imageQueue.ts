@@ -0,0 +1,333 @@
+import { App, TFile, TFolder } from 'obsidian';
+import { ImageQueueEntry, ImageQueueRunResult, ShopboardSettings } from '../types';
+import { ImageGenerator } from '../utils/imageGenerator';
+import { ItemParser } from '../parsers/itemParser';
+
+/**
+ * Generation attempts per item before it is marked as failed
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Wait before the first retry; each further retry waits three times longer
+ */
+const RETRY_DELAY_MS = 5000;
+
+/**
+ * Image Queue - Batch image generation with retries and a per-run image limit
+ * The queue is stored in plugin data so it survives a reload; a run never
+ * starts by itself, so reloading can't generate (and bill) images unasked
+ */
+export class ImageQueue {
+	private app: App;
+	private imageGenerator: ImageGenerator;
+	private itemParser: ItemParser;
+	private settings: ShopboardSettings;
+	private save: () => Promise<void>;
+	private running: boolean = false;
+	private cancelled: boolean = false;
+	private wakeUp: (() => void) | null = null;
+
+	constructor(
+		app: App,
+		imageGenerator: ImageGenerator,
+		itemParser: ItemParser,
+		settings: ShopboardSettings,
+		save: () => Promise<void>
+	) {
+		this.app = app;
+		this.imageGenerator = imageGenerator;
+		this.itemParser = itemParser;
+		this.settings = settings;
+		this.save = save;
+
+		// A run interrupted by a reload starts over for that item
+		for (const entry of this.settings.imageQueue) {
+			if (entry.status === 'running') {
+				entry.status = 'pending';
+			}
+		}
+	}
+
+	/**
+	 * Get every queued item, in queue order
+	 */
+	getEntries(): ImageQueueEntry[] {
+		return this.settings.imageQueue;
+	}
+
+	/**
+	 * Count the items waiting to be generated
+	 */
+	getPendingCount(): number {
+		return this.settings.imageQueue.filter(entry => entry.status === 'pending').length;
+	}
+
+	/**
+	 * Check whether a run is in progress
+	 */
+	isRunning(): boolean {
+		return this.running;
+	}
+
+	/**
+	 * Add item notes to the queue
+	 * Files that aren't item or equipment notes are skipped; finished items are queued again
+	 * @param files Files to queue
+	 * @param shopTheme Theme of the shop the items are queued from (picks prompt overrides)
+	 * @returns Number of items added or re-queued
+	 */
+	async enqueue(files: TFile[], shopTheme: string | null = null): Promise<number> {
+		let added = 0;
+
+		for (const file of files) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (frontmatter?.type !== 'item' && frontmatter?.type !== 'equipment') continue;
+
+			const existing = this.settings.imageQueue.find(entry => entry.path === file.path);
+			if (existing) {
+				if (existing.status === 'done' || existing.status === 'failed') {
+					this.reset(existing);
+					existing.shopTheme = shopTheme;
+					added++;
+				}
+				continue;
+			}
+
+			this.settings.imageQueue.push({
+				path: file.path,
+				name: frontmatter.name || file.basename,
+				status: 'pending',
+				attempts: 0,
+				error: null,
+				imagePath: null,
+				shopTheme
+			});
+			added++;
+		}
+
+		if (added > 0) {
+			await this.persist();
+		}
+
+		return added;
+	}
+
+	/**
+	 * Add every item note in a folder and its subfolders to the queue
+	 * @param folder Vault folder
+	 * @returns Number of items added or re-queued
+	 */
+	async enqueueFolder(folder: TFolder): Promise<number> {
+		const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+		const files = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+		return await this.enqueue(files);
+	}
+
+	/**
+	 * Generate images for pending items, oldest first
+	 * Failed attempts are retried with increasing delays; the run stops once
+	 * the per-run image limit is reached and leaves the rest pending
+	 * @throws Error if the image provider isn't configured
+	 */
+	async run(): Promise<ImageQueueRunResult> {
+		if (this.running) {
+			throw new Error('The image queue is already running');
+		}
+
+		if (!this.imageGenerator.isConfigured()) {
+			throw new Error(this.imageGenerator.getSetupHint());
+		}
+
+		this.running = true;
+		this.cancelled = false;
+
+		const limit = this.settings.imageQueueLimit;
+		let generated = 0;
+		let failed = 0;
+		let limitReached = false;
+
+		try {
+			while (!this.cancelled) {
+				const entry = this.settings.imageQueue.find(candidate => candidate.status === 'pending');
+				if (!entry) break;
+
+				if (limit > 0 && generated >= limit) {
+					limitReached = true;
+					break;
+				}
+
+				await this.process(entry);
+
+				if (entry.status === 'done') {
+					generated++;
+				} else if (entry.status === 'failed') {
+					failed++;
+				}
+			}
+		} finally {
+			this.running = false;
+			await this.persist();
+		}
+
+		console.log(`Image queue run finished: ${generated} generated, ${failed} failed, ${this.getPendingCount()} pending`);
+
+		return { generated, failed, remaining: this.getPendingCount(), limitReached, cancelled: this.cancelled };
+	}
+
+	/**
+	 * Stop the current run and drop every item that isn't finished
+	 * An image already being generated still completes
+	 */
+	async cancel(): Promise<void> {
+		this.stop();
+
+		this.settings.imageQueue = this.settings.imageQueue.filter(entry => entry.status === 'done');
+		await this.persist();
+	}
+
+	/**
+	 * Stop the current run after the item in progress, keeping the queue
+	 */
+	stop(): void {
+		this.cancelled = true;
+
+		// Skip any retry delay
+		if (this.wakeUp) {
+			this.wakeUp();
+		}
+	}
+
+	/**
+	 * Queue failed items again
+	 * @returns Number of items re-queued
+	 */
+	async retryFailed(): Promise<number> {
+		const failed = this.settings.imageQueue.filter(entry => entry.status === 'failed');
+		failed.forEach(entry => this.reset(entry));
+
+		if (failed.length > 0) {
+			await this.persist();
+		}
+
+		return failed.length;
+	}
+
+	/**
+	 * Remove finished items from the queue
+	 */
+	async clearFinished(): Promise<void> {
+		this.settings.imageQueue = this.settings.imageQueue.filter(entry => entry.status !== 'done');
+		await this.persist();
+	}
+
+	/**
+	 * Follow item notes that are renamed while queued
+	 * @param oldPath Previous file path
+	 * @param newPath New file path
+	 */
+	rename(oldPath: string, newPath: string): void {
+		const entry = this.settings.imageQueue.find(candidate => candidate.path === oldPath);
+		if (entry) {
+			entry.path = newPath;
+			this.persist();
+		}
+	}
+
+	/**
+	 * Generate the image of one item, retrying on failure
+	 */
+	private async process(entry: ImageQueueEntry): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile)) {
+			entry.status = 'failed';
+			entry.error = 'Item note not found';
+			await this.persist();
+			return;
+		}
+
+		entry.status = 'running';
+		entry.attempts = 0;
+		entry.error = null;
+		await this.persist();
+
+		while (entry.attempts < MAX_ATTEMPTS) {
+			entry.attempts++;
+
+			try {
+				entry.imagePath = await this.imageGenerator.createImage(file, entry.shopTheme ?? null);
+				entry.status = 'done';
+				entry.error = null;
+				await this.persist();
+
+				// Refresh the item cache so the new image appears immediately
+				await this.itemParser.refreshItem(file);
+				return;
+			} catch (error) {
+				entry.error = error instanceof Error ? error.message : String(error);
+				console.warn(`Image attempt ${entry.attempts}/${MAX_ATTEMPTS} failed for ${entry.path}:`, error);
+			}
+
+			if (entry.attempts < MAX_ATTEMPTS && !this.cancelled) {
+				this.notify();
+				await this.wait(RETRY_DELAY_MS * Math.pow(3, entry.attempts - 1));
+			}
+
+			if (this.cancelled) {
+				// Try again on the next run
+				entry.status = 'pending';
+				await this.persist();
+				return;
+			}
+		}
+
+		entry.status = 'failed';
+		await this.persist();
+	}
+
+	/**
+	 * Put an entry back to pending
+	 */
+	private reset(entry: ImageQueueEntry): void {
+		entry.status = 'pending';
+		entry.attempts = 0;
+		entry.error = null;
+	}
+
+	/**
+	 * Wait before a retry; stop() ends the wait early
+	 */
+	private wait(ms: number): Promise<void> {
+		return new Promise(resolve => {
+			const timeout = setTimeout(() => {
+				this.wakeUp = null;
+				resolve();
+			}, ms);
+
+			this.wakeUp = () => {
+				clearTimeout(timeout);
+				this.wakeUp = null;
+				resolve();
+			};
+		});
+	}
+
+	/**
+	 * Save the queue and let open views know it changed
+	 */
+	private async persist(): Promise<void> {
+		try {
+			await this.save();
+		} catch (error) {
+			console.error('Error saving image queue:', error);
+		}
+		this.notify();
+	}
+
+	/**
+	 * Let open views know the queue changed
+	 */
+	private notify(): void {
+		this.app.workspace.trigger('shopboard:image-queue-updated');
+	}
+}
@@ -0,0 +1,319 @@
+import { App, TFile } from 'obsidian';
+import { CharacterChange, ConsumedDeal, InventoryHistoryEntry, LedgerEntry, LootSaleChange, ShopSnapshot, WalletChange } from '../types';
+import { ShopModifier } from './shopModifier';
+import { TransactionLedger } from './transactionLedger';
+import { PartyWallet } from './partyWallet';
+import { CharacterInventory } from './characterInventory';
+import { HaggleManager } from './haggleManager';
+import { LootSoldMarker } from './lootSoldMarker';
+
+/**
+ * Maximum number of undo steps kept per shop
+ */
+const MAX_HISTORY = 50;
+
+/**
+ * Inventory History - Undo/redo stack for DM inventory edits
+ * Each shop keeps its own stacks; edits that don't touch a shop (such as crafting
+ * into a character's inventory) are kept on the note they changed.
+ * History lives for the current Obsidian session.
+ */
+export class InventoryHistory {
+	private app: App;
+	private shopModifier: ShopModifier;
+	private ledger: TransactionLedger;
+	private partyWallet: PartyWallet;
+	private characterInventory: CharacterInventory;
+	private haggleManager: HaggleManager;
+	private lootSoldMarker: LootSoldMarker;
+	private undoStacks: Map<string, InventoryHistoryEntry[]> = new Map();
+	private redoStacks: Map<string, InventoryHistoryEntry[]> = new Map();
+
+	constructor(
+		app: App,
+		shopModifier: ShopModifier,
+		ledger: TransactionLedger,
+		partyWallet: PartyWallet,
+		characterInventory: CharacterInventory,
+		haggleManager: HaggleManager,
+		lootSoldMarker: LootSoldMarker
+	) {
+		this.app = app;
+		this.shopModifier = shopModifier;
+		this.ledger = ledger;
+		this.partyWallet = partyWallet;
+		this.characterInventory = characterInventory;
+		this.haggleManager = haggleManager;
+		this.lootSoldMarker = lootSoldMarker;
+	}
+
+	/**
+	 * Capture the current state of a shop before editing it
+	 * @param shopFile Shop note file
+	 */
+	async capture(shopFile: TFile): Promise<ShopSnapshot> {
+		return await this.shopModifier.captureSnapshot(shopFile);
+	}
+
+	/**
+	 * Record a completed edit
+	 * Captures the state after the edit and clears the redo stack
+	 * @param shopFile Shop note file (or the note the edit belongs to when no shop was touched)
+	 * @param label Short description of the edit
+	 * @param before Snapshot captured before the edit, or null if no shop was touched
+	 * @param ledgerEntries Ledger entries recorded by the edit
+	 * @param walletChange Party purse change made by the edit
+	 * @param characterChanges Character note changes made by the edit
+	 * @param consumedDeals Haggle deals used up by the edit
+	 * @param lootSale Loot entries the edit marked sold
+	 */
+	async record(
+		shopFile: TFile,
+		label: string,
+		before: ShopSnapshot | null,
+		ledgerEntries: LedgerEntry[] = [],
+		walletChange?: WalletChange,
+		characterChanges: CharacterChange[] = [],
+		consumedDeals: ConsumedDeal[] = [],
+		lootSale?: LootSaleChange
+	): Promise<void> {
+		const after = before ? await this.shopModifier.captureSnapshot(shopFile) : null;
+
+		const undoStack = this.getStack(this.undoStacks, shopFile.path);
+		undoStack.push({ label, before, after, ledgerEntries, walletChange, characterChanges, consumedDeals, lootSale });
+
+		// Drop oldest entries beyond the limit
+		if (undoStack.length > MAX_HISTORY) {
+			undoStack.splice(0, undoStack.length - MAX_HISTORY);
+		}
+
+		// A new edit invalidates anything that was undone
+		this.redoStacks.delete(shopFile.path);
+	}
+
+	/**
+	 * Undo the most recent edit for a shop
+	 * @param shopFile Shop note file
+	 * @returns The undone entry, or null if there is nothing to undo
+	 */
+	async undo(shopFile: TFile): Promise<InventoryHistoryEntry | null> {
+		const undoStack = this.getStack(this.undoStacks, shopFile.path);
+		const entry = undoStack.pop();
+		if (!entry) return null;
+
+		let holdersApplied = false;
+		let shopRestored = false;
+		try {
+			await this.applyHolders(entry, -1);
+			holdersApplied = true;
+			if (entry.before) {
+				await this.shopModifier.restoreSnapshot(shopFile, entry.before);
+				shopRestored = true;
+			}
+			await this.ledger.removeEntries(entry.ledgerEntries.map(e => e.id));
+		} catch (error) {
+			// Keep the entry so the DM can try again
+			undoStack.push(entry);
+
+			// Put back what was already changed so a retry doesn't apply it twice
+			await this.rollBack(shopFile, entry, 1, holdersApplied, shopRestored ? entry.after : null);
+			throw error;
+		}
+
+		// Give back the deals the edit used up
+		for (const { itemRef, deal } of entry.consumedDeals) {
+			this.haggleManager.restoreDeal(shopFile.path, itemRef, deal);
+		}
+
+		// Sold loot can be sold again
+		await this.applyLootSale(entry.lootSale, false);
+
+		this.getStack(this.redoStacks, shopFile.path).push(entry);
+		return entry;
+	}
+
+	/**
+	 * Redo the most recently undone edit for a shop
+	 * @param shopFile Shop note file
+	 * @returns The redone entry, or null if there is nothing to redo
+	 */
+	async redo(shopFile: TFile): Promise<InventoryHistoryEntry | null> {
+		const redoStack = this.getStack(this.redoStacks, shopFile.path);
+		const entry = redoStack.pop();
+		if (!entry) return null;
+
+		let holdersApplied = false;
+		let shopRestored = false;
+		try {
+			await this.applyHolders(entry, 1);
+			holdersApplied = true;
+			if (entry.after) {
+				await this.shopModifier.restoreSnapshot(shopFile, entry.after);
+				shopRestored = true;
+			}
+			await this.ledger.restoreEntries(entry.ledgerEntries);
+		} catch (error) {
+			// Keep the entry so the DM can try again
+			redoStack.push(entry);
+
+			// Put back what was already changed so a retry doesn't apply it twice
+			await this.rollBack(shopFile, entry, -1, holdersApplied, shopRestored ? entry.before : null);
+			throw error;
+		}
+
+		for (const { itemRef } of entry.consumedDeals) {
+			this.haggleManager.consumeDeal(shopFile.path, itemRef);
+		}
+
+		await this.applyLootSale(entry.lootSale, true);
+
+		this.getStack(this.undoStacks, shopFile.path).push(entry);
+		return entry;
+	}
+
+	/**
+	 * Get the label of the edit that would be undone next
+	 * @param shopPath Shop note file path
+	 */
+	peekUndo(shopPath: string): string | null {
+		const stack = this.undoStacks.get(shopPath);
+		return stack && stack.length > 0 ? stack[stack.length - 1].label : null;
+	}
+
+	/**
+	 * Get the label of the edit that would be redone next
+	 * @param shopPath Shop note file path
+	 */
+	peekRedo(shopPath: string): string | null {
+		const stack = this.redoStacks.get(shopPath);
+		return stack && stack.length > 0 ? stack[stack.length - 1].label : null;
+	}
+
+	/**
+	 * Move history when a shop note is renamed
+	 * @param oldPath Previous file path
+	 * @param newPath New file path
+	 */
+	rename(oldPath: string, newPath: string): void {
+		for (const stacks of [this.undoStacks, this.redoStacks]) {
+			const stack = stacks.get(oldPath);
+			if (stack) {
+				stacks.delete(oldPath);
+				stacks.set(newPath, stack);
+			}
+		}
+	}
+
+	/**
+	 * Return to where a failed undo or redo started
+	 * Failures here are logged so the original error reaches the DM
+	 * @param direction Direction that undoes the partial step (1 after a failed undo, -1 after a failed redo)
+	 * @param holdersApplied Whether the character and purse changes went through
+	 * @param snapshot Shop state to put back, or null if the shop wasn't touched
+	 */
+	private async rollBack(
+		shopFile: TFile,
+		entry: InventoryHistoryEntry,
+		direction: 1 | -1,
+		holdersApplied: boolean,
+		snapshot: ShopSnapshot | null
+	): Promise<void> {
+		try {
+			if (snapshot) {
+				await this.shopModifier.restoreSnapshot(shopFile, snapshot);
+			}
+			if (holdersApplied) {
+				await this.applyHolders(entry, direction);
+			}
+		} catch (error) {
+			console.error('Error rolling back a failed undo/redo:', error);
+		}
+	}
+
+	/**
+	 * Re-apply (1) or reverse (-1) an edit's changes to the character and party purse
+	 * These go first: a note that can no longer cover the change leaves everything as it was
+	 */
+	private async applyHolders(entry: InventoryHistoryEntry, direction: 1 | -1): Promise<void> {
+		const applied: CharacterChange[] = [];
+
+		try {
+			for (const change of entry.characterChanges) {
+				await this.applyCharacter(change, direction);
+				applied.push(change);
+			}
+
+			await this.applyPurse(entry.walletChange, direction);
+		} catch (error) {
+			// Put the characters back so the edit stays all-or-nothing
+			for (const change of applied.reverse()) {
+				await this.applyCharacter(change, direction === 1 ? -1 : 1);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Re-apply (1) or reverse (-1) the amount an edit added to or took from a party purse
+	 * Other changes made to the purse since then are left alone
+	 */
+	private async applyPurse(change: WalletChange | undefined, direction: 1 | -1): Promise<void> {
+		if (!change || change.amount === 0) return;
+
+		const partyFile = this.app.vault.getAbstractFileByPath(change.partyPath);
+		if (!(partyFile instanceof TFile)) {
+			console.warn(`Party note not found, purse not restored: ${change.partyPath}`);
+			return;
+		}
+
+		const amount = change.amount * direction;
+		if (amount > 0) {
+			await this.partyWallet.credit(partyFile, amount);
+		} else {
+			await this.partyWallet.debit(partyFile, -amount);
+		}
+	}
+
+	/**
+	 * Re-apply (1) or reverse (-1) the gold and items an edit changed on a character note
+	 * Other changes made to the note since then are left alone
+	 */
+	private async applyCharacter(change: CharacterChange, direction: 1 | -1): Promise<void> {
+		const characterFile = this.app.vault.getAbstractFileByPath(change.characterPath);
+		if (!(characterFile instanceof TFile)) {
+			console.warn(`Character note not found, inventory not restored: ${change.characterPath}`);
+			return;
+		}
+
+		await this.characterInventory.applyChange(characterFile, change, direction);
+	}
+
+	/**
+	 * Set (redo) or clear (undo) the sold marks a loot sale put on its loot
+	 * The shop edit stands either way, so a loot note that can't be updated is only logged
+	 */
+	private async applyLootSale(change: LootSaleChange | undefined, sold: boolean): Promise<void> {
+		if (!change) return;
+
+		try {
+			await this.lootSoldMarker.apply(change, sold);
+		} catch (error) {
+			console.error('Error updating sold loot marks:', error);
+		}
+	}
+
+	/**
+	 * Get (or create) the stack for a shop
+	 */
+	private getStack(
+		stacks: Map<string, InventoryHistoryEntry[]>,
+		shopPath: string
+	): InventoryHistoryEntry[] {
+		let stack = stacks.get(shopPath);
+		if (!stack) {
+			stack = [];
+			stacks.set(shopPath, stack);
+		}
+		return stack;
+	}
+}
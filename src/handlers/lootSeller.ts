@@ -0,0 +1,216 @@
+import { TFile } from 'obsidian';
+import { GeneratedLoot, LedgerEntry, LootSaleChange, LootSaleLine, ShopboardSettings, ShopData, WalletChange } from '../types';
+import { ShopParser } from '../parsers/shopParser';
+import { PriceCalculator } from '../utils/priceCalculator';
+import { ShopModifier } from './shopModifier';
+import { PartyWallet } from './partyWallet';
+import { TransactionLedger } from './transactionLedger';
+import { InventoryHistory } from './inventoryHistory';
+
+/**
+ * Loot Seller - Sells generated loot into a shop
+ * Buy-back prices work like the Buy Items modal: the shop's region and settlement
+ * modifiers, then the shop's price modifier minus 10% by default. Sold lines join the shop inventory and the party is paid in coins.
+ * Gems have no item note, so they join the inventory as plain priced lines.
+ */
+export class LootSeller {
+	private shopParser: ShopParser;
+	private shopModifier: ShopModifier;
+	private partyWallet: PartyWallet;
+	private ledger: TransactionLedger;
+	private inventoryHistory: InventoryHistory;
+	private priceCalculator: PriceCalculator;
+	private settings: ShopboardSettings;
+
+	constructor(
+		shopParser: ShopParser,
+		shopModifier: ShopModifier,
+		partyWallet: PartyWallet,
+		ledger: TransactionLedger,
+		inventoryHistory: InventoryHistory,
+		priceCalculator: PriceCalculator,
+		settings: ShopboardSettings
+	) {
+		this.shopParser = shopParser;
+		this.shopModifier = shopModifier;
+		this.partyWallet = partyWallet;
+		this.ledger = ledger;
+		this.inventoryHistory = inventoryHistory;
+		this.priceCalculator = priceCalculator;
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the default buy-back modifier for a shop (same default as the Buy Items modal)
+	 * @param shop Parsed shop data
+	 */
+	getDefaultBuyModifier(shop: ShopData): number {
+		return shop.priceModifier - 10;
+	}
+
+	/**
+	 * List the unsold, unclaimed magic items, equipment and gems of a hoard with buy-back prices
+	 * Entries with a unit claimed in a distribution belong to the party and are left out
+	 * @param loot Generated loot
+	 * @param shop Shop buying the loot
+	 * @param buyModifier Percentage applied to base prices for what the shop pays
+	 * @param claims Distribution claims keyed by share id
+	 */
+	getSaleLines(loot: GeneratedLoot, shop: ShopData, buyModifier: number, claims: Record<string, string> = {}): LootSaleLine[] {
+		const lines: LootSaleLine[] = [];
+
+		const items = [
+			...loot.magicItems.map((item, index) => ({ item, index, kind: 'magic-item' as const })),
+			...loot.equipment.map((item, index) => ({ item, index, kind: 'equipment' as const }))
+		];
+
+		for (const { item, index, kind } of items) {
+			if (item.sold) continue;
+			if (kind === 'magic-item' && this.isClaimed(claims, 'magic', index, item.quantity)) continue;
+
+			lines.push({
+				itemRef: item.itemRef,
+				name: item.itemData?.name || this.shopParser.parseWikilink(item.itemRef),
+				kind,
+				index,
+				quantity: item.quantity,
+				unitPrice: this.priceCalculator.calculateChainedPrice(
+					item.itemData?.basePrice || 0,
+					this.shopParser.getPriceSteps(shop.regions || [], buyModifier, item.itemData)
+				),
+				priceOverride: null
+			});
+		}
+
+		loot.gems.forEach((gem, index) => {
+			if (gem.sold || this.isClaimed(claims, 'gem', index, gem.quantity)) return;
+
+			// Gem values are in gold pieces and have no item note to price them
+			const value = Math.round(this.priceCalculator.convertCurrency(gem.value, 'gp', this.settings.currency.baseCurrency));
+
+			lines.push({
+				itemRef: gem.description,
+				name: gem.description,
+				kind: 'gem',
+				index,
+				quantity: gem.quantity,
+				unitPrice: this.priceCalculator.calculateChainedPrice(
+					value,
+					this.shopParser.getPriceSteps(shop.regions || [], buyModifier, null)
+				),
+				priceOverride: this.priceCalculator.calculateChainedPrice(
+					value,
+					this.shopParser.getPriceSteps(shop.regions || [], shop.priceModifier, null)
+				)
+			});
+		});
+
+		return lines;
+	}
+
+	/**
+	 * Check whether the loot has anything left to sell
+	 * @param loot Generated loot
+	 * @param claims Distribution claims keyed by share id
+	 */
+	hasSaleableLoot(loot: GeneratedLoot, claims: Record<string, string>): boolean {
+		return loot.equipment.some(item => !item.sold) ||
+			loot.magicItems.some((item, index) => !item.sold && !this.isClaimed(claims, 'magic', index, item.quantity)) ||
+			loot.gems.some((gem, index) => !gem.sold && !this.isClaimed(claims, 'gem', index, gem.quantity));
+	}
+
+	/**
+	 * Add sold loot to a shop, pay the party and record the sale
+	 * @param shopFile Shop note file
+	 * @param lines Confirmed sale lines
+	 * @param partyFile Party note to pay, or null to only update the shop
+	 * @param buyer Name of the character selling, for the ledger
+	 * @param lootSale Loot entries the sale marks sold, kept in the undo history
+	 * @returns Total paid in base currency, and the purse change if the party was paid
+	 */
+	async sell(
+		shopFile: TFile,
+		lines: LootSaleLine[],
+		partyFile: TFile | null,
+		buyer?: string,
+		lootSale?: LootSaleChange
+	): Promise<{ total: number; walletChange: WalletChange | null }> {
+		// Validate inputs
+		if (lines.length === 0) {
+			throw new Error('No loot to sell');
+		}
+
+		for (const line of lines) {
+			if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+				throw new Error('Quantity must be a positive integer');
+			}
+		}
+
+		const shop = await this.shopParser.parseShopNote(shopFile);
+		if (!shop) {
+			throw new Error(`${shopFile.path} is not a valid shop note`);
+		}
+
+		const before = await this.inventoryHistory.capture(shopFile);
+
+		// Add every line in a single write (stacking onto existing entries) so a failure leaves the shop unchanged
+		await this.shopModifier.addInventoryItems(shopFile, lines.map(line => ({
+			itemRef: line.itemRef,
+			quantity: line.quantity,
+			priceOverride: line.priceOverride
+		})));
+
+		const total = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+		// Payment, ledger and history failures never undo the sale itself
+		let walletChange: WalletChange | null = null;
+		if (partyFile) {
+			try {
+				walletChange = await this.partyWallet.credit(partyFile, total);
+			} catch (error) {
+				console.error(`Error paying party for loot sold to ${shopFile.path}:`, error);
+			}
+		}
+
+		try {
+			const ledgerEntries: LedgerEntry[] = await this.ledger.recordTransactions(lines.map(line => ({
+				shopPath: shopFile.path,
+				shopName: shop.name,
+				itemRef: line.itemRef,
+				quantity: line.quantity,
+				unitPrice: line.unitPrice,
+				direction: 'buy' as const,
+				buyer
+			})));
+
+			const count = lines.reduce((sum, line) => sum + line.quantity, 0);
+			await this.inventoryHistory.record(
+				shopFile,
+				`Buy ${count} loot item${count === 1 ? '' : 's'}`,
+				before,
+				ledgerEntries,
+				walletChange || undefined,
+				[],
+				[],
+				lootSale
+			);
+		} catch (error) {
+			console.error(`Error recording loot sale for ${shopFile.path}:`, error);
+		}
+
+		console.log(`Loot sold to ${shop.name}: ${lines.length} line(s) for ${total}`);
+
+		return { total, walletChange };
+	}
+
+	/**
+	 * Check whether any unit of a loot entry has been claimed in a distribution
+	 * Share ids follow the loot distributor: `<prefix>-<index>-<unit>`
+	 */
+	private isClaimed(claims: Record<string, string>, prefix: string, index: number, quantity: number): boolean {
+		for (let unit = 0; unit < quantity; unit++) {
+			if (claims[`${prefix}-${index}-${unit}`]) return true;
+		}
+		return false;
+	}
+}
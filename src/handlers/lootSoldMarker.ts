@@ -0,0 +1,59 @@
+import { App, TFile } from 'obsidian';
+import { LootSaleChange } from '../types';
+import { LootNoteWriter } from '../utils/lootNoteWriter';
+
+/**
+ * Loot Sold Marker - Marks loot entries sold to a shop, or clears the marks again
+ * Updates the loot in memory, the loot note's frontmatter and its Gems, Magic Items
+ * and Equipment sections, then lets open loot displays re-render
+ */
+export class LootSoldMarker {
+	private app: App;
+	private lootNoteWriter: LootNoteWriter;
+
+	constructor(app: App, lootNoteWriter: LootNoteWriter) {
+		this.app = app;
+		this.lootNoteWriter = lootNoteWriter;
+	}
+
+	/**
+	 * Set or clear the sold marks of a loot sale
+	 * @param change Loot and entries the sale marked
+	 * @param sold True to mark the entries sold, false to clear the marks (undo)
+	 */
+	async apply(change: LootSaleChange, sold: boolean): Promise<void> {
+		const { loot } = change;
+
+		for (const entry of change.entries) {
+			const list = entry.kind === 'gem' ? loot.gems : entry.kind === 'magic-item' ? loot.magicItems : loot.equipment;
+			if (list[entry.index]) {
+				list[entry.index].sold = sold;
+			}
+		}
+
+		if (change.lootPath) {
+			const file = this.app.vault.getAbstractFileByPath(change.lootPath);
+
+			if (file instanceof TFile) {
+				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					for (const entry of change.entries) {
+						const key = entry.kind === 'gem' ? 'gems' : entry.kind === 'magic-item' ? 'magic_items' : 'equipment';
+						const item = Array.isArray(frontmatter[key]) ? frontmatter[key][entry.index] : null;
+						if (!item || typeof item !== 'object') continue;
+
+						if (sold) {
+							item.sold = true;
+						} else {
+							delete item.sold;
+						}
+					}
+				});
+				await this.app.vault.process(file, (content) => this.lootNoteWriter.updateSaleSections(content, loot));
+			} else {
+				console.warn(`Loot note not found, sold marks not updated: ${change.lootPath}`);
+			}
+		}
+
+		this.app.workspace.trigger('shopboard:loot-updated', loot);
+	}
+}
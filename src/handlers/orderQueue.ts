@@ -0,0 +1,130 @@
+import { App } from 'obsidian';
+import { CartLine, PendingOrder } from '../types';
+
+/**
+ * Order Queue - Orders placed from player carts, awaiting DM approval
+ * Orders live for the current Obsidian session; approved/rejected orders are kept
+ * so the player display can show the outcome
+ */
+export class OrderQueue {
+	private app: App;
+	private orders: PendingOrder[] = [];
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Place a new order
+	 * @param shopPath Shop note file path
+	 * @param shopName Display name of the shop
+	 * @param lines Ordered items
+	 * @returns The queued order
+	 */
+	submit(shopPath: string, shopName: string, lines: CartLine[]): PendingOrder {
+		// Validate inputs
+		const validLines = lines.filter(line => Number.isInteger(line.quantity) && line.quantity > 0);
+		if (validLines.length === 0) {
+			throw new Error('Order has no items');
+		}
+
+		const createdAt = Date.now();
+		const order: PendingOrder = {
+			id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			shopPath,
+			shopName,
+			lines: validLines.map(line => ({ ...line })),
+			total: validLines.reduce((sum, line) => sum + (line.total ?? line.unitPrice * line.quantity), 0),
+			createdAt,
+			status: 'pending'
+		};
+
+		this.orders.push(order);
+		this.notify();
+
+		console.log(`Order placed at ${shopName}: ${validLines.length} line(s)`);
+
+		return order;
+	}
+
+	/**
+	 * Get pending orders for a shop (oldest first)
+	 * @param shopPath Shop note file path
+	 */
+	getPending(shopPath: string): PendingOrder[] {
+		return this.orders.filter(order => order.shopPath === shopPath && order.status === 'pending');
+	}
+
+	/**
+	 * Get the most recent order for a shop, whatever its status
+	 * @param shopPath Shop note file path
+	 */
+	getLatest(shopPath: string): PendingOrder | null {
+		for (let i = this.orders.length - 1; i >= 0; i--) {
+			if (this.orders[i].shopPath === shopPath) {
+				return this.orders[i];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Mark an order as approved
+	 * @param orderId Order identifier
+	 */
+	approve(orderId: string): void {
+		this.setStatus(orderId, 'approved');
+	}
+
+	/**
+	 * Mark an order as rejected
+	 * @param orderId Order identifier
+	 */
+	reject(orderId: string): void {
+		this.setStatus(orderId, 'rejected');
+	}
+
+	/**
+	 * Move orders when a shop note is renamed
+	 * @param oldPath Previous file path
+	 * @param newPath New file path
+	 */
+	rename(oldPath: string, newPath: string): void {
+		for (const order of this.orders) {
+			if (order.shopPath === oldPath) {
+				order.shopPath = newPath;
+			}
+		}
+	}
+
+	/**
+	 * Update the status of a pending order
+	 */
+	private setStatus(orderId: string, status: 'approved' | 'rejected'): void {
+		const order = this.orders.find(o => o.id === orderId);
+
+		if (!order) {
+			throw new Error('Order not found');
+		}
+
+		if (order.status !== 'pending') {
+			throw new Error(`Order was already ${order.status}`);
+		}
+
+		order.status = status;
+
+		// Keep only the latest finished order per shop
+		this.orders = this.orders.filter(o =>
+			o.status === 'pending' || o.shopPath !== order.shopPath || o === order
+		);
+
+		this.notify();
+	}
+
+	/**
+	 * Let open views know the queue changed
+	 */
+	private notify(): void {
+		this.app.workspace.trigger('shopboard:orders-updated');
+	}
+}
@@ -0,0 +1,234 @@
+import { App, TFile } from 'obsidian';
+import { Denomination, ShopboardSettings, WalletChange } from '../types';
+import { PartyParser } from '../parsers/partyParser';
+
+/**
+ * Party Wallet - Debits and credits the coin purse of a party note
+ * Amounts are given in base currency; coins are stored per denomination
+ */
+export class PartyWallet {
+	private app: App;
+	private partyParser: PartyParser;
+	private settings: ShopboardSettings;
+
+	constructor(app: App, partyParser: PartyParser, settings: ShopboardSettings) {
+		this.app = app;
+		this.partyParser = partyParser;
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the total value of a purse
+	 * @param purse Coin counts keyed by denomination name
+	 * @returns Total value in base currency
+	 */
+	getBalance(purse: Record<string, number>): number {
+		const { units, toBase } = this.getUnitInfo();
+
+		let total = 0;
+		for (const denom of this.getDenominations()) {
+			total += (purse[denom.name] || 0) * units.get(denom.name)!;
+		}
+
+		return total * toBase;
+	}
+
+	/**
+	 * Check whether a purse covers an amount
+	 * @param purse Coin counts keyed by denomination name
+	 * @param amount Amount in base currency
+	 */
+	canAfford(purse: Record<string, number>, amount: number): boolean {
+		return this.getBalance(purse) >= amount;
+	}
+
+	/**
+	 * Take coins from the party purse, making change from larger coins when needed
+	 * @param partyFile Party note file
+	 * @param amount Amount in base currency
+	 * @param allowShortfall Empty the purse instead of failing when funds are insufficient
+	 * @returns Amount taken from the purse
+	 */
+	async debit(partyFile: TFile, amount: number, allowShortfall: boolean = false): Promise<WalletChange> {
+		this.validateAmount(amount);
+
+		return await this.updatePurse(partyFile, (purse) => {
+			if (!this.canAfford(purse, amount)) {
+				if (!allowShortfall) {
+					throw new Error('Party cannot afford this purchase');
+				}
+
+				// Pay everything the party has
+				const emptied = { ...purse };
+				for (const denom of this.getDenominations()) {
+					emptied[denom.name] = 0;
+				}
+				return emptied;
+			}
+
+			return this.payFromPurse(purse, amount);
+		});
+	}
+
+	/**
+	 * Add coins to the party purse using the largest denominations possible
+	 * @param partyFile Party note file
+	 * @param amount Amount in base currency
+	 * @returns Amount added to the purse
+	 */
+	async credit(partyFile: TFile, amount: number): Promise<WalletChange> {
+		this.validateAmount(amount);
+
+		return await this.updatePurse(partyFile, (purse) => {
+			const coins = this.toCoins(this.toSmallestUnits(amount));
+			const updated = { ...purse };
+
+			for (const [name, count] of Object.entries(coins)) {
+				updated[name] = (updated[name] || 0) + count;
+			}
+
+			return updated;
+		});
+	}
+
+	/**
+	 * Atomically read, transform and write the purse of a party note
+	 */
+	private async updatePurse(
+		partyFile: TFile,
+		transform: (purse: Record<string, number>) => Record<string, number>
+	): Promise<WalletChange> {
+		let before: Record<string, number> = {};
+		let after: Record<string, number> = {};
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(partyFile, (frontmatter) => {
+			if (frontmatter.type !== 'party') {
+				throw new Error(`${partyFile.path} is not a party note`);
+			}
+
+			before = this.partyParser.parsePurse(frontmatter.purse);
+			after = transform({ ...before });
+
+			frontmatter.purse = after;
+		});
+
+		console.log(`Party purse updated: ${partyFile.path}`);
+
+		// Only the difference is kept so undo doesn't wipe later changes to the purse
+		return { partyPath: partyFile.path, amount: this.getBalance(after) - this.getBalance(before) };
+	}
+
+	/**
+	 * Remove an amount from a purse that can afford it
+	 * Spends small coins first, then breaks a single larger coin for change
+	 */
+	private payFromPurse(purse: Record<string, number>, amount: number): Record<string, number> {
+		const { units } = this.getUnitInfo();
+		const updated = { ...purse };
+		let remaining = this.toSmallestUnits(amount);
+
+		// Smallest denominations first
+		const ascending = this.getDenominations().sort((a, b) => a.value - b.value);
+
+		for (const denom of ascending) {
+			const unitValue = units.get(denom.name)!;
+			const available = updated[denom.name] || 0;
+			const used = Math.min(available, Math.floor(remaining / unitValue));
+
+			updated[denom.name] = available - used;
+			remaining -= used * unitValue;
+		}
+
+		if (remaining > 0) {
+			// Break the smallest coin that covers the rest and take change
+			const coinToBreak = ascending.find(denom =>
+				(updated[denom.name] || 0) > 0 && units.get(denom.name)! >= remaining
+			);
+
+			if (!coinToBreak) {
+				throw new Error('Party cannot afford this purchase');
+			}
+
+			updated[coinToBreak.name] -= 1;
+			const change = this.toCoins(units.get(coinToBreak.name)! - remaining);
+
+			for (const [name, count] of Object.entries(change)) {
+				updated[name] = (updated[name] || 0) + count;
+			}
+		}
+
+		return updated;
+	}
+
+	/**
+	 * Break an amount in smallest units into coins (largest denominations first)
+	 */
+	private toCoins(smallestUnits: number): Record<string, number> {
+		const { units } = this.getUnitInfo();
+		const coins: Record<string, number> = {};
+		let remaining = smallestUnits;
+
+		const descending = this.getDenominations().sort((a, b) => b.value - a.value);
+
+		for (const denom of descending) {
+			const unitValue = units.get(denom.name)!;
+			const count = Math.floor(remaining / unitValue);
+
+			if (count > 0) {
+				coins[denom.name] = count;
+				remaining -= count * unitValue;
+			}
+		}
+
+		return coins;
+	}
+
+	/**
+	 * Convert an amount in base currency to smallest denomination units
+	 */
+	private toSmallestUnits(amount: number): number {
+		return Math.round(amount / this.getUnitInfo().toBase);
+	}
+
+	/**
+	 * Get the worth of each denomination in smallest units,
+	 * and the factor that converts smallest units to base currency
+	 */
+	private getUnitInfo(): { units: Map<string, number>; toBase: number } {
+		const denominations = this.getDenominations();
+		const smallestValue = Math.min(...denominations.map(d => d.value));
+
+		const units = new Map<string, number>();
+		for (const denom of denominations) {
+			units.set(denom.name, Math.round(denom.value / smallestValue));
+		}
+
+		const baseDenom = denominations.find(d => d.name === this.settings.currency.baseCurrency);
+		const toBase = baseDenom ? smallestValue / baseDenom.value : 1;
+
+		return { units, toBase };
+	}
+
+	/**
+	 * Get a copy of the configured denominations
+	 */
+	private getDenominations(): Denomination[] {
+		const denominations = [...this.settings.currency.denominations];
+
+		if (denominations.length === 0) {
+			throw new Error('No currency denominations configured');
+		}
+
+		return denominations;
+	}
+
+	/**
+	 * Validate an amount in base currency
+	 */
+	private validateAmount(amount: number): void {
+		if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+			throw new Error('Amount must be a non-negative number');
+		}
+	}
+}
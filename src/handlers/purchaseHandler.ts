@@ -1,4 +1,6 @@
 import { App, TFile, Notice } from 'obsidian';
+import { PurchasePayment, WalletChange } from '../types';
+import { PartyWallet } from './partyWallet';
 
 /**
  * Purchase Handler - Handles recording purchases and updating shop inventory
@@ -6,9 +8,11 @@ import { App, TFile, Notice } from 'obsidian';
  */
 export class PurchaseHandler {
 	private app: App;
+	private partyWallet: PartyWallet;
 
-	constructor(app: App) {
+	constructor(app: App, partyWallet: PartyWallet) {
 		this.app = app;
+		this.partyWallet = partyWallet;
 	}
 
 	/**
@@ -16,19 +20,48 @@ export class PurchaseHandler {
 	 * @param shopFile Shop note file
 	 * @param itemIndex Index of item in inventory array
 	 * @param quantitySold Quantity sold
+	 * @param payment Optional party wallet to debit
+	 * @returns Party purse change, or null if no wallet was debited
 	 */
 	async recordPurchase(
 		shopFile: TFile,
 		itemIndex: number,
-		quantitySold: number
-	): Promise<void> {
+		quantitySold: number,
+		payment: PurchasePayment | null = null
+	): Promise<WalletChange | null> {
+		return await this.recordPurchases(
+			shopFile,
+			[{ itemIndex, quantity: quantitySold }],
+			payment
+		);
+	}
+
+	/**
+	 * Record several purchases from the same shop in a single write
+	 * Either every line is recorded or none is
+	 * @param shopFile Shop note file
+	 * @param lines Inventory index and quantity sold for each line
+	 * @param payment Optional party wallet to debit for the whole order
+	 * @returns Party purse change, or null if no wallet was debited
+	 */
+	async recordPurchases(
+		shopFile: TFile,
+		lines: Array<{ itemIndex: number; quantity: number }>,
+		payment: PurchasePayment | null = null
+	): Promise<WalletChange | null> {
 		// Validate inputs
-		if (!Number.isInteger(quantitySold) || quantitySold < 1) {
-			throw new Error('Quantity sold must be a positive integer');
+		if (lines.length === 0) {
+			throw new Error('No items to record');
 		}
 
-		if (!Number.isInteger(itemIndex) || itemIndex < 0) {
-			throw new Error('Invalid item index');
+		for (const line of lines) {
+			if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+				throw new Error('Quantity sold must be a positive integer');
+			}
+
+			if (!Number.isInteger(line.itemIndex) || line.itemIndex < 0) {
+				throw new Error('Invalid item index');
+			}
 		}
 
 		// Read current file content
@@ -46,35 +79,68 @@ export class PurchaseHandler {
 			throw new Error('Shop note has invalid inventory');
 		}
 
-		if (itemIndex < 0 || itemIndex >= frontmatter.inventory.length) {
-			throw new Error('Invalid item index');
+		// Total quantity sold per inventory entry
+		const soldByIndex = new Map<number, number>();
+		for (const line of lines) {
+			soldByIndex.set(line.itemIndex, (soldByIndex.get(line.itemIndex) || 0) + line.quantity);
 		}
 
-		// Get current item
-		const item = frontmatter.inventory[itemIndex];
+		// Validate every line before changing anything
+		for (const [itemIndex, quantitySold] of soldByIndex) {
+			if (itemIndex >= frontmatter.inventory.length) {
+				throw new Error('Invalid item index');
+			}
+
+			// Get current item
+			const item = frontmatter.inventory[itemIndex];
+
+			if (typeof item.quantity !== 'number') {
+				throw new Error('Item has invalid quantity');
+			}
 
-		if (typeof item.quantity !== 'number') {
-			throw new Error('Item has invalid quantity');
+			// Validate purchase
+			if (quantitySold > item.quantity) {
+				throw new Error(
+					`Cannot sell ${quantitySold} items. Only ${item.quantity} in stock.`
+				);
+			}
 		}
 
-		// Validate purchase
-		if (quantitySold > item.quantity) {
-			throw new Error(
-				`Cannot sell ${quantitySold} items. Only ${item.quantity} in stock.`
+		// Debit the party before touching the shop so a refused payment leaves stock unchanged
+		let walletChange: WalletChange | null = null;
+		if (payment) {
+			walletChange = await this.partyWallet.debit(
+				payment.partyFile,
+				payment.amount,
+				payment.allowShortfall ?? false
 			);
 		}
 
-		// Update quantity
-		const newQuantity = item.quantity - quantitySold;
-		frontmatter.inventory[itemIndex].quantity = newQuantity;
+		// Update quantities (copy entries so the metadata cache isn't mutated)
+		frontmatter.inventory = frontmatter.inventory.map((item: any) => ({ ...item }));
+		for (const [itemIndex, quantitySold] of soldByIndex) {
+			frontmatter.inventory[itemIndex].quantity -= quantitySold;
+		}
 
 		// Serialize back to YAML and write
 		const updatedContent = this.serializeFrontmatter(frontmatter, body);
-		await this.app.vault.modify(shopFile, updatedContent);
+		try {
+			await this.app.vault.modify(shopFile, updatedContent);
+		} catch (error) {
+			// Refund the party if the shop couldn't be updated
+			if (payment && walletChange && walletChange.amount < 0) {
+				await this.partyWallet.credit(payment.partyFile, -walletChange.amount);
+			}
+			throw error;
+		}
 
-		console.log(
-			`Purchase recorded: ${quantitySold} items sold. New quantity: ${newQuantity}`
-		);
+		for (const [itemIndex, quantitySold] of soldByIndex) {
+			console.log(
+				`Purchase recorded: ${quantitySold} items sold. New quantity: ${frontmatter.inventory[itemIndex].quantity}`
+			);
+		}
+
+		return walletChange;
 	}
 
 	/**
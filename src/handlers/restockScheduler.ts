@@ -0,0 +1,283 @@
+import { App, TFile } from 'obsidian';
+import {
+	LedgerEntry,
+	RestockIntensity,
+	RestockResult,
+	RestockSchedule,
+	ScheduledRestockReport,
+	ShopboardSettings,
+	ShopData,
+	TimeAdvanceReport
+} from '../types';
+import { ItemParser } from '../parsers/itemParser';
+import { ShopParser } from '../parsers/shopParser';
+import { ShopRestocker } from '../utils/shopRestocker';
+import { PriceCalculator } from '../utils/priceCalculator';
+import { ShopModifier } from './shopModifier';
+import { TransactionLedger } from './transactionLedger';
+import { InventoryHistory } from './inventoryHistory';
+
+/**
+ * Restock Scheduler - Tracks the campaign calendar and restocks shops on their cadence
+ * Shops opt in with `restock_every` (days) and `restock_intensity`; the day of the
+ * last scheduled restock is written back as `last_restock_day`. A shop without one
+ * starts its cadence on the day the calendar first sees it.
+ */
+export class RestockScheduler {
+	private app: App;
+	private itemParser: ItemParser;
+	private shopParser: ShopParser;
+	private shopRestocker: ShopRestocker;
+	private shopModifier: ShopModifier;
+	private priceCalculator: PriceCalculator;
+	private ledger: TransactionLedger;
+	private inventoryHistory: InventoryHistory;
+	private settings: ShopboardSettings;
+
+	constructor(
+		app: App,
+		itemParser: ItemParser,
+		shopParser: ShopParser,
+		shopRestocker: ShopRestocker,
+		shopModifier: ShopModifier,
+		priceCalculator: PriceCalculator,
+		ledger: TransactionLedger,
+		inventoryHistory: InventoryHistory,
+		settings: ShopboardSettings
+	) {
+		this.app = app;
+		this.itemParser = itemParser;
+		this.shopParser = shopParser;
+		this.shopRestocker = shopRestocker;
+		this.shopModifier = shopModifier;
+		this.priceCalculator = priceCalculator;
+		this.ledger = ledger;
+		this.inventoryHistory = inventoryHistory;
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the current campaign day
+	 */
+	getCurrentDay(): number {
+		return this.settings.campaignDay;
+	}
+
+	/**
+	 * Get a shop's restock schedule
+	 * @param shop Parsed shop data
+	 * @param currentDay Day the cadence starts from if the shop has no last_restock_day
+	 * @returns Schedule, or null if the shop has no valid restock_every
+	 */
+	getSchedule(shop: ShopData, currentDay: number = this.settings.campaignDay): RestockSchedule | null {
+		const every = shop.metadata.restock_every;
+		if (typeof every !== 'number' || !Number.isInteger(every) || every < 1) {
+			return null;
+		}
+
+		const intensities: RestockIntensity[] = ['light', 'medium', 'heavy'];
+		const intensity = intensities.includes(shop.metadata.restock_intensity)
+			? shop.metadata.restock_intensity as RestockIntensity
+			: 'medium';
+
+		const lastDay = typeof shop.metadata.last_restock_day === 'number' ? shop.metadata.last_restock_day : currentDay;
+
+		return { every, intensity, lastDay };
+	}
+
+	/**
+	 * Get the campaign day a shop is next due for a restock
+	 * @param shop Parsed shop data
+	 * @returns Day number, or null if the shop has no schedule
+	 */
+	getNextRestockDay(shop: ShopData): number | null {
+		const schedule = this.getSchedule(shop);
+		return schedule ? schedule.lastDay + schedule.every : null;
+	}
+
+	/**
+	 * Advance the campaign calendar and restock every shop that became due
+	 * Shops that missed several cycles are restocked once.
+	 * Caller is responsible for persisting settings afterwards
+	 * @param days Number of in-game days to advance
+	 * @returns Report of the shops that were restocked
+	 */
+	async advanceTime(days: number): Promise<TimeAdvanceReport> {
+		// Validate inputs
+		if (!Number.isInteger(days) || days < 1) {
+			throw new Error('Days must be a positive integer');
+		}
+
+		const fromDay = this.settings.campaignDay;
+		const toDay = fromDay + days;
+		this.settings.campaignDay = toDay;
+
+		const reports: ScheduledRestockReport[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache?.frontmatter?.type !== 'shop') continue;
+
+			const shop = await this.shopParser.parseShopNote(file);
+			if (!shop) continue;
+
+			const schedule = this.getSchedule(shop, fromDay);
+			if (!schedule) continue;
+
+			// First sight: anchor the cadence to today instead of restocking straight away
+			if (typeof shop.metadata.last_restock_day !== 'number') {
+				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					frontmatter.last_restock_day = fromDay;
+				});
+			}
+
+			if (toDay - schedule.lastDay < schedule.every) continue;
+
+			// Keep the cadence anchored to the schedule rather than to today
+			const cycles = Math.floor((toDay - schedule.lastDay) / schedule.every);
+			const restockDay = schedule.lastDay + cycles * schedule.every;
+
+			reports.push(await this.restockShop(file, shop, schedule.intensity, restockDay));
+		}
+
+		console.log(`Campaign calendar advanced to day ${toDay}: ${reports.length} shop(s) restocked`);
+
+		return { fromDay, toDay, shops: reports };
+	}
+
+	/**
+	 * Build ledger entries for stock added by a restock
+	 * Only quantity increases are recorded; items sold off-screen are not transactions
+	 * @param shop Shop data before the restock
+	 * @param result Restock result
+	 */
+	getRestockEntries(
+		shop: ShopData,
+		result: RestockResult
+	): Array<Omit<LedgerEntry, 'id' | 'timestamp' | 'session'>> {
+		const entries: Array<Omit<LedgerEntry, 'id' | 'timestamp' | 'session'>> = [];
+		const previousQuantities = this.getQuantities(shop.inventory);
+
+		for (const newItem of result.inventory) {
+			const added = newItem.quantity - (previousQuantities.get(newItem.itemRef) || 0);
+			if (added <= 0) continue;
+
+			// Price incoming stock at the shop's current selling price
+			const itemData = this.itemParser.getItemByName(
+				this.shopParser.parseWikilink(newItem.itemRef)
+			);
+			const unitPrice = this.priceCalculator.calculateChainedPrice(
+				itemData?.basePrice || 0,
+				this.shopParser.getPriceSteps(shop.regions || [], shop.priceModifier, itemData),
+				newItem.priceOverride ?? undefined
+			);
+
+			entries.push({
+				shopPath: shop.path,
+				shopName: shop.name,
+				itemRef: newItem.itemRef,
+				quantity: added,
+				unitPrice,
+				direction: 'restock'
+			});
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Restock one shop and record it in the ledger and undo history
+	 */
+	private async restockShop(
+		file: TFile,
+		shop: ShopData,
+		intensity: RestockIntensity,
+		restockDay: number
+	): Promise<ScheduledRestockReport> {
+		const report: ScheduledRestockReport = {
+			shopPath: file.path,
+			shopName: shop.name,
+			result: null,
+			changes: []
+		};
+
+		try {
+			const result = this.shopRestocker.restockInventory(shop, {
+				intensity,
+				minRarity: null,
+				maxRarity: null,
+				budget: 0
+			});
+
+			const before = await this.inventoryHistory.capture(file);
+			const restockEntries = this.getRestockEntries(shop, result);
+
+			// With dynamic pricing, restocked quantities become the new baselines
+			await this.shopModifier.updateInventory(
+				file,
+				shop.dynamicPricing
+					? result.inventory.map(item => ({ ...item, baselineQuantity: item.quantity }))
+					: result.inventory
+			);
+
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				frontmatter.last_restock_day = restockDay;
+			});
+
+			// Ledger and history failures never undo the restock itself
+			let ledgerEntries: LedgerEntry[] = [];
+			try {
+				if (restockEntries.length > 0) {
+					ledgerEntries = await this.ledger.recordTransactions(restockEntries);
+				}
+				await this.inventoryHistory.record(file, `Scheduled restock (day ${restockDay})`, before, ledgerEntries);
+			} catch (error) {
+				console.error(`Error recording scheduled restock for ${file.path}:`, error);
+			}
+
+			report.result = result;
+			report.changes = this.getChanges(shop, result);
+
+		} catch (error) {
+			console.error(`Error restocking ${file.path}:`, error);
+			report.error = error instanceof Error ? error.message : String(error);
+		}
+
+		return report;
+	}
+
+	/**
+	 * List per-item quantity changes between the old inventory and a restock result
+	 */
+	private getChanges(shop: ShopData, result: RestockResult): ScheduledRestockReport['changes'] {
+		const before = this.getQuantities(shop.inventory);
+		const after = this.getQuantities(result.inventory);
+		const changes: ScheduledRestockReport['changes'] = [];
+
+		for (const [itemRef, quantity] of before) {
+			const newQuantity = after.get(itemRef) || 0;
+			if (newQuantity !== quantity) {
+				changes.push({ itemRef, before: quantity, after: newQuantity });
+			}
+		}
+
+		for (const [itemRef, quantity] of after) {
+			if (!before.has(itemRef)) {
+				changes.push({ itemRef, before: 0, after: quantity });
+			}
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Total quantity per item reference
+	 */
+	private getQuantities(inventory: Array<{ itemRef: string; quantity: number }>): Map<string, number> {
+		const quantities = new Map<string, number>();
+		for (const item of inventory) {
+			quantities.set(item.itemRef, (quantities.get(item.itemRef) || 0) + item.quantity);
+		}
+		return quantities;
+	}
+}
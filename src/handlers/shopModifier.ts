@@ -1,4 +1,5 @@
-import { App, TFile } from 'obsidian';
+import { App, TFile, parseYaml } from 'obsidian';
+import { ShopSnapshot } from '../types';
 
 /**
  * Shop Modifier - Handles editing shop properties and inventory
@@ -239,6 +240,60 @@ export class ShopModifier {
 		console.log(`Added item to inventory: ${itemRef} (qty: ${quantity})`);
 	}
 
+	/**
+	 * Add several items to shop inventory in a single write
+	 * Items stack onto an existing entry for the same item; either every item is added or none is
+	 * @param shopFile Shop note file
+	 * @param items Item reference, quantity and price override (null to use calculated price) of each item
+	 */
+	async addInventoryItems(
+		shopFile: TFile,
+		items: Array<{ itemRef: string; quantity: number; priceOverride: number | null }>
+	): Promise<void> {
+		// Validate inputs
+		for (const item of items) {
+			if (!item.itemRef || typeof item.itemRef !== 'string') {
+				throw new Error('Item reference is required');
+			}
+
+			if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+				throw new Error('Quantity must be a positive integer');
+			}
+
+			if (item.priceOverride !== null && (typeof item.priceOverride !== 'number' || item.priceOverride < 0)) {
+				throw new Error('Price override must be a positive number or null');
+			}
+		}
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(shopFile, (frontmatter) => {
+			// Ensure inventory array exists
+			if (!frontmatter.inventory) {
+				frontmatter.inventory = [];
+			}
+
+			if (!Array.isArray(frontmatter.inventory)) {
+				throw new Error('Shop note has invalid inventory');
+			}
+
+			for (const item of items) {
+				const existing = frontmatter.inventory.find((entry: any) => entry && entry.item === item.itemRef);
+
+				if (existing) {
+					existing.quantity = (typeof existing.quantity === 'number' ? existing.quantity : 0) + item.quantity;
+				} else {
+					frontmatter.inventory.push({
+						item: item.itemRef,
+						quantity: item.quantity,
+						price_override: item.priceOverride
+					});
+				}
+			}
+		});
+
+		console.log(`Added ${items.length} item(s) to inventory`);
+	}
+
 	/**
 	 * Remove item from shop inventory
 	 * @param shopFile Shop note file
@@ -321,8 +376,9 @@ export class ShopModifier {
 
 	/**
 	 * Update entire shop inventory
+	 * Extra fields on existing entries (e.g. bulk_rules) are kept for items that remain
 	 * @param shopFile Shop note file
-	 * @param inventory New inventory array
+	 * @param inventory New inventory array (baselineQuantity sets the dynamic pricing baseline)
 	 */
 	async updateInventory(
 		shopFile: TFile,
@@ -330,6 +386,7 @@ export class ShopModifier {
 			itemRef: string;
 			quantity: number;
 			priceOverride: number | null;
+			baselineQuantity?: number;
 		}>
 	): Promise<void> {
 		// Validate inventory
@@ -337,20 +394,85 @@ export class ShopModifier {
 			throw new Error('Inventory must be an array');
 		}
 
-		// Convert inventory to proper format
-		const formattedInventory = inventory.map(item => ({
-			item: item.itemRef,
-			quantity: item.quantity,
-			price_override: item.priceOverride
-		}));
-
 		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
 		await this.app.fileManager.processFrontMatter(shopFile, (frontmatter) => {
-			// Update inventory
-			frontmatter.inventory = formattedInventory;
+			const existing: any[] = Array.isArray(frontmatter.inventory) ? [...frontmatter.inventory] : [];
+
+			// Convert inventory to proper format, merging onto matching existing entries
+			frontmatter.inventory = inventory.map(item => {
+				const matchIndex = existing.findIndex(entry => entry && entry.item === item.itemRef);
+				const previous = matchIndex === -1 ? {} : existing.splice(matchIndex, 1)[0];
+
+				const entry: any = {
+					...previous,
+					item: item.itemRef,
+					quantity: item.quantity,
+					price_override: item.priceOverride
+				};
+
+				if (item.baselineQuantity !== undefined) {
+					entry.baseline_quantity = item.baselineQuantity;
+				}
+
+				return entry;
+			});
 		});
 
 		console.log(`Updated inventory: ${inventory.length} items`);
 	}
 
+	/**
+	 * Capture the raw inventory and display settings of a shop note
+	 * Reads the file directly so the snapshot reflects the latest write
+	 * @param shopFile Shop note file
+	 */
+	async captureSnapshot(shopFile: TFile): Promise<ShopSnapshot> {
+		const content = await this.app.vault.read(shopFile);
+
+		// Match YAML frontmatter between --- delimiters
+		const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+		const frontmatter = match ? (parseYaml(match[1]) || {}) : {};
+
+		// Deep copy so later edits never mutate the snapshot
+		return JSON.parse(JSON.stringify({
+			inventory: frontmatter.inventory,
+			display: {
+				price_modifier: frontmatter.price_modifier,
+				columns: frontmatter.columns,
+				rows: frontmatter.rows,
+				show_descriptions: frontmatter.show_descriptions,
+				current_page: frontmatter.current_page
+			},
+			lastRestockDay: frontmatter.last_restock_day
+		}));
+	}
+
+	/**
+	 * Restore a previously captured snapshot
+	 * Fields that were absent in the snapshot are removed from frontmatter
+	 * @param shopFile Shop note file
+	 * @param snapshot Snapshot from captureSnapshot
+	 */
+	async restoreSnapshot(shopFile: TFile, snapshot: ShopSnapshot): Promise<void> {
+		const copy: ShopSnapshot = JSON.parse(JSON.stringify(snapshot));
+
+		// Use Obsidian's atomic frontmatter API (preserves all fields automatically)
+		await this.app.fileManager.processFrontMatter(shopFile, (frontmatter) => {
+			const fields: Record<string, any> = {
+				inventory: copy.inventory,
+				...copy.display,
+				last_restock_day: copy.lastRestockDay
+			};
+
+			for (const key of Object.keys(fields)) {
+				if (fields[key] === undefined) {
+					delete frontmatter[key];
+				} else {
+					frontmatter[key] = fields[key];
+				}
+			}
+		});
+
+		console.log(`Restored shop snapshot: ${copy.inventory?.length ?? 0} items`);
+	}
 }
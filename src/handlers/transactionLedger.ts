@@ -0,0 +1,287 @@
+import { App, normalizePath } from 'obsidian';
+import { LedgerEntry, LedgerTotals, ShopboardSettings } from '../types';
+
+/**
+ * Transaction Ledger - Persistent record of every sale, buy-back and restock
+ * Entries are stored as JSON in a vault file (one file per campaign)
+ */
+export class TransactionLedger {
+	private app: App;
+	private settings: ShopboardSettings;
+	private entries: LedgerEntry[] = [];
+	private loadedPath: string | null = null;
+
+	constructor(app: App, settings: ShopboardSettings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	/**
+	 * Load ledger entries from the configured ledger file
+	 * Missing or unreadable files result in an empty ledger
+	 */
+	async load(): Promise<void> {
+		const ledgerPath = normalizePath(this.settings.ledgerPath);
+		this.entries = [];
+		this.loadedPath = ledgerPath;
+
+		try {
+			if (!(await this.app.vault.adapter.exists(ledgerPath))) {
+				return;
+			}
+
+			const content = await this.app.vault.adapter.read(ledgerPath);
+			const data = JSON.parse(content);
+
+			if (data && Array.isArray(data.entries)) {
+				this.entries = data.entries.filter((entry: any) => this.validateEntry(entry));
+			}
+
+			console.log(`Ledger loaded: ${this.entries.length} transactions`);
+		} catch (error) {
+			console.error('Error loading transaction ledger:', error);
+		}
+	}
+
+	/**
+	 * Get the current session identifier, starting a new session if none exists
+	 */
+	getSession(): string {
+		if (!this.settings.ledgerSession) {
+			this.settings.ledgerSession = this.createSessionId();
+		}
+		return this.settings.ledgerSession;
+	}
+
+	/**
+	 * Start a new ledger session
+	 * Caller is responsible for persisting settings afterwards
+	 * @returns New session identifier
+	 */
+	startNewSession(): string {
+		this.settings.ledgerSession = this.createSessionId();
+		return this.settings.ledgerSession;
+	}
+
+	/**
+	 * Record a single transaction
+	 * @param entry Transaction details (id, timestamp and session are filled in)
+	 * @returns The stored ledger entry
+	 */
+	async recordTransaction(
+		entry: Omit<LedgerEntry, 'id' | 'timestamp' | 'session'>
+	): Promise<LedgerEntry> {
+		const [recorded] = await this.recordTransactions([entry]);
+		return recorded;
+	}
+
+	/**
+	 * Record multiple transactions in a single write
+	 * @param entries Transaction details (id, timestamp and session are filled in)
+	 * @returns The stored ledger entries
+	 */
+	async recordTransactions(
+		entries: Array<Omit<LedgerEntry, 'id' | 'timestamp' | 'session'>>
+	): Promise<LedgerEntry[]> {
+		// Validate inputs
+		for (const entry of entries) {
+			if (!Number.isInteger(entry.quantity) || entry.quantity < 1) {
+				throw new Error('Transaction quantity must be a positive integer');
+			}
+
+			if (typeof entry.unitPrice !== 'number' || entry.unitPrice < 0) {
+				throw new Error('Transaction unit price must be a non-negative number');
+			}
+
+			if (entry.total !== undefined && (typeof entry.total !== 'number' || entry.total < 0)) {
+				throw new Error('Transaction total must be a non-negative number');
+			}
+		}
+
+		await this.ensureLoaded();
+
+		const timestamp = Date.now();
+		const session = this.getSession();
+
+		const recorded: LedgerEntry[] = entries.map((entry, index) => ({
+			...entry,
+			id: `${timestamp.toString(36)}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+			timestamp,
+			session
+		}));
+
+		this.entries.push(...recorded);
+		await this.save();
+
+		console.log(`Ledger: recorded ${recorded.length} transaction(s)`);
+
+		return recorded;
+	}
+
+	/**
+	 * Remove entries from the ledger (used when a transaction is undone)
+	 * @param ids Identifiers of the entries to remove
+	 */
+	async removeEntries(ids: string[]): Promise<void> {
+		if (ids.length === 0) return;
+
+		await this.ensureLoaded();
+
+		const idSet = new Set(ids);
+		const before = this.entries.length;
+		this.entries = this.entries.filter(entry => !idSet.has(entry.id));
+
+		if (this.entries.length !== before) {
+			await this.save();
+			console.log(`Ledger: removed ${before - this.entries.length} transaction(s)`);
+		}
+	}
+
+	/**
+	 * Put previously removed entries back into the ledger (used when a transaction is redone)
+	 * Entries keep their original id, timestamp and session
+	 * @param entries Entries to restore
+	 */
+	async restoreEntries(entries: LedgerEntry[]): Promise<void> {
+		if (entries.length === 0) return;
+
+		await this.ensureLoaded();
+
+		const existingIds = new Set(this.entries.map(entry => entry.id));
+		const restored = entries.filter(entry => !existingIds.has(entry.id));
+
+		if (restored.length > 0) {
+			this.entries.push(...restored);
+			this.entries.sort((a, b) => a.timestamp - b.timestamp);
+			await this.save();
+			console.log(`Ledger: restored ${restored.length} transaction(s)`);
+		}
+	}
+
+	/**
+	 * Get all ledger entries (oldest first)
+	 */
+	getEntries(): LedgerEntry[] {
+		return [...this.entries];
+	}
+
+	/**
+	 * Get the most recent entries for a shop (newest first)
+	 * @param shopPath Shop note file path
+	 * @param limit Maximum number of entries to return
+	 */
+	getRecentEntriesForShop(shopPath: string, limit: number = 10): LedgerEntry[] {
+		return this.entries
+			.filter(entry => entry.shopPath === shopPath)
+			.sort((a, b) => b.timestamp - a.timestamp)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Get units sold minus units bought back for an item since a point in time
+	 * Used as the demand signal for dynamic pricing
+	 * @param shopPath Shop note file path
+	 * @param itemRef Wikilink reference to the item
+	 * @param since Timestamp (ms since epoch) to count from
+	 */
+	getNetSales(shopPath: string, itemRef: string, since: number): number {
+		let net = 0;
+
+		for (const entry of this.entries) {
+			if (entry.shopPath !== shopPath || entry.itemRef !== itemRef || entry.timestamp < since) continue;
+
+			if (entry.direction === 'sell') {
+				net += entry.quantity;
+			} else if (entry.direction === 'buy') {
+				net -= entry.quantity;
+			}
+		}
+
+		return net;
+	}
+
+	/**
+	 * Get totals for a shop, optionally restricted to a session
+	 * @param shopPath Shop note file path (null for all shops)
+	 * @param session Session identifier (null for all sessions)
+	 */
+	getTotals(shopPath: string | null, session: string | null): LedgerTotals {
+		const totals: LedgerTotals = { sold: 0, bought: 0, restocked: 0, count: 0 };
+
+		for (const entry of this.entries) {
+			if (shopPath !== null && entry.shopPath !== shopPath) continue;
+			if (session !== null && entry.session !== session) continue;
+
+			const value = entry.total ?? entry.unitPrice * entry.quantity;
+			switch (entry.direction) {
+				case 'sell':
+					totals.sold += value;
+					break;
+				case 'buy':
+					totals.bought += value;
+					break;
+				case 'restock':
+					totals.restocked += value;
+					break;
+			}
+			totals.count++;
+		}
+
+		return totals;
+	}
+
+	/**
+	 * Reload the ledger if the configured path changed since the last load
+	 */
+	private async ensureLoaded(): Promise<void> {
+		if (this.loadedPath !== normalizePath(this.settings.ledgerPath)) {
+			await this.load();
+		}
+	}
+
+	/**
+	 * Write all entries back to the ledger file
+	 */
+	private async save(): Promise<void> {
+		const ledgerPath = normalizePath(this.settings.ledgerPath);
+
+		// Ensure parent folder exists
+		const folderPath = ledgerPath.substring(0, ledgerPath.lastIndexOf('/'));
+		if (folderPath && !(await this.app.vault.adapter.exists(folderPath))) {
+			await this.app.vault.createFolder(folderPath);
+		}
+
+		const data = {
+			version: 1,
+			entries: this.entries
+		};
+
+		await this.app.vault.adapter.write(ledgerPath, JSON.stringify(data, null, '\t'));
+
+		// Open views re-price items that depend on sales history
+		this.app.workspace.trigger('shopboard:ledger-updated');
+	}
+
+	/**
+	 * Validate a ledger entry read from disk
+	 */
+	private validateEntry(entry: any): entry is LedgerEntry {
+		return !!entry &&
+			typeof entry.id === 'string' &&
+			typeof entry.timestamp === 'number' &&
+			typeof entry.shopPath === 'string' &&
+			typeof entry.itemRef === 'string' &&
+			typeof entry.quantity === 'number' &&
+			typeof entry.unitPrice === 'number' &&
+			['sell', 'buy', 'restock'].includes(entry.direction);
+	}
+
+	/**
+	 * Create a session identifier from the current date and time
+	 */
+	private createSessionId(): string {
+		const now = new Date();
+		const pad = (n: number) => ('0' + n).slice(-2);
+		return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}:${pad(now.getMinutes())}`;
+	}
+}
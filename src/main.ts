@@ -1,22 +1,58 @@
-import { Plugin, TFile, WorkspaceLeaf, Menu, Notice } from 'obsidian';
-import { ShopboardSettings, GeneratedLoot } from './types';
+import { Plugin, TFile, TFolder, WorkspaceLeaf, Menu, Notice } from 'obsidian';
+import { ShopboardSettings, GeneratedLoot, LootSaleLine, LootSaleChange, ShopData, TreasureTableSet, HarvestAttempt, Crafter, CraftingCheck, CraftingDestination, PartyData, IdentificationHolder, UnidentifiedItem, Encumbrance, PartyEncumbrance, ImageQueueRunResult } from './types';
 import { DEFAULT_SETTINGS, ShopboardSettingTab } from './settings';
 import { ItemParser } from './parsers/itemParser';
 import { ShopParser } from './parsers/shopParser';
+import { PartyParser } from './parsers/partyParser';
+import { SettlementParser } from './parsers/settlementParser';
+import { CharacterParser } from './parsers/characterParser';
+import { LootParser } from './parsers/lootParser';
+import { TreasureTableParser } from './parsers/treasureTableParser';
+import { SalvageTableParser } from './parsers/salvageTableParser';
+import { RecipeParser } from './parsers/recipeParser';
 import { PriceCalculator } from './utils/priceCalculator';
 import { ShopDisplayView, VIEW_TYPE_SHOP_DISPLAY } from './views/shopDisplayView';
 import { DMControlView, VIEW_TYPE_DM_CONTROL } from './views/dmControlView';
 import { LootDisplayView, VIEW_TYPE_LOOT_DISPLAY } from './views/lootDisplayView';
 import { PurchaseHandler } from './handlers/purchaseHandler';
 import { ShopModifier } from './handlers/shopModifier';
+import { PartyWallet } from './handlers/partyWallet';
+import { CharacterInventory } from './handlers/characterInventory';
+import { TransactionLedger } from './handlers/transactionLedger';
+import { InventoryHistory } from './handlers/inventoryHistory';
+import { OrderQueue } from './handlers/orderQueue';
+import { HaggleManager } from './handlers/haggleManager';
+import { LootSeller } from './handlers/lootSeller';
+import { LootSoldMarker } from './handlers/lootSoldMarker';
+import { RestockScheduler } from './handlers/restockScheduler';
+import { CraftingManager } from './handlers/craftingManager';
+import { IdentificationManager } from './handlers/identificationManager';
+import { ImageQueue } from './handlers/imageQueue';
 import { TemplateProvider } from './utils/templateProvider';
 import { ShopGenerator } from './utils/shopGenerator';
 import { ShopRestocker } from './utils/shopRestocker';
 import { ImageGenerator } from './utils/imageGenerator';
+import { ImageHistory } from './utils/imageHistory';
 import { LootGenerator } from './utils/lootGenerator';
+import { LootNoteWriter } from './utils/lootNoteWriter';
+import { LootDistributor, PARTY_STASH } from './utils/lootDistributor';
+import { BUILT_IN_TREASURE_TABLES } from './utils/treasureTables';
+import { HarvestResolver } from './utils/harvestResolver';
+import { EncumbranceCalculator } from './utils/encumbranceCalculator';
 import { TemplateSelectionModal } from './modals/templateSelectionModal';
 import { ShopBuilderModal } from './modals/shopBuilderModal';
 import { LootGeneratorModal } from './modals/lootGeneratorModal';
+import { AdvanceTimeModal } from './modals/advanceTimeModal';
+import { RestockSummaryModal } from './modals/restockSummaryModal';
+import { LootDistributionModal } from './modals/lootDistributionModal';
+import { SellLootModal } from './modals/sellLootModal';
+import { HarvestModal, GIVE_TO_HARVESTER } from './modals/harvestModal';
+import { CraftingModal } from './modals/craftingModal';
+import { IdentifyModal } from './modals/identifyModal';
+import { ImageQueueModal } from './modals/imageQueueModal';
+import { ImagePromptModal } from './modals/imagePromptModal';
+import { ImageHistoryModal } from './modals/imageHistoryModal';
+import { UnusedImagesModal } from './modals/unusedImagesModal';
 
 /**
  * Main Shopboard plugin class
@@ -24,15 +60,40 @@ import { LootGeneratorModal } from './modals/lootGeneratorModal';
 export default class ShopboardPlugin extends Plugin {
 	settings!: ShopboardSettings;
 	itemParser!: ItemParser;
+	encumbranceCalculator!: EncumbranceCalculator;
 	shopParser!: ShopParser;
+	partyParser!: PartyParser;
+	settlementParser!: SettlementParser;
+	characterParser!: CharacterParser;
 	priceCalculator!: PriceCalculator;
 	purchaseHandler!: PurchaseHandler;
 	shopModifier!: ShopModifier;
+	partyWallet!: PartyWallet;
+	characterInventory!: CharacterInventory;
+	ledger!: TransactionLedger;
+	inventoryHistory!: InventoryHistory;
+	orderQueue!: OrderQueue;
+	haggleManager!: HaggleManager;
 	templateProvider!: TemplateProvider;
 	shopGenerator!: ShopGenerator;
 	shopRestocker!: ShopRestocker;
+	restockScheduler!: RestockScheduler;
+	imageHistory!: ImageHistory;
 	imageGenerator!: ImageGenerator;
+	imageQueue!: ImageQueue;
 	lootGenerator!: LootGenerator;
+	treasureTableParser!: TreasureTableParser;
+	treasureTableSets: TreasureTableSet[] = [];
+	salvageTableParser!: SalvageTableParser;
+	lootParser!: LootParser;
+	lootNoteWriter!: LootNoteWriter;
+	lootDistributor!: LootDistributor;
+	lootSeller!: LootSeller;
+	lootSoldMarker!: LootSoldMarker;
+	harvestResolver!: HarvestResolver;
+	recipeParser!: RecipeParser;
+	craftingManager!: CraftingManager;
+	identificationManager!: IdentificationManager;
 
 	/**
 	 * Plugin initialization
@@ -46,15 +107,67 @@ export default class ShopboardPlugin extends Plugin {
 		// Register settings tab
 		this.addSettingTab(new ShopboardSettingTab(this.app, this));
 
+		// Initialize transaction ledger (shop prices can depend on sales history)
+		this.ledger = new TransactionLedger(this.app, this.settings);
+		if (!this.settings.ledgerSession) {
+			this.ledger.startNewSession();
+			await this.saveSettings();
+		}
+
 		// Initialize parsers (Phase 1)
 		this.itemParser = new ItemParser(this.app);
-		this.shopParser = new ShopParser(this.app, this.itemParser, this.settings);
+		this.encumbranceCalculator = new EncumbranceCalculator(this.itemParser);
 		this.priceCalculator = new PriceCalculator(this.settings.currency);
+		this.settlementParser = new SettlementParser(this.app);
+		this.shopParser = new ShopParser(
+			this.app,
+			this.itemParser,
+			this.settlementParser,
+			this.settings,
+			this.priceCalculator,
+			this.ledger
+		);
+		this.partyParser = new PartyParser(this.app);
+		this.characterParser = new CharacterParser(this.app);
 
 		// Initialize handlers (Phase 3)
-		this.purchaseHandler = new PurchaseHandler(this.app);
+		this.partyWallet = new PartyWallet(this.app, this.partyParser, this.settings);
+		this.characterInventory = new CharacterInventory(this.app, this.shopParser, this.priceCalculator, this.settings);
+		this.purchaseHandler = new PurchaseHandler(this.app, this.partyWallet);
 		this.shopModifier = new ShopModifier(this.app);
 
+		// Initialize haggling
+		this.haggleManager = new HaggleManager(this.settings);
+
+		// Initialize loot note persistence (loot sales are part of the undo history)
+		this.lootNoteWriter = new LootNoteWriter();
+		this.lootSoldMarker = new LootSoldMarker(this.app, this.lootNoteWriter);
+
+		// Initialize undo/redo history for inventory edits
+		this.inventoryHistory = new InventoryHistory(
+			this.app,
+			this.shopModifier,
+			this.ledger,
+			this.partyWallet,
+			this.characterInventory,
+			this.haggleManager,
+			this.lootSoldMarker
+		);
+
+		// Initialize player order queue (cart mode)
+		this.orderQueue = new OrderQueue(this.app);
+
+		// Initialize selling generated loot to shops
+		this.lootSeller = new LootSeller(
+			this.shopParser,
+			this.shopModifier,
+			this.partyWallet,
+			this.ledger,
+			this.inventoryHistory,
+			this.priceCalculator,
+			this.settings
+		);
+
 		// Initialize template provider (Phase 4)
 		this.templateProvider = new TemplateProvider(this.settings);
 
@@ -64,11 +177,58 @@ export default class ShopboardPlugin extends Plugin {
 		// Initialize shop restocker
 		this.shopRestocker = new ShopRestocker(this.itemParser, this.shopGenerator);
 
+		// Initialize campaign calendar and scheduled restocking
+		this.restockScheduler = new RestockScheduler(
+			this.app,
+			this.itemParser,
+			this.shopParser,
+			this.shopRestocker,
+			this.shopModifier,
+			this.priceCalculator,
+			this.ledger,
+			this.inventoryHistory,
+			this.settings
+		);
+
 		// Initialize image generator
-		this.imageGenerator = new ImageGenerator(this.app, this.settings.openaiApiKey, this.settings.imageStyle, this.settings.attachmentFolder);
+		this.imageHistory = new ImageHistory(this.app, this.settings);
+		this.imageGenerator = new ImageGenerator(this.app, this.settings, this.imageHistory);
+		this.imageQueue = new ImageQueue(this.app, this.imageGenerator, this.itemParser, this.settings, () => this.saveSettings());
 
 		// Initialize loot generator
 		this.lootGenerator = new LootGenerator(this.itemParser);
+		this.treasureTableParser = new TreasureTableParser(this.app);
+		this.salvageTableParser = new SalvageTableParser(this.app);
+
+		// Initialize loot note persistence
+		this.lootParser = new LootParser(this.app, this.itemParser, this.shopParser);
+		this.lootDistributor = new LootDistributor(this.priceCalculator, this.settings);
+		this.harvestResolver = new HarvestResolver();
+		this.identificationManager = new IdentificationManager(
+			this.app,
+			this.itemParser,
+			this.shopParser,
+			this.lootNoteWriter,
+			this.characterInventory,
+			this.partyWallet,
+			this.priceCalculator,
+			this.settings
+		);
+
+		// Initialize crafting
+		this.recipeParser = new RecipeParser(this.app);
+		this.craftingManager = new CraftingManager(
+			this.app,
+			this.itemParser,
+			this.shopParser,
+			this.lootGenerator,
+			this.characterInventory,
+			this.partyWallet,
+			this.shopModifier,
+			this.inventoryHistory,
+			this.priceCalculator,
+			this.settings
+		);
 
 		// Perform initial item scan
 		try {
@@ -86,6 +246,12 @@ export default class ShopboardPlugin extends Plugin {
 			new Notice('Shopboard: Failed to load items. Check console for details.');
 		}
 
+		// Load custom treasure and salvage tables for the loot generator
+		await this.loadTreasureTables();
+
+		// Load transaction history
+		await this.ledger.load();
+
 		// Register views (Phase 2 & 3)
 		this.registerView(
 			VIEW_TYPE_SHOP_DISPLAY,
@@ -111,11 +277,41 @@ export default class ShopboardPlugin extends Plugin {
 		// Register item file modification listener
 		this.registerItemModificationListener();
 
+		// Keep undo history and pending orders attached to renamed shop notes
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				this.inventoryHistory.rename(oldPath, file.path);
+				this.orderQueue.rename(oldPath, file.path);
+				this.imageQueue.rename(oldPath, file.path);
+
+				// Keep the selected treasure table set when its note is renamed
+				if (this.settings.treasureTableSet === oldPath) {
+					this.settings.treasureTableSet = file.path;
+					this.saveSettings().then(() => this.loadTreasureTables());
+				}
+			})
+		);
+
+		// YAML treasure tables have no metadata cache entry, so reload them on modification
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				if (file instanceof TFile && this.treasureTableParser.isYamlFile(file) && this.isInTreasureTableFolder(file)) {
+					this.loadTreasureTables();
+				}
+			})
+		);
+
 		// Register ribbon icon with menu (Phase 3)
 		this.addRibbonIcon('clipboard-list', 'Shopboard Menu', (evt: MouseEvent) => {
 			this.showRibbonMenu(evt);
 		});
 
+		// Queued images wait for the DM to start a run, so nothing is generated unasked
+		const queuedImages = this.imageQueue.getPendingCount();
+		if (queuedImages > 0) {
+			new Notice(`${queuedImages} item image(s) still queued. Run "Open image generation queue" to continue.`);
+		}
+
 		console.log('Shopboard plugin loaded successfully');
 	}
 
@@ -125,6 +321,9 @@ export default class ShopboardPlugin extends Plugin {
 	async onunload() {
 		console.log('Unloading Shopboard plugin');
 
+		// Stop generating images; the queue is kept for the next load
+		this.imageQueue?.stop();
+
 		// Detach all views
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_SHOP_DISPLAY);
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DM_CONTROL);
@@ -173,6 +372,19 @@ export default class ShopboardPlugin extends Plugin {
 				shopType.allowVariety = true;
 			}
 		}
+
+		// Migration: Copy the default haggle table so edits never change the defaults
+		if (!Array.isArray(this.settings.haggleTable) || this.settings.haggleTable === DEFAULT_SETTINGS.haggleTable) {
+			this.settings.haggleTable = DEFAULT_SETTINGS.haggleTable.map(tier => ({ ...tier }));
+		}
+
+		// Migration: Give each vault its own image queue and prompt override arrays
+		if (!Array.isArray(this.settings.imageQueue) || this.settings.imageQueue === DEFAULT_SETTINGS.imageQueue) {
+			this.settings.imageQueue = [];
+		}
+		if (!Array.isArray(this.settings.imagePromptOverrides) || this.settings.imagePromptOverrides === DEFAULT_SETTINGS.imagePromptOverrides) {
+			this.settings.imagePromptOverrides = [];
+		}
 	}
 
 	/**
@@ -180,13 +392,6 @@ export default class ShopboardPlugin extends Plugin {
 	 */
 	async saveSettings() {
 		await this.saveData(this.settings);
-
-		// Update image generator with new settings
-		if (this.imageGenerator) {
-			this.imageGenerator.updateApiKey(this.settings.openaiApiKey);
-			this.imageGenerator.updateImageStyle(this.settings.imageStyle);
-			this.imageGenerator.updateAttachmentFolder(this.settings.attachmentFolder);
-		}
 	}
 
 	/**
@@ -271,6 +476,228 @@ export default class ShopboardPlugin extends Plugin {
 				this.openLootGeneratorModal();
 			}
 		});
+
+		// Command: Display saved loot note
+		this.addCommand({
+			id: 'display-loot-note',
+			name: 'Display loot note',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) return false;
+
+				const isLoot = this.lootParser.isLootNote(activeFile);
+
+				if (checking) {
+					return isLoot;
+				}
+
+				if (isLoot) {
+					this.displayLootNote(activeFile);
+				}
+
+				return isLoot;
+			}
+		});
+
+		// Command: Save the loot currently on display
+		this.addCommand({
+			id: 'save-displayed-loot',
+			name: 'Save displayed loot as note',
+			checkCallback: (checking: boolean) => {
+				const view = this.getLootDisplayView();
+				const loot = view?.getLoot();
+
+				// Loot that came from a note is already saved
+				if (!view || !loot || view.getLootFile()) return false;
+
+				if (!checking) {
+					this.saveLootNote(loot);
+				}
+				return true;
+			}
+		});
+
+		// Command: Distribute the loot currently on display
+		this.addCommand({
+			id: 'distribute-loot',
+			name: 'Distribute displayed loot',
+			checkCallback: (checking: boolean) => {
+				const view = this.getLootDisplayView();
+				const loot = view?.getLoot();
+				if (!view || !loot) return false;
+
+				if (!checking) {
+					this.openLootDistributionModal(loot, view.getLootFile(), view.getClaims());
+				}
+				return true;
+			}
+		});
+
+		// Command: Sell the loot currently on display to a shop
+		this.addCommand({
+			id: 'sell-loot',
+			name: 'Sell displayed loot to shop',
+			checkCallback: (checking: boolean) => {
+				const view = this.getLootDisplayView();
+				const loot = view?.getLoot();
+				if (!view || !loot) return false;
+
+				if (!checking) {
+					this.openSellLootModal(loot, view.getLootFile(), view.getClaims());
+				}
+				return true;
+			}
+		});
+
+		// Command: Harvest salvage from the loot currently on display
+		this.addCommand({
+			id: 'harvest-salvage',
+			name: 'Harvest salvage from displayed loot',
+			checkCallback: (checking: boolean) => {
+				const view = this.getLootDisplayView();
+				const loot = view?.getLoot();
+				if (!view || !loot || loot.salvage.length === 0) return false;
+
+				if (!checking) {
+					this.openHarvestModal(loot, view.getLootFile());
+				}
+				return true;
+			}
+		});
+
+		// Command: Identify magic items
+		this.addCommand({
+			id: 'identify-items',
+			name: 'Identify magic items',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				const view = this.getLootDisplayView();
+				this.openIdentifyModal(activeFile ? activeFile.path : null, view?.getLoot() || null, view?.getLootFile() || null);
+			}
+		});
+
+		// Command: Show party encumbrance
+		this.addCommand({
+			id: 'show-encumbrance',
+			name: 'Show party encumbrance',
+			callback: () => {
+				this.showPartyEncumbrance();
+			}
+		});
+
+		// Command: Open the image generation queue
+		this.addCommand({
+			id: 'open-image-queue',
+			name: 'Open image generation queue',
+			callback: () => {
+				this.openImageQueueModal();
+			}
+		});
+
+		// Command: Show the image history of the current item
+		this.addCommand({
+			id: 'show-image-history',
+			name: 'Show image history of current item',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile) return false;
+
+				const cache = this.app.metadataCache.getFileCache(activeFile);
+				if (cache?.frontmatter?.type !== 'item') return false;
+
+				if (!checking) {
+					this.openImageHistory(activeFile);
+				}
+				return true;
+			}
+		});
+
+		// Command: Delete images no item uses any more
+		this.addCommand({
+			id: 'clean-up-images',
+			name: 'Clean up unused item images',
+			callback: () => {
+				this.cleanUpUnusedImages();
+			}
+		});
+
+		// Command: Craft items from recipes
+		this.addCommand({
+			id: 'craft-items',
+			name: 'Craft items from recipes',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				this.openCraftingModal(activeFile ? activeFile.path : null);
+			}
+		});
+
+		// Command: Undo last inventory edit
+		this.addCommand({
+			id: 'undo-inventory-edit',
+			name: 'Undo last inventory edit',
+			checkCallback: (checking: boolean) => {
+				const view = this.getDMControlView();
+				if (view && view.canUndo()) {
+					if (!checking) {
+						view.undo();
+					}
+					return true;
+				}
+
+				// Edits that didn't touch a shop (e.g. crafting) are kept on the note they changed
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || this.inventoryHistory.peekUndo(activeFile.path) === null) return false;
+
+				if (!checking) {
+					this.undoNoteEdit(activeFile);
+				}
+				return true;
+			}
+		});
+
+		// Command: Redo inventory edit
+		this.addCommand({
+			id: 'redo-inventory-edit',
+			name: 'Redo inventory edit',
+			checkCallback: (checking: boolean) => {
+				const view = this.getDMControlView();
+				if (view && view.canRedo()) {
+					if (!checking) {
+						view.redo();
+					}
+					return true;
+				}
+
+				// Edits that didn't touch a shop (e.g. crafting) are kept on the note they changed
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || this.inventoryHistory.peekRedo(activeFile.path) === null) return false;
+
+				if (!checking) {
+					this.redoNoteEdit(activeFile);
+				}
+				return true;
+			}
+		});
+
+		// Command: Start new ledger session
+		this.addCommand({
+			id: 'start-ledger-session',
+			name: 'Start new ledger session',
+			callback: async () => {
+				await this.startLedgerSession();
+			}
+		});
+
+		// Command: Advance campaign calendar
+		this.addCommand({
+			id: 'advance-time',
+			name: 'Advance time by N days',
+			callback: () => {
+				new AdvanceTimeModal(this.app, this.settings.campaignDay, async (days: number) => {
+					await this.advanceTime(days);
+				}).open();
+			}
+		});
 	}
 
 	/**
@@ -294,6 +721,53 @@ export default class ShopboardPlugin extends Plugin {
 					});
 				}
 
+				// Add menu item for loot notes
+				if (cache?.frontmatter?.type === 'loot') {
+					menu.addItem((item) => {
+						item
+							.setTitle('Display Loot')
+							.setIcon('gem')
+							.onClick(() => {
+								this.displayLootNote(file);
+							});
+					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Distribute Loot')
+							.setIcon('users')
+							.onClick(() => {
+								const loot = this.lootParser.parseLootNote(file);
+								if (!loot) {
+									new Notice('Invalid loot note. Check console for details.');
+									return;
+								}
+								this.openLootDistributionModal(loot, file, this.lootParser.parseClaims(file));
+							});
+					});
+				}
+
+				// Add menu item for character and party notes
+				if (cache?.frontmatter?.type === 'character' || cache?.frontmatter?.type === 'party') {
+					menu.addItem((item) => {
+						item
+							.setTitle('Craft Items')
+							.setIcon('hammer')
+							.onClick(() => {
+								this.openCraftingModal(file.path);
+							});
+					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Identify Items')
+							.setIcon('eye')
+							.onClick(() => {
+								this.openIdentifyModal(file.path);
+							});
+					});
+				}
+
 				// Add menu item for item notes
 				if (cache?.frontmatter?.type === 'item') {
 					menu.addItem((item) => {
@@ -304,9 +778,59 @@ export default class ShopboardPlugin extends Plugin {
 								await this.generateItemImage(file);
 							});
 					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Image History')
+							.setIcon('history')
+							.onClick(() => {
+								this.openImageHistory(file);
+							});
+					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Add to Image Queue')
+							.setIcon('list-plus')
+							.onClick(async () => {
+								await this.queueItemImages([file]);
+							});
+					});
+				}
+
+				// Add menu item for folders
+				if (file instanceof TFolder) {
+					menu.addItem((item) => {
+						item
+							.setTitle('Queue Item Images')
+							.setIcon('images')
+							.onClick(async () => {
+								await this.queueItemImages(file);
+							});
+					});
 				}
 			})
 		);
+
+		// Add menu item for multi-selected item notes
+		this.registerEvent(
+			// @ts-ignore - files-menu event exists but may not be in type definitions
+			this.app.workspace.on('files-menu', (menu: Menu, files: Array<TFile | TFolder>) => {
+				const itemFiles = files.filter((file): file is TFile =>
+					file instanceof TFile && ['item', 'equipment'].includes(this.app.metadataCache.getFileCache(file)?.frontmatter?.type)
+				);
+				if (itemFiles.length === 0) return;
+
+				menu.addItem((item) => {
+					item
+						.setTitle(`Queue Images for ${itemFiles.length} Item(s)`)
+						.setIcon('images')
+						.onClick(async () => {
+							await this.queueItemImages(itemFiles);
+						});
+				});
+			})
+		);
 	}
 
 	/**
@@ -317,6 +841,21 @@ export default class ShopboardPlugin extends Plugin {
 	private registerItemModificationListener(): void {
 		this.registerEvent(
 			this.app.metadataCache.on('changed', async (file, data, cache) => {
+				// Settlement/region modifiers change the prices of every shop inside them
+				if (cache.frontmatter?.type === 'settlement' || cache.frontmatter?.type === 'region') {
+					this.app.workspace.trigger('shopboard:settlement-modified', file.path);
+					return;
+				}
+
+				// Edited treasure and salvage tables apply to the next generated loot
+				if (
+					((cache.frontmatter?.type === 'treasure-tables' || cache.frontmatter?.type === 'salvage-table') && this.isInTreasureTableFolder(file)) ||
+					cache.frontmatter?.type === 'monster'
+				) {
+					await this.loadTreasureTables();
+					return;
+				}
+
 				// Check if this is an item file (cache is already updated at this point)
 				// Accept both 'item' and 'equipment' types
 				if (!cache.frontmatter || (cache.frontmatter.type !== 'item' && cache.frontmatter.type !== 'equipment')) {
@@ -332,6 +871,45 @@ export default class ShopboardPlugin extends Plugin {
 		);
 	}
 
+	/**
+	 * Load treasure table sets and salvage tables from the vault and give them to the loot generator
+	 * Uses the built-in treasure tables when no set is selected or the selected set is missing
+	 */
+	async loadTreasureTables(): Promise<void> {
+		try {
+			this.treasureTableSets = await this.treasureTableParser.getTableSets(this.settings.treasureTableFolder);
+		} catch (error) {
+			console.error('Error loading treasure tables:', error);
+			this.treasureTableSets = [];
+		}
+
+		const selected = this.settings.treasureTableSet;
+		const tables = selected ? this.treasureTableSets.find(set => set.path === selected) : undefined;
+
+		if (selected && !tables) {
+			console.warn(`Treasure table set ${selected} not found, using built-in tables`);
+		}
+
+		this.lootGenerator.setTables(tables || BUILT_IN_TREASURE_TABLES);
+		console.log(`Treasure tables loaded: ${this.treasureTableSets.length} custom set(s), using ${this.lootGenerator.getTables().name}`);
+
+		try {
+			const salvageTables = this.salvageTableParser.getSalvageTables(this.settings.treasureTableFolder);
+			this.lootGenerator.setSalvageTables(salvageTables);
+			console.log(`Salvage tables loaded: ${salvageTables.length} custom table(s)`);
+		} catch (error) {
+			console.error('Error loading salvage tables:', error);
+		}
+	}
+
+	/**
+	 * Check whether a file is inside the treasure table folder
+	 */
+	private isInTreasureTableFolder(file: TFile): boolean {
+		const folder = this.settings.treasureTableFolder;
+		return !folder || file.path.startsWith(`${folder}/`);
+	}
+
 	/**
 	 * Display a shop in a new pane
 	 */
@@ -400,6 +978,57 @@ export default class ShopboardPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Get the open DM Control Panel, if any
+	 */
+	private getDMControlView(): DMControlView | null {
+		const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_DM_CONTROL);
+		if (leaves.length > 0 && leaves[0].view instanceof DMControlView) {
+			return leaves[0].view;
+		}
+		return null;
+	}
+
+	/**
+	 * Advance the campaign calendar and run any scheduled restocks
+	 * @param days Number of in-game days to advance
+	 */
+	async advanceTime(days: number): Promise<void> {
+		try {
+			const report = await this.restockScheduler.advanceTime(days);
+			await this.saveSettings();
+
+			// Notify views so the calendar display refreshes
+			this.app.workspace.trigger('shopboard:calendar-updated');
+
+			if (report.shops.length === 0) {
+				new Notice(`Day ${report.toDay}. No shops were due for a restock.`);
+				return;
+			}
+
+			new RestockSummaryModal(this.app, report, this.shopParser).open();
+		} catch (error) {
+			console.error('Error advancing time:', error);
+			new Notice('Failed to advance time. See console for details.');
+		}
+	}
+
+	/**
+	 * Start a new ledger session so per-session totals (and haggle attempts) reset
+	 */
+	async startLedgerSession(): Promise<void> {
+		const session = this.ledger.startNewSession();
+		await this.saveSettings();
+
+		// Haggle attempts and deals are per session
+		this.haggleManager.reset();
+
+		// Notify DM control so history totals refresh
+		this.app.workspace.trigger('shopboard:ledger-updated');
+
+		new Notice(`New ledger session started: ${session}`);
+	}
+
 	/**
 	 * Open template selection modal for shop creation (Phase 4)
 	 */
@@ -455,15 +1084,680 @@ export default class ShopboardPlugin extends Plugin {
 			async (loot: GeneratedLoot) => {
 				// Display the generated loot
 				await this.displayLoot(loot);
-			}
+			},
+			async (loot: GeneratedLoot) => {
+				await this.saveLootNote(loot);
+			},
+			this.settings.trackIdentification
 		);
 		modal.open();
 	}
 
+	/**
+	 * Save generated loot as a loot note and open it
+	 * @param loot Generated loot
+	 * @returns The created note, or null if saving failed
+	 */
+	async saveLootNote(loot: GeneratedLoot): Promise<TFile | null> {
+		try {
+			const date = new Date(loot.metadata.timestamp);
+			const kind = loot.metadata.lootType.charAt(0).toUpperCase() + loot.metadata.lootType.slice(1);
+			const name = `${kind} Loot ${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+			const file = await this.lootNoteWriter.createLootNote(
+				loot,
+				this.app.vault,
+				name,
+				this.settings.lootFolder
+			);
+
+			// Keep an open loot display pointing at the saved note
+			for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_LOOT_DISPLAY)) {
+				if (leaf.view instanceof LootDisplayView && leaf.view.getLoot() === loot) {
+					leaf.view.setLoot(loot, file, leaf.view.getClaims());
+				}
+			}
+
+			await this.app.workspace.getLeaf(false).openFile(file);
+			new Notice(`Loot saved to ${file.path}`);
+
+			return file;
+		} catch (error) {
+			console.error('Error saving loot note:', error);
+			new Notice('Failed to save loot note. Check console for details.');
+			return null;
+		}
+	}
+
+	/**
+	 * Display a saved loot note in the loot window
+	 * @param file Loot note file
+	 */
+	async displayLootNote(file: TFile): Promise<void> {
+		const loot = this.lootParser.parseLootNote(file);
+
+		if (!loot) {
+			new Notice('Invalid loot note. Check console for details.');
+			return;
+		}
+
+		await this.displayLoot(loot, file, this.lootParser.parseClaims(file));
+	}
+
+	/**
+	 * Open the loot distribution modal
+	 * @param loot Loot to distribute
+	 * @param file Loot note the loot is saved in (saved on apply if null)
+	 * @param claims Existing distribution claims
+	 */
+	openLootDistributionModal(loot: GeneratedLoot, file: TFile | null, claims: Record<string, string>): void {
+		const shares = this.lootDistributor.getShares(loot);
+
+		if (shares.length === 0) {
+			new Notice('This loot has no coins, gems, art objects or magic items to distribute');
+			return;
+		}
+
+		new LootDistributionModal(
+			this.app,
+			shares,
+			this.partyParser.getAllParties(),
+			claims,
+			this.lootDistributor,
+			async (newClaims: Record<string, string>, members: string[], party: PartyData | null, addToInventories: boolean) => {
+				await this.applyLootDistribution(loot, file, newClaims, members, addToInventories ? party : null, claims);
+			}
+		).open();
+	}
+
+	/**
+	 * Write a loot distribution to the loot note and mark claimed items in the loot display
+	 * Unsaved loot is saved as a loot note first
+	 * @param loot Distributed loot
+	 * @param file Loot note the loot is saved in, if any
+	 * @param claims Recipient keyed by share id
+	 * @param members Member wikilinks of the party the loot was split between
+	 * @param deliverTo Party whose members and stash receive newly claimed magic items (null to only record claims)
+	 * @param previousClaims Claims before this distribution
+	 */
+	async applyLootDistribution(
+		loot: GeneratedLoot,
+		file: TFile | null,
+		claims: Record<string, string>,
+		members: string[],
+		deliverTo: PartyData | null = null,
+		previousClaims: Record<string, string> = {}
+	): Promise<void> {
+		try {
+			const target = file || await this.saveLootNote(loot);
+			if (!target) return;
+
+			const shares = this.lootDistributor.getShares(loot);
+			const summary = this.lootDistributor.formatSummary(
+				this.lootDistributor.summarize(shares, claims, members)
+			);
+
+			await this.app.fileManager.processFrontMatter(target, (frontmatter) => {
+				frontmatter.claims = claims;
+			});
+			await this.app.vault.process(target, (content) =>
+				this.lootNoteWriter.updateDistributionSection(content, summary)
+			);
+
+			if (deliverTo) {
+				await this.deliverClaimedItems(loot, claims, previousClaims, deliverTo);
+			}
+
+			// Mark claimed items wherever this loot is displayed
+			for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_LOOT_DISPLAY)) {
+				const view = leaf.view;
+				if (view instanceof LootDisplayView && (view.getLoot() === loot || view.getLootFile()?.path === target.path)) {
+					view.setLoot(view.getLoot()!, target, claims);
+				}
+			}
+
+			const claimed = shares.filter(share => claims[share.id]).length;
+			new Notice(`Loot distributed: ${claimed} of ${shares.length} entries claimed`);
+		} catch (error) {
+			console.error('Error distributing loot:', error);
+			new Notice('Failed to distribute loot. See console for details.');
+		}
+	}
+
+	/**
+	 * Add newly claimed magic items to member character notes and the party stash
+	 * Unidentified items stay unidentified in the inventory
+	 * @param loot Distributed loot
+	 * @param claims Recipient keyed by share id
+	 * @param previousClaims Claims before this distribution
+	 * @param party Party the loot was split between
+	 */
+	private async deliverClaimedItems(
+		loot: GeneratedLoot,
+		claims: Record<string, string>,
+		previousClaims: Record<string, string>,
+		party: PartyData
+	): Promise<void> {
+		for (const [recipient, items] of this.lootDistributor.getItemDeliveries(loot, claims, previousClaims)) {
+			const recipientFile = recipient === PARTY_STASH
+				? this.app.vault.getAbstractFileByPath(party.path)
+				: this.app.metadataCache.getFirstLinkpathDest(this.shopParser.parseWikilink(recipient), party.path);
+			const name = this.lootDistributor.getRecipientName(recipient);
+
+			if (!(recipientFile instanceof TFile)) {
+				console.warn(`No note found for loot recipient ${recipient}`);
+				new Notice(`Could not add magic items to ${name}: note not found`);
+				continue;
+			}
+
+			try {
+				this.warnIfOverCapacity(recipientFile, items);
+				await this.characterInventory.addItems(recipientFile, items);
+			} catch (error) {
+				console.error(`Error adding magic items to ${recipientFile.path}:`, error);
+				new Notice(`Could not add magic items to ${name}`);
+			}
+		}
+	}
+
+	/**
+	 * Warn when items about to be added take a character or party over their carrying capacity
+	 * @param file Character or party note receiving the items
+	 * @param items Items about to be added
+	 */
+	private warnIfOverCapacity(file: TFile, items: Array<{ itemRef: string; quantity: number }>): void {
+		const weight = this.encumbranceCalculator.getInventoryWeight(items);
+		const type = this.app.metadataCache.getFileCache(file)?.frontmatter?.type;
+
+		let encumbrance: Encumbrance | null = null;
+		if (type === 'character') {
+			const character = this.characterParser.parseCharacterNote(file);
+			encumbrance = character ? this.encumbranceCalculator.getCharacterEncumbrance(character, weight) : null;
+		} else if (type === 'party') {
+			const party = this.partyParser.parsePartyNote(file);
+			encumbrance = party ? this.getPartyEncumbrance(party, weight) : null;
+		}
+
+		if (encumbrance && this.encumbranceCalculator.isOverCapacity(encumbrance)) {
+			new Notice(`Warning: ${encumbrance.name} is over their carrying capacity (${encumbrance.load} of ${encumbrance.capacity} lbs)`);
+		}
+	}
+
+	/**
+	 * Get what a party and its members carry
+	 * @param party Parsed party
+	 * @param extraWeight Weight about to be added in pounds
+	 */
+	getPartyEncumbrance(party: PartyData, extraWeight: number = 0): PartyEncumbrance {
+		const members = this.partyParser.getMemberCharacters(party, this.characterParser.getAllCharacters());
+		return this.encumbranceCalculator.getPartyEncumbrance(party, members, extraWeight);
+	}
+
+	/**
+	 * Get the party selected in the DM Control Panel, if any
+	 */
+	getActiveParty(): PartyData | null {
+		if (!this.settings.activePartyPath) return null;
+
+		const file = this.app.vault.getAbstractFileByPath(this.settings.activePartyPath);
+		return file instanceof TFile ? this.partyParser.parsePartyNote(file) : null;
+	}
+
+	/**
+	 * Show what the active party and each member carries against their carrying capacity
+	 */
+	showPartyEncumbrance(): void {
+		const party = this.getActiveParty() || this.partyParser.getAllParties()[0];
+		if (!party) {
+			new Notice('No party notes found');
+			return;
+		}
+
+		const encumbrance = this.getPartyEncumbrance(party);
+		const format = (entry: Encumbrance) => {
+			const capacity = entry.capacity !== null ? ` of ${entry.capacity} lbs` : ' lbs (no strength score)';
+			const warning = this.encumbranceCalculator.isOverCapacity(entry) ? ' ⚠ over capacity' : '';
+			return `${entry.name}: ${entry.load}${capacity}${warning}`;
+		};
+
+		const lines = [
+			format(encumbrance),
+			...encumbrance.members.map(member => `- ${format(member)}`),
+			`- Stash and purse: ${encumbrance.stash} lbs`
+		];
+		new Notice(lines.join('\n'), 10000);
+	}
+
+	/**
+	 * Open the sell loot modal, defaulting to the shop open in the DM panel
+	 * @param loot Loot to sell
+	 * @param file Loot note the loot is saved in, if any
+	 * @param claims Distribution claims keyed by share id (claimed items can't be sold)
+	 */
+	async openSellLootModal(loot: GeneratedLoot, file: TFile | null, claims: Record<string, string>): Promise<void> {
+		const shops: ShopData[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (this.app.metadataCache.getFileCache(file)?.frontmatter?.type !== 'shop') continue;
+
+			const shop = await this.shopParser.parseShopNote(file);
+			if (shop) {
+				shops.push(shop);
+			}
+		}
+
+		if (shops.length === 0) {
+			new Notice('No shop notes found');
+			return;
+		}
+
+		if (!this.lootSeller.hasSaleableLoot(loot, claims)) {
+			new Notice('This loot has no unsold, unclaimed magic items, equipment or gems');
+			return;
+		}
+
+		shops.sort((a, b) => a.name.localeCompare(b.name));
+		const defaultShop = this.getDMControlView()?.getCurrentShopFile();
+
+		new SellLootModal(
+			this.app,
+			loot,
+			claims,
+			shops,
+			defaultShop ? defaultShop.path : null,
+			this.lootSeller,
+			this.priceCalculator,
+			async (shop: ShopData, lines: LootSaleLine[]) => {
+				await this.sellLoot(shop, lines, loot, file);
+			}
+		).open();
+	}
+
+	/**
+	 * Sell loot lines to a shop, pay the active party and mark the lines sold
+	 * @param shop Shop buying the loot
+	 * @param lines Confirmed sale lines
+	 * @param loot Loot the lines come from
+	 * @param file Loot note the loot is saved in, if any
+	 */
+	async sellLoot(shop: ShopData, lines: LootSaleLine[], loot: GeneratedLoot, file: TFile | null): Promise<void> {
+		try {
+			const shopFile = this.app.vault.getAbstractFileByPath(shop.path);
+			if (!(shopFile instanceof TFile)) {
+				throw new Error(`Shop note not found: ${shop.path}`);
+			}
+
+			const partyFile = this.settings.activePartyPath
+				? this.app.vault.getAbstractFileByPath(this.settings.activePartyPath)
+				: null;
+			const payTo = partyFile instanceof TFile ? partyFile : null;
+
+			// Undoing the sale clears the sold marks again
+			const lootSale: LootSaleChange = {
+				loot,
+				lootPath: file ? file.path : null,
+				entries: lines.map(line => ({ kind: line.kind, index: line.index }))
+			};
+
+			const { total, walletChange } = await this.lootSeller.sell(shopFile, lines, payTo, undefined, lootSale);
+			const paid = this.priceCalculator.formatCurrency(total);
+
+			// Mark the sold entries so the same loot can't be sold twice
+			try {
+				await this.lootSoldMarker.apply(lootSale, true);
+			} catch (error) {
+				console.error(`Error marking sold loot${file ? ` in ${file.path}` : ''}:`, error);
+			}
+
+			if (payTo && !walletChange) {
+				new Notice(`Loot sold to ${shop.name} for ${paid}, but the party wallet could not be credited. See console for details.`);
+			} else if (payTo) {
+				new Notice(`Loot sold to ${shop.name}: ${paid} added to the party purse`);
+			} else {
+				new Notice(`Loot sold to ${shop.name}: pay the party ${paid}`);
+			}
+		} catch (error) {
+			console.error('Error selling loot:', error);
+			new Notice('Failed to sell loot. See console for details.');
+		}
+	}
+
+	/**
+	 * Open the harvest modal for the salvage of a hoard
+	 * @param loot Loot with salvage materials
+	 * @param file Loot note the loot is saved in, if any
+	 */
+	openHarvestModal(loot: GeneratedLoot, file: TFile | null): void {
+		if (!loot.salvage.some(material => this.harvestResolver.canAttempt(material))) {
+			new Notice('This loot has no salvage left to harvest');
+			return;
+		}
+
+		new HarvestModal(
+			this.app,
+			loot.salvage,
+			this.characterParser.getAllCharacters(),
+			this.harvestResolver,
+			async (attempts: HarvestAttempt[], recordInNote: boolean, recipient: string) => {
+				await this.applyHarvest(loot, file, attempts, recordInNote, recipient);
+			}
+		).open();
+	}
+
+	/**
+	 * Resolve harvest checks, then record the results in the loot note and character inventories
+	 * @param loot Loot with salvage materials
+	 * @param file Loot note the loot is saved in, if any
+	 * @param attempts Checks entered by the DM
+	 * @param recordInNote Write the results to the loot note (unsaved loot is saved first)
+	 * @param recipient Character note path, GIVE_TO_HARVESTER, or '' to keep materials out of inventories
+	 */
+	async applyHarvest(
+		loot: GeneratedLoot,
+		file: TFile | null,
+		attempts: HarvestAttempt[],
+		recordInNote: boolean,
+		recipient: string
+	): Promise<void> {
+		try {
+			const names: Record<string, string> = {};
+			for (const character of this.characterParser.getAllCharacters()) {
+				names[character.path] = character.name;
+			}
+
+			const previous = loot.salvage;
+			loot.salvage = this.harvestResolver.apply(previous, attempts, names);
+
+			// Only materials harvested by these attempts go into inventories
+			const harvested = attempts.filter(attempt =>
+				previous[attempt.index] &&
+				this.harvestResolver.canAttempt(previous[attempt.index]) &&
+				loot.salvage[attempt.index].harvest?.outcome === 'harvested'
+			);
+
+			let target = file;
+			if (recordInNote) {
+				target = file || await this.saveLootNote(loot);
+				if (target) {
+					await this.app.fileManager.processFrontMatter(target, (frontmatter) => {
+						frontmatter.salvage = this.lootNoteWriter.formatSalvage(loot.salvage);
+					});
+					await this.app.vault.process(target, (content) =>
+						this.lootNoteWriter.updateHarvestSection(content, this.harvestResolver.formatSummary(loot.salvage))
+					);
+				}
+			}
+
+			// Group harvested materials by the character who receives them
+			const deliveries = new Map<string, Array<{ itemRef: string; quantity: number }>>();
+			for (const attempt of harvested) {
+				const characterPath = recipient === GIVE_TO_HARVESTER ? attempt.characterPath : recipient;
+				if (!characterPath) continue;
+
+				const material = loot.salvage[attempt.index];
+				const items = deliveries.get(characterPath) || [];
+				items.push({ itemRef: `[[${material.name}]]`, quantity: material.quantity });
+				deliveries.set(characterPath, items);
+			}
+
+			for (const [characterPath, items] of deliveries) {
+				const characterFile = this.app.vault.getAbstractFileByPath(characterPath);
+				if (!(characterFile instanceof TFile)) {
+					console.warn(`Character note not found: ${characterPath}`);
+					continue;
+				}
+
+				try {
+					this.warnIfOverCapacity(characterFile, items);
+					await this.characterInventory.addItems(characterFile, items);
+				} catch (error) {
+					console.error(`Error adding harvested materials to ${characterPath}:`, error);
+					new Notice(`Could not add harvested materials to ${names[characterPath] || characterPath}`);
+				}
+			}
+
+			// Show the results wherever this loot is displayed
+			for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_LOOT_DISPLAY)) {
+				const view = leaf.view;
+				if (view instanceof LootDisplayView && (view.getLoot() === loot || (target && view.getLootFile()?.path === target.path))) {
+					view.setLoot(loot, target || view.getLootFile(), view.getClaims());
+				}
+			}
+
+			const ruined = attempts.filter(attempt => loot.salvage[attempt.index]?.harvest?.outcome === 'ruined').length;
+			new Notice(`Harvest: ${harvested.length} harvested, ${ruined} ruined, ${this.harvestResolver.getHarvestedValue(loot.salvage)} gp of materials in total`);
+		} catch (error) {
+			console.error('Error harvesting salvage:', error);
+			new Notice('Failed to record the harvest. See console for details.');
+		}
+	}
+
+	/**
+	 * Open the identify modal for displayed loot, characters and parties with unidentified items
+	 * @param defaultHolderPath Loot, character or party note to select first, if any
+	 * @param loot Loot on display, if any
+	 * @param lootFile Loot note the loot is saved in, if any
+	 */
+	async openIdentifyModal(
+		defaultHolderPath: string | null,
+		loot: GeneratedLoot | null = null,
+		lootFile: TFile | null = null
+	): Promise<void> {
+		const holders: IdentificationHolder[] = [];
+
+		if (loot) {
+			holders.push(this.identificationManager.getLootHolder(loot, lootFile));
+		}
+		for (const party of this.partyParser.getAllParties()) {
+			holders.push(this.identificationManager.getInventoryHolder(party, 'party'));
+		}
+		for (const character of this.characterParser.getAllCharacters()) {
+			holders.push(this.identificationManager.getInventoryHolder(character, 'character'));
+		}
+
+		const withItems = holders.filter(holder => holder.items.length > 0);
+		if (withItems.length === 0) {
+			new Notice('No unidentified magic items found');
+			return;
+		}
+
+		const shops: ShopData[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (this.app.metadataCache.getFileCache(file)?.frontmatter?.type !== 'shop') continue;
+
+			const shop = await this.shopParser.parseShopNote(file);
+			if (shop && this.identificationManager.getServiceCost(shop) !== null) {
+				shops.push(shop);
+			}
+		}
+		shops.sort((a, b) => a.name.localeCompare(b.name));
+
+		new IdentifyModal(
+			this.app,
+			withItems,
+			shops,
+			defaultHolderPath,
+			this.identificationManager,
+			async (holder: IdentificationHolder, item: UnidentifiedItem, shop: ShopData | null) => {
+				await this.identifyItem(holder, item, shop, loot, lootFile);
+			}
+		).open();
+	}
+
+	/**
+	 * Identify an item and show its real name wherever it is displayed
+	 * @param holder Loot, character or party holding the item
+	 * @param item Unidentified item
+	 * @param shop Shop providing the service, if any
+	 * @param loot Loot on display, if the item is part of it
+	 * @param lootFile Loot note the loot is saved in, if any
+	 */
+	async identifyItem(
+		holder: IdentificationHolder,
+		item: UnidentifiedItem,
+		shop: ShopData | null,
+		loot: GeneratedLoot | null,
+		lootFile: TFile | null
+	): Promise<void> {
+		const name = this.identificationManager.getDisplayName(item.itemData, item.itemRef, true);
+
+		try {
+			if (holder.kind === 'loot') {
+				if (!loot || item.lootIndex === null) return;
+
+				await this.identificationManager.identifyLootItem(loot, lootFile, item.lootIndex);
+
+				for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_LOOT_DISPLAY)) {
+					const view = leaf.view;
+					if (view instanceof LootDisplayView && (view.getLoot() === loot || (lootFile && view.getLootFile()?.path === lootFile.path))) {
+						view.setLoot(loot, lootFile || view.getLootFile(), view.getClaims());
+					}
+				}
+
+				new Notice(`Identified ${name}`);
+				return;
+			}
+
+			const price = await this.identificationManager.identifyInventoryItem(holder, item, shop);
+			new Notice(price > 0
+				? `${holder.name} paid ${shop!.name} ${price} gp to identify ${name}`
+				: `${holder.name} identified ${name}`);
+		} catch (error) {
+			console.error('Error identifying item:', error);
+			new Notice(`Failed to identify ${name}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	/**
+	 * Open the crafting modal
+	 * @param defaultCrafterPath Character or party note to select first, if any
+	 */
+	async openCraftingModal(defaultCrafterPath: string | null): Promise<void> {
+		const recipes = this.recipeParser.getAllRecipes();
+		if (recipes.length === 0) {
+			new Notice('No recipe notes found. Add notes with type: recipe to start crafting.');
+			return;
+		}
+
+		const crafters = this.getCrafters();
+		if (crafters.length === 0) {
+			new Notice('No character or party notes found');
+			return;
+		}
+
+		const shops: ShopData[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (this.app.metadataCache.getFileCache(file)?.frontmatter?.type !== 'shop') continue;
+
+			const shop = await this.shopParser.parseShopNote(file);
+			if (shop) {
+				shops.push(shop);
+			}
+		}
+		shops.sort((a, b) => a.name.localeCompare(b.name));
+
+		new CraftingModal(
+			this.app,
+			crafters,
+			recipes,
+			shops,
+			defaultCrafterPath || this.settings.activePartyPath || null,
+			this.craftingManager,
+			async (check: CraftingCheck, crafter: Crafter, destination: CraftingDestination) => {
+				await this.craftItem(check, crafter, destination);
+			}
+		).open();
+	}
+
+	/**
+	 * Craft a recipe after re-checking it against the crafter's current notes
+	 * @param check Recipe check shown in the crafting modal
+	 * @param crafter Character or party crafting
+	 * @param destination Character inventory or shop receiving the item
+	 */
+	async craftItem(check: CraftingCheck, crafter: Crafter, destination: CraftingDestination): Promise<void> {
+		try {
+			// Notes may have changed since the modal was opened
+			const current = this.getCrafters().find(candidate => candidate.path === crafter.path) || crafter;
+			const fresh = this.craftingManager.checkRecipe(check.recipe, current);
+
+			if (!fresh.craftable) {
+				new Notice(`Cannot craft ${check.recipe.name}: missing ${fresh.missing.join(', ')}`);
+				return;
+			}
+
+			await this.craftingManager.craft(fresh, current, destination);
+
+			const days = check.recipe.craftingDays;
+			new Notice(`Crafted ${check.recipe.outputQuantity}x ${this.shopParser.parseWikilink(check.recipe.outputRef)} (${days} day${days === 1 ? '' : 's'} of work)`);
+		} catch (error) {
+			console.error('Error crafting item:', error);
+			new Notice(`Failed to craft ${check.recipe.name}. See console for details.`);
+		}
+	}
+
+	/**
+	 * Undo the most recent edit kept on a note that isn't shown in the DM panel
+	 * @param file Note the edit was recorded on
+	 */
+	async undoNoteEdit(file: TFile): Promise<void> {
+		try {
+			const entry = await this.inventoryHistory.undo(file);
+			if (entry) {
+				new Notice(`Undone: ${entry.label}`);
+			}
+		} catch (error) {
+			console.error('Error undoing inventory edit:', error);
+			new Notice('Failed to undo. See console for details.');
+		}
+	}
+
+	/**
+	 * Redo the most recently undone edit kept on a note that isn't shown in the DM panel
+	 * @param file Note the edit was recorded on
+	 */
+	async redoNoteEdit(file: TFile): Promise<void> {
+		try {
+			const entry = await this.inventoryHistory.redo(file);
+			if (entry) {
+				new Notice(`Redone: ${entry.label}`);
+			}
+		} catch (error) {
+			console.error('Error redoing inventory edit:', error);
+			new Notice('Failed to redo. See console for details.');
+		}
+	}
+
+	/**
+	 * Get every character and party that can craft, parties first
+	 */
+	private getCrafters(): Crafter[] {
+		const characters = this.characterParser.getAllCharacters();
+
+		return [
+			...this.partyParser.getAllParties().map(party => this.craftingManager.getPartyCrafter(party, characters)),
+			...characters.map(character => this.craftingManager.getCharacterCrafter(character))
+		];
+	}
+
+	/**
+	 * Get the open loot display view, if any
+	 */
+	private getLootDisplayView(): LootDisplayView | null {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_LOOT_DISPLAY)) {
+			if (leaf.view instanceof LootDisplayView) {
+				return leaf.view;
+			}
+		}
+		return null;
+	}
+
 	/**
 	 * Display generated loot in a new window
+	 * @param loot Loot to display
+	 * @param file Loot note the loot was loaded from, if any
+	 * @param claims Distribution claims keyed by share id
 	 */
-	async displayLoot(loot: GeneratedLoot): Promise<void> {
+	async displayLoot(loot: GeneratedLoot, file: TFile | null = null, claims: Record<string, string> = {}): Promise<void> {
 		try {
 			// Check if loot display is already open
 			const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_LOOT_DISPLAY);
@@ -485,10 +1779,19 @@ export default class ShopboardPlugin extends Plugin {
 
 			const view = leaf.view;
 			if (view instanceof LootDisplayView) {
-				view.setLoot(loot);
+				view.setLoot(loot, file, claims);
 			}
 
 			new Notice(`Loot displayed! Total value: ${loot.totalValue} gp`);
+
+			// Warn the DM (not the players) when the active party can't carry everything
+			const party = this.getActiveParty();
+			if (party && loot.totalWeight > 0) {
+				const encumbrance = this.getPartyEncumbrance(party, loot.totalWeight);
+				if (this.encumbranceCalculator.isOverCapacity(encumbrance)) {
+					new Notice(`Warning: ${encumbrance.name} can't carry everything (${encumbrance.load} of ${encumbrance.capacity} lbs)`);
+				}
+			}
 		} catch (error) {
 			console.error('Error displaying loot:', error);
 			new Notice('Failed to display loot. Check console for details.');
@@ -497,12 +1800,13 @@ export default class ShopboardPlugin extends Plugin {
 
 	/**
 	 * Generate an AI image for an item
+	 * Shows the expanded prompt first so it can be checked before generating
 	 */
 	async generateItemImage(file: TFile): Promise<void> {
 		try {
-			// Check if API key is configured
+			// Check if the image provider is configured
 			if (!this.imageGenerator.isConfigured()) {
-				new Notice('OpenAI API key not configured. Please add your API key in Shopboard settings.');
+				new Notice(this.imageGenerator.getSetupHint());
 				return;
 			}
 
@@ -513,14 +1817,152 @@ export default class ShopboardPlugin extends Plugin {
 				return;
 			}
 
-			// Generate the image
-			await this.imageGenerator.generateImageForItem(file);
+			// Template images cost nothing, so only preview prompts that are sent to a generator
+			if (this.settings.imageProvider === 'template-folder') {
+				await this.imageGenerator.generateImageForItem(file);
+				return;
+			}
+
+			const preview = this.imageGenerator.previewPrompt(file);
+			if (!preview) {
+				new Notice('Unable to read item metadata');
+				return;
+			}
+
+			// Show the expanded prompt before spending a generation
+			new ImagePromptModal(
+				this.app,
+				cache.frontmatter.name || file.basename,
+				preview.prompt,
+				preview.source,
+				this.imageGenerator.getProvider().name,
+				() => {
+					this.imageGenerator.generateImageForItem(file);
+				}
+			).open();
 		} catch (error) {
 			console.error('Error generating item image:', error);
 			new Notice('Failed to generate item image. Check console for details.');
 		}
 	}
 
+	/**
+	 * Show an item's recent images and let the DM pick the active one
+	 * @param file Item note
+	 */
+	openImageHistory(file: TFile): void {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const images = this.imageHistory.getHistory(file).map(path => {
+			const resolved = this.imageHistory.resolvePath(path, file.path);
+			return {
+				path,
+				src: /^https?:\/\//.test(resolved) ? resolved : this.app.vault.adapter.getResourcePath(resolved)
+			};
+		});
+
+		new ImageHistoryModal(
+			this.app,
+			cache?.frontmatter?.name || file.basename,
+			images,
+			this.imageHistory.getActive(file),
+			async (path) => {
+				try {
+					await this.imageHistory.setActive(file, path);
+					new Notice(`Restored image of ${file.basename}`);
+				} catch (error) {
+					console.error('Error restoring image:', error);
+					new Notice(error instanceof Error ? error.message : 'Failed to restore image. Check console for details.');
+				}
+			},
+			async (path) => {
+				try {
+					await this.imageHistory.remove(file, path);
+					new Notice('Image removed from history. Run "Clean up unused item images" to delete it.');
+				} catch (error) {
+					console.error('Error removing image from history:', error);
+					new Notice(error instanceof Error ? error.message : 'Failed to remove image. Check console for details.');
+				}
+			}
+		).open();
+	}
+
+	/**
+	 * List attachment images that nothing uses and move them to the trash on confirmation
+	 */
+	cleanUpUnusedImages(): void {
+		const files = this.imageHistory.findUnusedImages();
+
+		new UnusedImagesModal(this.app, files, async (selected) => {
+			const deleted = await this.imageHistory.deleteImages(selected);
+			new Notice(`Moved ${deleted} unused image(s) to the trash`);
+		}).open();
+	}
+
+	/**
+	 * Add item notes to the image generation queue and show the queue
+	 * @param source Item notes, or a folder to search for item notes
+	 */
+	async queueItemImages(source: TFile[] | TFolder): Promise<void> {
+		try {
+			const added = source instanceof TFolder
+				? await this.imageQueue.enqueueFolder(source)
+				: await this.imageQueue.enqueue(source);
+
+			if (added === 0) {
+				new Notice('No new item notes to queue.');
+			} else {
+				new Notice(`Queued ${added} item(s) for image generation`);
+			}
+
+			this.openImageQueueModal();
+		} catch (error) {
+			console.error('Error queueing item images:', error);
+			new Notice('Failed to queue item images. Check console for details.');
+		}
+	}
+
+	/**
+	 * Open the image generation queue
+	 */
+	openImageQueueModal(): void {
+		new ImageQueueModal(this.app, this.imageQueue, this.settings.imageQueueLimit, () => {
+			this.runImageQueue();
+		}).open();
+	}
+
+	/**
+	 * Generate images for the queued items and report the outcome
+	 * @returns Run outcome, or null if the run couldn't start
+	 */
+	async runImageQueue(): Promise<ImageQueueRunResult | null> {
+		if (this.imageQueue.isRunning()) {
+			new Notice('The image queue is already running.');
+			return null;
+		}
+
+		try {
+			const pending = this.imageQueue.getPendingCount();
+			const limit = this.settings.imageQueueLimit;
+			new Notice(`Generating images for ${limit > 0 ? Math.min(pending, limit) : pending} item(s)...`);
+
+			const result = await this.imageQueue.run();
+
+			const lines = [`Generated ${result.generated} image(s)${result.failed > 0 ? `, ${result.failed} failed` : ''}.`];
+			if (result.cancelled) {
+				lines.push('The queue was stopped.');
+			} else if (result.limitReached) {
+				lines.push(`Stopped at the limit of ${limit} image(s) per run; ${result.remaining} item(s) still queued.`);
+			}
+			new Notice(lines.join('\n'));
+
+			return result;
+		} catch (error) {
+			console.error('Error running image queue:', error);
+			new Notice(error instanceof Error ? error.message : 'Failed to run the image queue. Check console for details.');
+			return null;
+		}
+	}
+
 	/**
 	 * Show ribbon menu with shop creation options
 	 */
@@ -0,0 +1,94 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Modal for advancing the campaign calendar by a number of in-game days
+ */
+export class AdvanceTimeModal extends Modal {
+	private currentDay: number;
+	private onSubmit: (days: number) => void;
+
+	// Form state
+	private days: number = 1;
+
+	constructor(app: App, currentDay: number, onSubmit: (days: number) => void) {
+		super(app);
+		this.currentDay = currentDay;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-advance-time-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Advance Time' });
+		contentEl.createEl('p', {
+			text: `It is currently day ${this.currentDay}. Shops with a restock schedule restock when they become due.`,
+			cls: 'modal-description'
+		});
+
+		// Days input
+		new Setting(contentEl)
+			.setName('Days')
+			.setDesc('Number of in-game days that pass')
+			.addText(text => {
+				text
+					.setValue(String(this.days))
+					.onChange(value => {
+						const num = parseInt(value);
+						this.days = isNaN(num) ? 0 : num;
+					});
+
+				text.inputEl.type = 'number';
+				text.inputEl.min = '1';
+				text.inputEl.focus();
+				text.inputEl.select();
+
+				// Submit on Enter
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault();
+						this.submit();
+					}
+				});
+
+				return text;
+			});
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const advanceButton = buttonContainer.createEl('button', {
+			text: 'Advance',
+			cls: 'mod-cta'
+		});
+		advanceButton.addEventListener('click', () => {
+			this.submit();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Submit if a valid number of days was entered
+	 */
+	private submit() {
+		if (!Number.isInteger(this.days) || this.days < 1) {
+			return;
+		}
+
+		this.onSubmit(this.days);
+		this.close();
+	}
+}
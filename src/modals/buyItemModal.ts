@@ -1,11 +1,12 @@
 import { App, Modal, Notice } from 'obsidian';
 import { ItemParser } from '../parsers/itemParser';
-import { ItemData, ShopboardSettings } from '../types';
+import { BulkRule, ItemData, LineTotal, PriceStep, ShopboardSettings } from '../types';
 import { PriceCalculator } from '../utils/priceCalculator';
 
 /**
  * Modal for buying items from players and adding them to shop
  * Shows buy prices (what shop pays player) but adds items at normal shop pricing
+ * Settlement and region modifiers apply to buy prices as they do to shop prices
  */
 export class BuyItemModal extends Modal {
 	private itemParser: ItemParser;
@@ -13,8 +14,10 @@ export class BuyItemModal extends Modal {
 	private priceCalculator: PriceCalculator;
 	private shopPriceModifier: number;
 	private buyModifier: number;
+	private getBulkRules: (item: ItemData) => BulkRule[];
+	private getPriceSteps: (item: ItemData, buyModifier: number) => PriceStep[];
 	private searchQuery: string = '';
-	private onSubmit: (itemRef: string, quantity: number) => void;
+	private onSubmit: (itemRef: string, quantity: number, unitPrice: number, total: number) => void;
 
 	private searchInputEl: HTMLInputElement | null = null;
 	private buyModifierInputEl: HTMLInputElement | null = null;
@@ -26,7 +29,9 @@ export class BuyItemModal extends Modal {
 		settings: ShopboardSettings,
 		priceCalculator: PriceCalculator,
 		shopPriceModifier: number,
-		onSubmit: (itemRef: string, quantity: number) => void
+		getBulkRules: (item: ItemData) => BulkRule[],
+		getPriceSteps: (item: ItemData, buyModifier: number) => PriceStep[],
+		onSubmit: (itemRef: string, quantity: number, unitPrice: number, total: number) => void
 	) {
 		super(app);
 		this.itemParser = itemParser;
@@ -35,6 +40,8 @@ export class BuyItemModal extends Modal {
 		this.shopPriceModifier = shopPriceModifier;
 		// Default buy modifier: shop modifier - 10
 		this.buyModifier = shopPriceModifier - 10;
+		this.getBulkRules = getBulkRules;
+		this.getPriceSteps = getPriceSteps;
 		this.onSubmit = onSubmit;
 	}
 
@@ -272,10 +279,7 @@ export class BuyItemModal extends Modal {
 			// Buy price (what shop pays player)
 			let buyPriceText = '-';
 			if (item.basePrice) {
-				const buyPriceInBase = this.priceCalculator.calculatePrice(
-					item.basePrice,
-					this.buyModifier
-				);
+				const buyPriceInBase = this.getBuyPrice(item);
 				buyPriceText = this.priceCalculator.formatCurrency(buyPriceInBase);
 			}
 			row.createEl('td', { text: buyPriceText, cls: 'buy-price-cell' });
@@ -283,32 +287,24 @@ export class BuyItemModal extends Modal {
 			// Quick buy buttons
 			const actionsCell = row.createEl('td', { cls: 'actions-cell' });
 
-			// +1 button
-			const buy1Button = actionsCell.createEl('button', {
-				text: '+1',
-				cls: 'btn-small btn-add'
-			});
-			buy1Button.addEventListener('click', () => {
-				this.handleQuickBuy(item, 1);
-			});
+			// +1, +5 and +20 buttons (tooltips show the line total after bulk rules)
+			for (const quantity of [1, 5, 20]) {
+				const buyButton = actionsCell.createEl('button', {
+					text: `+${quantity}`,
+					cls: 'btn-small btn-add'
+				});
 
-			// +5 button
-			const buy5Button = actionsCell.createEl('button', {
-				text: '+5',
-				cls: 'btn-small btn-add'
-			});
-			buy5Button.addEventListener('click', () => {
-				this.handleQuickBuy(item, 5);
-			});
+				if (item.basePrice) {
+					const lineTotal = this.getLineTotal(item, quantity);
+					buyButton.setAttr('title', lineTotal.label
+						? `${this.priceCalculator.formatCurrency(lineTotal.total)} (bulk ${lineTotal.label})`
+						: this.priceCalculator.formatCurrency(lineTotal.total));
+				}
 
-			// +20 button
-			const buy20Button = actionsCell.createEl('button', {
-				text: '+20',
-				cls: 'btn-small btn-add'
-			});
-			buy20Button.addEventListener('click', () => {
-				this.handleQuickBuy(item, 20);
-			});
+				buyButton.addEventListener('click', () => {
+					this.handleQuickBuy(item, quantity);
+				});
+			}
 		}
 
 		// Show count if limited
@@ -328,20 +324,35 @@ export class BuyItemModal extends Modal {
 		// Create wikilink reference
 		const itemRef = `[[${item.name}]]`;
 
-		// Calculate buy price for display in notice
-		const buyPriceInBase = this.priceCalculator.calculatePrice(
-			item.basePrice,
-			this.buyModifier
-		);
-		const totalBuyPrice = buyPriceInBase * quantity;
-		const buyPriceText = this.priceCalculator.formatCurrency(totalBuyPrice);
+		// Calculate buy price (after bulk rules) for display in notice
+		const lineTotal = this.getLineTotal(item, quantity);
+		const buyPriceText = this.priceCalculator.formatCurrency(lineTotal.total)
+			+ (lineTotal.label ? ` (bulk ${lineTotal.label})` : '');
 
 		// Await the onSubmit callback to ensure item is added before showing notice
-		await this.onSubmit(itemRef, quantity);
+		await this.onSubmit(itemRef, quantity, lineTotal.unitPrice, lineTotal.total);
 
 		// Show success notice with buy price AFTER item is added
 		new Notice(`Bought ${quantity}x ${item.name} for ${buyPriceText}`);
 
 		// Keep modal open for buying more items
 	}
+
+	/**
+	 * Calculate what the shop pays for a quantity of an item, applying the shop's bulk rules
+	 */
+	private getLineTotal(item: ItemData, quantity: number): LineTotal {
+		return this.priceCalculator.calculateLineTotal(this.getBuyPrice(item), quantity, this.getBulkRules(item));
+	}
+
+	/**
+	 * Calculate what the shop pays for one of an item
+	 * Region and settlement modifiers apply first, then the buy modifier in place of the shop's own
+	 */
+	private getBuyPrice(item: ItemData): number {
+		return this.priceCalculator.calculateChainedPrice(
+			item.basePrice,
+			this.getPriceSteps(item, this.buyModifier)
+		);
+	}
 }
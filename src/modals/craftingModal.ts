@@ -0,0 +1,188 @@
+import { App, Modal, Setting } from 'obsidian';
+import { Crafter, CraftingCheck, CraftingDestination, RecipeData, ShopData } from '../types';
+import { CraftingManager } from '../handlers/craftingManager';
+
+/**
+ * Modal for crafting items from recipe notes
+ * Checks every recipe against the chosen character's or party's materials
+ */
+export class CraftingModal extends Modal {
+	private crafters: Crafter[];
+	private recipes: RecipeData[];
+	private shops: ShopData[];
+	private craftingManager: CraftingManager;
+	private onCraft: (check: CraftingCheck, crafter: Crafter, destination: CraftingDestination) => void;
+
+	// Form state
+	private crafter: Crafter;
+	private destination: string = '';
+
+	constructor(
+		app: App,
+		crafters: Crafter[],
+		recipes: RecipeData[],
+		shops: ShopData[],
+		defaultCrafterPath: string | null,
+		craftingManager: CraftingManager,
+		onCraft: (check: CraftingCheck, crafter: Crafter, destination: CraftingDestination) => void
+	) {
+		super(app);
+		this.crafters = crafters;
+		this.recipes = recipes;
+		this.shops = shops;
+		this.crafter = crafters.find(crafter => crafter.path === defaultCrafterPath) || crafters[0];
+		this.craftingManager = craftingManager;
+		this.onCraft = onCraft;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Render the whole modal
+	 */
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-crafting-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Craft Items' });
+		contentEl.createEl('p', {
+			text: 'Crafting consumes the listed materials and gold. A party uses every member\'s materials and pays from the party purse.',
+			cls: 'modal-description'
+		});
+
+		// Crafter selection
+		new Setting(contentEl)
+			.setName('Crafter')
+			.addDropdown(dropdown => {
+				for (const crafter of this.crafters) {
+					dropdown.addOption(crafter.path, crafter.kind === 'party' ? `Party: ${crafter.name}` : crafter.name);
+				}
+				dropdown
+					.setValue(this.crafter.path)
+					.onChange(value => {
+						this.crafter = this.crafters.find(crafter => crafter.path === value) || this.crafter;
+						this.destination = '';
+						this.render();
+					});
+			});
+
+		// Destination for the crafted item
+		const destinations = this.getDestinations();
+		if (!destinations.some(option => option.value === this.destination)) {
+			this.destination = destinations.length > 0 ? destinations[0].value : '';
+		}
+
+		new Setting(contentEl)
+			.setName('Crafted item goes to')
+			.addDropdown(dropdown => {
+				for (const option of destinations) {
+					dropdown.addOption(option.value, option.label);
+				}
+				dropdown
+					.setValue(this.destination)
+					.onChange(value => {
+						this.destination = value;
+					});
+			});
+
+		// Recipes, craftable first
+		const checks = this.recipes
+			.map(recipe => this.craftingManager.checkRecipe(recipe, this.crafter))
+			.sort((a, b) => Number(b.craftable) - Number(a.craftable));
+
+		const listEl = contentEl.createDiv({ cls: 'crafting-recipe-list' });
+		if (checks.length === 0) {
+			listEl.createEl('p', { text: 'No recipe notes found.', cls: 'crafting-empty' });
+		}
+
+		for (const check of checks) {
+			this.renderRecipe(listEl, check);
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Close'
+		});
+		closeButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	/**
+	 * Render one recipe with what it uses or what is missing
+	 */
+	private renderRecipe(container: HTMLElement, check: CraftingCheck) {
+		const recipe = check.recipe;
+		const rowEl = container.createDiv({ cls: `crafting-recipe ${check.craftable ? 'is-craftable' : 'is-blocked'}` });
+
+		const setting = new Setting(rowEl)
+			.setName(`${recipe.name} → ${recipe.outputQuantity}x ${recipe.outputRef.replace(/^\[\[|\]\]$/g, '')}`)
+			.setDesc(this.getRecipeDetails(recipe));
+
+		if (check.craftable) {
+			const uses = check.consumed.map(entry => `${entry.quantity}x ${entry.itemRef.replace(/^\[\[|\]\]$/g, '')}`);
+			setting.descEl.createDiv({
+				text: uses.length > 0 ? `Uses ${uses.join(', ')}` : 'Uses no materials',
+				cls: 'crafting-uses'
+			});
+		} else {
+			setting.descEl.createDiv({
+				text: `Missing ${check.missing.join(', ')}`,
+				cls: 'crafting-missing'
+			});
+		}
+
+		setting.addButton(button => button
+			.setButtonText('Craft')
+			.setCta()
+			.setDisabled(!check.craftable || !this.destination)
+			.onClick(() => {
+				const [kind, ...rest] = this.destination.split(':');
+				this.onCraft(check, this.crafter, { kind: kind as CraftingDestination['kind'], path: rest.join(':') });
+				this.close();
+			}));
+	}
+
+	/**
+	 * Describe a recipe's requirements, cost, tool and time
+	 */
+	private getRecipeDetails(recipe: RecipeData): string {
+		const parts = recipe.requirements.map(requirement =>
+			`${requirement.quantity}x ${requirement.name || `any ${requirement.tag}`}`
+		);
+
+		if (recipe.goldCost > 0) parts.push(`${recipe.goldCost} gp`);
+		if (recipe.tool) parts.push(recipe.tool);
+		parts.push(`${recipe.craftingDays} day${recipe.craftingDays === 1 ? '' : 's'}`);
+
+		return parts.join(' · ');
+	}
+
+	/**
+	 * List the inventories and shops a crafted item can go to
+	 * Values are "character:<path>" or "shop:<path>"
+	 */
+	private getDestinations(): Array<{ value: string; label: string }> {
+		return [
+			...this.crafter.characters.map(character => ({
+				value: `character:${character.path}`,
+				label: `${character.name}'s inventory`
+			})),
+			...this.shops.map(shop => ({
+				value: `shop:${shop.path}`,
+				label: `Shop: ${shop.name}`
+			}))
+		];
+	}
+}
@@ -0,0 +1,127 @@
+import { App, Modal, Setting } from 'obsidian';
+import { HaggleSkill } from '../types';
+
+/**
+ * Modal for entering a haggle check
+ * The DM enters the player's Persuasion/Deception result against the shopkeeper DC
+ */
+export class HaggleModal extends Modal {
+	private itemName: string;
+	private priceText: string;
+	private dc: number;
+	private attempts: number;
+	private onSubmit: (skill: HaggleSkill, roll: number) => void;
+
+	// Form state
+	private skill: HaggleSkill = 'persuasion';
+	private roll: number | null = null;
+
+	constructor(
+		app: App,
+		itemName: string,
+		priceText: string,
+		dc: number,
+		attempts: number,
+		onSubmit: (skill: HaggleSkill, roll: number) => void
+	) {
+		super(app);
+		this.itemName = itemName;
+		this.priceText = priceText;
+		this.dc = dc;
+		this.attempts = attempts;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-haggle-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: `Haggle: ${this.itemName}` });
+		contentEl.createEl('p', {
+			text: `Current price: ${this.priceText}. Shopkeeper DC: ${this.dc}`,
+			cls: 'modal-description'
+		});
+
+		// Diminishing returns hint
+		if (this.attempts > 0) {
+			contentEl.createEl('p', {
+				text: `The shopkeeper has heard ${this.attempts} offer${this.attempts === 1 ? '' : 's'} on this item already; the DC has gone up.`,
+				cls: 'haggle-attempts-warning'
+			});
+		}
+
+		// Skill selection
+		new Setting(contentEl)
+			.setName('Skill')
+			.addDropdown(dropdown => dropdown
+				.addOption('persuasion', 'Persuasion')
+				.addOption('deception', 'Deception')
+				.setValue(this.skill)
+				.onChange(value => {
+					this.skill = value as HaggleSkill;
+				}));
+
+		// Roll input
+		new Setting(contentEl)
+			.setName('Check Result')
+			.setDesc('Total of the player\'s roll including modifiers')
+			.addText(text => {
+				text
+					.setPlaceholder('e.g., 17')
+					.onChange(value => {
+						const num = parseInt(value);
+						this.roll = isNaN(num) ? null : num;
+					});
+
+				text.inputEl.type = 'number';
+				text.inputEl.focus();
+
+				// Submit on Enter
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter') {
+						evt.preventDefault();
+						this.submit();
+					}
+				});
+
+				return text;
+			});
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const haggleButton = buttonContainer.createEl('button', {
+			text: 'Resolve',
+			cls: 'mod-cta'
+		});
+		haggleButton.addEventListener('click', () => {
+			this.submit();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Submit the roll if one was entered
+	 */
+	private submit() {
+		if (this.roll === null) {
+			return;
+		}
+
+		this.onSubmit(this.skill, this.roll);
+		this.close();
+	}
+}
@@ -0,0 +1,192 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { CharacterData, HarvestAttempt, SalvageMaterial } from '../types';
+import { HarvestResolver } from '../utils/harvestResolver';
+
+/**
+ * Recipient key for giving each material to the character who harvested it
+ */
+export const GIVE_TO_HARVESTER = 'harvester';
+
+/**
+ * Modal for resolving salvage harvest checks
+ * The DM enters each attempting character's check result per material
+ */
+export class HarvestModal extends Modal {
+	private salvage: SalvageMaterial[];
+	private characters: CharacterData[];
+	private resolver: HarvestResolver;
+	private onApply: (attempts: HarvestAttempt[], recordInNote: boolean, recipient: string) => void;
+
+	// Form state
+	private checks: Map<number, number> = new Map();
+	private harvesters: Map<number, string> = new Map();
+	private recordInNote: boolean = true;
+	private recipient: string = GIVE_TO_HARVESTER;
+
+	constructor(
+		app: App,
+		salvage: SalvageMaterial[],
+		characters: CharacterData[],
+		resolver: HarvestResolver,
+		onApply: (attempts: HarvestAttempt[], recordInNote: boolean, recipient: string) => void
+	) {
+		super(app);
+		this.salvage = salvage;
+		this.characters = characters;
+		this.resolver = resolver;
+		this.onApply = onApply;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-harvest-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Harvest Salvage' });
+		contentEl.createEl('p', {
+			text: 'Enter each check result. Meeting the DC harvests the material; missing by 5 or more ruins it. Leave a check empty to skip the material.',
+			cls: 'modal-description'
+		});
+
+		// One row per material
+		const listEl = contentEl.createDiv({ cls: 'harvest-list' });
+		this.salvage.forEach((material, index) => {
+			this.renderMaterial(listEl, material, index);
+		});
+
+		// Where the results go
+		new Setting(contentEl)
+			.setName('Record in loot note')
+			.setDesc('Writes a Harvest section to the loot note (unsaved loot is saved first)')
+			.addToggle(toggle => toggle
+				.setValue(this.recordInNote)
+				.onChange(value => {
+					this.recordInNote = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Add harvested materials to')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'No character inventory');
+				dropdown.addOption(GIVE_TO_HARVESTER, 'The character who harvested them');
+				for (const character of this.characters) {
+					dropdown.addOption(character.path, character.name);
+				}
+				dropdown
+					.setValue(this.recipient)
+					.onChange(value => {
+						this.recipient = value;
+					});
+			});
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const applyButton = buttonContainer.createEl('button', {
+			text: 'Harvest',
+			cls: 'mod-cta'
+		});
+		applyButton.addEventListener('click', () => {
+			const attempts: HarvestAttempt[] = Array.from(this.checks.entries()).map(([index, check]) => ({
+				index,
+				check,
+				characterPath: this.harvesters.get(index) || null
+			}));
+
+			if (attempts.length === 0) {
+				new Notice('Enter at least one check result');
+				return;
+			}
+
+			this.onApply(attempts, this.recordInNote, this.recipient);
+			this.close();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Render the check inputs for one material
+	 * Materials already harvested or ruined only show their result
+	 */
+	private renderMaterial(container: HTMLElement, material: SalvageMaterial, index: number) {
+		const setting = new Setting(container)
+			.setName(`${material.quantity}x ${material.name}`)
+			.setDesc(`DC ${material.harvestDC} · ${material.value} gp each`);
+
+		if (!this.resolver.canAttempt(material)) {
+			const harvest = material.harvest!;
+			setting.controlEl.createSpan({
+				text: harvest.outcome === 'harvested' ? `Harvested (${harvest.check})` : `Ruined (${harvest.check})`,
+				cls: `harvest-outcome harvest-${harvest.outcome}`
+			});
+			return;
+		}
+
+		const outcomeEl = setting.controlEl.createSpan({ cls: 'harvest-outcome' });
+
+		if (this.characters.length > 0) {
+			setting.addDropdown(dropdown => {
+				dropdown.addOption('', 'Character…');
+				for (const character of this.characters) {
+					dropdown.addOption(character.path, character.name);
+				}
+				dropdown.onChange(value => {
+					if (value) {
+						this.harvesters.set(index, value);
+					} else {
+						this.harvesters.delete(index);
+					}
+				});
+			});
+		}
+
+		setting.addText(text => {
+			text
+				.setPlaceholder('Check')
+				.onChange(value => {
+					const check = parseInt(value);
+					if (isNaN(check)) {
+						this.checks.delete(index);
+					} else {
+						this.checks.set(index, check);
+					}
+					this.renderOutcome(outcomeEl, material, index);
+				});
+			text.inputEl.type = 'number';
+			text.inputEl.addClass('harvest-check-input');
+			return text;
+		});
+
+		// Keep the outcome label after the inputs
+		setting.controlEl.appendChild(outcomeEl);
+	}
+
+	/**
+	 * Show what the entered check does to a material
+	 */
+	private renderOutcome(outcomeEl: HTMLElement, material: SalvageMaterial, index: number) {
+		outcomeEl.className = 'harvest-outcome';
+
+		const check = this.checks.get(index);
+		if (check === undefined) {
+			outcomeEl.setText('');
+			return;
+		}
+
+		const outcome = this.resolver.getOutcome(material.harvestDC, check);
+		outcomeEl.addClass(`harvest-${outcome}`);
+		outcomeEl.setText(outcome === 'harvested' ? 'Harvested' : outcome === 'ruined' ? 'Ruined' : 'Failed');
+	}
+}
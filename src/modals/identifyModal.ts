@@ -0,0 +1,142 @@
+import { App, Modal, Setting } from 'obsidian';
+import { IdentificationHolder, ShopData, UnidentifiedItem } from '../types';
+import { IdentificationManager } from '../handlers/identificationManager';
+
+/**
+ * Modal for identifying magic items in loot, a character inventory or a party stash
+ */
+export class IdentifyModal extends Modal {
+	private holders: IdentificationHolder[];
+	private shops: ShopData[];
+	private identificationManager: IdentificationManager;
+	private onIdentify: (holder: IdentificationHolder, item: UnidentifiedItem, shop: ShopData | null) => void;
+
+	// Form state
+	private holder: IdentificationHolder;
+	private shopPath: string = '';
+
+	constructor(
+		app: App,
+		holders: IdentificationHolder[],
+		shops: ShopData[],
+		defaultHolderPath: string | null,
+		identificationManager: IdentificationManager,
+		onIdentify: (holder: IdentificationHolder, item: UnidentifiedItem, shop: ShopData | null) => void
+	) {
+		super(app);
+		this.holders = holders;
+		this.shops = shops;
+		this.holder = holders.find(holder => holder.path === defaultHolderPath) || holders[0];
+		this.identificationManager = identificationManager;
+		this.onIdentify = onIdentify;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Render the whole modal
+	 */
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-identify-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Identify Items' });
+		contentEl.createEl('p', {
+			text: 'Players see the unidentified name until an item is identified.',
+			cls: 'modal-description'
+		});
+
+		// Holder selection
+		if (this.holders.length > 1) {
+			new Setting(contentEl)
+				.setName('Items held by')
+				.addDropdown(dropdown => {
+					this.holders.forEach((holder, index) => {
+						dropdown.addOption(String(index), this.getHolderLabel(holder));
+					});
+					dropdown
+						.setValue(String(this.holders.indexOf(this.holder)))
+						.onChange(value => {
+							this.holder = this.holders[parseInt(value)] || this.holder;
+							this.render();
+						});
+				});
+		}
+
+		// Paid identification only applies to items someone owns
+		if (this.holder.kind !== 'loot' && this.shops.length > 0) {
+			new Setting(contentEl)
+				.setName('Identified by')
+				.setDesc(this.holder.kind === 'party' ? 'Paid from the party purse' : 'Paid from the character\'s gold')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'DM reveals it (free)');
+					for (const shop of this.shops) {
+						dropdown.addOption(shop.path, `${shop.name} (${this.identificationManager.getServiceCost(shop)} gp each)`);
+					}
+					dropdown
+						.setValue(this.shopPath)
+						.onChange(value => {
+							this.shopPath = value;
+						});
+				});
+		}
+
+		// One row per unidentified item
+		const listEl = contentEl.createDiv({ cls: 'identify-list' });
+		if (this.holder.items.length === 0) {
+			listEl.createEl('p', { text: 'Nothing here is unidentified.', cls: 'identify-empty' });
+		}
+
+		for (const item of this.holder.items) {
+			this.renderItem(listEl, item);
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Close'
+		});
+		closeButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	/**
+	 * Render one unidentified item with its real and player-facing names
+	 */
+	private renderItem(container: HTMLElement, item: UnidentifiedItem) {
+		const realName = this.identificationManager.getDisplayName(item.itemData, item.itemRef, true);
+		const shownName = this.identificationManager.getDisplayName(item.itemData, item.itemRef, false);
+
+		new Setting(container)
+			.setName(`${item.quantity}x ${realName}`)
+			.setDesc(`Players see "${shownName}"`)
+			.addButton(button => button
+				.setButtonText('Identify')
+				.setCta()
+				.onClick(() => {
+					const shop = this.shops.find(candidate => candidate.path === this.shopPath) || null;
+					this.onIdentify(this.holder, item, this.holder.kind === 'loot' ? null : shop);
+					this.close();
+				}));
+	}
+
+	/**
+	 * Get the dropdown label of a holder
+	 */
+	private getHolderLabel(holder: IdentificationHolder): string {
+		const count = holder.items.reduce((sum, item) => sum + item.quantity, 0);
+		const prefix = holder.kind === 'loot' ? 'Loot' : holder.kind === 'party' ? 'Party' : 'Character';
+		return `${prefix}: ${holder.name} (${count} unidentified)`;
+	}
+}
@@ -0,0 +1,111 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * An image in an item's history, with the URL the modal displays it from
+ */
+interface HistoryImage {
+	/** Path or URL as stored in image_history */
+	path: string;
+	/** Displayable image source */
+	src: string;
+}
+
+/**
+ * Gallery of an item's recent images for picking the active one
+ */
+export class ImageHistoryModal extends Modal {
+	private itemName: string;
+	private images: HistoryImage[];
+	private active: string | null;
+	private onSelect: (path: string) => void;
+	private onRemove: (path: string) => void;
+
+	constructor(
+		app: App,
+		itemName: string,
+		images: HistoryImage[],
+		active: string | null,
+		onSelect: (path: string) => void,
+		onRemove: (path: string) => void
+	) {
+		super(app);
+		this.itemName = itemName;
+		this.images = images;
+		this.active = active;
+		this.onSelect = onSelect;
+		this.onRemove = onRemove;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-image-history-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: `Image History: ${this.itemName}` });
+		contentEl.createEl('p', {
+			text: 'Pick the image players see. Removed images stay in the vault until you run "Clean up unused item images".',
+			cls: 'modal-description'
+		});
+
+		const galleryEl = contentEl.createDiv({ cls: 'image-history-gallery' });
+		if (this.images.length === 0) {
+			galleryEl.createEl('p', { text: 'This item has no images yet.', cls: 'image-history-empty' });
+		}
+
+		for (const image of this.images) {
+			this.renderImage(galleryEl, image);
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Close'
+		});
+		closeButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Render one image tile with its actions
+	 */
+	private renderImage(container: HTMLElement, image: HistoryImage) {
+		const isActive = image.path === this.active;
+		const tileEl = container.createDiv({ cls: `image-history-tile${isActive ? ' is-active' : ''}` });
+
+		const imgEl = tileEl.createEl('img', { cls: 'image-history-image' });
+		imgEl.src = image.src;
+		imgEl.alt = image.path;
+
+		tileEl.createDiv({
+			text: image.path.split('/').pop() || image.path,
+			cls: 'image-history-name'
+		});
+
+		const actionsEl = tileEl.createDiv({ cls: 'image-history-actions' });
+
+		if (isActive) {
+			actionsEl.createSpan({ text: 'Active', cls: 'image-history-active' });
+			return;
+		}
+
+		const useButton = actionsEl.createEl('button', { text: 'Use', cls: 'mod-cta' });
+		useButton.addEventListener('click', () => {
+			this.close();
+			this.onSelect(image.path);
+		});
+
+		const removeButton = actionsEl.createEl('button', { text: 'Remove' });
+		removeButton.addEventListener('click', () => {
+			this.close();
+			this.onRemove(image.path);
+		});
+	}
+}
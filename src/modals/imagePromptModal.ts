@@ -0,0 +1,76 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal showing the expanded image prompt of an item before generating it
+ */
+export class ImagePromptModal extends Modal {
+	private itemName: string;
+	private prompt: string;
+	private source: string;
+	private providerName: string;
+	private onGenerate: () => void;
+
+	constructor(
+		app: App,
+		itemName: string,
+		prompt: string,
+		source: string,
+		providerName: string,
+		onGenerate: () => void
+	) {
+		super(app);
+		this.itemName = itemName;
+		this.prompt = prompt;
+		this.source = source;
+		this.providerName = providerName;
+		this.onGenerate = onGenerate;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-image-prompt-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: `Generate Image: ${this.itemName}` });
+		contentEl.createEl('p', {
+			text: `Prompt from the ${this.source}, sent to ${this.providerName}. Edit templates in Shopboard settings.`,
+			cls: 'modal-description'
+		});
+
+		// Expanded prompt
+		const promptEl = contentEl.createEl('textarea', { cls: 'image-prompt-preview' });
+		promptEl.value = this.prompt;
+		promptEl.readOnly = true;
+		promptEl.rows = 10;
+
+		contentEl.createDiv({
+			text: `${this.prompt.length} characters`,
+			cls: 'image-prompt-length'
+		});
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+
+		const generateButton = buttonContainer.createEl('button', {
+			text: 'Generate',
+			cls: 'mod-cta'
+		});
+		generateButton.addEventListener('click', () => {
+			this.close();
+			this.onGenerate();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
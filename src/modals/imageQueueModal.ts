@@ -0,0 +1,148 @@
+import { App, EventRef, Modal, Setting } from 'obsidian';
+import { ImageQueueEntry, ImageQueueStatus } from '../types';
+import { ImageQueue } from '../handlers/imageQueue';
+
+/**
+ * Status labels shown next to each queued item
+ */
+const STATUS_LABELS: Record<ImageQueueStatus, string> = {
+	pending: 'Pending',
+	running: 'Generating...',
+	done: 'Done',
+	failed: 'Failed'
+};
+
+/**
+ * Modal showing the batch image generation queue
+ * Updates live while a run is in progress
+ */
+export class ImageQueueModal extends Modal {
+	private imageQueue: ImageQueue;
+	private imageLimit: number;
+	private onStart: () => void;
+	private eventRef: EventRef | null = null;
+
+	constructor(app: App, imageQueue: ImageQueue, imageLimit: number, onStart: () => void) {
+		super(app);
+		this.imageQueue = imageQueue;
+		this.imageLimit = imageLimit;
+		this.onStart = onStart;
+	}
+
+	onOpen() {
+		this.eventRef = this.app.workspace.on('shopboard:image-queue-updated', () => {
+			this.render();
+		});
+		this.render();
+	}
+
+	onClose() {
+		if (this.eventRef) {
+			this.app.workspace.offref(this.eventRef);
+			this.eventRef = null;
+		}
+
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Render the whole modal
+	 */
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-image-queue-modal');
+
+		const entries = this.imageQueue.getEntries();
+		const running = this.imageQueue.isRunning();
+		const pending = this.imageQueue.getPendingCount();
+		const failed = entries.filter(entry => entry.status === 'failed').length;
+		const done = entries.filter(entry => entry.status === 'done').length;
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Image Generation Queue' });
+		contentEl.createEl('p', {
+			text: this.imageLimit > 0
+				? `Each run generates at most ${this.imageLimit} image(s). Failed items are retried twice before they are marked as failed.`
+				: 'Failed items are retried twice before they are marked as failed.',
+			cls: 'modal-description'
+		});
+
+		contentEl.createDiv({
+			text: `${pending} pending · ${done} done · ${failed} failed`,
+			cls: 'image-queue-summary'
+		});
+
+		// One row per queued item
+		const listEl = contentEl.createDiv({ cls: 'image-queue-list' });
+		if (entries.length === 0) {
+			listEl.createEl('p', { text: 'The queue is empty.', cls: 'image-queue-empty' });
+		}
+
+		for (const entry of entries) {
+			this.renderEntry(listEl, entry);
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		if (failed > 0 && !running) {
+			const retryButton = buttonContainer.createEl('button', { text: `Retry Failed (${failed})` });
+			retryButton.addEventListener('click', async () => {
+				await this.imageQueue.retryFailed();
+			});
+		}
+
+		if (done > 0) {
+			const clearButton = buttonContainer.createEl('button', { text: 'Clear Finished' });
+			clearButton.addEventListener('click', async () => {
+				await this.imageQueue.clearFinished();
+			});
+		}
+
+		if (running || pending > 0 || failed > 0) {
+			const cancelButton = buttonContainer.createEl('button', { text: 'Cancel Queue', cls: 'mod-warning' });
+			cancelButton.addEventListener('click', async () => {
+				await this.imageQueue.cancel();
+			});
+		}
+
+		const startButton = buttonContainer.createEl('button', {
+			text: running ? 'Running...' : 'Start',
+			cls: 'mod-cta'
+		});
+		startButton.disabled = running || pending === 0;
+		startButton.addEventListener('click', () => {
+			this.onStart();
+		});
+
+		const closeButton = buttonContainer.createEl('button', { text: 'Close' });
+		closeButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	/**
+	 * Render one queued item with its status and last error
+	 */
+	private renderEntry(container: HTMLElement, entry: ImageQueueEntry) {
+		const rowEl = container.createDiv({ cls: `image-queue-entry is-${entry.status}` });
+
+		const setting = new Setting(rowEl)
+			.setName(entry.name)
+			.setDesc(entry.path);
+
+		if (entry.error && entry.status !== 'done') {
+			setting.descEl.createDiv({
+				text: entry.attempts > 0 ? `Attempt ${entry.attempts}: ${entry.error}` : entry.error,
+				cls: 'image-queue-error'
+			});
+		}
+
+		setting.controlEl.createSpan({
+			text: STATUS_LABELS[entry.status],
+			cls: `image-queue-status status-${entry.status}`
+		});
+	}
+}
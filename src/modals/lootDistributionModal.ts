@@ -0,0 +1,235 @@
+import { App, Modal, Setting } from 'obsidian';
+import { LootShare, PartyData } from '../types';
+import { LootDistributor, PARTY_STASH, SPLIT_EVENLY } from '../utils/lootDistributor';
+
+/**
+ * Modal for dividing a hoard between party members
+ * Each coin pile, gem, art object and magic item is assigned to a member or the party stash
+ */
+export class LootDistributionModal extends Modal {
+	private shares: LootShare[];
+	private parties: PartyData[];
+	private distributor: LootDistributor;
+	private onApply: (claims: Record<string, string>, members: string[], party: PartyData | null, addToInventories: boolean) => void;
+
+	// Form state
+	private party: PartyData | null;
+	private claims: Record<string, string>;
+	private addToInventories: boolean = false;
+
+	// UI elements
+	private totalsEl: HTMLElement | null = null;
+
+	constructor(
+		app: App,
+		shares: LootShare[],
+		parties: PartyData[],
+		claims: Record<string, string>,
+		distributor: LootDistributor,
+		onApply: (claims: Record<string, string>, members: string[], party: PartyData | null, addToInventories: boolean) => void
+	) {
+		super(app);
+		this.shares = shares;
+		this.parties = parties;
+		this.party = parties[0] || null;
+		this.claims = { ...claims };
+		this.distributor = distributor;
+		this.onApply = onApply;
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Render the whole modal
+	 */
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-loot-distribution-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Distribute Loot' });
+		contentEl.createEl('p', {
+			text: 'Assign each entry to a party member or the party stash, or let auto-split balance it.',
+			cls: 'modal-description'
+		});
+
+		if (this.parties.length === 0) {
+			contentEl.createEl('p', {
+				text: 'No party notes found. Everything can only go to the party stash.',
+				cls: 'loot-distribution-warning'
+			});
+		}
+
+		// Party selection
+		if (this.parties.length > 1) {
+			new Setting(contentEl)
+				.setName('Party')
+				.addDropdown(dropdown => {
+					for (const party of this.parties) {
+						dropdown.addOption(party.path, party.name);
+					}
+					dropdown
+						.setValue(this.party!.path)
+						.onChange(value => {
+							this.party = this.parties.find(party => party.path === value) || null;
+							this.render();
+						});
+				});
+		}
+
+		// One row per share
+		const listEl = contentEl.createDiv({ cls: 'loot-distribution-list' });
+		for (const share of this.shares) {
+			this.renderShare(listEl, share);
+		}
+
+		// Running totals per recipient
+		this.totalsEl = contentEl.createDiv({ cls: 'loot-distribution-totals' });
+		this.renderTotals();
+
+		// Newly claimed magic items can go straight into inventories
+		if (this.shares.some(share => share.kind === 'magic-item')) {
+			new Setting(contentEl)
+				.setName('Add magic items to inventories')
+				.setDesc('Newly claimed magic items are added to the member\'s character note or the party stash, keeping whether they are identified')
+				.addToggle(toggle => toggle
+					.setValue(this.addToInventories)
+					.onChange(value => {
+						this.addToInventories = value;
+					}));
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const autoButton = buttonContainer.createEl('button', {
+			text: '⚖️ Auto-split'
+		});
+		autoButton.addEventListener('click', () => {
+			this.claims = this.distributor.autoSplit(this.shares, this.getMembers());
+			this.render();
+		});
+
+		const applyButton = buttonContainer.createEl('button', {
+			text: 'Apply',
+			cls: 'mod-cta'
+		});
+		applyButton.addEventListener('click', () => {
+			this.onApply(this.getValidClaims(), this.getMembers(), this.party, this.addToInventories);
+			this.close();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	/**
+	 * Render the assignment row for one share
+	 */
+	private renderShare(container: HTMLElement, share: LootShare) {
+		const members = this.getMembers();
+
+		new Setting(container)
+			.setName(share.name)
+			.setDesc(`${share.value} gp`)
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Unclaimed');
+				if (share.kind === 'coins' && members.length > 0) {
+					dropdown.addOption(SPLIT_EVENLY, this.distributor.getRecipientName(SPLIT_EVENLY));
+				}
+				for (const member of members) {
+					dropdown.addOption(member, this.distributor.getRecipientName(member));
+				}
+				dropdown.addOption(PARTY_STASH, this.distributor.getRecipientName(PARTY_STASH));
+
+				// Claims for someone not in this party show as unclaimed
+				const current = this.claims[share.id];
+
+				dropdown
+					.setValue(this.isValidClaim(share, current) ? current : '')
+					.onChange(value => {
+						if (value) {
+							this.claims[share.id] = value;
+						} else {
+							delete this.claims[share.id];
+						}
+						this.renderTotals();
+					});
+			});
+	}
+
+	/**
+	 * Render what each recipient receives with the current claims
+	 */
+	private renderTotals() {
+		if (!this.totalsEl) return;
+		this.totalsEl.empty();
+
+		const claims = this.getValidClaims();
+		const summaries = this.distributor.summarize(this.shares, claims, this.getMembers());
+		for (const summary of summaries) {
+			const rowEl = this.totalsEl.createDiv({ cls: 'loot-distribution-total' });
+			rowEl.createSpan({ text: summary.name, cls: 'loot-distribution-recipient' });
+			rowEl.createSpan({
+				text: `${summary.totalValue} gp (${summary.items.length} item${summary.items.length === 1 ? '' : 's'})`
+			});
+		}
+
+		const unclaimed = this.shares.filter(share => !claims[share.id]).length;
+		if (unclaimed > 0) {
+			this.totalsEl.createDiv({
+				text: `${unclaimed} entr${unclaimed === 1 ? 'y' : 'ies'} unclaimed`,
+				cls: 'loot-distribution-unclaimed'
+			});
+		}
+	}
+
+	/**
+	 * Get the claims that are valid for the selected party
+	 * Claims for recipients outside the party are dropped
+	 */
+	private getValidClaims(): Record<string, string> {
+		const claims: Record<string, string> = {};
+
+		for (const share of this.shares) {
+			if (this.isValidClaim(share, this.claims[share.id])) {
+				claims[share.id] = this.claims[share.id];
+			}
+		}
+
+		return claims;
+	}
+
+	/**
+	 * Check whether a recipient can receive a share with the selected party
+	 */
+	private isValidClaim(share: LootShare, recipient: string | undefined): boolean {
+		if (!recipient) return false;
+
+		const members = this.getMembers();
+		if (recipient === SPLIT_EVENLY) {
+			return share.kind === 'coins' && members.length > 0;
+		}
+
+		return recipient === PARTY_STASH || members.includes(recipient);
+	}
+
+	/**
+	 * Get the member wikilinks of the selected party
+	 */
+	private getMembers(): string[] {
+		return this.party ? this.party.members : [];
+	}
+}
@@ -13,12 +13,15 @@ type SimpleLootType = 'coins' | 'treasure' | 'magic' | 'equipment' | 'everything
 export class LootGeneratorModal extends Modal {
 	private lootGenerator: LootGenerator;
 	private onGenerate: (loot: GeneratedLoot) => void;
+	private onSave: (loot: GeneratedLoot) => void;
 
 	// Simplified form state
 	private partySize: number = 4;
 	private partyLevel: number = 5;
 	private lootType: SimpleLootType = 'everything';
 	private amountMultiplier: number = 1.0;
+	private salvageType: string = '';
+	private trackIdentification: boolean;
 
 	// Generated loot
 	private generatedLoot: GeneratedLoot | null = null;
@@ -26,11 +29,15 @@ export class LootGeneratorModal extends Modal {
 	constructor(
 		app: App,
 		lootGenerator: LootGenerator,
-		onGenerate: (loot: GeneratedLoot) => void
+		onGenerate: (loot: GeneratedLoot) => void,
+		onSave: (loot: GeneratedLoot) => void,
+		trackIdentification: boolean = false
 	) {
 		super(app);
 		this.lootGenerator = lootGenerator;
 		this.onGenerate = onGenerate;
+		this.onSave = onSave;
+		this.trackIdentification = trackIdentification;
 	}
 
 	onOpen() {
@@ -68,7 +75,7 @@ export class LootGeneratorModal extends Modal {
 	}
 
 	/**
-	 * Create simplified form with 4 inputs
+	 * Create simplified form with 5 inputs
 	 */
         private createSimplifiedForm(container: HTMLElement) {
                 // Party Size
@@ -150,6 +157,31 @@ export class LootGeneratorModal extends Modal {
 
                         return slider;
                 });
+
+                // Salvage - built-in monster types, salvage table notes and monster notes
+                new Setting(container)
+                        .setName('Salvage')
+                        .setDesc('Harvestable materials from a slain monster')
+                        .addDropdown(dropdown => {
+                                dropdown.addOption('', 'None');
+                                this.lootGenerator.getSalvageTables().forEach(table => dropdown.addOption(table.monsterType, table.label));
+                                dropdown.setValue(this.salvageType);
+                                dropdown.onChange(value => {
+                                        this.salvageType = value;
+                                });
+
+                                return dropdown;
+                        });
+
+                // Identification - magic items may need to be identified before players learn what they are
+                new Setting(container)
+                        .setName('Unidentified Items')
+                        .setDesc('Some magic items are found unidentified')
+                        .addToggle(toggle => toggle
+                                .setValue(this.trackIdentification)
+                                .onChange(value => {
+                                        this.trackIdentification = value;
+                                }));
         }
 
 	/**
@@ -245,6 +277,10 @@ export class LootGeneratorModal extends Modal {
 							text: ` ${item.itemData.rarity}`
 						});
 					}
+					itemEl.createSpan({
+						cls: 'loot-table-roll',
+						text: item.roll !== null ? ` Table ${item.table} (d100: ${item.roll})` : ` Table ${item.table}`
+					});
 				}
 			});
 
@@ -279,7 +315,7 @@ export class LootGeneratorModal extends Modal {
 		if (loot.salvage.length > 0) {
 			const salvageSection = container.createDiv({ cls: 'loot-category' });
 			salvageSection.createEl('strong', { text: '⚗️ Salvage: ' });
-			const salvageValue = loot.salvage.reduce((sum, s) => sum + s.value, 0);
+			const salvageValue = loot.salvage.reduce((sum, s) => sum + s.value * s.quantity, 0);
 			salvageSection.createSpan({ text: `${loot.salvage.length} materials (${salvageValue} gp)` });
 		}
 	}
@@ -314,6 +350,20 @@ export class LootGeneratorModal extends Modal {
 			this.handleDisplay();
 		});
 
+		// Save button - write the loot to a loot note
+		const saveButton = buttonContainer.createEl('button', {
+			text: '💾 Save as Note'
+		});
+
+		saveButton.addEventListener('click', () => {
+			if (!this.generatedLoot) {
+				new Notice('Please generate loot first');
+				return;
+			}
+			this.onSave(this.generatedLoot);
+			this.close();
+		});
+
 		// Close button
 		const closeButton = buttonContainer.createEl('button', {
 			text: 'Close'
@@ -367,8 +417,9 @@ export class LootGeneratorModal extends Modal {
 			coinPercentage: Math.round(this.amountMultiplier * 100),
 			consumablePercentage: 30,
 			lowMagic: false,
-			trackIdentification: false,
-			monsterType: 'beast',
+			trackIdentification: this.trackIdentification,
+			monsterType: this.salvageType || 'beast',
+			enableSalvage: this.salvageType !== '',
 			includeEncumbrance: true,
 			seed: null
 		};
@@ -382,8 +433,7 @@ export class LootGeneratorModal extends Modal {
 					minRarity: null,
 					maxRarity: null,
 					generateArtObjects: false,
-					generateEquipment: false,
-					enableSalvage: false
+					generateEquipment: false
 				};
 
 			case 'treasure':
@@ -393,8 +443,7 @@ export class LootGeneratorModal extends Modal {
 					minRarity: null,
 					maxRarity: null,
 					generateArtObjects: true,
-					generateEquipment: false,
-					enableSalvage: false
+					generateEquipment: false
 				};
 
 			case 'magic':
@@ -404,8 +453,7 @@ export class LootGeneratorModal extends Modal {
 					minRarity: 'common' as const,
 					maxRarity: 'rare' as const,
 					generateArtObjects: false,
-					generateEquipment: false,
-					enableSalvage: false
+					generateEquipment: false
 				};
 
 			case 'equipment':
@@ -415,8 +463,7 @@ export class LootGeneratorModal extends Modal {
 					minRarity: null,
 					maxRarity: null,
 					generateArtObjects: false,
-					generateEquipment: true,
-					enableSalvage: false
+					generateEquipment: true
 				};
 
 			case 'everything':
@@ -427,8 +474,7 @@ export class LootGeneratorModal extends Modal {
 					minRarity: null,
 					maxRarity: null,
 					generateArtObjects: true,
-					generateEquipment: true,
-					enableSalvage: false
+					generateEquipment: true
 				};
 		}
 	}
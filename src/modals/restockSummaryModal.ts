@@ -0,0 +1,92 @@
+import { App, Modal } from 'obsidian';
+import { TimeAdvanceReport } from '../types';
+import { ShopParser } from '../parsers/shopParser';
+
+/**
+ * Modal summarising the scheduled restocks triggered by advancing time
+ */
+export class RestockSummaryModal extends Modal {
+	private report: TimeAdvanceReport;
+	private shopParser: ShopParser;
+
+	constructor(app: App, report: TimeAdvanceReport, shopParser: ShopParser) {
+		super(app);
+		this.report = report;
+		this.shopParser = shopParser;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-restock-summary-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: `Day ${this.report.fromDay} → Day ${this.report.toDay}` });
+
+		const restocked = this.report.shops.filter(shop => !shop.error).length;
+		contentEl.createEl('p', {
+			text: `${restocked} shop${restocked === 1 ? '' : 's'} restocked.`,
+			cls: 'modal-description'
+		});
+
+		for (const shop of this.report.shops) {
+			const shopEl = contentEl.createDiv({ cls: 'restock-summary-shop' });
+			shopEl.createEl('h3', { text: shop.shopName });
+
+			if (shop.error || !shop.result) {
+				shopEl.createDiv({
+					cls: 'restock-summary-error',
+					text: `Restock failed: ${shop.error || 'unknown error'}`
+				});
+				continue;
+			}
+
+			shopEl.createDiv({
+				cls: 'restock-summary-stats',
+				text: `${shop.result.removedCount} sold out · ${shop.result.reducedCount} sold down · ${shop.result.addedCount} new`
+			});
+
+			if (shop.changes.length === 0) {
+				shopEl.createDiv({ cls: 'restock-summary-empty', text: 'No changes' });
+				continue;
+			}
+
+			const listEl = shopEl.createEl('ul', { cls: 'restock-summary-changes' });
+			for (const change of shop.changes) {
+				const itemName = this.shopParser.parseWikilink(change.itemRef);
+				let text: string;
+				let cls: string;
+
+				if (change.before === 0) {
+					text = `New: ${itemName} (${change.after})`;
+					cls = 'restock-change-added';
+				} else if (change.after === 0) {
+					text = `Gone: ${itemName}`;
+					cls = 'restock-change-removed';
+				} else {
+					const diff = change.after - change.before;
+					text = `${itemName}: ${change.before} → ${change.after} (${diff > 0 ? '+' : ''}${diff})`;
+					cls = diff > 0 ? 'restock-change-added' : 'restock-change-removed';
+				}
+
+				listEl.createEl('li', { text, cls });
+			}
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Close',
+			cls: 'mod-cta'
+		});
+		closeButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,188 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { GeneratedLoot, LootSaleLine, ShopData } from '../types';
+import { LootSeller } from '../handlers/lootSeller';
+import { PriceCalculator } from '../utils/priceCalculator';
+
+/**
+ * Modal for selling generated loot to a shop
+ * Lists magic items, equipment and gems with what the chosen shop pays for them
+ * Items already claimed in a distribution are not offered
+ */
+export class SellLootModal extends Modal {
+	private loot: GeneratedLoot;
+	private claims: Record<string, string>;
+	private shops: ShopData[];
+	private lootSeller: LootSeller;
+	private priceCalculator: PriceCalculator;
+	private onSubmit: (shop: ShopData, lines: LootSaleLine[]) => void;
+
+	// Form state
+	private shop: ShopData;
+	private buyModifier: number;
+	private lines: LootSaleLine[] = [];
+	private selected: Set<number> = new Set();
+
+	// UI elements
+	private buyModifierInputEl: HTMLInputElement | null = null;
+	private linesEl: HTMLElement | null = null;
+	private totalEl: HTMLElement | null = null;
+
+	constructor(
+		app: App,
+		loot: GeneratedLoot,
+		claims: Record<string, string>,
+		shops: ShopData[],
+		defaultShopPath: string | null,
+		lootSeller: LootSeller,
+		priceCalculator: PriceCalculator,
+		onSubmit: (shop: ShopData, lines: LootSaleLine[]) => void
+	) {
+		super(app);
+		this.loot = loot;
+		this.claims = claims;
+		this.shops = shops;
+		this.shop = shops.find(shop => shop.path === defaultShopPath) || shops[0];
+		this.lootSeller = lootSeller;
+		this.priceCalculator = priceCalculator;
+		this.buyModifier = lootSeller.getDefaultBuyModifier(this.shop);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-sell-loot-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Sell Loot to Shop' });
+		contentEl.createEl('p', {
+			text: 'Prices shown are what the shop pays the party. Sold items are added to the shop inventory.',
+			cls: 'modal-description'
+		});
+
+		// Shop selection
+		new Setting(contentEl)
+			.setName('Shop')
+			.addDropdown(dropdown => {
+				for (const shop of this.shops) {
+					dropdown.addOption(shop.path, shop.name);
+				}
+				dropdown
+					.setValue(this.shop.path)
+					.onChange(value => {
+						this.shop = this.shops.find(shop => shop.path === value) || this.shop;
+						this.buyModifier = this.lootSeller.getDefaultBuyModifier(this.shop);
+						if (this.buyModifierInputEl) {
+							this.buyModifierInputEl.value = String(this.buyModifier);
+						}
+						this.refreshLines();
+					});
+			});
+
+		// Buy modifier
+		new Setting(contentEl)
+			.setName('Buy Price Modifier (%)')
+			.setDesc('Defaults to the shop\'s price modifier minus 10')
+			.addText(text => {
+				text
+					.setValue(String(this.buyModifier))
+					.onChange(value => {
+						const num = parseInt(value);
+						if (!isNaN(num)) {
+							this.buyModifier = num;
+							this.refreshLines();
+						}
+					});
+				text.inputEl.type = 'number';
+				this.buyModifierInputEl = text.inputEl;
+				return text;
+			});
+
+		// Loot lines
+		this.linesEl = contentEl.createDiv({ cls: 'sell-loot-lines' });
+		this.totalEl = contentEl.createDiv({ cls: 'sell-loot-total' });
+		this.refreshLines(true);
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const sellButton = buttonContainer.createEl('button', {
+			text: 'Sell',
+			cls: 'mod-cta'
+		});
+		sellButton.addEventListener('click', () => {
+			const lines = this.lines.filter((_, index) => this.selected.has(index));
+			if (lines.length === 0) {
+				new Notice('Select at least one item to sell');
+				return;
+			}
+
+			this.onSubmit(this.shop, lines);
+			this.close();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Recalculate buy-back prices and re-render the lines
+	 * @param selectAll Select every line (used on first render)
+	 */
+	private refreshLines(selectAll: boolean = false) {
+		this.lines = this.lootSeller.getSaleLines(this.loot, this.shop, this.buyModifier, this.claims);
+
+		if (selectAll) {
+			this.selected = new Set(this.lines.map((_, index) => index));
+		}
+
+		if (!this.linesEl) return;
+		this.linesEl.empty();
+
+		this.lines.forEach((line, index) => {
+			const rowEl = this.linesEl!.createDiv({ cls: 'sell-loot-line' });
+
+			const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selected.has(index);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(index);
+				} else {
+					this.selected.delete(index);
+				}
+				this.renderTotal();
+			});
+
+			rowEl.createSpan({ text: `${line.quantity}x ${line.name}`, cls: 'sell-loot-name' });
+			rowEl.createSpan({ text: line.kind === 'magic-item' ? 'magic item' : line.kind, cls: 'sell-loot-kind' });
+			rowEl.createSpan({
+				text: this.priceCalculator.formatCurrency(line.unitPrice * line.quantity),
+				cls: 'sell-loot-price'
+			});
+		});
+
+		this.renderTotal();
+	}
+
+	/**
+	 * Render the total paid for the selected lines
+	 */
+	private renderTotal() {
+		if (!this.totalEl) return;
+
+		const total = this.lines
+			.filter((_, index) => this.selected.has(index))
+			.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+		this.totalEl.setText(`Shop pays: ${this.priceCalculator.formatCurrency(total)}`);
+	}
+}
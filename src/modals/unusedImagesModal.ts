@@ -0,0 +1,67 @@
+import { App, Modal, TFile } from 'obsidian';
+
+/**
+ * Modal listing attachment images no note uses, to move them to the trash
+ */
+export class UnusedImagesModal extends Modal {
+	private files: TFile[];
+	private onDelete: (files: TFile[]) => void;
+
+	constructor(app: App, files: TFile[], onDelete: (files: TFile[]) => void) {
+		super(app);
+		this.files = files;
+		this.onDelete = onDelete;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('shopboard-unused-images-modal');
+
+		// Modal title
+		contentEl.createEl('h2', { text: 'Unused Item Images' });
+		contentEl.createEl('p', {
+			text: 'These images in the attachment folder are not used in any note\'s frontmatter (item images, image history, shopkeeper portraits) and not linked from any note.',
+			cls: 'modal-description'
+		});
+
+		const listEl = contentEl.createDiv({ cls: 'unused-images-list' });
+		if (this.files.length === 0) {
+			listEl.createEl('p', { text: 'No unused images found.', cls: 'unused-images-empty' });
+		}
+
+		for (const file of this.files) {
+			const rowEl = listEl.createDiv({ cls: 'unused-image' });
+			const imgEl = rowEl.createEl('img', { cls: 'unused-image-thumb' });
+			imgEl.src = this.app.vault.getResourcePath(file);
+			imgEl.alt = file.name;
+			rowEl.createSpan({ text: file.path, cls: 'unused-image-path' });
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.addEventListener('click', () => {
+			this.close();
+		});
+
+		if (this.files.length > 0) {
+			const deleteButton = buttonContainer.createEl('button', {
+				text: `Move ${this.files.length} to Trash`,
+				cls: 'mod-warning'
+			});
+			deleteButton.addEventListener('click', () => {
+				this.close();
+				this.onDelete(this.files);
+			});
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,123 @@
+import { App, TFile } from 'obsidian';
+import { CharacterData } from '../types';
+
+/**
+ * Parser for player character notes - reads gold and carried items
+ */
+export class CharacterParser {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Parse a character note
+	 * @param file - Character note file to parse
+	 * @returns Parsed character data or null if invalid
+	 */
+	parseCharacterNote(file: TFile): CharacterData | null {
+		try {
+			const metadata = this.app.metadataCache.getFileCache(file);
+
+			if (!metadata || !metadata.frontmatter) {
+				console.warn(`Character ${file.path} has no frontmatter`);
+				return null;
+			}
+
+			const fm = metadata.frontmatter;
+
+			// Validate character data
+			if (!this.validateCharacterData(fm)) {
+				console.warn(`Character ${file.path} failed validation`);
+				return null;
+			}
+
+			return {
+				path: file.path,
+				name: fm.name || file.basename,
+				gold: typeof fm.gold === 'number' ? fm.gold : null,
+				inventory: this.parseInventory(fm.inventory),
+				toolProficiencies: Array.isArray(fm.tool_proficiencies)
+					? fm.tool_proficiencies.filter((tool: any) => typeof tool === 'string')
+					: null,
+				strength: typeof fm.strength === 'number' && fm.strength > 0 ? fm.strength : null
+			};
+
+		} catch (error) {
+			console.error(`Error parsing character ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get all character notes in the vault
+	 * @returns Parsed characters sorted by name
+	 */
+	getAllCharacters(): CharacterData[] {
+		const characters: CharacterData[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache?.frontmatter?.type !== 'character') continue;
+
+			const character = this.parseCharacterNote(file);
+			if (character) {
+				characters.push(character);
+			}
+		}
+
+		return characters.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Parse carried items, accepting both `- item: "[[X]]"` entries and bare wikilinks
+	 * Entries with `identified: false` are unidentified; everything else is identified
+	 * @param inventory - Raw inventory array from frontmatter
+	 */
+	parseInventory(inventory: any): CharacterData['inventory'] {
+		if (!Array.isArray(inventory)) {
+			return [];
+		}
+
+		const result: CharacterData['inventory'] = [];
+
+		for (const entry of inventory) {
+			if (typeof entry === 'string' && entry) {
+				result.push({ itemRef: entry, quantity: 1, identified: true });
+			} else if (entry && typeof entry === 'object' && typeof entry.item === 'string') {
+				result.push({
+					itemRef: entry.item,
+					quantity: typeof entry.quantity === 'number' ? entry.quantity : 1,
+					identified: entry.identified !== false
+				});
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Validate character frontmatter data
+	 * @param frontmatter - Frontmatter object
+	 * @returns True if valid, false otherwise
+	 */
+	validateCharacterData(frontmatter: any): boolean {
+		if (frontmatter.type !== 'character') {
+			console.warn('Missing or invalid type field (expected "character")');
+			return false;
+		}
+
+		if (frontmatter.gold !== undefined && frontmatter.gold !== null && typeof frontmatter.gold !== 'number') {
+			console.warn('Invalid gold field (must be a number)');
+			return false;
+		}
+
+		if (frontmatter.inventory !== undefined && frontmatter.inventory !== null && !Array.isArray(frontmatter.inventory)) {
+			console.warn('Invalid inventory field (must be an array)');
+			return false;
+		}
+
+		return true;
+	}
+}
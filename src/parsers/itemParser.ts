@@ -125,6 +125,7 @@ export class ItemParser {
 				description: fm.description,
 				imageUrl: fm.imageUrl || fm.image_url,
 				stapleForShops: stapleForShops,
+				weight: this.parseWeight(fm.weight, file.path),
 				metadata: { ...fm }
 			};
 
@@ -136,6 +137,38 @@ export class ItemParser {
 		}
 	}
 
+	/**
+	 * Parse an item weight in pounds
+	 * Accepts a number or text such as "1 lb." or "1/2 lb."
+	 * @param raw - Raw weight field from frontmatter
+	 * @param path - Item note path (for warnings)
+	 * @returns Weight in pounds or undefined if missing or invalid
+	 */
+	parseWeight(raw: any, path: string): number | undefined {
+		if (raw === undefined || raw === null || raw === '') {
+			return undefined;
+		}
+
+		if (typeof raw === 'number') {
+			return raw >= 0 ? raw : undefined;
+		}
+
+		if (typeof raw === 'string') {
+			const fraction = raw.match(/^\s*(\d+)\s*\/\s*(\d+)/);
+			if (fraction && Number(fraction[2]) > 0) {
+				return Number(fraction[1]) / Number(fraction[2]);
+			}
+
+			const weight = parseFloat(raw);
+			if (!isNaN(weight) && weight >= 0) {
+				return weight;
+			}
+		}
+
+		console.warn(`Item ${path} has an invalid weight: ${raw}`);
+		return undefined;
+	}
+
 	/**
 	 * Get item by name (case-insensitive)
 	 * @param name - Item name to look up
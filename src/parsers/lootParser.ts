@@ -0,0 +1,219 @@
+import { App, TFile } from 'obsidian';
+import {
+	ArtObject,
+	ArtValue,
+	EquipmentLoot,
+	GemValue,
+	GeneratedLoot,
+	Gem,
+	HarvestOutcome,
+	ItemData,
+	LootType,
+	MagicItemLoot,
+	MagicItemTable,
+	SalvageHarvest,
+	SalvageMaterial
+} from '../types';
+import { ItemParser } from './itemParser';
+import { ShopParser } from './shopParser';
+
+/**
+ * Parser for loot notes - rebuilds GeneratedLoot from a saved `type: loot` note
+ * Item references are resolved against the current item cache, so renamed or
+ * deleted items come back with null itemData
+ */
+export class LootParser {
+	private app: App;
+	private itemParser: ItemParser;
+	private shopParser: ShopParser;
+
+	constructor(app: App, itemParser: ItemParser, shopParser: ShopParser) {
+		this.app = app;
+		this.itemParser = itemParser;
+		this.shopParser = shopParser;
+	}
+
+	/**
+	 * Check whether a file is a loot note
+	 * @param file - File to check
+	 */
+	isLootNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'loot';
+	}
+
+	/**
+	 * Parse a loot note
+	 * @param file - Loot note file to parse
+	 * @returns Rebuilt loot or null if invalid
+	 */
+	parseLootNote(file: TFile): GeneratedLoot | null {
+		try {
+			const metadata = this.app.metadataCache.getFileCache(file);
+
+			if (!metadata || !metadata.frontmatter) {
+				console.warn(`Loot note ${file.path} has no frontmatter`);
+				return null;
+			}
+
+			const fm = metadata.frontmatter;
+
+			// Validate loot data
+			if (!this.validateLootData(fm)) {
+				console.warn(`Loot note ${file.path} failed validation`);
+				return null;
+			}
+
+			const lootTypes: LootType[] = ['individual', 'hoard', 'lair'];
+
+			return {
+				coins: { gold: this.toNumber(fm.coins?.gold) },
+				gems: this.toList(fm.gems).map((gem): Gem => ({
+					value: this.toNumber(gem.value) as GemValue,
+					description: String(gem.description || ''),
+					quantity: this.toNumber(gem.quantity, 1),
+					sold: gem.sold === true
+				})),
+				artObjects: this.toList(fm.art_objects).map((art): ArtObject => ({
+					value: this.toNumber(art.value) as ArtValue,
+					description: String(art.description || '')
+				})),
+				magicItems: this.toList(fm.magic_items)
+					.filter(item => typeof item.item === 'string')
+					.map((item): MagicItemLoot => ({
+						itemRef: item.item,
+						itemData: this.resolveItem(item.item),
+						quantity: this.toNumber(item.quantity, 1),
+						identified: item.identified !== false,
+						table: (typeof item.table === 'string' ? item.table : 'A') as MagicItemTable,
+						roll: typeof item.roll === 'number' ? item.roll : null,
+						sold: item.sold === true
+					})),
+				equipment: this.toList(fm.equipment)
+					.filter(item => typeof item.item === 'string')
+					.map((item): EquipmentLoot => ({
+						itemRef: item.item,
+						itemData: this.resolveItem(item.item),
+						quantity: this.toNumber(item.quantity, 1),
+						sold: item.sold === true
+					})),
+				mundaneItems: this.toList(fm.mundane_items).map(item => ({
+					name: String(item.name || ''),
+					quantity: this.toNumber(item.quantity, 1),
+					value: this.toNumber(item.value)
+				})),
+				salvage: this.toList(fm.salvage).map((material): SalvageMaterial => ({
+					name: String(material.name || ''),
+					description: String(material.description || ''),
+					value: this.toNumber(material.value),
+					craftingTags: Array.isArray(material.crafting_tags) ? material.crafting_tags.map(String) : [],
+					harvestDC: this.toNumber(material.harvest_dc),
+					quantity: this.toNumber(material.quantity, 1),
+					harvest: this.parseHarvest(material.harvest)
+				})),
+				containerDescription: typeof fm.container === 'string' ? fm.container : '',
+				totalValue: this.toNumber(fm.total_value),
+				totalWeight: this.toNumber(fm.total_weight),
+				metadata: {
+					challengeRating: typeof fm.challenge_rating === 'number' ? fm.challenge_rating : null,
+					experiencePoints: this.toNumber(fm.experience_points),
+					partySize: this.toNumber(fm.party_size, 4),
+					partyLevel: this.toNumber(fm.party_level, 1),
+					lootType: lootTypes.includes(fm.loot_type) ? fm.loot_type : 'hoard',
+					timestamp: this.toNumber(fm.generated_at, file.stat.ctime),
+					seed: fm.seed !== undefined && fm.seed !== null ? String(fm.seed) : ''
+				}
+			};
+
+		} catch (error) {
+			console.error(`Error parsing loot note ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Read the distribution claims of a loot note
+	 * @param file - Loot note file
+	 * @returns Recipient keyed by share id (empty if nothing was distributed)
+	 */
+	parseClaims(file: TFile): Record<string, string> {
+		const raw = this.app.metadataCache.getFileCache(file)?.frontmatter?.claims;
+		const claims: Record<string, string> = {};
+
+		if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+			return claims;
+		}
+
+		for (const [shareId, recipient] of Object.entries(raw)) {
+			if (typeof recipient === 'string' && recipient) {
+				claims[shareId] = recipient;
+			}
+		}
+
+		return claims;
+	}
+
+	/**
+	 * Validate loot frontmatter data
+	 * @param frontmatter - Frontmatter object
+	 * @returns True if valid, false otherwise
+	 */
+	validateLootData(frontmatter: any): boolean {
+		if (frontmatter.type !== 'loot') {
+			console.warn('Missing or invalid type field (expected "loot")');
+			return false;
+		}
+
+		const lists = ['gems', 'art_objects', 'magic_items', 'equipment', 'mundane_items', 'salvage'];
+		for (const key of lists) {
+			if (frontmatter[key] !== undefined && frontmatter[key] !== null && !Array.isArray(frontmatter[key])) {
+				console.warn(`Invalid ${key} field (must be a list)`);
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Read the recorded harvest attempt of a salvage material
+	 */
+	private parseHarvest(raw: any): SalvageHarvest | undefined {
+		const outcomes: HarvestOutcome[] = ['harvested', 'failed', 'ruined'];
+		if (!raw || typeof raw !== 'object' || !outcomes.includes(raw.outcome)) {
+			return undefined;
+		}
+
+		return {
+			outcome: raw.outcome,
+			check: this.toNumber(raw.check),
+			character: typeof raw.character === 'string' && raw.character ? raw.character : null
+		};
+	}
+
+	/**
+	 * Resolve an item reference against the item cache
+	 */
+	private resolveItem(itemRef: string): ItemData | null {
+		const itemData = this.itemParser.getItemByName(this.shopParser.parseWikilink(itemRef));
+
+		if (!itemData) {
+			console.warn(`Could not resolve loot item: ${itemRef}`);
+		}
+
+		return itemData;
+	}
+
+	/**
+	 * Keep only object entries of a frontmatter list
+	 */
+	private toList(raw: any): any[] {
+		return Array.isArray(raw) ? raw.filter(entry => entry && typeof entry === 'object') : [];
+	}
+
+	/**
+	 * Read a finite number, falling back to a default
+	 */
+	private toNumber(raw: any, fallback: number = 0): number {
+		return typeof raw === 'number' && Number.isFinite(raw) ? raw : fallback;
+	}
+}
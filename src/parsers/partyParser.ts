@@ -0,0 +1,140 @@
+import { App, TFile } from 'obsidian';
+import { CharacterData, PartyData } from '../types';
+import { CharacterParser } from './characterParser';
+
+/**
+ * Parser for party notes - reads members, coin purse and stash
+ */
+export class PartyParser {
+	private app: App;
+	private characterParser: CharacterParser;
+
+	constructor(app: App) {
+		this.app = app;
+		// The stash uses the same inventory format as character notes
+		this.characterParser = new CharacterParser(app);
+	}
+
+	/**
+	 * Parse a party note
+	 * @param file - Party note file to parse
+	 * @returns Parsed party data or null if invalid
+	 */
+	parsePartyNote(file: TFile): PartyData | null {
+		try {
+			const metadata = this.app.metadataCache.getFileCache(file);
+
+			if (!metadata || !metadata.frontmatter) {
+				console.warn(`Party ${file.path} has no frontmatter`);
+				return null;
+			}
+
+			const fm = metadata.frontmatter;
+
+			// Validate party data
+			if (!this.validatePartyData(fm)) {
+				console.warn(`Party ${file.path} failed validation`);
+				return null;
+			}
+
+			return {
+				path: file.path,
+				name: fm.name || file.basename,
+				members: Array.isArray(fm.members)
+					? fm.members.filter((member: any) => typeof member === 'string')
+					: [],
+				purse: this.parsePurse(fm.purse),
+				inventory: this.characterParser.parseInventory(fm.inventory)
+			};
+
+		} catch (error) {
+			console.error(`Error parsing party ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get all party notes in the vault
+	 * @returns Parsed parties sorted by name
+	 */
+	getAllParties(): PartyData[] {
+		const parties: PartyData[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache?.frontmatter?.type !== 'party') continue;
+
+			const party = this.parsePartyNote(file);
+			if (party) {
+				parties.push(party);
+			}
+		}
+
+		return parties.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Get the character notes of a party's members
+	 * @param party - Parsed party
+	 * @param characters - All parsed characters (members are matched by note name or character name)
+	 */
+	getMemberCharacters(party: PartyData, characters: CharacterData[]): CharacterData[] {
+		const memberNames = party.members.map(member =>
+			member.replace(/^\[\[|\]\]$/g, '').split('|')[0].split('/').pop()!.trim().toLowerCase()
+		);
+
+		return characters.filter(character => {
+			const basename = (character.path.split('/').pop() || '').replace(/\.md$/, '').toLowerCase();
+			return memberNames.includes(basename) || memberNames.includes(character.name.toLowerCase());
+		});
+	}
+
+	/**
+	 * Parse a coin purse, keeping only whole non-negative coin counts
+	 * @param purse - Raw purse object from frontmatter
+	 */
+	parsePurse(purse: any): Record<string, number> {
+		const result: Record<string, number> = {};
+
+		if (!purse || typeof purse !== 'object') {
+			return result;
+		}
+
+		for (const [denomination, count] of Object.entries(purse)) {
+			if (typeof count === 'number' && Number.isFinite(count)) {
+				result[denomination] = Math.max(0, Math.floor(count));
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Validate party frontmatter data
+	 * @param frontmatter - Frontmatter object
+	 * @returns True if valid, false otherwise
+	 */
+	validatePartyData(frontmatter: any): boolean {
+		if (frontmatter.type !== 'party') {
+			console.warn('Missing or invalid type field (expected "party")');
+			return false;
+		}
+
+		if (frontmatter.members !== undefined && !Array.isArray(frontmatter.members)) {
+			console.warn('Invalid members field (must be an array)');
+			return false;
+		}
+
+		if (frontmatter.purse !== undefined && (typeof frontmatter.purse !== 'object' || Array.isArray(frontmatter.purse))) {
+			console.warn('Invalid purse field (must be an object of denomination: count)');
+			return false;
+		}
+
+		if (frontmatter.inventory !== undefined && frontmatter.inventory !== null && !Array.isArray(frontmatter.inventory)) {
+			console.warn('Invalid inventory field (must be an array)');
+			return false;
+		}
+
+		return true;
+	}
+}
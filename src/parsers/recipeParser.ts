@@ -0,0 +1,145 @@
+import { App, TFile } from 'obsidian';
+import { RecipeData, RecipeRequirement } from '../types';
+
+/**
+ * Parser for crafting recipe notes (`type: recipe`)
+ * Each material requirement names a material (`name`) or accepts any material
+ * with a crafting tag (`tag`)
+ */
+export class RecipeParser {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Check whether a file is a recipe note
+	 * @param file - File to check
+	 */
+	isRecipeNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'recipe';
+	}
+
+	/**
+	 * Parse a recipe note
+	 * @param file - Recipe note file to parse
+	 * @returns Parsed recipe or null if invalid
+	 */
+	parseRecipeNote(file: TFile): RecipeData | null {
+		try {
+			const metadata = this.app.metadataCache.getFileCache(file);
+
+			if (!metadata || !metadata.frontmatter) {
+				console.warn(`Recipe ${file.path} has no frontmatter`);
+				return null;
+			}
+
+			const fm = metadata.frontmatter;
+
+			// Validate recipe data
+			if (!this.validateRecipeData(fm)) {
+				console.warn(`Recipe ${file.path} failed validation`);
+				return null;
+			}
+
+			return {
+				path: file.path,
+				name: fm.name || file.basename,
+				outputRef: fm.output,
+				outputQuantity: this.toPositiveInteger(fm.output_quantity, 1),
+				requirements: this.parseRequirements(fm.materials, file.path),
+				goldCost: typeof fm.gold_cost === 'number' && fm.gold_cost > 0 ? fm.gold_cost : 0,
+				tool: typeof fm.tool === 'string' && fm.tool.trim() ? fm.tool.trim() : null,
+				craftingDays: this.toPositiveInteger(fm.crafting_days, 1)
+			};
+
+		} catch (error) {
+			console.error(`Error parsing recipe ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Get all recipe notes in the vault
+	 * @returns Parsed recipes sorted by name
+	 */
+	getAllRecipes(): RecipeData[] {
+		const recipes: RecipeData[] = [];
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.isRecipeNote(file)) continue;
+
+			const recipe = this.parseRecipeNote(file);
+			if (recipe) {
+				recipes.push(recipe);
+			}
+		}
+
+		return recipes.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Parse material requirements, skipping invalid entries
+	 * Accepts `name`, `item` (wikilink) or `tag`, with an optional `quantity`
+	 */
+	parseRequirements(materials: any, path: string): RecipeRequirement[] {
+		if (!Array.isArray(materials)) {
+			return [];
+		}
+
+		const requirements: RecipeRequirement[] = [];
+
+		for (const entry of materials) {
+			if (!entry || typeof entry !== 'object') continue;
+
+			const rawName = typeof entry.name === 'string' ? entry.name : entry.item;
+			const name = typeof rawName === 'string' ? rawName.replace(/^\[\[|\]\]$/g, '').split('|')[0].trim() : '';
+			const tag = typeof entry.tag === 'string' ? entry.tag.trim().toLowerCase() : '';
+
+			if (!name && !tag) {
+				console.warn(`Skipping recipe material without a name or tag in ${path}`);
+				continue;
+			}
+
+			requirements.push({
+				name: name || null,
+				tag: name ? null : tag,
+				quantity: this.toPositiveInteger(entry.quantity, 1)
+			});
+		}
+
+		return requirements;
+	}
+
+	/**
+	 * Validate recipe frontmatter data
+	 * @param frontmatter - Frontmatter object
+	 * @returns True if valid, false otherwise
+	 */
+	validateRecipeData(frontmatter: any): boolean {
+		if (frontmatter.type !== 'recipe') {
+			console.warn('Missing or invalid type field (expected "recipe")');
+			return false;
+		}
+
+		if (typeof frontmatter.output !== 'string' || !frontmatter.output.trim()) {
+			console.warn('Missing output field (expected a wikilink to the crafted item)');
+			return false;
+		}
+
+		if (frontmatter.materials !== undefined && !Array.isArray(frontmatter.materials)) {
+			console.warn('Invalid materials field (must be a list)');
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Read a positive integer, falling back to a default
+	 */
+	private toPositiveInteger(raw: any, fallback: number): number {
+		return typeof raw === 'number' && Number.isInteger(raw) && raw > 0 ? raw : fallback;
+	}
+}
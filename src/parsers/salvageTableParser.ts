@@ -0,0 +1,194 @@
+import { App, TFile } from 'obsidian';
+import { SalvageTable, SalvageTableEntry } from '../types';
+
+/**
+ * Parser for salvage table notes (`type: salvage-table`) and monster notes
+ * A salvage table lists the materials a monster type yields. A `type: monster`
+ * note can point at its own table with `salvage_table: "[[Owlbear Salvage]]"`,
+ * which makes the monster selectable by name.
+ */
+export class SalvageTableParser {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Check whether a file is a salvage table note
+	 * @param file - File to check
+	 */
+	isSalvageTableNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'salvage-table';
+	}
+
+	/**
+	 * Check whether a file is a monster note with its own salvage table
+	 * @param file - File to check
+	 */
+	isMonsterNote(file: TFile): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return frontmatter?.type === 'monster' && typeof frontmatter.salvage_table === 'string';
+	}
+
+	/**
+	 * Load salvage tables from a folder and from monster notes anywhere in the vault
+	 * @param folder - Folder with salvage table notes ('' for the whole vault)
+	 * @returns Tables keyed by monster type, then monster tables keyed by monster name
+	 */
+	getSalvageTables(folder: string): SalvageTable[] {
+		const prefix = folder ? `${folder}/` : '';
+		const files = this.app.vault.getMarkdownFiles();
+		const tables: SalvageTable[] = [];
+
+		for (const file of files) {
+			if (file.path.startsWith(prefix) && this.isSalvageTableNote(file)) {
+				const table = this.parseSalvageTable(file);
+				if (table) {
+					tables.push(table);
+				}
+			}
+		}
+
+		for (const file of files) {
+			if (this.isMonsterNote(file)) {
+				const table = this.parseMonsterNote(file);
+				if (table) {
+					tables.push(table);
+				}
+			}
+		}
+
+		return tables;
+	}
+
+	/**
+	 * Parse a salvage table note
+	 * @param file - Salvage table note file
+	 * @returns Salvage table or null if invalid
+	 */
+	parseSalvageTable(file: TFile): SalvageTable | null {
+		try {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+
+			if (!fm || fm.type !== 'salvage-table') {
+				return null;
+			}
+
+			if (typeof fm.monster_type !== 'string' || !fm.monster_type.trim()) {
+				console.warn(`Salvage table ${file.path} is missing monster_type`);
+				return null;
+			}
+
+			const materials = this.parseMaterials(fm.materials, file.path);
+			if (materials.length === 0) {
+				console.warn(`Salvage table ${file.path} has no valid materials`);
+				return null;
+			}
+
+			const monsterType = fm.monster_type.trim();
+
+			return {
+				monsterType: monsterType.toLowerCase(),
+				label: typeof fm.name === 'string' && fm.name ? fm.name : monsterType,
+				path: file.path,
+				materials
+			};
+
+		} catch (error) {
+			console.error(`Error parsing salvage table ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Parse a monster note that links to its own salvage table
+	 * @param file - Monster note file
+	 * @returns The linked table keyed by the monster's name, or null if the link is broken
+	 */
+	parseMonsterNote(file: TFile): SalvageTable | null {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!fm || typeof fm.salvage_table !== 'string') return null;
+
+		const tableFile = this.resolveLink(fm.salvage_table, file.path);
+		const table = tableFile ? this.parseSalvageTable(tableFile) : null;
+
+		if (!table) {
+			console.warn(`Monster ${file.path} links to a missing or invalid salvage table: ${fm.salvage_table}`);
+			return null;
+		}
+
+		const name = typeof fm.name === 'string' && fm.name ? fm.name : file.basename;
+
+		return {
+			monsterType: name.toLowerCase(),
+			label: name,
+			path: file.path,
+			materials: table.materials
+		};
+	}
+
+	/**
+	 * Parse the materials list, skipping invalid entries
+	 */
+	private parseMaterials(raw: any, path: string): SalvageTableEntry[] {
+		if (!Array.isArray(raw)) return [];
+
+		const materials: SalvageTableEntry[] = [];
+
+		for (const entry of raw) {
+			if (!entry || typeof entry !== 'object' || typeof entry.name !== 'string' || !entry.name.trim()) {
+				console.warn(`Skipping salvage material without a name in ${path}`);
+				continue;
+			}
+
+			const materialYield = this.parseYield(entry.yield);
+			if (!materialYield) {
+				console.warn(`Skipping salvage material ${entry.name} in ${path}: invalid yield "${entry.yield}"`);
+				continue;
+			}
+
+			materials.push({
+				name: entry.name.trim(),
+				description: typeof entry.description === 'string' ? entry.description : '',
+				value: typeof entry.value === 'number' && entry.value >= 0 ? entry.value : 0,
+				craftingTags: Array.isArray(entry.crafting_tags) ? entry.crafting_tags.map(String) : [],
+				harvestDC: typeof entry.harvest_dc === 'number' ? entry.harvest_dc : 10,
+				yield: materialYield
+			});
+		}
+
+		return materials;
+	}
+
+	/**
+	 * Parse yield dice ("1d4"); a plain number is a fixed yield and defaults to 1
+	 */
+	private parseYield(raw: any): string | null {
+		if (raw === undefined || raw === null) return '1d1';
+
+		if (typeof raw === 'number') {
+			return Number.isInteger(raw) && raw > 0 ? `${raw}d1` : null;
+		}
+
+		if (typeof raw === 'string' && /^\d+d\d+$/.test(raw.trim())) {
+			return raw.trim();
+		}
+
+		return null;
+	}
+
+	/**
+	 * Resolve a wikilink to a note file
+	 */
+	private resolveLink(ref: string, sourcePath: string): TFile | null {
+		let linkpath = ref.replace(/^\[\[|\]\]$/g, '').trim();
+
+		// Drop display name (|Display Name)
+		if (linkpath.includes('|')) {
+			linkpath = linkpath.split('|')[0].trim();
+		}
+
+		return this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+	}
+}
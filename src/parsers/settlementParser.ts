@@ -0,0 +1,143 @@
+import { App, TFile } from 'obsidian';
+import { SettlementData } from '../types';
+
+/**
+ * Parser for settlement and region notes - reads regional price modifiers
+ * Shops reference a settlement via `settlement` (or `region`); settlements can sit inside a region
+ */
+export class SettlementParser {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Parse a settlement or region note
+	 * @param file - Settlement note file to parse
+	 * @returns Parsed settlement data or null if invalid
+	 */
+	parseSettlementNote(file: TFile): SettlementData | null {
+		try {
+			const metadata = this.app.metadataCache.getFileCache(file);
+
+			if (!metadata || !metadata.frontmatter) {
+				console.warn(`Settlement ${file.path} has no frontmatter`);
+				return null;
+			}
+
+			const fm = metadata.frontmatter;
+
+			// Validate settlement data
+			if (!this.validateSettlementData(fm)) {
+				console.warn(`Settlement ${file.path} failed validation`);
+				return null;
+			}
+
+			return {
+				path: file.path,
+				name: fm.name || file.basename,
+				priceModifier: fm.price_modifier || 0,
+				itemTypeModifiers: this.parseItemTypeModifiers(fm.item_type_modifiers),
+				parentRef: typeof fm.region === 'string' && fm.region ? fm.region : null
+			};
+
+		} catch (error) {
+			console.error(`Error parsing settlement ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Resolve a settlement link and every region enclosing it
+	 * @param ref - Wikilink to the settlement (e.g., "[[Neverwinter]]")
+	 * @param sourcePath - Path of the note containing the link
+	 * @returns Settlements outermost first (empty if the link can't be resolved)
+	 */
+	resolveChain(ref: string, sourcePath: string): SettlementData[] {
+		const chain: SettlementData[] = [];
+		const visited = new Set<string>();
+
+		let currentRef: string | null = ref;
+		let currentSource = sourcePath;
+
+		while (currentRef) {
+			const file = this.resolveLink(currentRef, currentSource);
+			if (!file) {
+				console.warn(`Could not resolve settlement: ${currentRef}`);
+				break;
+			}
+
+			// Guard against regions that contain each other
+			if (visited.has(file.path)) {
+				console.warn(`Settlement chain loops back to ${file.path}`);
+				break;
+			}
+			visited.add(file.path);
+
+			const settlement = this.parseSettlementNote(file);
+			if (!settlement) break;
+
+			chain.unshift(settlement);
+			currentRef = settlement.parentRef;
+			currentSource = file.path;
+		}
+
+		return chain;
+	}
+
+	/**
+	 * Parse per-item-type modifiers, keeping numeric values with lowercase keys
+	 * @param raw - Raw item_type_modifiers object from frontmatter
+	 */
+	parseItemTypeModifiers(raw: any): Record<string, number> {
+		const result: Record<string, number> = {};
+
+		if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+			return result;
+		}
+
+		for (const [itemType, modifier] of Object.entries(raw)) {
+			if (typeof modifier === 'number' && Number.isFinite(modifier)) {
+				result[itemType.trim().toLowerCase()] = modifier;
+			} else {
+				console.warn(`Invalid modifier for item type ${itemType} (must be a number)`);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Validate settlement frontmatter data
+	 * @param frontmatter - Frontmatter object
+	 * @returns True if valid, false otherwise
+	 */
+	validateSettlementData(frontmatter: any): boolean {
+		if (frontmatter.type !== 'settlement' && frontmatter.type !== 'region') {
+			console.warn('Missing or invalid type field (expected "settlement" or "region")');
+			return false;
+		}
+
+		if (frontmatter.price_modifier !== undefined && typeof frontmatter.price_modifier !== 'number') {
+			console.warn('Invalid price_modifier field (must be a number)');
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Resolve a wikilink to a note file
+	 */
+	private resolveLink(ref: string, sourcePath: string): TFile | null {
+		let linkpath = ref.replace(/^\[\[|\]\]$/g, '').trim();
+
+		// Drop display name (|Display Name)
+		if (linkpath.includes('|')) {
+			linkpath = linkpath.split('|')[0].trim();
+		}
+
+		return this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+	}
+}
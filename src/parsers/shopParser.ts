@@ -1,6 +1,9 @@
 import { App, TFile } from 'obsidian';
-import { ShopData, ShopInventoryItem, ShopboardSettings } from '../types';
+import { ShopData, ShopInventoryItem, ShopboardSettings, BulkRule, ItemData, DynamicPricingBounds, PriceStep, SettlementData, ShopkeeperData } from '../types';
 import { ItemParser } from './itemParser';
+import { SettlementParser } from './settlementParser';
+import { PriceCalculator } from '../utils/priceCalculator';
+import { TransactionLedger } from '../handlers/transactionLedger';
 
 /**
  * Parser for shop notes - resolves inventory and calculates prices
@@ -8,12 +11,25 @@ import { ItemParser } from './itemParser';
 export class ShopParser {
 	private app: App;
 	private itemParser: ItemParser;
+	private settlementParser: SettlementParser;
 	private settings: ShopboardSettings;
+	private priceCalculator: PriceCalculator;
+	private ledger: TransactionLedger;
 
-	constructor(app: App, itemParser: ItemParser, settings: ShopboardSettings) {
+	constructor(
+		app: App,
+		itemParser: ItemParser,
+		settlementParser: SettlementParser,
+		settings: ShopboardSettings,
+		priceCalculator: PriceCalculator,
+		ledger: TransactionLedger
+	) {
 		this.app = app;
 		this.itemParser = itemParser;
+		this.settlementParser = settlementParser;
 		this.settings = settings;
+		this.priceCalculator = priceCalculator;
+		this.ledger = ledger;
 	}
 
 	/**
@@ -49,12 +65,23 @@ export class ShopParser {
 			rows: fm.rows ?? this.settings.defaultRows,
 				showDescriptions: fm.show_descriptions !== undefined ? fm.show_descriptions : true, // Default to true
 				currentPage: fm.current_page || 1,
+				cartMode: fm.cart_mode === true,
+				bulkRules: this.parseBulkRules(fm.bulk_rules, true),
+				dynamicPricing: this.getDynamicPricingBounds(fm),
+				regions: this.getRegions(fm, file.path),
+				shopkeeper: this.parseShopkeeper(fm.shopkeeper, file.path),
 				metadata: { ...fm }
 			};
 
 			// Resolve inventory
 			if (fm.inventory && Array.isArray(fm.inventory)) {
-				shopData.inventory = this.resolveInventory(fm.inventory, shopData.priceModifier);
+				shopData.inventory = this.resolveInventory(
+					fm.inventory,
+					shopData.priceModifier,
+					shopData.bulkRules,
+					shopData.dynamicPricing ? { shopPath: file.path, bounds: shopData.dynamicPricing } : null,
+					shopData.regions
+				);
 			}
 
 			return shopData;
@@ -69,10 +96,20 @@ export class ShopParser {
 	 * Resolve inventory items and calculate prices
 	 * @param inventory - Raw inventory array from frontmatter
 	 * @param priceModifier - Shop-wide price modifier percentage
+	 * @param shopRules - Shop-wide bulk discount rules
+	 * @param dynamicPricing - Shop path and bounds for supply-and-demand pricing (null to disable)
+	 * @param regions - Settlement and enclosing regions whose modifiers apply first (outermost first)
 	 * @returns Array of resolved inventory items
 	 */
-	resolveInventory(inventory: any[], priceModifier: number): ShopInventoryItem[] {
+	resolveInventory(
+		inventory: any[],
+		priceModifier: number,
+		shopRules: BulkRule[] = [],
+		dynamicPricing: { shopPath: string; bounds: DynamicPricingBounds } | null = null,
+		regions: SettlementData[] = []
+	): ShopInventoryItem[] {
 		const resolved: ShopInventoryItem[] = [];
+		const salesSince = Date.now() - this.settings.dynamicSalesWindowHours * 60 * 60 * 1000;
 
 		for (const entry of inventory) {
 			if (!entry || typeof entry !== 'object') {
@@ -93,18 +130,19 @@ export class ShopParser {
 			// Resolve item data
 			const itemData = this.itemParser.getItemByName(itemName);
 
-			if (!itemData) {
+			// Plain lines (e.g. gems sold from loot) have no item note to resolve
+			if (!itemData && this.isItemLink(itemRef)) {
 				console.warn(`Could not resolve item: ${itemRef}`);
 			}
 
-			// Calculate price
+			// Calculate price: region → settlement → shop modifiers, unless overridden
 			let calculatedPrice = 0;
+			let priceSteps: PriceStep[] = [];
 			if (entry.price_override !== null && entry.price_override !== undefined) {
 				calculatedPrice = entry.price_override;
 			} else if (itemData) {
-				// Apply price modifier: basePrice * (1 + modifier / 100)
-				const multiplier = 1 + (priceModifier / 100);
-				calculatedPrice = Math.round(itemData.basePrice * multiplier);
+				priceSteps = this.getPriceSteps(regions, priceModifier, itemData);
+				calculatedPrice = this.priceCalculator.calculateChainedPrice(itemData.basePrice, priceSteps);
 			}
 
 			const inventoryItem: ShopInventoryItem = {
@@ -112,15 +150,248 @@ export class ShopParser {
 				itemData,
 				quantity: entry.quantity || 0,
 				priceOverride: entry.price_override || null,
-				calculatedPrice
+				calculatedPrice,
+				bulkRules: [
+					...this.parseBulkRules(entry.bulk_rules, false),
+					...this.getBulkRulesForItem(shopRules, itemData)
+				],
+				baselineQuantity: typeof entry.baseline_quantity === 'number' ? entry.baseline_quantity : null,
+				priceSteps
 			};
 
+			// Let supply and demand move the price (price overrides stay fixed)
+			if (dynamicPricing && inventoryItem.priceOverride === null && calculatedPrice > 0) {
+				const multiplier = this.priceCalculator.calculateDemandMultiplier(
+					inventoryItem.quantity,
+					inventoryItem.baselineQuantity ?? null,
+					this.ledger.getNetSales(dynamicPricing.shopPath, itemRef, salesSince),
+					this.settings.dynamicStockWeight,
+					this.settings.dynamicSalesWeight,
+					dynamicPricing.bounds
+				);
+
+				inventoryItem.staticPrice = calculatedPrice;
+				inventoryItem.priceMultiplier = multiplier;
+				inventoryItem.calculatedPrice = Math.max(0, Math.round(calculatedPrice * multiplier));
+			}
+
 			resolved.push(inventoryItem);
 		}
 
 		return resolved;
 	}
 
+	/**
+	 * Build the modifier chain for an item: each region's modifier and matching
+	 * item_type modifier (outermost first), then the shop's own modifier
+	 * @param regions - Settlement and enclosing regions, outermost first
+	 * @param priceModifier - Shop-wide price modifier percentage
+	 * @param itemData - Resolved item data
+	 * @returns Non-zero modifiers in the order they apply
+	 */
+	getPriceSteps(regions: SettlementData[], priceModifier: number, itemData: ItemData | null): PriceStep[] {
+		const steps: PriceStep[] = [];
+		const itemTypes = this.getItemTypes(itemData);
+
+		for (const region of regions) {
+			steps.push({ label: region.name, modifier: region.priceModifier });
+
+			for (const itemType of itemTypes) {
+				const modifier = region.itemTypeModifiers[itemType];
+				if (modifier !== undefined) {
+					steps.push({ label: `${region.name}: ${itemType}`, modifier });
+				}
+			}
+		}
+
+		steps.push({ label: 'Shop', modifier: priceModifier });
+
+		return steps.filter(step => step.modifier !== 0);
+	}
+
+	/**
+	 * Resolve the settlement chain a shop belongs to
+	 * Shops link their settlement with `settlement` (or `region` when there is no settlement)
+	 * @param frontmatter - Shop frontmatter
+	 * @param shopPath - Shop note file path (for link resolution)
+	 */
+	getRegions(frontmatter: any, shopPath: string): SettlementData[] {
+		const ref = typeof frontmatter.settlement === 'string' && frontmatter.settlement
+			? frontmatter.settlement
+			: frontmatter.region;
+
+		if (typeof ref !== 'string' || !ref) {
+			return [];
+		}
+
+		return this.settlementParser.resolveChain(ref, shopPath);
+	}
+
+	/**
+	 * Get supply-and-demand pricing bounds for a shop
+	 * `dynamic_pricing` turns the economy mode on or off per shop (defaults to the setting);
+	 * `dynamic_min`/`dynamic_max` override the default multiplier bounds
+	 * @param frontmatter - Shop frontmatter
+	 * @returns Bounds, or null if dynamic pricing is off
+	 */
+	getDynamicPricingBounds(frontmatter: any): DynamicPricingBounds | null {
+		const enabled = typeof frontmatter.dynamic_pricing === 'boolean'
+			? frontmatter.dynamic_pricing
+			: this.settings.dynamicPricingDefault;
+
+		if (!enabled) {
+			return null;
+		}
+
+		const min = typeof frontmatter.dynamic_min === 'number' && frontmatter.dynamic_min > 0
+			? frontmatter.dynamic_min
+			: this.settings.dynamicMinMultiplier;
+		const max = typeof frontmatter.dynamic_max === 'number' && frontmatter.dynamic_max > 0
+			? frontmatter.dynamic_max
+			: this.settings.dynamicMaxMultiplier;
+
+		if (min > max) {
+			console.warn(`Invalid dynamic pricing bounds (dynamic_min ${min} > dynamic_max ${max}). Using defaults.`);
+			return { min: this.settings.dynamicMinMultiplier, max: this.settings.dynamicMaxMultiplier };
+		}
+
+		return { min, max };
+	}
+
+	/**
+	 * Parse bulk discount rules from frontmatter
+	 * Supports `{ min_quantity: 10, discount: 15 }` and `{ deal: "3 for 2" }`,
+	 * plus `item_type` on shop-wide rules
+	 * @param raw - Raw bulk_rules array from frontmatter
+	 * @param allowItemType - Whether rules may be keyed by item_type (shop-wide rules)
+	 * @returns Valid rules (invalid entries are skipped with a warning)
+	 */
+	parseBulkRules(raw: any, allowItemType: boolean): BulkRule[] {
+		if (!Array.isArray(raw)) {
+			return [];
+		}
+
+		const rules: BulkRule[] = [];
+
+		for (const entry of raw) {
+			if (!entry || typeof entry !== 'object') {
+				console.warn('Invalid bulk rule:', entry);
+				continue;
+			}
+
+			let rule: BulkRule | null = null;
+
+			if (typeof entry.deal === 'string') {
+				// "X for Y" deal
+				const match = entry.deal.match(/^\s*(\d+)\s*for\s*(\d+)\s*$/i);
+				const groupSize = match ? parseInt(match[1]) : 0;
+				const payFor = match ? parseInt(match[2]) : 0;
+
+				if (groupSize > 0 && payFor >= 0 && payFor < groupSize) {
+					rule = { minQuantity: groupSize, payFor };
+				}
+			} else if (typeof entry.min_quantity === 'number' && typeof entry.discount === 'number') {
+				// Percentage discount from a minimum quantity
+				if (entry.min_quantity >= 1 && entry.discount > 0 && entry.discount <= 100) {
+					rule = { minQuantity: Math.floor(entry.min_quantity), discount: entry.discount };
+				}
+			}
+
+			if (!rule) {
+				console.warn('Invalid bulk rule (expected min_quantity + discount, or deal: "X for Y"):', entry);
+				continue;
+			}
+
+			if (allowItemType && typeof entry.item_type === 'string' && entry.item_type.trim()) {
+				rule.itemType = entry.item_type.trim().toLowerCase();
+			}
+
+			rules.push(rule);
+		}
+
+		return rules;
+	}
+
+	/**
+	 * Parse the shopkeeper NPC block from frontmatter
+	 * Supports `name`, `race`, `portrait`, `greetings` (or a single `greeting`),
+	 * `disposition` and `haggle_dc`
+	 * @param raw - Raw shopkeeper object from frontmatter
+	 * @param shopPath - Shop note path (for warnings)
+	 * @returns Shopkeeper, or null if there is no valid block
+	 */
+	parseShopkeeper(raw: any, shopPath: string): ShopkeeperData | null {
+		if (raw === undefined || raw === null) {
+			return null;
+		}
+
+		if (typeof raw !== 'object' || Array.isArray(raw)) {
+			console.warn(`Invalid shopkeeper in ${shopPath} (must be an object)`);
+			return null;
+		}
+
+		if (typeof raw.name !== 'string' || !raw.name.trim()) {
+			console.warn(`Shopkeeper in ${shopPath} has no name`);
+			return null;
+		}
+
+		const text = (value: any): string | null =>
+			typeof value === 'string' && value.trim() ? value.trim() : null;
+
+		const rawGreetings = Array.isArray(raw.greetings) ? raw.greetings : [raw.greetings ?? raw.greeting];
+		const greetings = rawGreetings
+			.map((line: any) => text(line))
+			.filter((line: string | null): line is string => line !== null);
+
+		let haggleDC: number | null = null;
+		if (raw.haggle_dc !== undefined && raw.haggle_dc !== null) {
+			if (typeof raw.haggle_dc === 'number' && Number.isFinite(raw.haggle_dc)) {
+				haggleDC = raw.haggle_dc;
+			} else {
+				console.warn(`Invalid shopkeeper haggle_dc in ${shopPath} (must be a number)`);
+			}
+		}
+
+		return {
+			name: raw.name.trim(),
+			race: text(raw.race),
+			portrait: text(raw.portrait),
+			greetings,
+			disposition: text(raw.disposition),
+			haggleDC
+		};
+	}
+
+	/**
+	 * Get the shop-wide bulk rules that apply to an item
+	 * Rules without item_type apply to every item; others match item_type or equipment_type
+	 * @param shopRules - Shop-wide bulk discount rules
+	 * @param itemData - Resolved item data (null if the item note is missing)
+	 */
+	getBulkRulesForItem(shopRules: BulkRule[], itemData: ItemData | null): BulkRule[] {
+		const types = this.getItemTypes(itemData);
+		return shopRules.filter(rule => !rule.itemType || types.includes(rule.itemType));
+	}
+
+	/**
+	 * Get an item's lowercase item_type and equipment_type values
+	 */
+	private getItemTypes(itemData: ItemData | null): string[] {
+		const metadata = itemData?.metadata || {};
+		return [metadata.item_type, metadata.equipment_type]
+			.filter((type): type is string => typeof type === 'string')
+			.map(type => type.toLowerCase());
+	}
+
+	/**
+	 * Check whether an inventory reference links to an item note
+	 * Plain text references (e.g., gems sold from loot) are priced lines without a note
+	 * @param itemRef - Inventory item reference
+	 */
+	isItemLink(itemRef: string): boolean {
+		return /^\[\[.+\]\]$/.test(itemRef.trim());
+	}
+
 	/**
 	 * Parse wikilink to extract item name
 	 * Supports formats:
@@ -0,0 +1,324 @@
+import { App, TFile, parseYaml } from 'obsidian';
+import {
+	ArtValue,
+	CoinRoll,
+	CoinTable,
+	CRTier,
+	GemValue,
+	HoardTable,
+	MagicItemTable,
+	TreasureTableSet
+} from '../types';
+import { BUILT_IN_TREASURE_TABLES } from '../utils/treasureTables';
+
+const CR_TIERS: CRTier[] = ['0-4', '5-10', '11-16', '17+'];
+const GEM_VALUES: GemValue[] = [10, 50, 100, 500, 1000, 5000];
+const ART_VALUES: ArtValue[] = [25, 250, 750, 2500, 7500];
+const MAGIC_ITEM_TABLES: MagicItemTable[] = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I'];
+const DENOMINATIONS: (keyof CoinTable)[] = ['cp', 'sp', 'ep', 'gp', 'pp'];
+
+/**
+ * Parser for treasure table notes - custom loot tables kept in the vault
+ * A table set is a markdown note with `type: treasure-tables` frontmatter, or a
+ * .yaml/.yml file with a top-level `type: treasure-tables`, inside the treasure
+ * table folder. Every section is optional and uses the same shape as the built-in
+ * tables; a missing or invalid tier, value or container falls back to the built-in entry.
+ */
+export class TreasureTableParser {
+	private app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Check whether a markdown file is a treasure table note
+	 * @param file - File to check
+	 */
+	isTreasureTableNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'treasure-tables';
+	}
+
+	/**
+	 * Check whether a file is a YAML file
+	 */
+	isYamlFile(file: TFile): boolean {
+		return file.extension === 'yaml' || file.extension === 'yml';
+	}
+
+	/**
+	 * Load every treasure table set in a folder
+	 * @param folder - Folder to search ('' for the whole vault)
+	 * @returns Table sets sorted by name
+	 */
+	async getTableSets(folder: string): Promise<TreasureTableSet[]> {
+		const prefix = folder ? `${folder}/` : '';
+		const files = this.app.vault.getFiles().filter(file =>
+			file.path.startsWith(prefix) &&
+			(this.isYamlFile(file) || (file.extension === 'md' && this.isTreasureTableNote(file)))
+		);
+
+		const sets: TreasureTableSet[] = [];
+		for (const file of files) {
+			const set = await this.parseTableFile(file);
+			if (set) {
+				sets.push(set);
+			}
+		}
+
+		return sets.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Parse a treasure table note or YAML file
+	 * @param file - Table file to parse
+	 * @returns Table set (built-ins filled in where needed) or null if unreadable
+	 */
+	async parseTableFile(file: TFile): Promise<TreasureTableSet | null> {
+		try {
+			let data: any;
+
+			if (this.isYamlFile(file)) {
+				data = parseYaml(await this.app.vault.read(file));
+			} else {
+				data = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			}
+
+			// Other YAML files in the folder are not treasure tables
+			if (!this.isRecord(data) || data.type !== 'treasure-tables') {
+				return null;
+			}
+
+			return this.parseTableData(data, typeof data.name === 'string' && data.name ? data.name : file.basename, file.path);
+
+		} catch (error) {
+			console.error(`Error parsing treasure table file ${file.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Build a table set from raw frontmatter or YAML data
+	 * @param data - Raw table data
+	 * @param name - Display name of the set
+	 * @param path - Path of the source file
+	 */
+	parseTableData(data: any, name: string, path: string): TreasureTableSet {
+		const builtIn = BUILT_IN_TREASURE_TABLES;
+
+		return {
+			name,
+			path,
+			individual: this.parseTiers(data.individual_treasure, 'individual_treasure', path, builtIn.individual,
+				raw => this.parseCoinTable(raw)),
+			hoard: this.parseTiers(data.hoard_treasure, 'hoard_treasure', path, builtIn.hoard,
+				raw => this.parseHoardTable(raw)),
+			gemDescriptions: this.parseDescriptions(data.gem_descriptions, 'gem_descriptions', path,
+				builtIn.gemDescriptions, GEM_VALUES),
+			artDescriptions: this.parseDescriptions(data.art_descriptions, 'art_descriptions', path,
+				builtIn.artDescriptions, ART_VALUES),
+			containerDescriptions: this.parseContainers(data.container_descriptions, path, builtIn.containerDescriptions)
+		};
+	}
+
+	/**
+	 * Parse a section keyed by CR tier, keeping the built-in entry for missing or invalid tiers
+	 */
+	private parseTiers<T>(
+		raw: any,
+		section: string,
+		path: string,
+		fallback: Record<CRTier, T>,
+		parseTier: (raw: any) => T | null
+	): Record<CRTier, T> {
+		const result = { ...fallback };
+		if (raw === undefined || raw === null) return result;
+
+		if (!this.isRecord(raw)) {
+			console.warn(`Invalid ${section} in ${path} (must be keyed by CR tier), using built-in table`);
+			return result;
+		}
+
+		for (const [tier, value] of Object.entries(raw)) {
+			if (!CR_TIERS.includes(tier as CRTier)) {
+				console.warn(`Unknown CR tier "${tier}" in ${section} of ${path} (expected ${CR_TIERS.join(', ')})`);
+				continue;
+			}
+
+			const parsed = parseTier(value);
+			if (parsed) {
+				result[tier as CRTier] = parsed;
+			} else {
+				console.warn(`Invalid ${section} tier "${tier}" in ${path}, using built-in table`);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Parse coin rolls for every denomination
+	 */
+	private parseCoinTable(raw: any): CoinTable | null {
+		if (!this.isRecord(raw)) return null;
+
+		const table: Partial<CoinTable> = {};
+		for (const denomination of DENOMINATIONS) {
+			const roll = this.parseCoinRoll(raw[denomination]);
+			if (!roll) return null;
+			table[denomination] = roll;
+		}
+
+		return table as CoinTable;
+	}
+
+	/**
+	 * Parse a single coin roll ({ dice, multiplier })
+	 */
+	private parseCoinRoll(raw: any): CoinRoll | null {
+		if (!this.isRecord(raw) || !this.isDice(raw.dice)) return null;
+		if (typeof raw.multiplier !== 'number' || !Number.isFinite(raw.multiplier) || raw.multiplier < 0) return null;
+
+		return { dice: raw.dice, multiplier: raw.multiplier };
+	}
+
+	/**
+	 * Parse hoard treasure for one tier
+	 * Gem, art and magic item lists may be empty or left out
+	 */
+	private parseHoardTable(raw: any): HoardTable | null {
+		if (!this.isRecord(raw)) return null;
+
+		const coins = this.parseCoinTable(raw.coins);
+		if (!coins) return null;
+
+		const gems = this.parseChanceList(raw.gems, entry =>
+			this.isDice(entry.dice) && GEM_VALUES.includes(entry.value)
+				? { chance: entry.chance, dice: entry.dice, value: entry.value as GemValue }
+				: null
+		);
+		const art = this.parseChanceList(raw.art, entry =>
+			this.isDice(entry.dice) && ART_VALUES.includes(entry.value)
+				? { chance: entry.chance, dice: entry.dice, value: entry.value as ArtValue }
+				: null
+		);
+		const magicItems = this.parseChanceList(raw.magic_items, entry =>
+			this.isDice(entry.rolls) && MAGIC_ITEM_TABLES.includes(entry.table)
+				? { chance: entry.chance, rolls: entry.rolls, table: entry.table as MagicItemTable }
+				: null
+		);
+
+		if (!gems || !art || !magicItems) return null;
+
+		return { coins, gems, art, magicItems };
+	}
+
+	/**
+	 * Parse a list of d100 entries with ascending cumulative chances (1-100)
+	 * @returns Parsed entries, or null if any entry is invalid
+	 */
+	private parseChanceList<T extends { chance: number }>(raw: any, parseEntry: (entry: any) => T | null): T[] | null {
+		if (raw === undefined || raw === null) return [];
+		if (!Array.isArray(raw)) return null;
+
+		const entries: T[] = [];
+		for (const entry of raw) {
+			if (!this.isRecord(entry)) return null;
+			if (typeof entry.chance !== 'number' || entry.chance < 1 || entry.chance > 100) return null;
+
+			const previous = entries[entries.length - 1];
+			if (previous && entry.chance <= previous.chance) return null;
+
+			const parsed = parseEntry(entry);
+			if (!parsed) return null;
+			entries.push(parsed);
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Parse descriptions keyed by value, keeping the built-in list for missing or invalid values
+	 */
+	private parseDescriptions<V extends number>(
+		raw: any,
+		section: string,
+		path: string,
+		fallback: Record<V, string[]>,
+		values: V[]
+	): Record<V, string[]> {
+		const result = { ...fallback };
+		if (raw === undefined || raw === null) return result;
+
+		if (!this.isRecord(raw)) {
+			console.warn(`Invalid ${section} in ${path} (must be keyed by value), using built-in descriptions`);
+			return result;
+		}
+
+		for (const [key, list] of Object.entries(raw)) {
+			const value = Number(key) as V;
+			if (!values.includes(value)) {
+				console.warn(`Unknown value "${key}" in ${section} of ${path} (expected ${values.join(', ')})`);
+				continue;
+			}
+
+			const descriptions = this.parseStringList(list);
+			if (descriptions) {
+				result[value] = descriptions;
+			} else {
+				console.warn(`Invalid ${section} for ${key} in ${path}, using built-in descriptions`);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Parse container descriptions
+	 * Lists replace the built-in descriptions of the same container type
+	 */
+	private parseContainers(raw: any, path: string, fallback: Record<string, string[]>): Record<string, string[]> {
+		const result = { ...fallback };
+		if (raw === undefined || raw === null) return result;
+
+		if (!this.isRecord(raw)) {
+			console.warn(`Invalid container_descriptions in ${path} (must be keyed by container type), using built-in descriptions`);
+			return result;
+		}
+
+		for (const [type, list] of Object.entries(raw)) {
+			const descriptions = this.parseStringList(list);
+			if (descriptions) {
+				result[type] = descriptions;
+			} else {
+				console.warn(`Invalid container_descriptions for ${type} in ${path}, using built-in descriptions`);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Parse a non-empty list of non-empty strings
+	 */
+	private parseStringList(raw: any): string[] | null {
+		if (!Array.isArray(raw)) return null;
+
+		const list = raw.filter(entry => typeof entry === 'string' && entry.trim()).map(entry => entry.trim());
+		return list.length > 0 && list.length === raw.length ? list : null;
+	}
+
+	/**
+	 * Check for dice notation the loot generator can roll (e.g., "2d6", "0d6")
+	 */
+	private isDice(raw: any): boolean {
+		return typeof raw === 'string' && /^\d+d\d+$/.test(raw.trim());
+	}
+
+	/**
+	 * Check for a plain object (not a list)
+	 */
+	private isRecord(raw: any): boolean {
+		return !!raw && typeof raw === 'object' && !Array.isArray(raw);
+	}
+}
@@ -1,6 +1,14 @@
 import { App, PluginSettingTab, Setting, Notice, Modal } from 'obsidian';
 import type ShopboardPlugin from './main';
-import { ShopboardSettings, ImageStyle } from './types';
+import { ShopboardSettings, ImageStyle, ImageProviderType, ImagePromptOverride } from './types';
+
+/**
+ * Built-in prompt template for generated item images
+ * {{rarity_style}} and {{image_style}} expand to the wording for the item's rarity and the chosen style
+ */
+export const DEFAULT_IMAGE_PROMPT_TEMPLATE = 'A fantasy RPG item illustration of {{name}}. {{description}}. {{rarity_style}} {{image_style}} '
+	+ 'Single item centered in frame, isolated object on clean background, professional quality, highly detailed. '
+	+ 'IMPORTANT: No text, no labels, no words, no letters, no names, no titles, no UI elements, no writing of any kind on or near the item.';
 
 /**
  * Default plugin settings
@@ -52,11 +60,45 @@ export const DEFAULT_SETTINGS: ShopboardSettings = {
 	},
 	themeOverride: true,
 	autoRefresh: true,
+	imageProvider: 'openai',
 	openaiApiKey: '',
+	localImageEndpoint: 'http://127.0.0.1:7860',
+	imageTemplateFolder: 'Image Templates',
 	imageStyle: 'digital-art',
+	imagePromptTemplate: DEFAULT_IMAGE_PROMPT_TEMPLATE,
+	imagePromptOverrides: [],
+	imageHistoryLimit: 5,
+	imageQueueLimit: 20,
+	imageQueue: [],
 	attachmentFolder: '_attachments',
 	defaultColumns: 4,
 	defaultRows: 5,
+	ledgerPath: 'Shopboard/ledger.json',
+	ledgerSession: '',
+	activePartyPath: '',
+	insufficientFundsMode: 'refuse',
+	haggleTable: [
+		{ minMargin: 10, modifier: -20, refuse: false, label: 'Steal of a deal' },
+		{ minMargin: 5, modifier: -10, refuse: false, label: 'Good bargain' },
+		{ minMargin: 0, modifier: -5, refuse: false, label: 'Small discount' },
+		{ minMargin: -5, modifier: 0, refuse: false, label: 'No deal' },
+		{ minMargin: -10, modifier: 10, refuse: false, label: 'Offended shopkeeper' },
+		{ minMargin: -99, modifier: 0, refuse: true, label: 'Refuses to trade' }
+	],
+	defaultHaggleDC: 15,
+	haggleDCIncrease: 2,
+	haggleRefusalMinutes: 30,
+	dynamicPricingDefault: false,
+	dynamicStockWeight: 0.5,
+	dynamicSalesWeight: 0.3,
+	dynamicSalesWindowHours: 72,
+	dynamicMinMultiplier: 0.75,
+	dynamicMaxMultiplier: 1.5,
+	campaignDay: 1,
+	lootFolder: 'Loot',
+	treasureTableFolder: 'Treasure Tables',
+	treasureTableSet: '',
+	trackIdentification: false,
 	version: '1.0.0'
 };
 
@@ -289,23 +331,64 @@ export class ShopboardSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		// OpenAI API Key Setting
+		// Image Provider Setting
 		new Setting(containerEl)
-			.setName('OpenAI API Key')
-			.setDesc('API key for generating item images with DALL-E. Get your key at https://platform.openai.com/api-keys')
-			.addText(text => text
-				.setPlaceholder('sk-...')
-				.setValue(this.plugin.settings.openaiApiKey)
+			.setName('Image Provider')
+			.setDesc('Backend used to create item images')
+			.addDropdown(dropdown => dropdown
+				.addOption('openai', 'OpenAI DALL-E')
+				.addOption('local', 'Local Stable Diffusion')
+				.addOption('template-folder', 'Template Folder')
+				.setValue(this.plugin.settings.imageProvider)
 				.onChange(async (value) => {
-					this.plugin.settings.openaiApiKey = value.trim();
+					this.plugin.settings.imageProvider = value as ImageProviderType;
 					await this.plugin.saveSettings();
-				})
-				.inputEl.setAttribute('type', 'password'));
+					this.display();
+				}));
+
+		if (this.plugin.settings.imageProvider === 'openai') {
+			// OpenAI API Key Setting
+			new Setting(containerEl)
+				.setName('OpenAI API Key')
+				.setDesc('API key for generating item images with DALL-E. Get your key at https://platform.openai.com/api-keys')
+				.addText(text => text
+					.setPlaceholder('sk-...')
+					.setValue(this.plugin.settings.openaiApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiApiKey = value.trim();
+						await this.plugin.saveSettings();
+					})
+					.inputEl.setAttribute('type', 'password'));
+		} else if (this.plugin.settings.imageProvider === 'local') {
+			// Local Image Endpoint Setting
+			new Setting(containerEl)
+				.setName('Local Image Endpoint')
+				.setDesc('Base URL of an AUTOMATIC1111-compatible API (Forge, SD.Next or a ComfyUI bridge). Start the server with --api.')
+				.addText(text => text
+					.setPlaceholder('http://127.0.0.1:7860')
+					.setValue(this.plugin.settings.localImageEndpoint)
+					.onChange(async (value) => {
+						this.plugin.settings.localImageEndpoint = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			// Image Template Folder Setting
+			new Setting(containerEl)
+				.setName('Image Template Folder')
+				.setDesc('Vault folder with stock images named by item type and rarity (e.g., weapon-rare.png, potion.png, legendary.png, default.png)')
+				.addText(text => text
+					.setPlaceholder('Image Templates')
+					.setValue(this.plugin.settings.imageTemplateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.imageTemplateFolder = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
 
 		// Image Style Setting
 		new Setting(containerEl)
 			.setName('Image Generation Style')
-			.setDesc('Art style for AI-generated item images')
+			.setDesc('Art style for generated item images (not used by the template folder)')
 			.addDropdown(dropdown => dropdown
 				.addOption('realistic', 'Realistic Photo')
 				.addOption('fantasy-painting', 'Fantasy Painting')
@@ -318,6 +401,128 @@ export class ShopboardSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Prompt Templates
+		containerEl.createEl('h4', { text: 'Image Prompt Templates' });
+		containerEl.createEl('p', {
+			text: 'Placeholders are replaced with item frontmatter fields: {{name}}, {{description}}, {{rarity}}, {{item_type}}, or any field such as {{metadata.damage}}. {{rarity_style}} and {{image_style}} add the built-in wording for the rarity and the image style, {{shop_theme}} the theme of the shop. An item type template wins over a shop theme template.',
+			cls: 'setting-item-description'
+		});
+
+		// Default Template Setting
+		new Setting(containerEl)
+			.setName('Default Template')
+			.setDesc('Used when no override matches')
+			.setClass('image-prompt-setting')
+			.addTextArea(text => {
+				text
+					.setValue(this.plugin.settings.imagePromptTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.imagePromptTemplate = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 6;
+				return text;
+			})
+			.addExtraButton(button => button
+				.setIcon('rotate-ccw')
+				.setTooltip('Restore the built-in template')
+				.onClick(async () => {
+					this.plugin.settings.imagePromptTemplate = DEFAULT_IMAGE_PROMPT_TEMPLATE;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh display
+				}));
+
+		// Override templates
+		const overrides = this.plugin.settings.imagePromptOverrides;
+		for (let i = 0; i < overrides.length; i++) {
+			const override = overrides[i];
+			const overrideSetting = new Setting(containerEl)
+				.setName(override.kind === 'item-type' ? 'Item Type Template' : 'Shop Theme Template')
+				.setClass('image-prompt-setting');
+
+			// Override kind
+			overrideSetting.addDropdown(dropdown => dropdown
+				.addOption('item-type', 'Item type')
+				.addOption('shop-theme', 'Shop theme')
+				.setValue(override.kind)
+				.onChange(async (value) => {
+					override.kind = value as ImagePromptOverride['kind'];
+					await this.plugin.saveSettings();
+					this.display(); // Refresh display
+				}));
+
+			// Matched item type or theme
+			overrideSetting.addText(text => text
+				.setPlaceholder(override.kind === 'item-type' ? 'weapon' : 'forge')
+				.setValue(override.match)
+				.onChange(async (value) => {
+					override.match = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+			// Template
+			overrideSetting.addTextArea(text => {
+				text
+					.setValue(override.template)
+					.onChange(async (value) => {
+						override.template = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+				return text;
+			});
+
+			// Delete button
+			overrideSetting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove template')
+				.onClick(async () => {
+					overrides.splice(i, 1);
+					await this.plugin.saveSettings();
+					this.display(); // Refresh display
+				}));
+		}
+
+		// Add Override button
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Template Override')
+				.onClick(async () => {
+					overrides.push({ kind: 'item-type', match: '', template: this.plugin.settings.imagePromptTemplate });
+					await this.plugin.saveSettings();
+					this.display(); // Refresh display
+				}));
+
+		// Image History Setting
+		new Setting(containerEl)
+			.setName('Image History Length')
+			.setDesc('Generated images kept per item for rolling back. Older images stay in the attachment folder until "Clean up unused item images" deletes them.')
+			.addText(text => text
+				.setPlaceholder('5')
+				.setValue(String(this.plugin.settings.imageHistoryLimit))
+				.onChange(async (value) => {
+					const limit = parseInt(value);
+					if (isNaN(limit) || limit < 1) return;
+
+					this.plugin.settings.imageHistoryLimit = limit;
+					await this.plugin.saveSettings();
+				}));
+
+		// Image Queue Limit Setting
+		new Setting(containerEl)
+			.setName('Images per Queue Run')
+			.setDesc('Maximum number of images a batch run generates before it stops, to avoid surprise bills (0 for no limit)')
+			.addText(text => text
+				.setPlaceholder('20')
+				.setValue(String(this.plugin.settings.imageQueueLimit))
+				.onChange(async (value) => {
+					const limit = parseInt(value);
+					if (isNaN(limit) || limit < 0) return;
+
+					this.plugin.settings.imageQueueLimit = limit;
+					await this.plugin.saveSettings();
+				}));
+
 		// Attachment Folder Setting
 		new Setting(containerEl)
 			.setName('Attachment Folder')
@@ -329,9 +534,6 @@ export class ShopboardSettingTab extends PluginSettingTab {
 					const folderName = value.trim() || '_attachments';
 					this.plugin.settings.attachmentFolder = folderName;
 					await this.plugin.saveSettings();
-
-					// Update the image generator with new folder
-					this.plugin.imageGenerator.updateAttachmentFolder(folderName);
 				}));
 
 		// Shop Display Defaults Section
@@ -385,6 +587,384 @@ export class ShopboardSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Transaction Ledger Section
+		containerEl.createEl('h3', { text: 'Transaction Ledger' });
+		containerEl.createEl('p', {
+			text: 'Every sale, buy-back and restock is recorded in a JSON file in your vault. Use a separate file per campaign.',
+			cls: 'setting-item-description'
+		});
+
+		// Ledger Path Setting
+		new Setting(containerEl)
+			.setName('Ledger File')
+			.setDesc('Vault path of the ledger file (e.g., Campaigns/Phandelver/ledger.json)')
+			.addText(text => text
+				.setPlaceholder('Shopboard/ledger.json')
+				.setValue(this.plugin.settings.ledgerPath)
+				.onChange(async (value) => {
+					const ledgerPath = value.trim() || 'Shopboard/ledger.json';
+					this.plugin.settings.ledgerPath = ledgerPath;
+					await this.plugin.saveSettings();
+
+					// Reload history from the new ledger file
+					await this.plugin.ledger.load();
+					this.app.workspace.trigger('shopboard:ledger-updated');
+				}));
+
+		// Ledger Session Setting
+		new Setting(containerEl)
+			.setName('Current Session')
+			.setDesc(`Transactions are grouped by session for per-session totals. Current session: ${this.plugin.settings.ledgerSession || 'none'}`)
+			.addButton(button => button
+				.setButtonText('Start New Session')
+				.onClick(async () => {
+					await this.plugin.startLedgerSession();
+					this.display(); // Refresh display
+				}));
+
+		// Party Wallet Section
+		containerEl.createEl('h3', { text: 'Party Wallet' });
+		containerEl.createEl('p', {
+			text: 'Sales debit and buy-backs credit the coin purse of a party note (type: party). Choose the active party in the DM Control Panel.',
+			cls: 'setting-item-description'
+		});
+
+		// Insufficient Funds Setting
+		new Setting(containerEl)
+			.setName('When the Party Can\'t Afford a Sale')
+			.setDesc('Refuse the sale, or warn and record it anyway (the purse is emptied)')
+			.addDropdown(dropdown => dropdown
+				.addOption('refuse', 'Refuse sale')
+				.addOption('warn', 'Warn and continue')
+				.setValue(this.plugin.settings.insufficientFundsMode)
+				.onChange(async (value) => {
+					this.plugin.settings.insufficientFundsMode = value as 'refuse' | 'warn';
+					await this.plugin.saveSettings();
+				}));
+
+		// Haggling Section
+		containerEl.createEl('h3', { text: 'Haggling' });
+		containerEl.createEl('p', {
+			text: 'Players roll Persuasion or Deception against the shopkeeper DC (haggle_dc in the shop note). The margin (roll minus DC) picks a row from the table below.',
+			cls: 'setting-item-description'
+		});
+
+		// Default DC Setting
+		new Setting(containerEl)
+			.setName('Default Shopkeeper DC')
+			.setDesc('DC used when a shop note has no haggle_dc')
+			.addText(text => text
+				.setPlaceholder('15')
+				.setValue(String(this.plugin.settings.defaultHaggleDC))
+				.onChange(async (value) => {
+					const dc = parseInt(value);
+					if (isNaN(dc)) return;
+
+					this.plugin.settings.defaultHaggleDC = dc;
+					await this.plugin.saveSettings();
+				}));
+
+		// DC Increase Setting
+		new Setting(containerEl)
+			.setName('DC Increase per Attempt')
+			.setDesc('Each repeated attempt on the same item raises the DC by this much (resets with a new session)')
+			.addText(text => text
+				.setPlaceholder('2')
+				.setValue(String(this.plugin.settings.haggleDCIncrease))
+				.onChange(async (value) => {
+					const increase = parseInt(value);
+					if (isNaN(increase) || increase < 0) return;
+
+					this.plugin.settings.haggleDCIncrease = increase;
+					await this.plugin.saveSettings();
+				}));
+
+		// Refusal Duration Setting
+		new Setting(containerEl)
+			.setName('Refusal Duration (minutes)')
+			.setDesc('How long an offended shopkeeper refuses to trade')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.haggleRefusalMinutes))
+				.onChange(async (value) => {
+					const minutes = parseInt(value);
+					if (isNaN(minutes) || minutes < 0) return;
+
+					this.plugin.settings.haggleRefusalMinutes = minutes;
+					await this.plugin.saveSettings();
+				}));
+
+		// Haggle table
+		containerEl.createEl('h4', { text: 'Outcome Table' });
+		containerEl.createEl('p', {
+			text: 'Each row applies when the margin is at least its minimum. Modifier is a price change in percent (negative is a discount). Rows marked Refuse make the shopkeeper stop trading.',
+			cls: 'setting-item-description'
+		});
+
+		const table = this.plugin.settings.haggleTable;
+		for (let i = 0; i < table.length; i++) {
+			const tier = table[i];
+			const tierSetting = new Setting(containerEl)
+				.setName(tier.label || `Row ${i + 1}`)
+				.setDesc(`Margin ≥ ${tier.minMargin}`);
+
+			// Minimum margin
+			tierSetting.addText(text => {
+				text
+					.setPlaceholder('Margin')
+					.setValue(String(tier.minMargin))
+					.onChange(async (value) => {
+						const margin = parseInt(value);
+						if (isNaN(margin)) return;
+
+						tier.minMargin = margin;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'number';
+				text.inputEl.title = 'Minimum margin';
+				text.inputEl.addClass('haggle-tier-number');
+				return text;
+			});
+
+			// Price modifier
+			tierSetting.addText(text => {
+				text
+					.setPlaceholder('Modifier %')
+					.setValue(String(tier.modifier))
+					.onChange(async (value) => {
+						const modifier = parseInt(value);
+						if (isNaN(modifier) || modifier < -100) return;
+
+						tier.modifier = modifier;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'number';
+				text.inputEl.title = 'Price modifier (%)';
+				text.inputEl.addClass('haggle-tier-number');
+				return text;
+			});
+
+			// Label
+			tierSetting.addText(text => text
+				.setPlaceholder('Label')
+				.setValue(tier.label)
+				.onChange(async (value) => {
+					tier.label = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+			// Refuse toggle
+			tierSetting.addToggle(toggle => toggle
+				.setTooltip('Shopkeeper refuses to trade')
+				.setValue(tier.refuse)
+				.onChange(async (value) => {
+					tier.refuse = value;
+					await this.plugin.saveSettings();
+				}));
+
+			// Delete button
+			tierSetting.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove row')
+				.onClick(async () => {
+					table.splice(i, 1);
+					await this.plugin.saveSettings();
+					this.display(); // Refresh display
+				}));
+		}
+
+		// Add Row button
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Row')
+				.setCta()
+				.onClick(async () => {
+					table.push({ minMargin: 0, modifier: 0, refuse: false, label: 'New outcome' });
+					await this.plugin.saveSettings();
+					this.display(); // Refresh display
+				}));
+
+		// Dynamic Pricing Section
+		containerEl.createEl('h3', { text: 'Dynamic Pricing' });
+		containerEl.createEl('p', {
+			text: 'Optional economy mode: prices rise as stock falls below its restock baseline (baseline_quantity, set on restock) and as items sell, and fall when the shop is overstocked or buys items back. Turn it on or off per shop with dynamic_pricing, and set dynamic_min/dynamic_max to change the bounds.',
+			cls: 'setting-item-description'
+		});
+
+		// Default Setting
+		new Setting(containerEl)
+			.setName('Enable by Default')
+			.setDesc('Use dynamic pricing for shops that don\'t set dynamic_pricing')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dynamicPricingDefault)
+				.onChange(async (value) => {
+					this.plugin.settings.dynamicPricingDefault = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Stock Weight Setting
+		new Setting(containerEl)
+			.setName('Stock Sensitivity')
+			.setDesc('Price change when an item is sold out (0.5 = +50%); overstock lowers prices by the same rate')
+			.addText(text => text
+				.setPlaceholder('0.5')
+				.setValue(String(this.plugin.settings.dynamicStockWeight))
+				.onChange(async (value) => {
+					const weight = parseFloat(value);
+					if (isNaN(weight) || weight < 0) return;
+
+					this.plugin.settings.dynamicStockWeight = weight;
+					await this.plugin.saveSettings();
+				}));
+
+		// Sales Weight Setting
+		new Setting(containerEl)
+			.setName('Demand Sensitivity')
+			.setDesc('Price change when recent net sales equal the baseline stock (0.3 = +30%)')
+			.addText(text => text
+				.setPlaceholder('0.3')
+				.setValue(String(this.plugin.settings.dynamicSalesWeight))
+				.onChange(async (value) => {
+					const weight = parseFloat(value);
+					if (isNaN(weight) || weight < 0) return;
+
+					this.plugin.settings.dynamicSalesWeight = weight;
+					await this.plugin.saveSettings();
+				}));
+
+		// Sales Window Setting
+		new Setting(containerEl)
+			.setName('Sales Window (hours)')
+			.setDesc('How far back sales in the ledger count as recent demand')
+			.addText(text => text
+				.setPlaceholder('72')
+				.setValue(String(this.plugin.settings.dynamicSalesWindowHours))
+				.onChange(async (value) => {
+					const hours = parseFloat(value);
+					if (isNaN(hours) || hours < 0) return;
+
+					this.plugin.settings.dynamicSalesWindowHours = hours;
+					await this.plugin.saveSettings();
+				}));
+
+		// Bounds Setting
+		new Setting(containerEl)
+			.setName('Multiplier Bounds')
+			.setDesc('Lowest and highest price multiplier (e.g., 0.75 and 1.5)')
+			.addText(text => text
+				.setPlaceholder('0.75')
+				.setValue(String(this.plugin.settings.dynamicMinMultiplier))
+				.onChange(async (value) => {
+					const min = parseFloat(value);
+					if (isNaN(min) || min <= 0 || min > this.plugin.settings.dynamicMaxMultiplier) return;
+
+					this.plugin.settings.dynamicMinMultiplier = min;
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('1.5')
+				.setValue(String(this.plugin.settings.dynamicMaxMultiplier))
+				.onChange(async (value) => {
+					const max = parseFloat(value);
+					if (isNaN(max) || max < this.plugin.settings.dynamicMinMultiplier) return;
+
+					this.plugin.settings.dynamicMaxMultiplier = max;
+					await this.plugin.saveSettings();
+				}));
+
+		// Campaign Calendar Section
+		containerEl.createEl('h3', { text: 'Campaign Calendar' });
+		containerEl.createEl('p', {
+			text: 'Shops with restock_every (in-game days) and restock_intensity restock automatically when you run "Advance time by N days".',
+			cls: 'setting-item-description'
+		});
+
+		// Current Day Setting
+		new Setting(containerEl)
+			.setName('Current Day')
+			.setDesc('In-game day of the campaign. Changing it here does not trigger restocks.')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.campaignDay))
+				.onChange(async (value) => {
+					const day = parseInt(value);
+					if (isNaN(day) || day < 0) return;
+
+					this.plugin.settings.campaignDay = day;
+					await this.plugin.saveSettings();
+					this.app.workspace.trigger('shopboard:calendar-updated');
+				}));
+
+		// Loot Section
+		containerEl.createEl('h3', { text: 'Loot' });
+		containerEl.createEl('p', {
+			text: 'Generated loot saved with "Save as Note" becomes a type: loot note that can be displayed again later.',
+			cls: 'setting-item-description'
+		});
+
+		// Loot Folder Setting
+		new Setting(containerEl)
+			.setName('Loot Folder')
+			.setDesc('Folder for saved loot notes (leave empty for the vault root)')
+			.addText(text => text
+				.setPlaceholder('Loot')
+				.setValue(this.plugin.settings.lootFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.lootFolder = value.trim().replace(/\/+$/, '');
+					await this.plugin.saveSettings();
+				}));
+
+		// Treasure Table Folder Setting
+		new Setting(containerEl)
+			.setName('Treasure Table Folder')
+			.setDesc('Folder with custom treasure tables (type: treasure-tables notes or .yaml files) and salvage tables (type: salvage-table notes). Leave empty for the whole vault.')
+			.addText(text => text
+				.setPlaceholder('Treasure Tables')
+				.setValue(this.plugin.settings.treasureTableFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.treasureTableFolder = value.trim().replace(/\/+$/, '');
+					await this.plugin.saveSettings();
+				}));
+
+		// Treasure Table Set Setting
+		new Setting(containerEl)
+			.setName('Treasure Tables')
+			.setDesc('Table set used by the loot generator. Sections a custom set leaves out use the built-in tables.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Built-in (DMG)');
+				for (const set of this.plugin.treasureTableSets) {
+					dropdown.addOption(set.path!, set.name);
+				}
+
+				// A selected set that no longer exists shows as built-in
+				const selected = this.plugin.settings.treasureTableSet;
+				dropdown
+					.setValue(this.plugin.treasureTableSets.some(set => set.path === selected) ? selected : '')
+					.onChange(async (value) => {
+						this.plugin.settings.treasureTableSet = value;
+						await this.plugin.saveSettings();
+						await this.plugin.loadTreasureTables();
+					});
+			})
+			.addExtraButton(button => button
+				.setIcon('refresh-cw')
+				.setTooltip('Reload treasure and salvage tables')
+				.onClick(async () => {
+					await this.plugin.loadTreasureTables();
+					this.display();
+				}));
+
+		// Track Identification Setting
+		new Setting(containerEl)
+			.setName('Track Identification')
+			.setDesc('Generated magic items may be unidentified. Players see a generic name and description until the DM identifies them.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trackIdentification)
+				.onChange(async (value) => {
+					this.plugin.settings.trackIdentification = value;
+					await this.plugin.saveSettings();
+				}));
+
 		// Shop Types Section
 		containerEl.createEl('h3', { text: 'Shop Types & Item Filtering' });
 		containerEl.createEl('p', {
@@ -2,7 +2,7 @@
  * Core type definitions for Shopboard plugin
  */
 
-import { TFile } from 'obsidian';
+import { EventRef, TFile } from 'obsidian';
 
 /**
  * Item data structure representing an item note
@@ -24,6 +24,8 @@ export interface ItemData {
 	imageUrl?: string;
 	/** List of shop types where this item is always available (e.g., ["alchemist", "general_store"]) */
 	stapleForShops?: string[];
+	/** Weight of one item in pounds (undefined when the note doesn't list it) */
+	weight?: number;
 	/** Additional metadata from frontmatter */
 	metadata: Record<string, any>;
 }
@@ -42,6 +44,75 @@ export interface ShopInventoryItem {
 	priceOverride: number | null;
 	/** Final calculated price after modifiers */
 	calculatedPrice: number;
+	/** Bulk discount rules for this item (its own rules plus matching shop-wide rules) */
+	bulkRules?: BulkRule[];
+	/** Stock level the item is restocked to (baseline_quantity, used by dynamic pricing) */
+	baselineQuantity?: number | null;
+	/** Price before supply-and-demand drift (only set when dynamic pricing applies) */
+	staticPrice?: number;
+	/** Supply-and-demand multiplier applied to staticPrice (only set when dynamic pricing applies) */
+	priceMultiplier?: number;
+	/** Modifiers applied to the base price, outermost first (empty when price_override is set) */
+	priceSteps?: PriceStep[];
+}
+
+/**
+ * One percentage modifier in the chain that produces an item's price
+ */
+export interface PriceStep {
+	/** Where the modifier comes from (e.g., "Neverwinter", "Neverwinter: weapon", "Shop") */
+	label: string;
+	/** Percentage modifier (e.g., 30 for +30%) */
+	modifier: number;
+}
+
+/**
+ * Settlement or region note data (type: settlement / type: region)
+ */
+export interface SettlementData {
+	/** File path of the settlement note */
+	path: string;
+	/** Display name of the settlement */
+	name: string;
+	/** Price modifier percentage applied to every shop in the settlement */
+	priceModifier: number;
+	/** Extra percentage modifiers keyed by lowercase item_type/equipment_type */
+	itemTypeModifiers: Record<string, number>;
+	/** Wikilink to the enclosing region (region frontmatter), if any */
+	parentRef: string | null;
+}
+
+/**
+ * Bulk discount rule from a shop note
+ * Either a percentage discount (`discount`) or an "X for Y" deal (`payFor`)
+ */
+export interface BulkRule {
+	/** Minimum quantity in one transaction for the rule to apply (X in "X for Y") */
+	minQuantity: number;
+	/** Percentage discount on the whole line (e.g., 15 for 15% off) */
+	discount?: number;
+	/** Number of items paid for in each group of minQuantity (Y in "X for Y") */
+	payFor?: number;
+	/** item_type/equipment_type the rule applies to (shop-wide rules only) */
+	itemType?: string;
+}
+
+/**
+ * Price of a transaction line after bulk discounts
+ */
+export interface LineTotal {
+	/** Unit price before bulk discounts in base currency */
+	unitPrice: number;
+	/** Quantity on the line */
+	quantity: number;
+	/** Undiscounted total (unitPrice × quantity) in base currency */
+	subtotal: number;
+	/** Total after the best applicable bulk rule in base currency */
+	total: number;
+	/** Bulk rule that was applied (null if none) */
+	rule: BulkRule | null;
+	/** Short description of the applied rule (e.g., "10+ -15%", "3 for 2") */
+	label: string | null;
 }
 
 /**
@@ -66,10 +137,48 @@ export interface ShopData {
 	showDescriptions?: boolean;
 	/** Current page for paginated display (defaults to 1) */
 	currentPage?: number;
+	/** Let players build a cart on the shop display (cart_mode frontmatter, defaults to false) */
+	cartMode?: boolean;
+	/** Shop-wide bulk discount rules (bulk_rules frontmatter) */
+	bulkRules?: BulkRule[];
+	/** Supply-and-demand pricing bounds (null when dynamic pricing is off for this shop) */
+	dynamicPricing?: DynamicPricingBounds | null;
+	/** Settlement and enclosing regions the shop belongs to, outermost first */
+	regions?: SettlementData[];
+	/** Shopkeeper NPC from the `shopkeeper` frontmatter block (null if none) */
+	shopkeeper?: ShopkeeperData | null;
 	/** Additional metadata from frontmatter */
 	metadata: Record<string, any>;
 }
 
+/**
+ * Shopkeeper NPC profile shown on the player display
+ */
+export interface ShopkeeperData {
+	/** Shopkeeper name */
+	name: string;
+	/** Race or ancestry (null if not given) */
+	race: string | null;
+	/** Portrait image path or URL (null if none) */
+	portrait: string | null;
+	/** Lines the shopkeeper greets customers with */
+	greetings: string[];
+	/** Attitude toward customers (e.g., friendly, gruff) */
+	disposition: string | null;
+	/** Haggle DC for this shopkeeper (null to use the shop's haggle_dc or the default) */
+	haggleDC: number | null;
+}
+
+/**
+ * Per-shop bounds for supply-and-demand pricing
+ */
+export interface DynamicPricingBounds {
+	/** Lowest allowed price multiplier (e.g., 0.75) */
+	min: number;
+	/** Highest allowed price multiplier (e.g., 1.5) */
+	max: number;
+}
+
 /**
  * Item cache for fast lookups
  */
@@ -142,16 +251,70 @@ export interface ShopboardSettings {
 	themeOverride: boolean;
 	/** Enable auto-refresh on shop note changes */
 	autoRefresh: boolean;
+	/** Backend used to create item images */
+	imageProvider: ImageProviderType;
 	/** OpenAI API key for image generation */
 	openaiApiKey: string;
+	/** Base URL of a local AUTOMATIC1111-compatible image API */
+	localImageEndpoint: string;
+	/** Folder with stock images picked by item type and rarity */
+	imageTemplateFolder: string;
 	/** Image generation style */
 	imageStyle: ImageStyle;
+	/** Default prompt template for generated item images */
+	imagePromptTemplate: string;
+	/** Prompt templates for specific item types and shop themes */
+	imagePromptOverrides: ImagePromptOverride[];
+	/** Number of generated images kept in each item's image_history */
+	imageHistoryLimit: number;
+	/** Maximum images generated per queue run (0 for no limit) */
+	imageQueueLimit: number;
+	/** Batch image generation queue, kept across plugin reloads */
+	imageQueue: ImageQueueEntry[];
 	/** Attachment folder name for generated images */
 	attachmentFolder: string;
 	/** Default number of columns for shops that haven't specified */
 	defaultColumns: number;
 	/** Default number of rows for shops that haven't specified */
 	defaultRows: number;
+	/** Vault path of the JSON file storing the transaction ledger */
+	ledgerPath: string;
+	/** Identifier of the current ledger session */
+	ledgerSession: string;
+	/** Vault path of the party note whose wallet is debited/credited (empty for none) */
+	activePartyPath: string;
+	/** What to do when the party can't afford a sale: refuse it or warn and continue */
+	insufficientFundsMode: 'refuse' | 'warn';
+	/** Haggle outcome table (checked from highest minMargin down) */
+	haggleTable: HaggleTier[];
+	/** Shopkeeper DC used when a shop note has no haggle_dc */
+	defaultHaggleDC: number;
+	/** DC increase for each earlier haggle attempt on the same item this session */
+	haggleDCIncrease: number;
+	/** Minutes a shopkeeper refuses to trade after a refusal result */
+	haggleRefusalMinutes: number;
+	/** Use supply-and-demand pricing for shops that don't set dynamic_pricing */
+	dynamicPricingDefault: boolean;
+	/** Price change at zero stock relative to baseline (e.g., 0.5 for +50% when sold out) */
+	dynamicStockWeight: number;
+	/** Price change when net recent sales equal the baseline (e.g., 0.3 for +30%) */
+	dynamicSalesWeight: number;
+	/** How far back sales count towards demand, in hours */
+	dynamicSalesWindowHours: number;
+	/** Default lowest price multiplier (dynamic_min overrides per shop) */
+	dynamicMinMultiplier: number;
+	/** Default highest price multiplier (dynamic_max overrides per shop) */
+	dynamicMaxMultiplier: number;
+	/** Current in-game day of the campaign calendar (starts at 1) */
+	campaignDay: number;
+	/** Folder for saved loot notes ('' for the vault root) */
+	lootFolder: string;
+	/** Folder with treasure and salvage table notes ('' for the whole vault) */
+	treasureTableFolder: string;
+	/** Path of the treasure table set used for loot generation ('' for the built-in tables) */
+	treasureTableSet: string;
+	/** Roll whether generated magic items are identified */
+	trackIdentification: boolean;
 	/** Settings version for migration */
 	version: string;
 }
@@ -193,6 +356,104 @@ export type RarityLevel = 'common' | 'uncommon' | 'rare' | 'very rare' | 'legend
  */
 export type ImageStyle = 'realistic' | 'fantasy-painting' | 'digital-art' | 'isometric' | 'sketch';
 
+/**
+ * Image generation backends
+ * - openai: DALL-E 3 through the OpenAI API
+ * - local: a local AUTOMATIC1111-compatible txt2img endpoint
+ * - template-folder: stock images from a vault folder, picked by item type and rarity
+ */
+export type ImageProviderType = 'openai' | 'local' | 'template-folder';
+
+/**
+ * Item details passed to an image provider
+ */
+export interface ImageRequest {
+	/** Item name */
+	name: string;
+	/** Item description ('' if none) */
+	description: string;
+	/** Item rarity (lowercase) */
+	rarity: string;
+	/** Item type from item_type or equipment_type (lowercase, null if none) */
+	itemType: string | null;
+	/** Prompt built from the item and the image style */
+	prompt: string;
+}
+
+/**
+ * Image returned by a provider: new image data to save, or an existing vault image to link
+ */
+export type ProvidedImage =
+	| { kind: 'data'; data: ArrayBuffer }
+	| { kind: 'vault'; path: string };
+
+/**
+ * Backend that creates an image for an item
+ */
+export interface ImageProvider {
+	/** Display name used in notices */
+	readonly name: string;
+	/** Check whether the provider has everything it needs */
+	isConfigured(): boolean;
+	/** Message shown when the provider isn't configured */
+	getSetupHint(): string;
+	/** Create an image for an item (throws with a readable message on failure) */
+	generate(request: ImageRequest): Promise<ProvidedImage>;
+}
+
+/**
+ * Prompt template used instead of the default for one item type or shop theme
+ */
+export interface ImagePromptOverride {
+	/** Whether the template applies to an item type or a shop theme */
+	kind: 'item-type' | 'shop-theme';
+	/** item_type/equipment_type or shop theme to match (case-insensitive) */
+	match: string;
+	/** Prompt template with {{placeholders}} */
+	template: string;
+}
+
+/**
+ * Status of an item in the image generation queue
+ */
+export type ImageQueueStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/**
+ * Item waiting for (or finished with) batch image generation
+ */
+export interface ImageQueueEntry {
+	/** Item note file path */
+	path: string;
+	/** Item name shown in the queue */
+	name: string;
+	/** Queue status */
+	status: ImageQueueStatus;
+	/** Generation attempts made in the current or last run */
+	attempts: number;
+	/** Last error message (null if none) */
+	error: string | null;
+	/** Saved image path once done (null until then) */
+	imagePath: string | null;
+	/** Theme of the shop the item was queued from (picks prompt overrides) */
+	shopTheme?: string | null;
+}
+
+/**
+ * Outcome of an image queue run
+ */
+export interface ImageQueueRunResult {
+	/** Images generated in the run */
+	generated: number;
+	/** Items that failed after every retry */
+	failed: number;
+	/** Items still pending when the run stopped */
+	remaining: number;
+	/** Whether the run stopped at the per-run image limit */
+	limitReached: boolean;
+	/** Whether the run was cancelled */
+	cancelled: boolean;
+}
+
 /**
  * Shop size presets
  */
@@ -289,6 +550,46 @@ export interface RestockResult {
 	reducedCount: number;
 }
 
+/**
+ * Restock schedule declared in a shop note
+ */
+export interface RestockSchedule {
+	/** Restock cadence in in-game days (restock_every) */
+	every: number;
+	/** Restock intensity (restock_intensity, defaults to medium) */
+	intensity: RestockIntensity;
+	/** Campaign day of the last scheduled restock (last_restock_day, the current day if never) */
+	lastDay: number;
+}
+
+/**
+ * What a scheduled restock changed in one shop
+ */
+export interface ScheduledRestockReport {
+	/** File path of the shop note */
+	shopPath: string;
+	/** Display name of the shop */
+	shopName: string;
+	/** Restock result (null if the restock failed) */
+	result: RestockResult | null;
+	/** Per-item quantity changes (0 before = new item, 0 after = gone) */
+	changes: Array<{ itemRef: string; before: number; after: number }>;
+	/** Error message if the restock failed */
+	error?: string;
+}
+
+/**
+ * Result of advancing the campaign calendar
+ */
+export interface TimeAdvanceReport {
+	/** Campaign day before advancing */
+	fromDay: number;
+	/** Campaign day after advancing */
+	toDay: number;
+	/** Shops that were due for a restock */
+	shops: ScheduledRestockReport[];
+}
+
 /**
  * Loot type for treasure generation
  */
@@ -324,6 +625,57 @@ export type ArtValue = 25 | 250 | 750 | 2500 | 7500;
  */
 export type MagicItemTable = 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I';
 
+/**
+ * Dice roll for one coin denomination (e.g., 4d6 × 100)
+ */
+export interface CoinRoll {
+	dice: string;
+	multiplier: number;
+}
+
+/**
+ * Coin rolls for every denomination
+ */
+export interface CoinTable {
+	cp: CoinRoll;
+	sp: CoinRoll;
+	ep: CoinRoll;
+	gp: CoinRoll;
+	pp: CoinRoll;
+}
+
+/**
+ * Hoard treasure for one CR tier
+ * Gem, art and magic item entries are checked in order against a d100 roll
+ * (cumulative chance)
+ */
+export interface HoardTable {
+	coins: CoinTable;
+	gems: { chance: number; dice: string; value: GemValue }[];
+	art: { chance: number; dice: string; value: ArtValue }[];
+	magicItems: { chance: number; rolls: string; table: MagicItemTable }[];
+}
+
+/**
+ * A complete set of treasure tables used by the loot generator
+ */
+export interface TreasureTableSet {
+	/** Display name of the set */
+	name: string;
+	/** Path to the table note (null for the built-in tables) */
+	path: string | null;
+	/** Individual treasure (coins only) by CR tier */
+	individual: Record<CRTier, CoinTable>;
+	/** Hoard treasure by CR tier */
+	hoard: Record<CRTier, HoardTable>;
+	/** Gem descriptions by value */
+	gemDescriptions: Record<GemValue, string[]>;
+	/** Art object descriptions by value */
+	artDescriptions: Record<ArtValue, string[]>;
+	/** Container descriptions by container type */
+	containerDescriptions: Record<string, string[]>;
+}
+
 /**
  * Parameters for generating loot
  */
@@ -360,7 +712,7 @@ export interface LootGenerationParams {
 	enableSalvage: boolean;
 	/** Track which magic items are identified */
 	trackIdentification: boolean;
-	/** Monster type for salvage flavor (if enableSalvage) */
+	/** Salvage table key - monster type or monster note name (if enableSalvage) */
 	monsterType: string;
 	/** Include encumbrance notes */
 	includeEncumbrance: boolean;
@@ -386,6 +738,8 @@ export interface Gem {
 	description: string;
 	/** Quantity */
 	quantity: number;
+	/** True once sold to a shop */
+	sold?: boolean;
 }
 
 /**
@@ -412,6 +766,10 @@ export interface MagicItemLoot {
 	identified: boolean;
 	/** Table rolled on */
 	table: MagicItemTable;
+	/** d100 result on the table (null when nothing was on the table and any item was picked) */
+	roll: number | null;
+	/** True once sold to a shop */
+	sold?: boolean;
 }
 
 /**
@@ -424,6 +782,8 @@ export interface EquipmentLoot {
 	itemData: ItemData | null;
 	/** Quantity */
 	quantity: number;
+	/** True once sold to a shop */
+	sold?: boolean;
 }
 
 /**
@@ -440,6 +800,73 @@ export interface SalvageMaterial {
 	craftingTags: string[];
 	/** Difficulty to harvest (DC) */
 	harvestDC: number;
+	/** Units harvested */
+	quantity: number;
+	/** Result of the last harvest attempt (absent until someone tries) */
+	harvest?: SalvageHarvest;
+}
+
+/**
+ * Outcome of a harvest check against a material's harvest DC
+ * Meeting the DC harvests the material; missing it by 5 or more ruins it;
+ * a smaller miss leaves it intact for another attempt
+ */
+export type HarvestOutcome = 'harvested' | 'failed' | 'ruined';
+
+/**
+ * Recorded harvest attempt on a salvage material
+ */
+export interface SalvageHarvest {
+	/** Outcome of the check */
+	outcome: HarvestOutcome;
+	/** Check result entered by the DM */
+	check: number;
+	/** Name of the character who made the attempt (null if not recorded) */
+	character: string | null;
+}
+
+/**
+ * Harvest check entered in the harvest modal
+ */
+export interface HarvestAttempt {
+	/** Index of the material in GeneratedLoot.salvage */
+	index: number;
+	/** Check result */
+	check: number;
+	/** Path of the attempting character's note (null if not chosen) */
+	characterPath: string | null;
+}
+
+/**
+ * Material entry of a salvage table
+ */
+export interface SalvageTableEntry {
+	/** Material name */
+	name: string;
+	/** Material description */
+	description: string;
+	/** Value per unit in gp */
+	value: number;
+	/** Crafting tags/uses */
+	craftingTags: string[];
+	/** Difficulty to harvest (DC) */
+	harvestDC: number;
+	/** Dice rolled for the units harvested (e.g., "1d4") */
+	yield: string;
+}
+
+/**
+ * Salvage table for a monster type, or for a single monster note
+ */
+export interface SalvageTable {
+	/** Lowercase key used for LootGenerationParams.monsterType (e.g., "beast", "owlbear") */
+	monsterType: string;
+	/** Display label */
+	label: string;
+	/** Path to the salvage table or monster note (null for built-in tables) */
+	path: string | null;
+	/** Materials the table can yield */
+	materials: SalvageTableEntry[];
 }
 
 /**
@@ -481,3 +908,506 @@ export interface GeneratedLoot {
 		seed: string;
 	};
 }
+
+/**
+ * Kind of entry in a loot distribution
+ */
+export type LootShareKind = 'coins' | 'gem' | 'art' | 'magic-item';
+
+/**
+ * One assignable entry of a hoard (a coin pile or a single gem, art object or magic item)
+ */
+export interface LootShare {
+	/** Stable identifier from category, list index and unit (e.g., "gem-0-2") */
+	id: string;
+	/** Entry kind */
+	kind: LootShareKind;
+	/** Display name */
+	name: string;
+	/** Wikilink reference for magic items, null otherwise */
+	itemRef: string | null;
+	/** Value in gold pieces */
+	value: number;
+}
+
+/**
+ * A line of generated loot offered to a shop
+ */
+export interface LootSaleLine {
+	/** Wikilink reference added to the shop inventory (gems use their plain description) */
+	itemRef: string;
+	/** Display name */
+	name: string;
+	/** Loot category the line comes from */
+	kind: 'magic-item' | 'equipment' | 'gem';
+	/** Index of the entry in its loot list */
+	index: number;
+	/** Quantity offered */
+	quantity: number;
+	/** Price the shop pays per unit, in base currency */
+	unitPrice: number;
+	/** Price override for the new inventory entry (gems have no item note), null otherwise */
+	priceOverride: number | null;
+}
+
+/**
+ * What one recipient receives from a loot distribution
+ */
+export interface LootRecipientSummary {
+	/** Recipient key (member wikilink, or "stash" for the party stash) */
+	recipient: string;
+	/** Display name */
+	name: string;
+	/** Coins received in gold pieces */
+	gold: number;
+	/** Gems, art objects and magic items received */
+	items: LootShare[];
+	/** Total value received in gold pieces */
+	totalValue: number;
+}
+
+/**
+ * Direction of a recorded transaction
+ * - sell: shop sold items to the party
+ * - buy: shop bought items from the party
+ * - restock: new stock arrived at the shop
+ */
+export type TransactionDirection = 'sell' | 'buy' | 'restock';
+
+/**
+ * A single entry in the transaction ledger
+ */
+export interface LedgerEntry {
+	/** Unique entry identifier */
+	id: string;
+	/** Timestamp of the transaction (ms since epoch) */
+	timestamp: number;
+	/** Ledger session the transaction belongs to */
+	session: string;
+	/** File path of the shop note */
+	shopPath: string;
+	/** Display name of the shop at the time of the transaction */
+	shopName: string;
+	/** Wikilink reference to item (e.g., "[[Potion of Healing]]") */
+	itemRef: string;
+	/** Quantity transferred */
+	quantity: number;
+	/** Unit price after modifiers in base currency */
+	unitPrice: number;
+	/** Line total when bulk discounts made it differ from unitPrice × quantity */
+	total?: number;
+	/** Transaction direction */
+	direction: TransactionDirection;
+	/** Optional name of the buyer/seller */
+	buyer?: string;
+	/** Haggle outcome applied to this sale, if any */
+	haggle?: HaggleOutcome;
+}
+
+/**
+ * Aggregated transaction totals
+ */
+export interface LedgerTotals {
+	/** Total value of items sold to the party in base currency */
+	sold: number;
+	/** Total value of items bought from the party in base currency */
+	bought: number;
+	/** Total value of restocked items in base currency */
+	restocked: number;
+	/** Number of transactions */
+	count: number;
+}
+
+/**
+ * Raw snapshot of a shop note's inventory and display settings
+ * Values are copied exactly as stored in frontmatter (undefined when absent)
+ */
+export interface ShopSnapshot {
+	/** Raw inventory array from frontmatter */
+	inventory: any[] | undefined;
+	/** Display settings from frontmatter */
+	display: {
+		price_modifier: any;
+		columns: any;
+		rows: any;
+		show_descriptions: any;
+		current_page: any;
+	};
+	/** Campaign day of the last scheduled restock from frontmatter */
+	lastRestockDay: any;
+}
+
+/**
+ * Party note data (type: party)
+ */
+export interface PartyData {
+	/** File path of the party note */
+	path: string;
+	/** Display name of the party */
+	name: string;
+	/** Wikilinks to member character notes */
+	members: string[];
+	/** Coin purse keyed by denomination name (e.g., { gp: 120, sp: 5 }) */
+	purse: Record<string, number>;
+	/** Items in the party stash */
+	inventory: CharacterData['inventory'];
+}
+
+/**
+ * Player character note data (type: character)
+ */
+export interface CharacterData {
+	/** File path of the character note */
+	path: string;
+	/** Character name */
+	name: string;
+	/** Gold on hand in display currency (null when the note doesn't track gold) */
+	gold: number | null;
+	/** Carried items */
+	inventory: Array<{
+		/** Wikilink reference to item (e.g., "[[Potion of Healing]]") */
+		itemRef: string;
+		/** Quantity carried */
+		quantity: number;
+		/** False for items that haven't been identified yet */
+		identified: boolean;
+	}>;
+	/** Tool proficiencies (null when the note doesn't track them) */
+	toolProficiencies: string[] | null;
+	/** Strength score used for carrying capacity (null when the note doesn't track it) */
+	strength: number | null;
+}
+
+/**
+ * Change to a character note made by an inventory edit
+ * Only the difference is kept, so undo leaves later changes to the note alone
+ */
+export interface CharacterChange {
+	/** File path of the character note */
+	characterPath: string;
+	/** Gold added in display currency (negative when spent) */
+	goldDelta: number;
+	/** Inventory lines added (positive quantity) or removed (negative quantity) */
+	items: CharacterItemChange[];
+}
+
+/**
+ * Change to a single inventory line of a character note
+ */
+export interface CharacterItemChange {
+	/** Wikilink reference to the item */
+	itemRef: string;
+	/** Quantity added (negative when removed) */
+	quantity: number;
+	/** False for the unidentified copies of the item */
+	identified: boolean;
+}
+
+/**
+ * Change to a party purse made by an inventory edit
+ */
+export interface WalletChange {
+	/** File path of the party note */
+	partyPath: string;
+	/** Amount added to the purse in base currency (negative for a debit) */
+	amount: number;
+}
+
+/**
+ * Payment details for a purchase made from a party wallet
+ */
+export interface PurchasePayment {
+	/** Party note whose purse is debited */
+	partyFile: TFile;
+	/** Total price in base currency */
+	amount: number;
+	/** Record the sale even if the party can't cover the full amount */
+	allowShortfall?: boolean;
+}
+
+/**
+ * A single undoable inventory edit
+ */
+export interface InventoryHistoryEntry {
+	/** Short description of the edit (e.g., "Sell 2x Longsword") */
+	label: string;
+	/** Shop state before the edit (null when the edit didn't touch a shop) */
+	before: ShopSnapshot | null;
+	/** Shop state after the edit (null when the edit didn't touch a shop) */
+	after: ShopSnapshot | null;
+	/** Ledger entries recorded by the edit (removed on undo, restored on redo) */
+	ledgerEntries: LedgerEntry[];
+	/** Party purse change made by the edit, if any */
+	walletChange?: WalletChange;
+	/** Character note changes made by the edit */
+	characterChanges: CharacterChange[];
+	/** Haggle deals used up by the edit (restored on undo) */
+	consumedDeals: ConsumedDeal[];
+	/** Loot entries the edit marked sold, if it was a loot sale (cleared on undo) */
+	lootSale?: LootSaleChange;
+}
+
+/**
+ * Loot entries marked sold by a loot sale
+ */
+export interface LootSaleChange {
+	/** Loot the entries were sold from (the hoard shown on the loot display) */
+	loot: GeneratedLoot;
+	/** File path of the loot note the loot is saved in (null for unsaved loot) */
+	lootPath: string | null;
+	/** Sold entries by loot category and index */
+	entries: Array<{ kind: LootSaleLine['kind']; index: number }>;
+}
+
+/**
+ * Haggle deal used up by a sale
+ */
+export interface ConsumedDeal {
+	/** Wikilink reference to the item the deal was for */
+	itemRef: string;
+	/** The deal as it was before the sale */
+	deal: HaggleOutcome;
+}
+
+/**
+ * A single line in a player cart or order
+ */
+export interface CartLine {
+	/** Wikilink reference to item (e.g., "[[Potion of Healing]]") */
+	itemRef: string;
+	/** Quantity requested */
+	quantity: number;
+	/** Unit price after modifiers in base currency at the time of ordering */
+	unitPrice: number;
+	/** Line total after bulk discounts (defaults to unitPrice × quantity) */
+	total?: number;
+}
+
+/**
+ * Order placed from a player cart, awaiting DM approval
+ */
+export interface PendingOrder {
+	/** Unique order identifier */
+	id: string;
+	/** File path of the shop note */
+	shopPath: string;
+	/** Display name of the shop */
+	shopName: string;
+	/** Ordered items */
+	lines: CartLine[];
+	/** Total price in base currency */
+	total: number;
+	/** Timestamp the order was placed (ms since epoch) */
+	createdAt: number;
+	/** Order status */
+	status: 'pending' | 'approved' | 'rejected';
+}
+
+/**
+ * Skill used to haggle
+ */
+export type HaggleSkill = 'persuasion' | 'deception';
+
+/**
+ * A row in the haggle outcome table
+ */
+export interface HaggleTier {
+	/** Minimum amount the roll must beat the DC by (negative = failed by at most this much) */
+	minMargin: number;
+	/** Price adjustment percentage (e.g., -10 for 10% off, +10 for 10% markup) */
+	modifier: number;
+	/** Shopkeeper refuses to trade for a while instead of adjusting the price */
+	refuse: boolean;
+	/** Short description of the outcome (e.g., "Good bargain") */
+	label: string;
+}
+
+/**
+ * Result of a haggle attempt
+ */
+export interface HaggleOutcome {
+	/** Skill used */
+	skill: HaggleSkill;
+	/** Total check result entered by the DM */
+	roll: number;
+	/** DC the roll was made against (after diminishing returns) */
+	dc: number;
+	/** Price adjustment percentage for the next sale of the item */
+	modifier: number;
+	/** Shopkeeper refused to trade */
+	refused: boolean;
+	/** Outcome description from the haggle table */
+	label: string;
+	/** Attempt number for this item this session (1 = first) */
+	attempt: number;
+}
+
+/**
+ * Material requirement of a recipe, matched by material name or crafting tag
+ */
+export interface RecipeRequirement {
+	/** Material name (null when any material with the tag will do) */
+	name: string | null;
+	/** Crafting tag (used when name is null) */
+	tag: string | null;
+	/** Units needed */
+	quantity: number;
+}
+
+/**
+ * Crafting recipe note data (type: recipe)
+ */
+export interface RecipeData {
+	/** File path of the recipe note */
+	path: string;
+	/** Recipe name */
+	name: string;
+	/** Wikilink to the crafted item note (e.g., "[[Hide Armor]]") */
+	outputRef: string;
+	/** Number of items crafted */
+	outputQuantity: number;
+	/** Materials consumed */
+	requirements: RecipeRequirement[];
+	/** Gold cost in gp */
+	goldCost: number;
+	/** Tool proficiency needed (null if none) */
+	tool: string | null;
+	/** Days of work */
+	craftingDays: number;
+}
+
+/**
+ * Material carried by a character, as seen by the crafting system
+ */
+export interface CraftingMaterial {
+	/** File path of the carrying character's note */
+	characterPath: string;
+	/** Wikilink reference from the character's inventory */
+	itemRef: string;
+	/** Material name */
+	name: string;
+	/** Quantity carried */
+	quantity: number;
+	/** Crafting tags from the item note or salvage tables */
+	tags: string[];
+}
+
+/**
+ * Who is crafting - a single character, or a party pooling its members' materials
+ */
+export interface Crafter {
+	/** Crafter kind */
+	kind: 'character' | 'party';
+	/** File path of the character or party note */
+	path: string;
+	/** Display name */
+	name: string;
+	/** Characters whose materials and tool proficiencies count */
+	characters: CharacterData[];
+	/** Party paying the gold cost (null for a character, who pays from their own gold) */
+	party: PartyData | null;
+}
+
+/**
+ * Where a crafted item goes
+ */
+export interface CraftingDestination {
+	/** Destination kind */
+	kind: 'character' | 'shop';
+	/** File path of the character or shop note */
+	path: string;
+}
+
+/**
+ * Result of checking a recipe against a crafter's materials, gold and tools
+ */
+export interface CraftingCheck {
+	/** Recipe checked */
+	recipe: RecipeData;
+	/** Materials, gold and tools are all available */
+	craftable: boolean;
+	/** Materials that would be consumed */
+	consumed: Array<{ characterPath: string; itemRef: string; quantity: number }>;
+	/** What is missing (e.g., "2x leather", "50 gp", "Leatherworker's tools") */
+	missing: string[];
+}
+
+/**
+ * Unidentified magic item held in loot or an inventory
+ */
+export interface UnidentifiedItem {
+	/** Wikilink reference to item (e.g., "[[Ring of Protection]]") */
+	itemRef: string;
+	/** Resolved item data (null if item not found) */
+	itemData: ItemData | null;
+	/** Quantity held */
+	quantity: number;
+	/** Index in GeneratedLoot.magicItems (null for inventories) */
+	lootIndex: number | null;
+}
+
+/**
+ * Loot, character or party holding unidentified items
+ */
+export interface IdentificationHolder {
+	/** Where the items are held */
+	kind: 'loot' | 'character' | 'party';
+	/** Loot, character or party note path (null for unsaved loot) */
+	path: string | null;
+	/** Display name */
+	name: string;
+	/** Unidentified items held */
+	items: UnidentifiedItem[];
+}
+
+/**
+ * Carried weight of a character or party
+ */
+export interface Encumbrance {
+	/** Character or party name */
+	name: string;
+	/** Carried weight in pounds */
+	load: number;
+	/** Carrying capacity in pounds (null when no strength score is known) */
+	capacity: number | null;
+}
+
+/**
+ * Carried weight of a party and each of its members
+ */
+export interface PartyEncumbrance extends Encumbrance {
+	/** Weight carried by each member */
+	members: Encumbrance[];
+	/** Weight of the party stash and purse, carried by the party as a whole */
+	stash: number;
+}
+
+/**
+ * Custom workspace events the plugin's views use to talk to each other
+ */
+declare module 'obsidian' {
+	interface Workspace {
+		/** Show an item's details on the player display */
+		on(name: 'shopboard:show-item-detail', callback: (itemData: ItemData) => any, ctx?: any): EventRef;
+		/** DM panel asks the player display to change its layout or page */
+		on(name: 'shopboard:set-columns', callback: (columns: number) => any, ctx?: any): EventRef;
+		on(name: 'shopboard:set-rows', callback: (rows: number) => any, ctx?: any): EventRef;
+		on(name: 'shopboard:set-show-descriptions', callback: (show: boolean) => any, ctx?: any): EventRef;
+		on(name: 'shopboard:change-page', callback: (page: number) => any, ctx?: any): EventRef;
+		/** Player display reports layout changes back to the DM panel */
+		on(name: 'shopboard:columns-changed', callback: (columns: number) => any, ctx?: any): EventRef;
+		on(name: 'shopboard:rows-changed', callback: (rows: number) => any, ctx?: any): EventRef;
+		on(name: 'shopboard:show-descriptions-changed', callback: (show: boolean) => any, ctx?: any): EventRef;
+		/** Shared state changed */
+		on(name: 'shopboard:orders-updated', callback: () => any, ctx?: any): EventRef;
+		on(name: 'shopboard:ledger-updated', callback: () => any, ctx?: any): EventRef;
+		on(name: 'shopboard:calendar-updated', callback: () => any, ctx?: any): EventRef;
+		on(name: 'shopboard:image-queue-updated', callback: () => any, ctx?: any): EventRef;
+		on(name: 'shopboard:loot-updated', callback: (loot: GeneratedLoot) => any, ctx?: any): EventRef;
+		/** An item or settlement note was saved */
+		on(name: 'shopboard:item-modified', callback: (itemPath: string) => any, ctx?: any): EventRef;
+		on(name: 'shopboard:settlement-modified', callback: (settlementPath: string) => any, ctx?: any): EventRef;
+		/** DM panel puts a shopkeeper line on the player display */
+		on(name: 'shopboard:shopkeeper-say', callback: (shopPath: string, line: string) => any, ctx?: any): EventRef;
+	}
+}
@@ -0,0 +1,163 @@
+import { CharacterData, Encumbrance, GeneratedLoot, ItemData, PartyData, PartyEncumbrance } from '../types';
+import { ItemParser } from '../parsers/itemParser';
+
+/**
+ * Coins of any denomination that weigh one pound (PHB)
+ */
+export const COINS_PER_POUND = 50;
+
+/**
+ * Carrying capacity in pounds per point of Strength (PHB)
+ */
+export const CAPACITY_PER_STRENGTH = 15;
+
+/**
+ * Weights in pounds used when an item note has no `weight`
+ */
+const DEFAULT_ITEM_WEIGHT = 1;
+const DEFAULT_EQUIPMENT_WEIGHT = 5;
+const GEM_WEIGHT = 1 / COINS_PER_POUND;
+const ART_OBJECT_WEIGHT = 2;
+const MUNDANE_ITEM_WEIGHT = 0.5;
+const SALVAGE_WEIGHT = 1;
+
+/**
+ * Encumbrance Calculator - Weighs loot and inventories against carrying capacity
+ * Item weights come from the item note's `weight`; everything else uses standard estimates
+ */
+export class EncumbranceCalculator {
+	private itemParser: ItemParser;
+
+	constructor(itemParser: ItemParser) {
+		this.itemParser = itemParser;
+	}
+
+	/**
+	 * Get the weight of one item
+	 * @param itemData Resolved item data (null if the item note is missing)
+	 */
+	getItemWeight(itemData: ItemData | null): number {
+		if (itemData?.weight !== undefined) {
+			return itemData.weight;
+		}
+
+		return itemData?.metadata?.type === 'equipment' ? DEFAULT_EQUIPMENT_WEIGHT : DEFAULT_ITEM_WEIGHT;
+	}
+
+	/**
+	 * Get the weight of a number of coins
+	 * @param coins Number of coins
+	 */
+	getCoinWeight(coins: number): number {
+		return Math.max(0, coins) / COINS_PER_POUND;
+	}
+
+	/**
+	 * Get the total weight of a loot hoard in pounds
+	 * Coins are weighed as gold pieces
+	 * @param loot Generated loot
+	 */
+	getLootWeight(
+		loot: Pick<GeneratedLoot, 'coins' | 'gems' | 'artObjects' | 'magicItems' | 'equipment' | 'mundaneItems' | 'salvage'>
+	): number {
+		let weight = this.getCoinWeight(loot.coins.gold);
+
+		loot.gems.forEach(gem => {
+			weight += gem.quantity * GEM_WEIGHT;
+		});
+
+		weight += loot.artObjects.length * ART_OBJECT_WEIGHT;
+
+		loot.magicItems.forEach(item => {
+			weight += item.quantity * this.getItemWeight(item.itemData);
+		});
+
+		loot.equipment.forEach(item => {
+			weight += item.quantity * this.getItemWeight(item.itemData);
+		});
+
+		loot.mundaneItems.forEach(item => {
+			weight += item.quantity * MUNDANE_ITEM_WEIGHT;
+		});
+
+		loot.salvage.forEach(material => {
+			weight += material.quantity * SALVAGE_WEIGHT;
+		});
+
+		return this.round(weight);
+	}
+
+	/**
+	 * Get the weight of an inventory list
+	 * Entries without an item note (such as harvested materials) weigh the default
+	 * @param inventory Character inventory, party stash or items about to be added
+	 */
+	getInventoryWeight(inventory: Array<{ itemRef: string; quantity: number }>): number {
+		let weight = 0;
+
+		for (const entry of inventory) {
+			const name = entry.itemRef.replace(/^\[\[|\]\]$/g, '').split('|')[0].split('/').pop()!.trim();
+			weight += entry.quantity * this.getItemWeight(this.itemParser.getItemByName(name));
+		}
+
+		return this.round(weight);
+	}
+
+	/**
+	 * Get what a character carries against their carrying capacity
+	 * The `gold` field is weighed as coins of the display currency
+	 * @param character Parsed character
+	 * @param extraWeight Weight about to be added (e.g., a purchase)
+	 */
+	getCharacterEncumbrance(character: CharacterData, extraWeight: number = 0): Encumbrance {
+		const coins = character.gold !== null ? this.getCoinWeight(character.gold) : 0;
+
+		return {
+			name: character.name,
+			load: this.round(this.getInventoryWeight(character.inventory) + coins + extraWeight),
+			capacity: character.strength !== null ? character.strength * CAPACITY_PER_STRENGTH : null
+		};
+	}
+
+	/**
+	 * Get what a party carries against the combined capacity of its members
+	 * The stash and purse count toward the party total but not toward any one member
+	 * @param party Parsed party
+	 * @param memberCharacters Parsed character notes of the party members
+	 * @param extraWeight Weight about to be added (e.g., a hoard)
+	 */
+	getPartyEncumbrance(party: PartyData, memberCharacters: CharacterData[], extraWeight: number = 0): PartyEncumbrance {
+		const members = memberCharacters.map(character => this.getCharacterEncumbrance(character));
+
+		const purse = Object.values(party.purse).reduce((sum, count) => sum + count, 0);
+		const stash = this.round(this.getInventoryWeight(party.inventory) + this.getCoinWeight(purse));
+
+		// Capacity is only known when every member has a strength score
+		const capacity = members.length > 0 && members.every(member => member.capacity !== null)
+			? members.reduce((sum, member) => sum + member.capacity!, 0)
+			: null;
+
+		return {
+			name: party.name,
+			load: this.round(members.reduce((sum, member) => sum + member.load, 0) + stash + extraWeight),
+			capacity,
+			members,
+			stash
+		};
+	}
+
+	/**
+	 * Check whether a load is more than can be carried
+	 * @param encumbrance Character or party encumbrance
+	 */
+	isOverCapacity(encumbrance: Encumbrance): boolean {
+		return encumbrance.capacity !== null && encumbrance.load > encumbrance.capacity;
+	}
+
+	/**
+	 * Round a weight to one decimal place
+	 */
+	private round(weight: number): number {
+		return Math.round(weight * 10) / 10;
+	}
+}
@@ -0,0 +1,106 @@
+import { HarvestAttempt, HarvestOutcome, SalvageMaterial } from '../types';
+
+/**
+ * Checks that miss the harvest DC by at least this much ruin the material
+ */
+export const RUIN_MARGIN = 5;
+
+/**
+ * Harvest Resolver - Resolves harvest checks against salvage harvest DCs
+ */
+export class HarvestResolver {
+	/**
+	 * Get the outcome of a harvest check
+	 * @param harvestDC Material's harvest DC
+	 * @param check Check result
+	 */
+	getOutcome(harvestDC: number, check: number): HarvestOutcome {
+		if (check >= harvestDC) return 'harvested';
+		if (harvestDC - check >= RUIN_MARGIN) return 'ruined';
+		return 'failed';
+	}
+
+	/**
+	 * Apply harvest checks to a salvage list
+	 * Materials already harvested or ruined can't be attempted again
+	 * @param salvage Salvage materials of the loot
+	 * @param attempts Checks entered by the DM
+	 * @param characterNames Character names keyed by note path
+	 * @returns New salvage list with the harvest results recorded
+	 */
+	apply(
+		salvage: SalvageMaterial[],
+		attempts: HarvestAttempt[],
+		characterNames: Record<string, string>
+	): SalvageMaterial[] {
+		const result = salvage.map(material => ({ ...material }));
+
+		for (const attempt of attempts) {
+			const material = result[attempt.index];
+			if (!material || !this.canAttempt(material)) continue;
+
+			material.harvest = {
+				outcome: this.getOutcome(material.harvestDC, attempt.check),
+				check: attempt.check,
+				character: attempt.characterPath ? characterNames[attempt.characterPath] || null : null
+			};
+		}
+
+		return result;
+	}
+
+	/**
+	 * Check whether a material can still be harvested
+	 * @param material Salvage material
+	 */
+	canAttempt(material: SalvageMaterial): boolean {
+		return !material.harvest || material.harvest.outcome === 'failed';
+	}
+
+	/**
+	 * Get the materials that were harvested
+	 * @param salvage Salvage materials
+	 */
+	getHarvested(salvage: SalvageMaterial[]): SalvageMaterial[] {
+		return salvage.filter(material => material.harvest?.outcome === 'harvested');
+	}
+
+	/**
+	 * Get the total value of the harvested materials in gp
+	 * @param salvage Salvage materials
+	 */
+	getHarvestedValue(salvage: SalvageMaterial[]): number {
+		return this.getHarvested(salvage).reduce((sum, material) => sum + material.value * material.quantity, 0);
+	}
+
+	/**
+	 * Render the harvest results as markdown
+	 * @param salvage Salvage materials
+	 */
+	formatSummary(salvage: SalvageMaterial[]): string {
+		const attempted = salvage.filter(material => material.harvest);
+		if (attempted.length === 0) {
+			return 'Nothing has been harvested yet.\n\n';
+		}
+
+		let content = '';
+
+		for (const material of attempted) {
+			const harvest = material.harvest!;
+			const by = harvest.character ? ` by ${harvest.character}` : '';
+			const check = `${harvest.check} vs DC ${material.harvestDC}`;
+
+			if (harvest.outcome === 'harvested') {
+				content += `- ✔ ${material.quantity}x ${material.name} (${material.value * material.quantity} gp) - harvested${by} (${check})\n`;
+			} else if (harvest.outcome === 'ruined') {
+				content += `- ✖ ${material.name} - ruined${by} (${check})\n`;
+			} else {
+				content += `- … ${material.name} - failed${by} (${check}), can be tried again\n`;
+			}
+		}
+
+		content += `\n**Harvested value:** ${this.getHarvestedValue(salvage)} gp\n\n`;
+
+		return content;
+	}
+}
@@ -1,149 +1,124 @@
-import { App, Notice, TFile, normalizePath, requestUrl } from 'obsidian';
-import OpenAI from 'openai';
-import { ImageStyle } from '../types';
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { ImagePromptOverride, ImageProvider, ImageRequest, ImageStyle, ShopboardSettings } from '../types';
+import { DEFAULT_IMAGE_PROMPT_TEMPLATE } from '../settings';
+import { ImageHistory } from './imageHistory';
+import { LocalImageProvider, OpenAIImageProvider, TemplateFolderImageProvider } from './imageProviders';
 
 /**
- * Service for generating item images using OpenAI DALL-E
+ * Prompt wording per rarity - colors match UI border colors for consistency
+ */
+const RARITY_PROMPTS: Record<string, string> = {
+	'artifact': 'Mythical artifact of ultimate power with overwhelming magical presence in crimson-red energy (#f44336), intense red magical auras and flames, scarlet and ruby divine energy radiating from the item, red arcane lightning and particles, godlike legendary materials with blood-red shimmer, ancient divine runes glowing red, radiating immense power with red and crimson tones.',
+	'legendary': 'Legendary artifact with intense magical auras in golden-orange hues (#ff9800), dramatic orange and gold energy emanating from the item, golden-orange floating magical particles, warm ethereal glows, pristine legendary materials like mithril or adamantine, intricate divine engravings with orange shimmer, radiating overwhelming magical power in orange and gold tones.',
+	'very rare': 'Very rare magical item with strong arcane effects in purple and magenta colors (#9c27b0), vibrant purple magical glows, violet and magenta enchantment runes, high-quality exotic materials with purple shimmer, intricate craftsmanship with purple magical details, clearly powerful with purple arcane energy.',
+	'rare': 'Rare enchanted item with moderate blue magical glow (#2196f3), blue arcane shimmer and aura, fine craftsmanship with quality materials, visible blue enchantment runes or magical sheen, well-made with clear blue magical effects.',
+	'uncommon': 'Uncommon item with light magical properties in green tones (#4caf50), subtle green magical hint or faint green glow, good quality materials and solid craftsmanship, light green enchanted shimmer, practical with minor green magical touch.',
+	'common': 'Common mundane item with simple practical design, gray or silver mundane materials (#9e9e9e), basic functional craftsmanship, no magical effects or glows, clean utilitarian appearance, ordinary non-magical item.'
+};
+
+/**
+ * Prompt wording per image style
+ */
+const STYLE_PROMPTS: Record<ImageStyle, string> = {
+	realistic: 'Photorealistic product photography style, professional studio lighting with soft shadows, clean white background, item centered and isolated, sharp focus on every detail, highly detailed realistic textures and materials, museum-quality presentation.',
+	'fantasy-painting': 'Classic fantasy art oil painting style, rich vibrant colors, painterly brushstrokes with visible texture, dramatic cinematic lighting, clean white or neutral background, item centered as the focal point, epic fantasy illustration quality, traditional fantasy art.',
+	'digital-art': 'Clean modern digital illustration, video game asset style, vibrant saturated colors, crisp clean lines, white background, item perfectly centered and isolated, professional game-ready quality, polished digital painting.',
+	isometric: 'Isometric video game asset, precise isometric perspective (30° angle), pixel-perfect design, clean geometric lines, white background, item centered in frame, retro game style, clear readable silhouette.',
+	sketch: 'Hand-drawn traditional sketch, detailed pencil and ink line work, crosshatching and shading, white paper background, item centered as main subject, traditional illustration style, monochrome or subtle color wash, artistic hand-drawn quality.'
+};
+
+/**
+ * Service for generating item images
+ * The backend (OpenAI, a local Stable Diffusion server or a template folder)
+ * is chosen by the `imageProvider` setting
  */
 export class ImageGenerator {
 	private app: App;
-	private apiKey: string;
-	private imageStyle: ImageStyle;
-	private attachmentFolder: string;
-	private openai: OpenAI | null = null;
+	private settings: ShopboardSettings;
+	private imageHistory: ImageHistory;
+	private provider: ImageProvider | null = null;
+	private providerKey: string = '';
 
-	constructor(app: App, apiKey: string, imageStyle: ImageStyle, attachmentFolder: string) {
+	constructor(app: App, settings: ShopboardSettings, imageHistory: ImageHistory) {
 		this.app = app;
-		this.apiKey = apiKey;
-		this.imageStyle = imageStyle;
-		this.attachmentFolder = attachmentFolder;
-
-		if (apiKey && apiKey.length > 0) {
-			this.openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
-		}
+		this.settings = settings;
+		this.imageHistory = imageHistory;
 	}
 
 	/**
-	 * Update the API key
+	 * Get the provider for the current settings
+	 * The provider is rebuilt whenever its settings change
 	 */
-	updateApiKey(apiKey: string): void {
-		this.apiKey = apiKey;
-
-		if (apiKey && apiKey.length > 0) {
-			this.openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
-		} else {
-			this.openai = null;
+	getProvider(): ImageProvider {
+		const key = [
+			this.settings.imageProvider,
+			this.settings.openaiApiKey,
+			this.settings.localImageEndpoint,
+			this.settings.imageTemplateFolder
+		].join('|');
+
+		if (!this.provider || key !== this.providerKey) {
+			switch (this.settings.imageProvider) {
+				case 'local':
+					this.provider = new LocalImageProvider(this.settings.localImageEndpoint);
+					break;
+				case 'template-folder':
+					this.provider = new TemplateFolderImageProvider(this.app, this.settings.imageTemplateFolder);
+					break;
+				case 'openai':
+				default:
+					this.provider = new OpenAIImageProvider(this.settings.openaiApiKey);
+					break;
+			}
+			this.providerKey = key;
 		}
-	}
 
-	/**
-	 * Update the image style
-	 */
-	updateImageStyle(imageStyle: ImageStyle): void {
-		this.imageStyle = imageStyle;
+		return this.provider;
 	}
 
 	/**
-	 * Update the attachment folder
+	 * Check if the image generator is configured
 	 */
-	updateAttachmentFolder(attachmentFolder: string): void {
-		this.attachmentFolder = attachmentFolder;
+	isConfigured(): boolean {
+		return this.getProvider().isConfigured();
 	}
 
 	/**
-	 * Check if the image generator is configured
+	 * Get the message explaining how to configure the current provider
 	 */
-	isConfigured(): boolean {
-		return this.openai !== null;
+	getSetupHint(): string {
+		return this.getProvider().getSetupHint();
 	}
 
 	/**
 	 * Generate an image for an item and save it to the vault
+	 * Shows notices for progress and errors
 	 * @param itemFile - The item file to generate an image for
+	 * @param shopTheme - Theme of the shop the item is generated for (picks prompt overrides)
 	 * @returns The relative path to the generated image, or null if failed
 	 */
-	async generateImageForItem(itemFile: TFile): Promise<string | null> {
-		if (!this.openai) {
-			new Notice('OpenAI API key not configured. Please add your API key in settings.');
+	async generateImageForItem(itemFile: TFile, shopTheme: string | null = null): Promise<string | null> {
+		const provider = this.getProvider();
+		if (!provider.isConfigured()) {
+			new Notice(provider.getSetupHint());
 			return null;
 		}
 
-		try {
-			// Get item metadata
-			const metadata = this.app.metadataCache.getFileCache(itemFile);
-			if (!metadata?.frontmatter) {
-				new Notice('Unable to read item metadata');
-				return null;
-			}
-
-			const fm = metadata.frontmatter;
-			const itemName = fm.name || itemFile.basename;
-			const description = fm.description || '';
-			const rarity = fm.rarity || 'common';
-
-			// Capture existing image URL (if any) to delete it later after successful generation
-			const oldImageUrl = fm.image_url || fm.imageUrl;
-
-			// Generate prompt for DALL-E
-			const prompt = this.buildPrompt(itemName, description, rarity);
-
-			new Notice(`Generating image for "${itemName}"...`);
-
-			// Call DALL-E API
-			const response = await this.openai.images.generate({
-				model: 'dall-e-3',
-				prompt: prompt,
-				n: 1,
-				size: '1024x1024',
-				quality: 'standard',
-				response_format: 'url'
-			});
-
-			const imageUrl = response.data[0]?.url;
-			if (!imageUrl) {
-				new Notice('Failed to generate image: No URL returned');
-				return null;
-			}
-
-			// Download the image
-			const imageData = await this.downloadImage(imageUrl);
-			if (!imageData) {
-				new Notice('Failed to download generated image');
-				return null;
-			}
-
-			// Save the image to attachment folder
-			const imagePath = await this.saveImage(itemFile, imageData, itemName);
-			if (!imagePath) {
-				new Notice('Failed to save image to vault');
-				return null;
-			}
+		const name = this.app.metadataCache.getFileCache(itemFile)?.frontmatter?.name || itemFile.basename;
 
-			// Delete old image if it exists and is different from the new one
-			if (oldImageUrl && oldImageUrl !== imagePath) {
-				await this.deleteOldImage(oldImageUrl);
-			}
+		try {
+			new Notice(`Generating image for "${name}" with ${provider.name}...`);
 
-			// Update item frontmatter
-			await this.updateItemFrontmatter(itemFile, imagePath);
+			const imagePath = await this.createImage(itemFile, shopTheme);
 
-			new Notice(`Image generated successfully for "${itemName}"`);
+			new Notice(`Image generated successfully for "${name}"`);
 			return imagePath;
 
 		} catch (error) {
 			console.error('Error generating image:', error);
 
-			// Provide more specific error messages
 			if (error instanceof Error) {
-				if (error.message.includes('API key')) {
-					new Notice('Invalid OpenAI API key. Please check your settings.');
-				} else if (error.message.includes('rate_limit')) {
-					new Notice('OpenAI rate limit exceeded. Please try again later.');
-				} else if (error.message.includes('billing')) {
-					new Notice('OpenAI billing issue. Please check your account.');
-				} else {
-					new Notice(`Failed to generate image: ${error.message}`);
-				}
+				new Notice(`Failed to generate image: ${error.message}`);
 			} else {
 				new Notice('Failed to generate image. Check console for details.');
 			}
@@ -153,87 +128,179 @@ export class ImageGenerator {
 	}
 
 	/**
-	 * Build a DALL-E prompt from item properties
+	 * Generate an image for an item, save it and link it from the item note
+	 * Used directly by the batch queue, which reports progress itself
+	 * @param itemFile - The item file to generate an image for
+	 * @param shopTheme - Theme of the shop the item is generated for (picks prompt overrides)
+	 * @returns The vault path of the image
+	 * @throws Error with a readable message if any step fails
 	 */
-	private buildPrompt(name: string, description: string, rarity: string): string {
-		// Base prompt for D&D item style
-		let prompt = `A fantasy RPG item illustration of ${name}. `;
+	async createImage(itemFile: TFile, shopTheme: string | null = null): Promise<string> {
+		const provider = this.getProvider();
+		if (!provider.isConfigured()) {
+			throw new Error(provider.getSetupHint());
+		}
+
+		// Get item metadata
+		const metadata = this.app.metadataCache.getFileCache(itemFile);
+		if (!metadata?.frontmatter) {
+			throw new Error('Unable to read item metadata');
+		}
+
+		const request = this.buildRequest(metadata.frontmatter, itemFile.basename, shopTheme);
+
+		const image = await provider.generate(request);
 
-		// Add description if available
-		if (description && description.length > 0) {
-			prompt += `${description}. `;
+		// Save new image data to the attachment folder; vault images are linked as they are
+		let imagePath: string;
+		if (image.kind === 'data') {
+			const savedPath = await this.saveImage(itemFile, image.data, request.name);
+			if (!savedPath) {
+				throw new Error('Failed to save image to vault');
+			}
+			imagePath = savedPath;
+		} else {
+			imagePath = image.path;
 		}
 
-		// Add rarity-based visual styling - colors match UI border colors for consistency
-		switch (rarity.toLowerCase()) {
-			case 'artifact':
-				prompt += 'Mythical artifact of ultimate power with overwhelming magical presence in crimson-red energy (#f44336), intense red magical auras and flames, scarlet and ruby divine energy radiating from the item, red arcane lightning and particles, godlike legendary materials with blood-red shimmer, ancient divine runes glowing red, radiating immense power with red and crimson tones. ';
-				break;
-			case 'legendary':
-				prompt += 'Legendary artifact with intense magical auras in golden-orange hues (#ff9800), dramatic orange and gold energy emanating from the item, golden-orange floating magical particles, warm ethereal glows, pristine legendary materials like mithril or adamantine, intricate divine engravings with orange shimmer, radiating overwhelming magical power in orange and gold tones. ';
-				break;
-			case 'very rare':
-				prompt += 'Very rare magical item with strong arcane effects in purple and magenta colors (#9c27b0), vibrant purple magical glows, violet and magenta enchantment runes, high-quality exotic materials with purple shimmer, intricate craftsmanship with purple magical details, clearly powerful with purple arcane energy. ';
-				break;
-			case 'rare':
-				prompt += 'Rare enchanted item with moderate blue magical glow (#2196f3), blue arcane shimmer and aura, fine craftsmanship with quality materials, visible blue enchantment runes or magical sheen, well-made with clear blue magical effects. ';
-				break;
-			case 'uncommon':
-				prompt += 'Uncommon item with light magical properties in green tones (#4caf50), subtle green magical hint or faint green glow, good quality materials and solid craftsmanship, light green enchanted shimmer, practical with minor green magical touch. ';
-				break;
-			case 'common':
-			default:
-				prompt += 'Common mundane item with simple practical design, gray or silver mundane materials (#9e9e9e), basic functional craftsmanship, no magical effects or glows, clean utilitarian appearance, ordinary non-magical item. ';
-				break;
+		// Update item frontmatter; the previous image stays in the item's image history
+		await this.updateItemFrontmatter(itemFile, imagePath);
+
+		return imagePath;
+	}
+
+	/**
+	 * Build the provider request for an item from its frontmatter
+	 * @param frontmatter Item note frontmatter
+	 * @param fallbackName Name used when the note has no `name` (usually the file basename)
+	 * @param shopTheme Theme of the shop the item is generated for (null if none)
+	 */
+	buildRequest(frontmatter: Record<string, any>, fallbackName: string, shopTheme: string | null = null): ImageRequest {
+		return {
+			name: frontmatter.name || fallbackName,
+			description: frontmatter.description || '',
+			rarity: String(frontmatter.rarity || 'common').toLowerCase(),
+			itemType: this.getItemType(frontmatter),
+			prompt: this.buildPrompt(frontmatter, fallbackName, shopTheme)
+		};
+	}
+
+	/**
+	 * Build an image prompt from an item's frontmatter
+	 * Shared by every provider that generates images from text
+	 * @param frontmatter Item note frontmatter
+	 * @param fallbackName Name used when the note has no `name`
+	 * @param shopTheme Theme of the shop the item is generated for (null if none)
+	 */
+	buildPrompt(frontmatter: Record<string, any>, fallbackName: string, shopTheme: string | null = null): string {
+		const itemType = this.getItemType(frontmatter);
+		const template = this.getPromptTemplate(itemType, shopTheme).template;
+		return this.expandTemplate(template, frontmatter, fallbackName, shopTheme);
+	}
+
+	/**
+	 * Get the prompt template for an item
+	 * An item type override wins over a shop theme override, which wins over the default
+	 * @param itemType Item type (lowercase, null if none)
+	 * @param shopTheme Shop theme (null if none)
+	 * @returns Template and a label saying where it came from
+	 */
+	getPromptTemplate(itemType: string | null, shopTheme: string | null): { template: string; source: string } {
+		const overrides = this.settings.imagePromptOverrides.filter(override => override.template.trim());
+		const find = (kind: ImagePromptOverride['kind'], value: string | null) => value
+			? overrides.find(override => override.kind === kind && override.match.trim().toLowerCase() === value.toLowerCase())
+			: undefined;
+
+		const byType = find('item-type', itemType);
+		if (byType) {
+			return { template: byType.template, source: `item type "${byType.match.trim()}"` };
 		}
 
-		// Add style-specific guidelines with improved composition and clarity
-		switch (this.imageStyle) {
-			case 'realistic':
-				prompt += 'Photorealistic product photography style, professional studio lighting with soft shadows, clean white background, item centered and isolated, sharp focus on every detail, highly detailed realistic textures and materials, museum-quality presentation. ';
-				break;
-			case 'fantasy-painting':
-				prompt += 'Classic fantasy art oil painting style, rich vibrant colors, painterly brushstrokes with visible texture, dramatic cinematic lighting, clean white or neutral background, item centered as the focal point, epic fantasy illustration quality, traditional fantasy art. ';
-				break;
-			case 'digital-art':
-				prompt += 'Clean modern digital illustration, video game asset style, vibrant saturated colors, crisp clean lines, white background, item perfectly centered and isolated, professional game-ready quality, polished digital painting. ';
-				break;
-			case 'isometric':
-				prompt += 'Isometric video game asset, precise isometric perspective (30° angle), pixel-perfect design, clean geometric lines, white background, item centered in frame, retro game style, clear readable silhouette. ';
-				break;
-			case 'sketch':
-				prompt += 'Hand-drawn traditional sketch, detailed pencil and ink line work, crosshatching and shading, white paper background, item centered as main subject, traditional illustration style, monochrome or subtle color wash, artistic hand-drawn quality. ';
-				break;
+		const byTheme = find('shop-theme', shopTheme);
+		if (byTheme) {
+			return { template: byTheme.template, source: `shop theme "${byTheme.match.trim()}"` };
 		}
 
-		// Universal composition and quality guidelines
-		prompt += 'Single item centered in frame, isolated object on clean background, professional quality, highly detailed. ';
+		return { template: this.settings.imagePromptTemplate || DEFAULT_IMAGE_PROMPT_TEMPLATE, source: 'default template' };
+	}
 
-		// CRITICAL: Strong anti-text instructions (DALL-E often generates text unless explicitly prevented)
-		prompt += 'IMPORTANT: No text, no labels, no words, no letters, no names, no titles, no UI elements, no writing of any kind on or near the item.';
+	/**
+	 * Expand the prompt of an item without generating anything
+	 * @param itemFile Item note
+	 * @param shopTheme Theme of the shop the item is generated for (null if none)
+	 * @returns Prompt and template source, or null if the note has no frontmatter
+	 */
+	previewPrompt(itemFile: TFile, shopTheme: string | null = null): { prompt: string; source: string } | null {
+		const frontmatter = this.app.metadataCache.getFileCache(itemFile)?.frontmatter;
+		if (!frontmatter) {
+			return null;
+		}
 
-		return prompt;
+		return {
+			prompt: this.buildPrompt(frontmatter, itemFile.basename, shopTheme),
+			source: this.getPromptTemplate(this.getItemType(frontmatter), shopTheme).source
+		};
 	}
 
 	/**
-	 * Download an image from a URL using Obsidian's requestUrl to bypass CORS
+	 * Replace the {{placeholders}} of a prompt template
+	 * Placeholders are item frontmatter fields (`{{rarity}}`, `{{metadata.damage}}`)
+	 * plus `{{item_type}}`, `{{rarity_style}}`, `{{image_style}}` and `{{shop_theme}}`.
+	 * Unknown or empty fields expand to nothing.
 	 */
-	private async downloadImage(url: string): Promise<ArrayBuffer | null> {
-		try {
-			const response = await requestUrl({
-				url: url,
-				method: 'GET'
-			});
+	private expandTemplate(template: string, frontmatter: Record<string, any>, fallbackName: string, shopTheme: string | null): string {
+		const rarity = String(frontmatter.rarity || 'common').toLowerCase();
+		const fields: Record<string, unknown> = {
+			name: frontmatter.name || fallbackName,
+			description: frontmatter.description || '',
+			rarity,
+			item_type: this.getItemType(frontmatter) || '',
+			rarity_style: RARITY_PROMPTS[rarity] || RARITY_PROMPTS['common'],
+			image_style: STYLE_PROMPTS[this.settings.imageStyle] || '',
+			shop_theme: shopTheme || ''
+		};
+
+		const prompt = template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_match, key: string) => {
+			if (key in fields) {
+				return this.formatValue(fields[key]);
+			}
 
-			if (response.status !== 200) {
-				throw new Error(`HTTP error! status: ${response.status}`);
+			// metadata.* reads nested frontmatter; other keys read top-level fields
+			const path = key.startsWith('metadata.') ? key.slice('metadata.'.length).split('.') : [key];
+			let value: unknown = frontmatter;
+			for (const part of path) {
+				value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
 			}
+			return this.formatValue(value);
+		});
 
-			return response.arrayBuffer;
-		} catch (error) {
-			console.error('Error downloading image:', error);
-			return null;
+		// Tidy up after empty placeholders (e.g., "Sword. . Rare" -> "Sword. Rare")
+		return prompt
+			.replace(/[ \t]+\./g, '.')
+			.replace(/([^.])\.\.(?!\.)/g, '$1.')
+			.replace(/\s+/g, ' ')
+			.trim();
+	}
+
+	/**
+	 * Format a frontmatter value for a prompt
+	 */
+	private formatValue(value: unknown): string {
+		if (Array.isArray(value)) {
+			return value.map(entry => this.formatValue(entry)).filter(Boolean).join(', ');
+		}
+		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			return String(value).trim();
 		}
+		return '';
+	}
+
+	/**
+	 * Get an item's type from item_type or equipment_type (lowercase, null if none)
+	 */
+	private getItemType(frontmatter: Record<string, any>): string | null {
+		const type = frontmatter.item_type || frontmatter.equipment_type;
+		return typeof type === 'string' && type.trim() ? type.trim().toLowerCase() : null;
 	}
 
 	/**
@@ -242,7 +309,7 @@ export class ImageGenerator {
 	private async saveImage(itemFile: TFile, imageData: ArrayBuffer, itemName: string): Promise<string | null> {
 		try {
 			// Create attachment folder path at vault root
-			const attachmentsDir = normalizePath(this.attachmentFolder);
+			const attachmentsDir = normalizePath(this.settings.attachmentFolder);
 
 			// Ensure attachment folder exists
 			if (!(await this.app.vault.adapter.exists(attachmentsDir))) {
@@ -255,7 +322,8 @@ export class ImageGenerator {
 				.replace(/[^a-z0-9]+/g, '-')
 				.replace(/^-+|-+$/g, '');
 
-			const imagePath = normalizePath(`${attachmentsDir}/${safeFileName}.png`);
+			// Every generation gets its own file so earlier images can be restored
+			const imagePath = normalizePath(`${attachmentsDir}/${safeFileName}-${Date.now().toString(36)}.png`);
 
 			// Save the image
 			await this.app.vault.adapter.writeBinary(imagePath, imageData);
@@ -269,14 +337,11 @@ export class ImageGenerator {
 	}
 
 	/**
-	 * Update item frontmatter with the image path
+	 * Update item frontmatter with the image path and add it to the image history
 	 */
 	private async updateItemFrontmatter(itemFile: TFile, imagePath: string): Promise<void> {
 		try {
-			// Use Obsidian's atomic frontmatter API (handles all line endings, preserves all fields)
-			await this.app.fileManager.processFrontMatter(itemFile, (frontmatter) => {
-				frontmatter.image_url = imagePath;
-			});
+			await this.imageHistory.record(itemFile, imagePath);
 
 			// Wait for Obsidian's metadata cache to update
 			await this.waitForMetadataUpdate(itemFile);
@@ -316,29 +381,4 @@ export class ImageGenerator {
 			this.app.metadataCache.on('changed', handler);
 		});
 	}
-
-	/**
-	 * Delete old image file from vault
-	 */
-	private async deleteOldImage(oldImagePath: string): Promise<void> {
-		try {
-			// Check if it's a vault path (not an external URL)
-			if (oldImagePath.startsWith('http://') || oldImagePath.startsWith('https://')) {
-				// External URL, don't try to delete
-				return;
-			}
-
-			// Normalize the path
-			const normalizedPath = normalizePath(oldImagePath);
-
-			// Check if file exists before trying to delete
-			if (await this.app.vault.adapter.exists(normalizedPath)) {
-				await this.app.vault.adapter.remove(normalizedPath);
-				console.log(`Deleted old image: ${normalizedPath}`);
-			}
-		} catch (error) {
-			// Log error but don't fail the operation
-			console.warn('Failed to delete old image:', error);
-		}
-	}
 }
@@ -0,0 +1,211 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ShopboardSettings } from '../types';
+
+/**
+ * Image file extensions considered by the unused image cleanup
+ */
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif'];
+
+/**
+ * Image History - Keeps the recent images of each item so a regeneration can be rolled back
+ * Images are listed newest first in the item's `image_history` frontmatter; the active one is
+ * `image_url`. Images that drop out of the history stay in the vault until they are cleaned up.
+ */
+export class ImageHistory {
+	private app: App;
+	private settings: ShopboardSettings;
+
+	constructor(app: App, settings: ShopboardSettings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	/**
+	 * Get the image history of an item, newest first
+	 * Items from before image history was kept list their current image only
+	 * @param itemFile Item note
+	 */
+	getHistory(itemFile: TFile): string[] {
+		const frontmatter = this.app.metadataCache.getFileCache(itemFile)?.frontmatter;
+		if (!frontmatter) return [];
+
+		return this.readHistory(frontmatter);
+	}
+
+	/**
+	 * Get the active image of an item
+	 * @param itemFile Item note
+	 * @returns Image path or URL, or null if the item has no image
+	 */
+	getActive(itemFile: TFile): string | null {
+		const frontmatter = this.app.metadataCache.getFileCache(itemFile)?.frontmatter;
+		const active = frontmatter?.image_url || frontmatter?.imageUrl;
+		return typeof active === 'string' && active ? active : null;
+	}
+
+	/**
+	 * Make a new image the active one and add it to the front of the history
+	 * The history is trimmed to the configured length; trimmed images are not deleted
+	 * @param itemFile Item note
+	 * @param imagePath Vault path of the new image
+	 */
+	async record(itemFile: TFile, imagePath: string): Promise<void> {
+		const limit = Math.max(1, this.settings.imageHistoryLimit);
+
+		await this.app.fileManager.processFrontMatter(itemFile, (frontmatter) => {
+			const history = this.readHistory(frontmatter).filter(path => path !== imagePath);
+			frontmatter.image_history = [imagePath, ...history].slice(0, limit);
+			frontmatter.image_url = imagePath;
+			delete frontmatter.imageUrl;
+		});
+	}
+
+	/**
+	 * Roll an item back (or forward) to an image from its history
+	 * @param itemFile Item note
+	 * @param imagePath Image from the history
+	 */
+	async setActive(itemFile: TFile, imagePath: string): Promise<void> {
+		await this.app.fileManager.processFrontMatter(itemFile, (frontmatter) => {
+			const history = this.readHistory(frontmatter);
+			if (!history.includes(imagePath)) {
+				throw new Error(`${imagePath} is not in the image history`);
+			}
+
+			frontmatter.image_history = history;
+			frontmatter.image_url = imagePath;
+			delete frontmatter.imageUrl;
+		});
+	}
+
+	/**
+	 * Take an image out of an item's history
+	 * The file stays in the vault until unused images are cleaned up
+	 * @param itemFile Item note
+	 * @param imagePath Image from the history (not the active one)
+	 */
+	async remove(itemFile: TFile, imagePath: string): Promise<void> {
+		await this.app.fileManager.processFrontMatter(itemFile, (frontmatter) => {
+			const active = frontmatter.image_url || frontmatter.imageUrl;
+			if (active === imagePath) {
+				throw new Error('The active image can\'t be removed from the history');
+			}
+
+			frontmatter.image_history = this.readHistory(frontmatter).filter(path => path !== imagePath);
+		});
+	}
+
+	/**
+	 * Find images in the attachment folder that no note uses
+	 * An image is used if any frontmatter value of a note points at it (image_url,
+	 * image_history, a shopkeeper portrait...), or if a note links to or embeds it.
+	 * Template folder images are never unused.
+	 */
+	findUnusedImages(): TFile[] {
+		const folder = normalizePath(this.settings.attachmentFolder);
+		const templateFolder = this.settings.imageTemplateFolder.trim() ? normalizePath(this.settings.imageTemplateFolder.trim()) : null;
+		const used = new Set<string>();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter) continue;
+
+			for (const value of this.collectStrings(frontmatter)) {
+				used.add(normalizePath(this.resolvePath(value, file.path)));
+			}
+		}
+
+		for (const links of Object.values(this.app.metadataCache.resolvedLinks)) {
+			Object.keys(links).forEach(path => used.add(path));
+		}
+
+		return this.app.vault.getFiles().filter(file =>
+			file.path.startsWith(`${folder}/`) &&
+			IMAGE_EXTENSIONS.includes(file.extension.toLowerCase()) &&
+			!(templateFolder && file.path.startsWith(`${templateFolder}/`)) &&
+			!used.has(file.path)
+		);
+	}
+
+	/**
+	 * Move images to the trash (following the vault's trash setting)
+	 * @param files Images to delete
+	 * @returns Number of images deleted
+	 */
+	async deleteImages(files: TFile[]): Promise<number> {
+		let deleted = 0;
+
+		for (const file of files) {
+			try {
+				await this.app.fileManager.trashFile(file);
+				deleted++;
+			} catch (error) {
+				console.warn(`Failed to delete image ${file.path}:`, error);
+			}
+		}
+
+		console.log(`Deleted ${deleted} unused image(s)`);
+		return deleted;
+	}
+
+	/**
+	 * Resolve an image path relative to the item note, like the shop display does
+	 * External URLs and vault-absolute paths are returned as-is
+	 * @param imageUrl Image path or URL from the frontmatter
+	 * @param itemPath Item note path
+	 */
+	resolvePath(imageUrl: string, itemPath: string): string {
+		if (/^https?:\/\//.test(imageUrl)) {
+			return imageUrl;
+		}
+
+		const itemDir = itemPath.includes('/') ? itemPath.substring(0, itemPath.lastIndexOf('/')) : '';
+
+		if (!imageUrl.startsWith('./') && !imageUrl.startsWith('../')) {
+			// A bare filename sits next to the item; anything with a folder is vault-absolute
+			return imageUrl.includes('/') || !itemDir ? imageUrl : `${itemDir}/${imageUrl}`;
+		}
+
+		const dirParts = itemDir ? itemDir.split('/') : [];
+		for (const part of imageUrl.split('/')) {
+			if (part === '..') {
+				dirParts.pop();
+			} else if (part !== '.') {
+				dirParts.push(part);
+			}
+		}
+
+		return dirParts.join('/');
+	}
+
+	/**
+	 * Collect every string value in a frontmatter object, including nested lists and objects
+	 */
+	private collectStrings(value: unknown, strings: string[] = []): string[] {
+		if (typeof value === 'string') {
+			if (value) strings.push(value.trim());
+		} else if (Array.isArray(value)) {
+			value.forEach(entry => this.collectStrings(entry, strings));
+		} else if (value && typeof value === 'object') {
+			Object.values(value).forEach(entry => this.collectStrings(entry, strings));
+		}
+
+		return strings;
+	}
+
+	/**
+	 * Read the history list from frontmatter, with the active image first if it is missing
+	 */
+	private readHistory(frontmatter: Record<string, any>): string[] {
+		const history: string[] = Array.isArray(frontmatter.image_history)
+			? frontmatter.image_history.filter((path: unknown): path is string => typeof path === 'string' && path.length > 0)
+			: [];
+
+		const active = frontmatter.image_url || frontmatter.imageUrl;
+		if (typeof active === 'string' && active && !history.includes(active)) {
+			history.unshift(active);
+		}
+
+		return Array.from(new Set(history));
+	}
+}
@@ -0,0 +1,203 @@
+import { App, TFile, base64ToArrayBuffer, normalizePath, requestUrl } from 'obsidian';
+import OpenAI from 'openai';
+import { ImageProvider, ImageRequest, ProvidedImage } from '../types';
+
+/**
+ * Image file extensions the template folder provider can pick
+ */
+const TEMPLATE_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'svg'];
+
+/**
+ * Generates images with OpenAI DALL-E 3
+ */
+export class OpenAIImageProvider implements ImageProvider {
+	readonly name = 'OpenAI DALL-E';
+	private openai: OpenAI | null = null;
+
+	constructor(apiKey: string) {
+		if (apiKey && apiKey.length > 0) {
+			this.openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+		}
+	}
+
+	isConfigured(): boolean {
+		return this.openai !== null;
+	}
+
+	getSetupHint(): string {
+		return 'OpenAI API key not configured. Please add your API key in Shopboard settings.';
+	}
+
+	async generate(request: ImageRequest): Promise<ProvidedImage> {
+		if (!this.openai) {
+			throw new Error(this.getSetupHint());
+		}
+
+		let imageUrl: string | undefined;
+		try {
+			const response = await this.openai.images.generate({
+				model: 'dall-e-3',
+				prompt: request.prompt,
+				n: 1,
+				size: '1024x1024',
+				quality: 'standard',
+				response_format: 'url'
+			});
+			imageUrl = response.data?.[0]?.url;
+		} catch (error) {
+			// Provide more specific error messages
+			const message = error instanceof Error ? error.message : String(error);
+			if (message.includes('API key')) {
+				throw new Error('Invalid OpenAI API key. Please check your settings.');
+			} else if (message.includes('rate_limit')) {
+				throw new Error('OpenAI rate limit exceeded. Please try again later.');
+			} else if (message.includes('billing')) {
+				throw new Error('OpenAI billing issue. Please check your account.');
+			}
+			throw error;
+		}
+
+		if (!imageUrl) {
+			throw new Error('No URL returned');
+		}
+
+		// Download the image using Obsidian's requestUrl to bypass CORS
+		const download = await requestUrl({ url: imageUrl, method: 'GET' });
+		if (download.status !== 200) {
+			throw new Error(`Could not download the generated image (HTTP ${download.status})`);
+		}
+
+		return { kind: 'data', data: download.arrayBuffer };
+	}
+}
+
+/**
+ * Generates images with a local Stable Diffusion server
+ * Uses the AUTOMATIC1111 txt2img API (`POST /sdapi/v1/txt2img`), which
+ * Forge, SD.Next and ComfyUI bridges also provide
+ */
+export class LocalImageProvider implements ImageProvider {
+	readonly name = 'local Stable Diffusion';
+	private endpoint: string;
+
+	constructor(endpoint: string) {
+		this.endpoint = endpoint.trim().replace(/\/+$/, '');
+	}
+
+	isConfigured(): boolean {
+		return this.endpoint.length > 0;
+	}
+
+	getSetupHint(): string {
+		return 'Local image endpoint not configured. Please add its URL in Shopboard settings.';
+	}
+
+	async generate(request: ImageRequest): Promise<ProvidedImage> {
+		let response;
+		try {
+			response = await requestUrl({
+				url: `${this.endpoint}/sdapi/v1/txt2img`,
+				method: 'POST',
+				contentType: 'application/json',
+				body: JSON.stringify({
+					prompt: request.prompt,
+					negative_prompt: 'text, letters, words, watermark, signature, label, frame, border',
+					width: 512,
+					height: 512,
+					steps: 25,
+					batch_size: 1
+				}),
+				throw: false
+			});
+		} catch (error) {
+			throw new Error(`Could not reach ${this.endpoint}. Is the image server running?`);
+		}
+
+		if (response.status !== 200) {
+			throw new Error(`${this.endpoint} returned HTTP ${response.status}`);
+		}
+
+		const image = response.json?.images?.[0];
+		if (typeof image !== 'string' || !image) {
+			throw new Error('No image returned');
+		}
+
+		// Images come back as base64, sometimes with a data URL prefix
+		return { kind: 'data', data: base64ToArrayBuffer(image.replace(/^data:image\/\w+;base64,/, '')) };
+	}
+}
+
+/**
+ * Picks a stock image from a vault folder by item type and rarity
+ * File names are matched in order: `<type>-<rarity>`, `<type>`, `<rarity>`, `default`
+ * (e.g. `weapon-rare.png`). Numbered variants such as `weapon-rare-2.png` are picked at random.
+ */
+export class TemplateFolderImageProvider implements ImageProvider {
+	readonly name = 'template folder';
+	private app: App;
+	private folder: string;
+
+	constructor(app: App, folder: string) {
+		this.app = app;
+		this.folder = folder.trim() ? normalizePath(folder.trim()) : '';
+	}
+
+	isConfigured(): boolean {
+		return this.folder.length > 0;
+	}
+
+	getSetupHint(): string {
+		return 'Image template folder not configured. Please set it in Shopboard settings.';
+	}
+
+	async generate(request: ImageRequest): Promise<ProvidedImage> {
+		const images = this.getTemplateImages();
+		if (images.length === 0) {
+			throw new Error(`No images found in ${this.folder}`);
+		}
+
+		const type = request.itemType ? this.toSlug(request.itemType) : null;
+		const rarity = this.toSlug(request.rarity);
+		const keys = [type ? `${type}-${rarity}` : null, type, rarity, 'default']
+			.filter((key): key is string => key !== null);
+
+		for (const key of keys) {
+			const matches = images.filter(file => {
+				const name = file.basename.toLowerCase();
+				return name === key || new RegExp(`^${key}-\\d+$`).test(name);
+			});
+
+			if (matches.length > 0) {
+				const pick = matches[Math.floor(Math.random() * matches.length)];
+				return { kind: 'vault', path: pick.path };
+			}
+		}
+
+		throw new Error(`No image in ${this.folder} matches ${keys.join(', ')}`);
+	}
+
+	/**
+	 * Check whether a vault path is inside the template folder
+	 * Template images are shared between items and must never be deleted
+	 * @param path Vault path
+	 */
+	contains(path: string): boolean {
+		return this.folder.length > 0 && normalizePath(path).startsWith(`${this.folder}/`);
+	}
+
+	/**
+	 * Get every image in the template folder and its subfolders
+	 */
+	private getTemplateImages(): TFile[] {
+		return this.app.vault.getFiles().filter(file =>
+			this.contains(file.path) && TEMPLATE_IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())
+		);
+	}
+
+	/**
+	 * Turn a type or rarity into a file name part (e.g., "Very Rare" -> "very-rare")
+	 */
+	private toSlug(value: string): string {
+		return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+	}
+}
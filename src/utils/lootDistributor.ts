@@ -0,0 +1,248 @@
+import { GeneratedLoot, LootRecipientSummary, LootShare, ShopboardSettings } from '../types';
+import { PriceCalculator } from './priceCalculator';
+
+/**
+ * Recipient key for the party stash
+ */
+export const PARTY_STASH = 'stash';
+
+/**
+ * Recipient key for coins divided evenly between all members
+ */
+export const SPLIT_EVENLY = 'split';
+
+/**
+ * Loot Distributor - Splits a hoard between party members
+ * Claims map share ids to a recipient: a member wikilink, PARTY_STASH, or
+ * SPLIT_EVENLY (coins only)
+ */
+export class LootDistributor {
+	private priceCalculator: PriceCalculator;
+	private settings: ShopboardSettings;
+
+	constructor(priceCalculator: PriceCalculator, settings: ShopboardSettings) {
+		this.priceCalculator = priceCalculator;
+		this.settings = settings;
+	}
+
+	/**
+	 * List every assignable entry of a hoard
+	 * Gems and magic items with a quantity are listed once per unit; sold entries are left out
+	 * @param loot Generated loot
+	 */
+	getShares(loot: GeneratedLoot): LootShare[] {
+		const shares: LootShare[] = [];
+
+		if (loot.coins.gold > 0) {
+			shares.push({ id: 'coins', kind: 'coins', name: 'Coins', itemRef: null, value: loot.coins.gold });
+		}
+
+		loot.gems.forEach((gem, index) => {
+			// Sold loot belongs to a shop now
+			if (gem.sold) return;
+
+			for (let unit = 0; unit < gem.quantity; unit++) {
+				shares.push({ id: `gem-${index}-${unit}`, kind: 'gem', name: gem.description, itemRef: null, value: gem.value });
+			}
+		});
+
+		loot.artObjects.forEach((art, index) => {
+			shares.push({ id: `art-${index}`, kind: 'art', name: art.description, itemRef: null, value: art.value });
+		});
+
+		loot.magicItems.forEach((item, index) => {
+			if (item.sold) return;
+
+			const name = item.itemData?.name || item.itemRef.replace(/^\[\[|\]\]$/g, '');
+			// Item prices are stored in the base currency; share values are in gp
+			const value = item.itemData
+				? this.priceCalculator.convertCurrency(item.itemData.basePrice, this.settings.currency.baseCurrency, 'gp')
+				: 0;
+
+			for (let unit = 0; unit < item.quantity; unit++) {
+				shares.push({ id: `magic-${index}-${unit}`, kind: 'magic-item', name, itemRef: item.itemRef, value });
+			}
+		});
+
+		return shares;
+	}
+
+	/**
+	 * Assign every share automatically
+	 * Coins are split evenly; items go one at a time, most valuable first,
+	 * to the member who has received the least so far
+	 * @param shares Shares to assign
+	 * @param members Member wikilinks (everything goes to the stash when empty)
+	 * @returns Claims keyed by share id
+	 */
+	autoSplit(shares: LootShare[], members: string[]): Record<string, string> {
+		const claims: Record<string, string> = {};
+
+		if (members.length === 0) {
+			for (const share of shares) {
+				claims[share.id] = PARTY_STASH;
+			}
+			return claims;
+		}
+
+		const totals = new Map<string, number>(members.map(member => [member, 0]));
+		const items = shares
+			.filter(share => share.kind !== 'coins')
+			.sort((a, b) => b.value - a.value);
+
+		for (const share of shares) {
+			if (share.kind === 'coins') {
+				claims[share.id] = SPLIT_EVENLY;
+			}
+		}
+
+		for (const share of items) {
+			// Ties go to the earliest member in the party list
+			let recipient = members[0];
+			for (const member of members) {
+				if (totals.get(member)! < totals.get(recipient)!) {
+					recipient = member;
+				}
+			}
+
+			claims[share.id] = recipient;
+			totals.set(recipient, totals.get(recipient)! + share.value);
+		}
+
+		return claims;
+	}
+
+	/**
+	 * Work out what each member and the party stash receive
+	 * Evenly split coins are rounded down per member; the remainder goes to the stash
+	 * @param shares All shares of the hoard
+	 * @param claims Claims keyed by share id (unclaimed shares are left out)
+	 * @param members Member wikilinks
+	 * @returns One summary per member, then the stash
+	 */
+	summarize(shares: LootShare[], claims: Record<string, string>, members: string[]): LootRecipientSummary[] {
+		const summaries = new Map<string, LootRecipientSummary>();
+		for (const recipient of [...members, PARTY_STASH]) {
+			summaries.set(recipient, {
+				recipient,
+				name: this.getRecipientName(recipient),
+				gold: 0,
+				items: [],
+				totalValue: 0
+			});
+		}
+
+		for (const share of shares) {
+			const recipient = claims[share.id];
+			if (!recipient) continue;
+
+			if (recipient === SPLIT_EVENLY) {
+				const each = members.length > 0 ? Math.floor(share.value / members.length) : 0;
+				for (const member of members) {
+					summaries.get(member)!.gold += each;
+				}
+				summaries.get(PARTY_STASH)!.gold += share.value - each * members.length;
+				continue;
+			}
+
+			// Claims for someone who left the party fall back to the stash
+			const summary = summaries.get(recipient) || summaries.get(PARTY_STASH)!;
+
+			if (share.kind === 'coins') {
+				summary.gold += share.value;
+			} else {
+				summary.items.push(share);
+			}
+		}
+
+		const result = Array.from(summaries.values());
+		for (const summary of result) {
+			summary.totalValue = summary.gold + summary.items.reduce((sum, item) => sum + item.value, 0);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Collect the magic items newly claimed by members or the party stash
+	 * Shares that already had a claim are left out, so applying a distribution
+	 * again doesn't hand out the same item twice; sold items are never handed out
+	 * @param loot Distributed loot
+	 * @param claims Claims keyed by share id
+	 * @param previousClaims Claims before this distribution
+	 * @returns Items to add keyed by recipient (member wikilink or PARTY_STASH)
+	 */
+	getItemDeliveries(
+		loot: GeneratedLoot,
+		claims: Record<string, string>,
+		previousClaims: Record<string, string>
+	): Map<string, Array<{ itemRef: string; quantity: number; identified: boolean }>> {
+		const deliveries = new Map<string, Array<{ itemRef: string; quantity: number; identified: boolean }>>();
+
+		loot.magicItems.forEach((item, index) => {
+			if (item.sold) return;
+
+			for (let unit = 0; unit < item.quantity; unit++) {
+				const id = `magic-${index}-${unit}`;
+				const recipient = claims[id];
+				if (!recipient || recipient === SPLIT_EVENLY || previousClaims[id]) continue;
+
+				const items = deliveries.get(recipient) || [];
+				const existing = items.find(entry => entry.itemRef === item.itemRef && entry.identified === item.identified);
+				if (existing) {
+					existing.quantity++;
+				} else {
+					items.push({ itemRef: item.itemRef, quantity: 1, identified: item.identified });
+				}
+				deliveries.set(recipient, items);
+			}
+		});
+
+		return deliveries;
+	}
+
+	/**
+	 * Render distribution summaries as markdown
+	 * @param summaries Per-recipient summaries
+	 */
+	formatSummary(summaries: LootRecipientSummary[]): string {
+		let content = '';
+
+		for (const summary of summaries) {
+			if (summary.totalValue === 0 && summary.items.length === 0) continue;
+
+			const heading = summary.recipient === PARTY_STASH ? summary.name : summary.recipient;
+			content += `### ${heading} (${summary.totalValue} gp)\n\n`;
+
+			if (summary.gold > 0) {
+				content += `- ${summary.gold} gp\n`;
+			}
+
+			for (const item of summary.items) {
+				content += `- ${item.itemRef || item.name} (${item.value} gp)\n`;
+			}
+
+			content += '\n';
+		}
+
+		return content || 'Nothing has been claimed yet.\n\n';
+	}
+
+	/**
+	 * Get the display name of a recipient key
+	 * @param recipient Member wikilink, PARTY_STASH or SPLIT_EVENLY
+	 */
+	getRecipientName(recipient: string): string {
+		if (recipient === PARTY_STASH) return 'Party stash';
+		if (recipient === SPLIT_EVENLY) return 'Split evenly';
+
+		const name = recipient.replace(/^\[\[|\]\]$/g, '').trim();
+
+		// Prefer the display name (|Display Name), otherwise the note name
+		if (name.includes('|')) {
+			return name.split('|')[1].trim();
+		}
+
+		return name.split('/').pop() || name;
+	}
+}
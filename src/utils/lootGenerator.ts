@@ -12,17 +12,20 @@ import {
 	MagicItemTable,
 	SalvageMaterial,
 	ItemData,
-	RarityLevel
+	RarityLevel,
+	TreasureTableSet,
+	SalvageTable
 } from '../types';
 import {
-	INDIVIDUAL_TREASURE,
-	HOARD_TREASURE,
-	GEM_DESCRIPTIONS,
-	ART_DESCRIPTIONS,
+	BUILT_IN_TREASURE_TABLES,
+	BUILT_IN_SALVAGE_TABLES,
+	CONSUMABLE_MAGIC_TABLES,
+	PERMANENT_MAGIC_TABLES,
 	getCRTier,
 	getRandomContainerDescription
 } from './treasureTables';
-import { ItemParser } from './itemParser';
+import { ItemParser } from '../parsers/itemParser';
+import { EncumbranceCalculator } from './encumbranceCalculator';
 
 /**
  * Loot Generator - Generates random treasure based on D&D 5e rules
@@ -30,10 +33,48 @@ import { ItemParser } from './itemParser';
 export class LootGenerator {
 	private rng: () => number;
 	private itemParser: ItemParser;
+	private tables: TreasureTableSet;
+	private salvageTables: Map<string, SalvageTable> = new Map();
+	private encumbrance: EncumbranceCalculator;
 
 	constructor(itemParser: ItemParser) {
 		this.rng = Math.random;
 		this.itemParser = itemParser;
+		this.encumbrance = new EncumbranceCalculator(itemParser);
+		this.tables = BUILT_IN_TREASURE_TABLES;
+		this.setSalvageTables([]);
+	}
+
+	/**
+	 * Set the treasure tables used for coins, gems, art, magic item rolls and containers
+	 */
+	setTables(tables: TreasureTableSet): void {
+		this.tables = tables;
+	}
+
+	/**
+	 * Get the treasure tables currently in use
+	 */
+	getTables(): TreasureTableSet {
+		return this.tables;
+	}
+
+	/**
+	 * Set custom salvage tables
+	 * Built-in monster types stay available unless a custom table uses the same key
+	 */
+	setSalvageTables(tables: SalvageTable[]): void {
+		this.salvageTables = new Map();
+		for (const table of [...BUILT_IN_SALVAGE_TABLES, ...tables]) {
+			this.salvageTables.set(table.monsterType, table);
+		}
+	}
+
+	/**
+	 * Get every salvage table available for LootGenerationParams.monsterType
+	 */
+	getSalvageTables(): SalvageTable[] {
+		return Array.from(this.salvageTables.values());
 	}
 
 	/**
@@ -76,11 +117,11 @@ export class LootGenerator {
 		// Calculate total value and weight
 		const totalValue = this.calculateTotalValue(coins, gems, artObjects, magicItems, equipment, mundaneItems, salvage);
 		const totalWeight = params.includeEncumbrance
-			? this.calculateTotalWeight(coins, gems, artObjects, magicItems, equipment, mundaneItems, salvage)
+			? this.encumbrance.getLootWeight({ coins, gems, artObjects, magicItems, equipment, mundaneItems, salvage })
 			: 0;
 
 		// Generate container description
-		const containerDescription = getRandomContainerDescription(params.containerType, this.rng);
+		const containerDescription = getRandomContainerDescription(params.containerType, this.rng, this.tables.containerDescriptions);
 
 		return {
 			coins,
@@ -126,8 +167,8 @@ export class LootGenerator {
 	 */
 	private generateCoins(params: LootGenerationParams, crTier: CRTier): CoinLoot {
 		const table = params.lootType === 'individual'
-			? INDIVIDUAL_TREASURE[crTier]
-			: HOARD_TREASURE[crTier].coins;
+			? this.tables.individual[crTier]
+			: this.tables.hoard[crTier].coins;
 
 		// Roll for each denomination
 		const cp = this.rollDice(table.cp.dice) * table.cp.multiplier;
@@ -178,7 +219,7 @@ export class LootGenerator {
 	private generateGems(params: LootGenerationParams, crTier: CRTier): Gem[] {
 		if (params.lootType === 'individual') return [];
 
-		const table = HOARD_TREASURE[crTier];
+		const table = this.tables.hoard[crTier];
 		if (!table.gems || table.gems.length === 0) return [];
 
 		const gems: Gem[] = [];
@@ -190,7 +231,7 @@ export class LootGenerator {
 		if (gemEntry) {
 			const count = this.rollDice(gemEntry.dice);
 			const value = gemEntry.value;
-			const descriptions = GEM_DESCRIPTIONS[value];
+			const descriptions = this.tables.gemDescriptions[value];
 
 			// Generate individual gems
 			for (let i = 0; i < count; i++) {
@@ -212,7 +253,7 @@ export class LootGenerator {
 	private generateArtObjects(params: LootGenerationParams, crTier: CRTier): ArtObject[] {
 		if (params.lootType === 'individual') return [];
 
-		const table = HOARD_TREASURE[crTier];
+		const table = this.tables.hoard[crTier];
 		if (!table.art || table.art.length === 0) return [];
 
 		const artObjects: ArtObject[] = [];
@@ -224,7 +265,7 @@ export class LootGenerator {
 		if (artEntry) {
 			const count = this.rollDice(artEntry.dice);
 			const value = artEntry.value;
-			const descriptions = ART_DESCRIPTIONS[value];
+			const descriptions = this.tables.artDescriptions[value];
 
 			// Generate individual art objects
 			for (let i = 0; i < count; i++) {
@@ -245,7 +286,7 @@ export class LootGenerator {
 	private generateMagicItems(params: LootGenerationParams, crTier: CRTier): MagicItemLoot[] {
 		if (params.lootType === 'individual') return [];
 
-		const table = HOARD_TREASURE[crTier];
+		const table = this.tables.hoard[crTier];
 		if (!table.magicItems || table.magicItems.length === 0) return [];
 
 		const magicItems: MagicItemLoot[] = [];
@@ -273,7 +314,10 @@ export class LootGenerator {
 	}
 
 	/**
-	 * Select a magic item from the item cache
+	 * Select a magic item with a weighted d100 roll on a magic item table
+	 * Items with a table_range claim that part of the d100; items without one share
+	 * whatever the roll lands on outside every range. If nothing is on the table,
+	 * any item matching the rarity filters is picked instead.
 	 */
 	private selectMagicItem(params: LootGenerationParams, table: MagicItemTable): MagicItemLoot | null {
 		const allItems = this.itemParser.getCacheStats().items;
@@ -307,18 +351,42 @@ export class LootGenerator {
 
 		if (filteredItems.length === 0) return null;
 
+		// Roll on the requested table
+		const onTable = filteredItems
+			.map(item => ({ item, placement: this.getMagicTablePlacement(item) }))
+			.filter(entry => entry.placement.table === table);
+
+		if (onTable.length > 0) {
+			const roll = Math.floor(this.rng() * 100) + 1;
+			const ranged = onTable.filter(entry => entry.placement.range !== null);
+			const unranged = onTable.filter(entry => entry.placement.range === null);
+
+			let hits = ranged.filter(entry => roll >= entry.placement.range![0] && roll <= entry.placement.range![1]);
+
+			if (hits.length === 0 && unranged.length > 0) {
+				hits = unranged;
+			}
+
+			// The roll missed every range and nothing fills the gaps: reroll inside the ranges
+			const selected = hits.length > 0
+				? { item: hits[Math.floor(this.rng() * hits.length)].item, roll }
+				: this.pickByRangeWidth(ranged);
+
+			return {
+				itemRef: `[[${selected.item.name}]]`,
+				itemData: selected.item,
+				quantity: 1,
+				identified: !params.trackIdentification || this.rng() > 0.5,
+				table,
+				roll: selected.roll
+			};
+		}
+
 		// Filter by consumable percentage
 		const wantConsumable = this.rng() * 100 < params.consumablePercentage;
-		const consumableTypes = ['potion', 'scroll', 'consumable', 'ammunition'];
 
 		if (wantConsumable) {
-			const consumables = filteredItems.filter(item => {
-				const itemType = item.metadata?.item_type?.toLowerCase() || '';
-				const equipmentType = item.metadata?.equipment_type?.toLowerCase() || '';
-				return consumableTypes.some(type =>
-					itemType.includes(type) || equipmentType.includes(type)
-				);
-			});
+			const consumables = filteredItems.filter(item => this.isConsumable(item));
 			if (consumables.length > 0) {
 				filteredItems = consumables;
 			}
@@ -332,10 +400,87 @@ export class LootGenerator {
 			itemData: selectedItem,
 			quantity: 1,
 			identified: !params.trackIdentification || this.rng() > 0.5,
-			table
+			table,
+			roll: null
 		};
 	}
 
+	/**
+	 * Get the magic item table an item belongs to and its d100 range
+	 * Item notes can declare `magic_table` (A–I) and `table_range` ("01-15", or one number);
+	 * otherwise the table follows from rarity and whether the item is a consumable
+	 */
+	private getMagicTablePlacement(item: ItemData): { table: MagicItemTable; range: [number, number] | null } {
+		const declared = typeof item.metadata?.magic_table === 'string'
+			? item.metadata.magic_table.trim().toUpperCase()
+			: '';
+
+		if (/^[A-I]$/.test(declared)) {
+			return { table: declared as MagicItemTable, range: this.parseTableRange(item.metadata.table_range) };
+		}
+
+		const rarity = (item.rarity?.toLowerCase() || 'common') as RarityLevel;
+		const tables = this.isConsumable(item) ? CONSUMABLE_MAGIC_TABLES : PERMANENT_MAGIC_TABLES;
+
+		return { table: tables[rarity] || tables.common, range: null };
+	}
+
+	/**
+	 * Parse a d100 range such as "01-15", "76", or 42 ("00" counts as 100)
+	 * @returns Inclusive range, or null if missing or invalid
+	 */
+	private parseTableRange(raw: any): [number, number] | null {
+		if (raw === undefined || raw === null) return null;
+
+		const parts = String(raw).split(/\s*[-–]\s*/).map(part => parseInt(part, 10));
+		if (parts.length < 1 || parts.length > 2 || parts.some(part => isNaN(part))) {
+			return null;
+		}
+
+		const [min, max] = parts.map(part => part === 0 ? 100 : part);
+		const range: [number, number] = [min, max === undefined ? min : max];
+
+		if (range[0] < 1 || range[1] > 100 || range[0] > range[1]) {
+			return null;
+		}
+
+		return range;
+	}
+
+	/**
+	 * Pick an entry at random, weighted by the width of its d100 range
+	 * @returns The entry's item and a d100 result inside its range
+	 */
+	private pickByRangeWidth(
+		entries: Array<{ item: ItemData; placement: { range: [number, number] | null } }>
+	): { item: ItemData; roll: number } {
+		const widths = entries.map(entry => entry.placement.range![1] - entry.placement.range![0] + 1);
+		let remaining = Math.floor(this.rng() * widths.reduce((sum, width) => sum + width, 0));
+
+		for (let i = 0; i < entries.length; i++) {
+			if (remaining < widths[i]) {
+				return { item: entries[i].item, roll: entries[i].placement.range![0] + remaining };
+			}
+			remaining -= widths[i];
+		}
+
+		const last = entries[entries.length - 1];
+		return { item: last.item, roll: last.placement.range![1] };
+	}
+
+	/**
+	 * Check whether an item is a consumable (potion, scroll, ammunition...)
+	 */
+	private isConsumable(item: ItemData): boolean {
+		const consumableTypes = ['potion', 'scroll', 'consumable', 'ammunition'];
+		const itemType = item.metadata?.item_type?.toLowerCase() || '';
+		const equipmentType = item.metadata?.equipment_type?.toLowerCase() || '';
+
+		return consumableTypes.some(type =>
+			itemType.includes(type) || equipmentType.includes(type)
+		);
+	}
+
 	/**
 	 * Generate equipment (weapons, armor, tools)
 	 */
@@ -403,58 +548,37 @@ export class LootGenerator {
 
 	/**
 	 * Generate salvage materials from monsters
+	 * Picks 1-3 materials from the monster's salvage table and rolls each one's yield
 	 */
 	private generateSalvage(params: LootGenerationParams): SalvageMaterial[] {
 		if (!params.enableSalvage) return [];
 
-		const salvageTables: Record<string, Array<{ name: string; description: string; value: number; tags: string[]; dc: number }>> = {
-			beast: [
-				{ name: 'Beast Hide', description: 'Thick hide suitable for leather armor', value: 10, tags: ['leather', 'armor'], dc: 10 },
-				{ name: 'Sharp Claws', description: 'Usable for weapons or jewelry', value: 5, tags: ['weapon', 'jewelry'], dc: 12 },
-				{ name: 'Beast Teeth', description: 'Sharp fangs for decorations or weapons', value: 3, tags: ['weapon', 'jewelry'], dc: 10 }
-			],
-			dragon: [
-				{ name: 'Dragon Scale', description: 'Incredibly tough scale with elemental resistance', value: 100, tags: ['armor', 'enchanting'], dc: 18 },
-				{ name: 'Dragon Tooth', description: 'Massive fang crackling with power', value: 50, tags: ['weapon', 'enchanting'], dc: 16 },
-				{ name: 'Dragon Blood Vial', description: 'Potent alchemical reagent', value: 75, tags: ['alchemy', 'enchanting'], dc: 20 }
-			],
-			undead: [
-				{ name: 'Bone Dust', description: 'Fine powder from undead bones', value: 5, tags: ['necromancy', 'alchemy'], dc: 10 },
-				{ name: 'Ectoplasm', description: 'Ghostly residue with magical properties', value: 15, tags: ['necromancy', 'enchanting'], dc: 14 },
-				{ name: 'Soul Gem Fragment', description: 'Crystallized essence of trapped soul', value: 25, tags: ['necromancy', 'enchanting'], dc: 16 }
-			],
-			elemental: [
-				{ name: 'Elemental Core', description: 'Pulsing heart of elemental energy', value: 40, tags: ['enchanting', 'alchemy'], dc: 15 },
-				{ name: 'Primordial Dust', description: 'Raw elemental matter', value: 20, tags: ['alchemy', 'enchanting'], dc: 13 },
-				{ name: 'Planar Crystal', description: 'Crystallized elemental essence', value: 30, tags: ['enchanting', 'jewelry'], dc: 16 }
-			],
-			fiend: [
-				{ name: 'Demon Horn', description: 'Twisted horn radiating malevolence', value: 35, tags: ['weapon', 'enchanting'], dc: 17 },
-				{ name: 'Infernal Ichor', description: 'Corrosive blood of fiendish origin', value: 25, tags: ['alchemy', 'poison'], dc: 15 },
-				{ name: 'Hellfire Shard', description: 'Fragment of eternal flame', value: 50, tags: ['enchanting', 'alchemy'], dc: 18 }
-			],
-			aberration: [
-				{ name: 'Aberrant Tentacle', description: 'Writhing appendage with strange properties', value: 20, tags: ['alchemy', 'enchanting'], dc: 16 },
-				{ name: 'Mind Crystal', description: 'Psionic residue crystallized', value: 45, tags: ['enchanting', 'psionic'], dc: 18 },
-				{ name: 'Void Essence', description: 'Dark substance from beyond reality', value: 60, tags: ['enchanting', 'necromancy'], dc: 20 }
-			]
-		};
-
 		const monsterType = params.monsterType.toLowerCase();
-		const table = salvageTables[monsterType] || salvageTables['beast'];
+		const table = this.salvageTables.get(monsterType) || this.salvageTables.get('beast');
+		if (!table || table.materials.length === 0) return [];
 
 		// Generate 1-3 salvage items
 		const count = this.rollDice('1d3');
 		const salvage: SalvageMaterial[] = [];
 
 		for (let i = 0; i < count; i++) {
-			const item = table[Math.floor(this.rng() * table.length)];
+			const item = table.materials[Math.floor(this.rng() * table.materials.length)];
+			const quantity = Math.max(1, this.rollDice(item.yield));
+
+			// The same material found twice stacks
+			const existing = salvage.find(material => material.name === item.name);
+			if (existing) {
+				existing.quantity += quantity;
+				continue;
+			}
+
 			salvage.push({
 				name: item.name,
 				description: item.description,
 				value: item.value,
-				craftingTags: item.tags,
-				harvestDC: item.dc
+				craftingTags: item.craftingTags,
+				harvestDC: item.harvestDC,
+				quantity
 			});
 		}
 
@@ -506,53 +630,9 @@ export class LootGenerator {
 
 		// Add salvage values
 		salvage.forEach(mat => {
-			total += mat.value;
+			total += mat.value * mat.quantity;
 		});
 
 		return Math.round(total);
 	}
-
-	/**
-	 * Calculate total weight in pounds
-	 */
-	private calculateTotalWeight(
-		coins: CoinLoot,
-		gems: Gem[],
-		artObjects: ArtObject[],
-		magicItems: MagicItemLoot[],
-		equipment: EquipmentLoot[],
-		mundaneItems: Array<{ name: string; quantity: number; value: number }>,
-		salvage: SalvageMaterial[]
-	): number {
-		let weight = 0;
-
-		// Coins (50 coins = 1 lb, simplified to gold only)
-		weight += coins.gold / 50;
-
-		// Gems (negligible weight, ~0.01 lb each)
-		weight += gems.length * 0.01;
-
-		// Art objects (~1-5 lbs each)
-		weight += artObjects.length * 2;
-
-		// Magic items (estimate based on item type, default 1 lb)
-		magicItems.forEach(item => {
-			weight += 1; // Simplified weight
-		});
-
-		// Equipment (weapons ~5 lbs, armor ~20 lbs, tools ~2 lbs, average ~5 lbs)
-		equipment.forEach(item => {
-			weight += 5; // Simplified weight
-		});
-
-		// Mundane items (estimate)
-		mundaneItems.forEach(item => {
-			weight += item.quantity * 0.5; // Simplified weight
-		});
-
-		// Salvage materials (~1 lb each)
-		weight += salvage.length * 1;
-
-		return Math.round(weight * 10) / 10; // Round to 1 decimal place
-	}
 }
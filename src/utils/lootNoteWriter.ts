@@ -0,0 +1,316 @@
+import { TFile, Vault, stringifyYaml } from 'obsidian';
+import { EquipmentLoot, GeneratedLoot, Gem, MagicItemLoot, SalvageMaterial } from '../types';
+
+/**
+ * Writes generated loot to `type: loot` notes
+ * The frontmatter holds the full GeneratedLoot so LootParser can reopen it;
+ * the body is a readable summary for the DM
+ */
+export class LootNoteWriter {
+	/**
+	 * Generate note content for a loot hoard
+	 * @param loot Generated loot
+	 * @param name Note title
+	 */
+	generateLootContent(loot: GeneratedLoot, name: string): string {
+		const frontmatter = {
+			type: 'loot',
+			name,
+			loot_type: loot.metadata.lootType,
+			challenge_rating: loot.metadata.challengeRating,
+			experience_points: loot.metadata.experiencePoints,
+			party_size: loot.metadata.partySize,
+			party_level: loot.metadata.partyLevel,
+			seed: loot.metadata.seed,
+			generated_at: loot.metadata.timestamp,
+			container: loot.containerDescription,
+			total_value: loot.totalValue,
+			total_weight: loot.totalWeight,
+			coins: { gold: loot.coins.gold },
+			gems: this.formatGemEntries(loot.gems),
+			art_objects: loot.artObjects.map(art => ({
+				value: art.value,
+				description: art.description
+			})),
+			magic_items: this.formatMagicItemEntries(loot.magicItems),
+			equipment: this.formatEquipmentEntries(loot.equipment),
+			mundane_items: loot.mundaneItems.map(item => ({
+				name: item.name,
+				quantity: item.quantity,
+				value: item.value
+			})),
+			salvage: this.formatSalvage(loot.salvage)
+		};
+
+		let content = '---\n';
+		content += stringifyYaml(frontmatter);
+		content += '---\n\n';
+		content += `# ${name}\n\n`;
+
+		if (loot.containerDescription) {
+			content += `Found in ${loot.containerDescription}.\n\n`;
+		}
+
+		content += `**Total value:** ${loot.totalValue} gp`;
+		if (loot.totalWeight > 0) {
+			content += ` | **Total weight:** ${loot.totalWeight} lbs`;
+		}
+		content += '\n\n';
+
+		if (loot.coins.gold > 0) {
+			content += '## Coins\n\n';
+			content += `- ${loot.coins.gold} gp\n\n`;
+		}
+
+		if (loot.gems.length > 0) {
+			content += '## Gems\n\n';
+			content += this.formatGems(loot.gems);
+		}
+
+		if (loot.artObjects.length > 0) {
+			content += '## Art Objects\n\n';
+			for (const art of loot.artObjects) {
+				content += `- ${art.description} (${art.value} gp)\n`;
+			}
+			content += '\n';
+		}
+
+		if (loot.magicItems.length > 0) {
+			content += '## Magic Items\n\n';
+			content += this.formatMagicItems(loot.magicItems);
+		}
+
+		if (loot.equipment.length > 0) {
+			content += '## Equipment\n\n';
+			content += this.formatEquipment(loot.equipment);
+		}
+
+		if (loot.mundaneItems.length > 0) {
+			content += '## Mundane Items\n\n';
+			for (const item of loot.mundaneItems) {
+				content += `- ${item.quantity}x ${item.name} (${item.value} gp)\n`;
+			}
+			content += '\n';
+		}
+
+		if (loot.salvage.length > 0) {
+			content += '## Salvage\n\n';
+			for (const material of loot.salvage) {
+				content += `- ${material.quantity}x **${material.name}** (${material.value} gp each, DC ${material.harvestDC}): ${material.description}\n`;
+			}
+			content += '\n';
+		}
+
+		content += '## Notes\n\n';
+		content += '<!-- Right-click this note and choose "Display Loot" to show it to players again -->\n';
+
+		return content;
+	}
+
+	/**
+	 * Convert salvage materials to loot note frontmatter entries
+	 * @param salvage Salvage materials
+	 */
+	formatSalvage(salvage: SalvageMaterial[]): Record<string, any>[] {
+		return salvage.map(material => ({
+			name: material.name,
+			description: material.description,
+			value: material.value,
+			crafting_tags: material.craftingTags,
+			harvest_dc: material.harvestDC,
+			quantity: material.quantity,
+			...(material.harvest ? { harvest: material.harvest } : {})
+		}));
+	}
+
+	/**
+	 * Convert gems to loot note frontmatter entries
+	 * @param gems Gems of the loot
+	 */
+	formatGemEntries(gems: Gem[]): Record<string, any>[] {
+		return gems.map(gem => ({
+			value: gem.value,
+			description: gem.description,
+			quantity: gem.quantity,
+			...(gem.sold ? { sold: true } : {})
+		}));
+	}
+
+	/**
+	 * Convert magic items to loot note frontmatter entries
+	 * @param magicItems Magic items of the loot
+	 */
+	formatMagicItemEntries(magicItems: MagicItemLoot[]): Record<string, any>[] {
+		return magicItems.map(item => ({
+			item: item.itemRef,
+			quantity: item.quantity,
+			identified: item.identified,
+			table: item.table,
+			roll: item.roll,
+			...(item.sold ? { sold: true } : {})
+		}));
+	}
+
+	/**
+	 * Convert equipment to loot note frontmatter entries
+	 * @param equipment Equipment of the loot
+	 */
+	formatEquipmentEntries(equipment: EquipmentLoot[]): Record<string, any>[] {
+		return equipment.map(item => ({
+			item: item.itemRef,
+			quantity: item.quantity,
+			...(item.sold ? { sold: true } : {})
+		}));
+	}
+
+	/**
+	 * Render gems as a markdown list
+	 * @param gems Gems of the loot
+	 */
+	formatGems(gems: Gem[]): string {
+		let content = '';
+
+		for (const gem of gems) {
+			const sold = gem.sold ? ' — sold' : '';
+			content += `- ${gem.quantity}x ${gem.description} (${gem.value} gp each)${sold}\n`;
+		}
+
+		return content + '\n';
+	}
+
+	/**
+	 * Render magic items as a markdown list
+	 * @param magicItems Magic items of the loot
+	 */
+	formatMagicItems(magicItems: MagicItemLoot[]): string {
+		let content = '';
+
+		for (const item of magicItems) {
+			const identified = item.identified ? '' : ' — unidentified';
+			const roll = item.roll !== null ? `, d100 ${item.roll}` : '';
+			const sold = item.sold ? ' — sold' : '';
+			content += `- ${item.quantity}x ${item.itemRef} (table ${item.table}${roll})${identified}${sold}\n`;
+		}
+
+		return content + '\n';
+	}
+
+	/**
+	 * Render equipment as a markdown list
+	 * @param equipment Equipment of the loot
+	 */
+	formatEquipment(equipment: EquipmentLoot[]): string {
+		let content = '';
+
+		for (const item of equipment) {
+			const sold = item.sold ? ' — sold' : '';
+			content += `- ${item.quantity}x ${item.itemRef}${sold}\n`;
+		}
+
+		return content + '\n';
+	}
+
+	/**
+	 * Replace the Magic Items section of a loot note, adding it before Notes if missing
+	 * @param content Current note content
+	 * @param magicItems Magic items of the loot
+	 */
+	updateMagicItemsSection(content: string, magicItems: MagicItemLoot[]): string {
+		return this.updateSection(content, 'Magic Items', this.formatMagicItems(magicItems));
+	}
+
+	/**
+	 * Rewrite the Gems, Magic Items and Equipment sections of a loot note
+	 * Sections the loot has no entries for are left alone
+	 * @param content Current note content
+	 * @param loot Loot with updated sold markers
+	 */
+	updateSaleSections(content: string, loot: GeneratedLoot): string {
+		if (loot.gems.length > 0) {
+			content = this.updateSection(content, 'Gems', this.formatGems(loot.gems));
+		}
+		if (loot.magicItems.length > 0) {
+			content = this.updateSection(content, 'Magic Items', this.formatMagicItems(loot.magicItems));
+		}
+		if (loot.equipment.length > 0) {
+			content = this.updateSection(content, 'Equipment', this.formatEquipment(loot.equipment));
+		}
+		return content;
+	}
+
+	/**
+	 * Replace the Distribution section of a loot note, adding it before Notes if missing
+	 * @param content Current note content
+	 * @param summary Markdown distribution summary
+	 */
+	updateDistributionSection(content: string, summary: string): string {
+		return this.updateSection(content, 'Distribution', summary);
+	}
+
+	/**
+	 * Replace the Harvest section of a loot note, adding it before Notes if missing
+	 * @param content Current note content
+	 * @param summary Markdown harvest summary
+	 */
+	updateHarvestSection(content: string, summary: string): string {
+		return this.updateSection(content, 'Harvest', summary);
+	}
+
+	/**
+	 * Replace a level-2 section of a loot note, adding it before Notes if missing
+	 */
+	private updateSection(content: string, heading: string, body: string): string {
+		const section = `## ${heading}\n\n${body}`;
+		const existing = new RegExp(`^## ${heading}\\n[\\s\\S]*?(?=^## |(?![\\s\\S]))`, 'm');
+
+		if (existing.test(content)) {
+			return content.replace(existing, () => section);
+		}
+
+		const notesIndex = content.search(/^## Notes$/m);
+		if (notesIndex !== -1) {
+			return content.slice(0, notesIndex) + section + content.slice(notesIndex);
+		}
+
+		return `${content.trimEnd()}\n\n${section}`;
+	}
+
+	/**
+	 * Create a new loot note
+	 * @param loot Generated loot
+	 * @param vault Vault to create the note in
+	 * @param name Note title (also used as the file name)
+	 * @param folderPath Folder to create the note in ('' for the vault root)
+	 */
+	async createLootNote(
+		loot: GeneratedLoot,
+		vault: Vault,
+		name: string,
+		folderPath: string = ''
+	): Promise<TFile> {
+		// Generate the file content
+		const content = this.generateLootContent(loot, name);
+
+		// Ensure folder exists if specified
+		if (folderPath && !vault.getAbstractFileByPath(folderPath)) {
+			await vault.createFolder(folderPath);
+		}
+
+		// Sanitize the filename (remove invalid characters)
+		const sanitizedName = name.replace(/[\\/:*?"<>|]/g, '-');
+
+		// Build the full path
+		let fullPath = folderPath ? `${folderPath}/${sanitizedName}.md` : `${sanitizedName}.md`;
+
+		// Ensure the path doesn't already exist, add suffix if needed
+		let counter = 1;
+		const basePath = fullPath.replace(/\.md$/, '');
+		while (vault.getAbstractFileByPath(fullPath)) {
+			fullPath = `${basePath} ${counter}.md`;
+			counter++;
+		}
+
+		// Create the file
+		return await vault.create(fullPath, content);
+	}
+}
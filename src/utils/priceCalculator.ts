@@ -1,4 +1,4 @@
-import { CurrencyConfig, CurrencyBreakdown } from '../types';
+import { CurrencyConfig, CurrencyBreakdown, BulkRule, LineTotal, DynamicPricingBounds, PriceStep } from '../types';
 
 /**
  * Price calculator for applying modifiers and formatting currency
@@ -37,6 +37,132 @@ export class PriceCalculator {
 		return Math.max(0, calculatedPrice);
 	}
 
+	/**
+	 * Calculate final price from a chain of modifiers (e.g., region → settlement → shop)
+	 * Each step multiplies the running price; rounding happens once at the end
+	 * @param basePrice - Base price in base currency denomination
+	 * @param steps - Percentage modifiers, outermost first
+	 * @param override - Optional price override (takes precedence)
+	 * @returns Final calculated price in base currency
+	 */
+	calculateChainedPrice(basePrice: number, steps: PriceStep[], override?: number): number {
+		if (override !== null && override !== undefined) {
+			return Math.max(0, Math.round(override));
+		}
+
+		if (basePrice < 0) {
+			console.warn(`Negative base price detected: ${basePrice}. Using 0 instead.`);
+			return 0;
+		}
+
+		const multiplier = steps.reduce((product, step) => product * (1 + step.modifier / 100), 1);
+
+		return Math.max(0, Math.round(basePrice * multiplier));
+	}
+
+	/**
+	 * Apply a temporary percentage adjustment to an already calculated price
+	 * Used for per-transaction changes such as haggling
+	 * @param price - Price in base currency
+	 * @param adjustment - Percentage adjustment (e.g., -10 for 10% off)
+	 * @returns Adjusted price in base currency
+	 */
+	applyAdjustment(price: number, adjustment: number): number {
+		if (!adjustment) {
+			return price;
+		}
+
+		return Math.max(0, Math.round(price * (1 + adjustment / 100)));
+	}
+
+	/**
+	 * Calculate the supply-and-demand multiplier for an item
+	 * Low stock (relative to the restock baseline) and recent net sales push the price up;
+	 * overstock and items bought back from players push it down
+	 * @param quantity - Current stock
+	 * @param baseline - Stock level the item is restocked to (null if unknown: stock has no effect)
+	 * @param netSales - Units sold minus units bought back within the sales window
+	 * @param stockWeight - Price change at zero stock (e.g., 0.5 for +50%)
+	 * @param salesWeight - Price change when net sales equal the baseline (e.g., 0.3 for +30%)
+	 * @param bounds - Lowest and highest allowed multiplier
+	 * @returns Multiplier rounded to two decimals
+	 */
+	calculateDemandMultiplier(
+		quantity: number,
+		baseline: number | null,
+		netSales: number,
+		stockWeight: number,
+		salesWeight: number,
+		bounds: DynamicPricingBounds
+	): number {
+		let stockFactor = 1;
+		if (baseline !== null && baseline > 0) {
+			stockFactor = 1 + stockWeight * (1 - quantity / baseline);
+		}
+
+		// Without a baseline, measure sales against what's left plus what sold
+		const reference = baseline !== null && baseline > 0 ? baseline : Math.max(1, quantity + netSales);
+		const salesFactor = 1 + salesWeight * (netSales / reference);
+
+		const multiplier = Math.max(0, stockFactor) * Math.max(0, salesFactor);
+		const bounded = Math.min(bounds.max, Math.max(bounds.min, multiplier));
+
+		return Math.round(bounded * 100) / 100;
+	}
+
+	/**
+	 * Calculate the total for a transaction line, applying the best bulk discount rule
+	 * @param unitPrice - Unit price in base currency (after modifiers)
+	 * @param quantity - Quantity on the line
+	 * @param rules - Bulk discount rules that apply to the item
+	 * @returns Line total with the applied rule
+	 */
+	calculateLineTotal(unitPrice: number, quantity: number, rules: BulkRule[] = []): LineTotal {
+		const subtotal = unitPrice * quantity;
+		const result: LineTotal = { unitPrice, quantity, subtotal, total: subtotal, rule: null, label: null };
+
+		// Pick whichever qualifying rule gives the lowest total
+		for (const rule of rules) {
+			if (quantity < rule.minQuantity) continue;
+
+			const total = this.applyBulkRule(unitPrice, quantity, rule);
+			if (total < result.total) {
+				result.total = total;
+				result.rule = rule;
+				result.label = this.formatBulkRule(rule);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Describe a bulk rule for display (e.g., "10+ -15%", "3 for 2")
+	 * @param rule - Bulk discount rule
+	 */
+	formatBulkRule(rule: BulkRule): string {
+		if (rule.payFor !== undefined) {
+			return `${rule.minQuantity} for ${rule.payFor}`;
+		}
+
+		return `${rule.minQuantity}+ -${rule.discount || 0}%`;
+	}
+
+	/**
+	 * Apply a single bulk rule to a line
+	 * "X for Y" rules charge Y items for every full group of X; leftovers pay full price
+	 */
+	private applyBulkRule(unitPrice: number, quantity: number, rule: BulkRule): number {
+		if (rule.payFor !== undefined) {
+			const groups = Math.floor(quantity / rule.minQuantity);
+			const remainder = quantity % rule.minQuantity;
+			return unitPrice * (groups * rule.payFor + remainder);
+		}
+
+		const discount = Math.min(100, Math.max(0, rule.discount || 0));
+		return Math.max(0, Math.round(unitPrice * quantity * (1 - discount / 100)));
+	}
+
 	/**
 	 * Convert amount from one currency denomination to another
 	 * @param amount - Amount to convert
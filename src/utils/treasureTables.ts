@@ -1,4 +1,4 @@
-import { CRTier, GemValue, ArtValue, MagicItemTable, BiomeType } from '../types';
+import { CRTier, GemValue, ArtValue, MagicItemTable, BiomeType, RarityLevel, CoinTable, HoardTable, TreasureTableSet, SalvageTable } from '../types';
 
 /**
  * Treasure Tables based on D&D 5e Dungeon Master's Guide Chapter 7
@@ -8,13 +8,7 @@ import { CRTier, GemValue, ArtValue, MagicItemTable, BiomeType } from '../types'
 /**
  * Individual treasure by CR tier (coins only)
  */
-export const INDIVIDUAL_TREASURE: Record<CRTier, {
-	cp: { dice: string; multiplier: number };
-	sp: { dice: string; multiplier: number };
-	ep: { dice: string; multiplier: number };
-	gp: { dice: string; multiplier: number };
-	pp: { dice: string; multiplier: number };
-}> = {
+export const INDIVIDUAL_TREASURE: Record<CRTier, CoinTable> = {
 	'0-4': {
 		cp: { dice: '5d6', multiplier: 1 },
 		sp: { dice: '4d6', multiplier: 1 },
@@ -48,18 +42,7 @@ export const INDIVIDUAL_TREASURE: Record<CRTier, {
 /**
  * Hoard treasure by CR tier
  */
-export const HOARD_TREASURE: Record<CRTier, {
-	coins: {
-		cp: { dice: string; multiplier: number };
-		sp: { dice: string; multiplier: number };
-		ep: { dice: string; multiplier: number };
-		gp: { dice: string; multiplier: number };
-		pp: { dice: string; multiplier: number };
-	};
-	gems: { chance: number; dice: string; value: GemValue }[];
-	art: { chance: number; dice: string; value: ArtValue }[];
-	magicItems: { chance: number; rolls: string; table: MagicItemTable }[];
-}> = {
+export const HOARD_TREASURE: Record<CRTier, HoardTable> = {
 	'0-4': {
 		coins: {
 			cp: { dice: '6d6', multiplier: 100 },
@@ -288,6 +271,30 @@ export const ART_DESCRIPTIONS: Record<ArtValue, string[]> = {
 	]
 };
 
+/**
+ * Magic item table for consumables (potions, scrolls, ammunition) by rarity
+ * Used for item notes that don't declare magic_table
+ */
+export const CONSUMABLE_MAGIC_TABLES: Record<RarityLevel, MagicItemTable> = {
+	'common': 'A',
+	'uncommon': 'B',
+	'rare': 'C',
+	'very rare': 'D',
+	'legendary': 'E'
+};
+
+/**
+ * Magic item table for permanent items by rarity
+ * Used for item notes that don't declare magic_table
+ */
+export const PERMANENT_MAGIC_TABLES: Record<RarityLevel, MagicItemTable> = {
+	'common': 'F',
+	'uncommon': 'F',
+	'rare': 'G',
+	'very rare': 'H',
+	'legendary': 'I'
+};
+
 /**
  * Get CR tier from challenge rating
  */
@@ -397,9 +404,95 @@ export const CONTAINER_DESCRIPTIONS: Record<string, string[]> = {
 
 /**
  * Get random container description
+ * @param containers Container descriptions to pick from (defaults to the built-ins)
  */
-export function getRandomContainerDescription(type: string, rng: () => number): string {
-	const descriptions = CONTAINER_DESCRIPTIONS[type] || CONTAINER_DESCRIPTIONS.chest;
+export function getRandomContainerDescription(
+	type: string,
+	rng: () => number,
+	containers: Record<string, string[]> = CONTAINER_DESCRIPTIONS
+): string {
+	const descriptions = containers[type] || containers.chest || CONTAINER_DESCRIPTIONS.chest;
 	const index = Math.floor(rng() * descriptions.length);
 	return descriptions[index];
 }
+
+/**
+ * Built-in treasure tables, used when no vault table set is selected
+ * and for any section a vault table note leaves out or gets wrong
+ */
+export const BUILT_IN_TREASURE_TABLES: TreasureTableSet = {
+	name: 'Built-in (DMG)',
+	path: null,
+	individual: INDIVIDUAL_TREASURE,
+	hoard: HOARD_TREASURE,
+	gemDescriptions: GEM_DESCRIPTIONS,
+	artDescriptions: ART_DESCRIPTIONS,
+	containerDescriptions: CONTAINER_DESCRIPTIONS
+};
+
+/**
+ * Built-in salvage tables by monster type
+ * Values are per unit harvested; yield is rolled per material found
+ */
+export const BUILT_IN_SALVAGE_TABLES: SalvageTable[] = [
+	{
+		monsterType: 'beast',
+		label: 'Beast',
+		path: null,
+		materials: [
+			{ name: 'Beast Hide', description: 'Thick hide suitable for leather armor', value: 10, craftingTags: ['leather', 'armor'], harvestDC: 10, yield: '1d2' },
+			{ name: 'Sharp Claws', description: 'Usable for weapons or jewelry', value: 5, craftingTags: ['weapon', 'jewelry'], harvestDC: 12, yield: '1d4' },
+			{ name: 'Beast Teeth', description: 'Sharp fangs for decorations or weapons', value: 3, craftingTags: ['weapon', 'jewelry'], harvestDC: 10, yield: '2d4' }
+		]
+	},
+	{
+		monsterType: 'dragon',
+		label: 'Dragon',
+		path: null,
+		materials: [
+			{ name: 'Dragon Scale', description: 'Incredibly tough scale with elemental resistance', value: 100, craftingTags: ['armor', 'enchanting'], harvestDC: 18, yield: '2d4' },
+			{ name: 'Dragon Tooth', description: 'Massive fang crackling with power', value: 50, craftingTags: ['weapon', 'enchanting'], harvestDC: 16, yield: '1d4' },
+			{ name: 'Dragon Blood Vial', description: 'Potent alchemical reagent', value: 75, craftingTags: ['alchemy', 'enchanting'], harvestDC: 20, yield: '1d3' }
+		]
+	},
+	{
+		monsterType: 'undead',
+		label: 'Undead',
+		path: null,
+		materials: [
+			{ name: 'Bone Dust', description: 'Fine powder from undead bones', value: 5, craftingTags: ['necromancy', 'alchemy'], harvestDC: 10, yield: '1d4' },
+			{ name: 'Ectoplasm', description: 'Ghostly residue with magical properties', value: 15, craftingTags: ['necromancy', 'enchanting'], harvestDC: 14, yield: '1d2' },
+			{ name: 'Soul Gem Fragment', description: 'Crystallized essence of trapped soul', value: 25, craftingTags: ['necromancy', 'enchanting'], harvestDC: 16, yield: '1d1' }
+		]
+	},
+	{
+		monsterType: 'elemental',
+		label: 'Elemental',
+		path: null,
+		materials: [
+			{ name: 'Elemental Core', description: 'Pulsing heart of elemental energy', value: 40, craftingTags: ['enchanting', 'alchemy'], harvestDC: 15, yield: '1d1' },
+			{ name: 'Primordial Dust', description: 'Raw elemental matter', value: 20, craftingTags: ['alchemy', 'enchanting'], harvestDC: 13, yield: '1d4' },
+			{ name: 'Planar Crystal', description: 'Crystallized elemental essence', value: 30, craftingTags: ['enchanting', 'jewelry'], harvestDC: 16, yield: '1d2' }
+		]
+	},
+	{
+		monsterType: 'fiend',
+		label: 'Fiend',
+		path: null,
+		materials: [
+			{ name: 'Demon Horn', description: 'Twisted horn radiating malevolence', value: 35, craftingTags: ['weapon', 'enchanting'], harvestDC: 17, yield: '1d2' },
+			{ name: 'Infernal Ichor', description: 'Corrosive blood of fiendish origin', value: 25, craftingTags: ['alchemy', 'poison'], harvestDC: 15, yield: '1d3' },
+			{ name: 'Hellfire Shard', description: 'Fragment of eternal flame', value: 50, craftingTags: ['enchanting', 'alchemy'], harvestDC: 18, yield: '1d1' }
+		]
+	},
+	{
+		monsterType: 'aberration',
+		label: 'Aberration',
+		path: null,
+		materials: [
+			{ name: 'Aberrant Tentacle', description: 'Writhing appendage with strange properties', value: 20, craftingTags: ['alchemy', 'enchanting'], harvestDC: 16, yield: '1d4' },
+			{ name: 'Mind Crystal', description: 'Psionic residue crystallized', value: 45, craftingTags: ['enchanting', 'psionic'], harvestDC: 18, yield: '1d1' },
+			{ name: 'Void Essence', description: 'Dark substance from beyond reality', value: 60, craftingTags: ['enchanting', 'necromancy'], harvestDC: 20, yield: '1d2' }
+		]
+	}
+];
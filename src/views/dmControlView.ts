@@ -1,9 +1,10 @@
 import { ItemView, WorkspaceLeaf, TFile, Notice } from 'obsidian';
-import { ShopData, ShopInventoryItem } from '../types';
+import { ShopData, ShopInventoryItem, LedgerEntry, RestockResult, ShopSnapshot, PartyData, WalletChange, CharacterData, CharacterChange, ConsumedDeal, PendingOrder, HaggleSkill, LineTotal, ItemData } from '../types';
 import ShopboardPlugin from '../main';
 import { AddItemModal } from '../modals/addItemModal';
 import { BuyItemModal } from '../modals/buyItemModal';
 import { RestockModal } from '../modals/restockModal';
+import { HaggleModal } from '../modals/haggleModal';
 
 /**
  * View type identifier for DM control panel
@@ -26,6 +27,9 @@ export class DMControlView extends ItemView {
 	private isUpdating: boolean = false;
 	private searchQuery: string = '';
 	private searchInputCursorPosition: number | null = null;
+	private buyerName: string = '';
+	private characters: CharacterData[] = [];
+	private saleCharacterPath: string = '';
 
 	constructor(leaf: WorkspaceLeaf, plugin: ShopboardPlugin) {
 		super(leaf);
@@ -130,6 +134,48 @@ export class DMControlView extends ItemView {
 			})
 		);
 
+		// Refresh the wallet display when the active party note changes
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file) => {
+				if (this.currentShop && file.path === this.plugin.settings.activePartyPath && !this.isUpdating) {
+					this.render();
+				}
+			})
+		);
+
+		// Listen for player orders placed from the shop display
+		this.registerEvent(
+			this.app.workspace.on('shopboard:orders-updated', () => {
+				if (this.currentShop && !this.isUpdating) {
+					this.render();
+				}
+			})
+		);
+
+		// Listen for ledger updates (new transactions, undo, new session)
+		this.registerEvent(
+			this.app.workspace.on('shopboard:ledger-updated', async () => {
+				// Edits in progress re-sync once they finish
+				if (this.isUpdating) {
+					return;
+				}
+
+				if (this.currentShop?.dynamicPricing && this.currentShopFile) {
+					// Supply-and-demand prices follow recent sales
+					await this.syncWithShop(this.currentShopFile);
+				} else {
+					this.render();
+				}
+			})
+		);
+
+		// Listen for campaign calendar changes
+		this.registerEvent(
+			this.app.workspace.on('shopboard:calendar-updated', () => {
+				this.render();
+			})
+		);
+
 		// Listen for item modification events
 		this.registerEvent(
 			this.app.workspace.on('shopboard:item-modified', async (itemPath: string) => {
@@ -149,6 +195,21 @@ export class DMControlView extends ItemView {
 				}
 			})
 		);
+
+		// Listen for settlement/region changes (regional price modifiers)
+		this.registerEvent(
+			this.app.workspace.on('shopboard:settlement-modified', async (settlementPath: string) => {
+				if (this.isUpdating) {
+					return;
+				}
+
+				const inRegion = this.currentShop?.regions?.some(region => region.path === settlementPath);
+
+				if (inRegion && this.currentShopFile) {
+					await this.syncWithShop(this.currentShopFile);
+				}
+			})
+		);
 	}
 
 	/**
@@ -260,11 +321,26 @@ export class DMControlView extends ItemView {
 		// Render control header
 		this.renderControlHeader(controlEl);
 
+		// Render haggle refusal banner
+		this.renderRefusalBanner(controlEl);
+
+		// Render shopkeeper lines
+		this.renderShopkeeperSection(controlEl);
+
+		// Render party wallet
+		this.renderPartyWalletSection(controlEl);
+
+		// Render pending player orders
+		this.renderPendingOrdersSection(controlEl);
+
 		// Render shop actions section
 		this.renderShopActionsSection(controlEl);
 
 		// Render inventory controls
 		this.renderInventoryControls(controlEl);
+
+		// Render transaction history
+		this.renderHistorySection(controlEl);
 	}
 
 	/**
@@ -297,6 +373,34 @@ export class DMControlView extends ItemView {
 			text: shopTypeLabel
 		});
 
+		// Settlement the shop belongs to
+		const regions = this.currentShop!.regions || [];
+		if (regions.length > 0) {
+			headerEl.createDiv({
+				cls: 'shop-region-label',
+				text: `📍 ${regions.map(region => region.name).join(' › ')}`
+			});
+		}
+
+		// Campaign day and restock schedule
+		const nextRestockDay = this.plugin.restockScheduler.getNextRestockDay(this.currentShop!);
+		const currentDay = this.plugin.restockScheduler.getCurrentDay();
+		headerEl.createDiv({
+			cls: 'shop-calendar-label',
+			text: nextRestockDay !== null
+				? `📅 Day ${currentDay} · next restock day ${Math.max(nextRestockDay, currentDay)}`
+				: `📅 Day ${currentDay}`
+		});
+
+		// Economy mode indicator
+		const dynamicPricing = this.currentShop!.dynamicPricing;
+		if (dynamicPricing) {
+			headerEl.createDiv({
+				cls: 'dynamic-pricing-label',
+				text: `📈 Dynamic pricing (×${dynamicPricing.min}–×${dynamicPricing.max})`
+			});
+		}
+
 		// Price modifier controls
 		this.renderPriceModifierControls(headerEl);
 
@@ -810,6 +914,383 @@ export class DMControlView extends ItemView {
 		generateImagesButton.addEventListener('click', async () => {
 			await this.handleGenerateImages(generateImagesButton);
 		});
+
+		// Undo/redo controls
+		this.renderUndoControls(actionsContainer);
+	}
+
+	/**
+	 * Render undo/redo buttons for inventory edits
+	 */
+	private renderUndoControls(container: HTMLElement): void {
+		const undoContainer = container.createDiv({ cls: 'undo-controls' });
+		const shopPath = this.currentShopFile!.path;
+
+		const undoLabel = this.plugin.inventoryHistory.peekUndo(shopPath);
+		const undoButton = undoContainer.createEl('button', {
+			text: '↶ Undo',
+			cls: 'btn-small undo-button',
+			attr: { title: undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo' }
+		});
+		undoButton.disabled = undoLabel === null;
+
+		undoButton.addEventListener('click', async () => {
+			undoButton.disabled = true;
+			await this.undo();
+		});
+
+		const redoLabel = this.plugin.inventoryHistory.peekRedo(shopPath);
+		const redoButton = undoContainer.createEl('button', {
+			text: '↷ Redo',
+			cls: 'btn-small redo-button',
+			attr: { title: redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo' }
+		});
+		redoButton.disabled = redoLabel === null;
+
+		redoButton.addEventListener('click', async () => {
+			redoButton.disabled = true;
+			await this.redo();
+		});
+
+		// Show what the next undo would revert
+		if (undoLabel) {
+			undoContainer.createSpan({
+				cls: 'undo-label',
+				text: `Last: ${undoLabel}`
+			});
+		}
+	}
+
+	/**
+	 * Render the active party and its coin purse
+	 */
+	private renderPartyWalletSection(container: HTMLElement): void {
+		const walletEl = container.createDiv({ cls: 'party-wallet-section' });
+
+		const selectRow = walletEl.createDiv({ cls: 'party-wallet-select-row' });
+		selectRow.createEl('label', { text: 'Party:', cls: 'party-wallet-label' });
+
+		const select = selectRow.createEl('select', { cls: 'dropdown party-wallet-select' });
+		select.createEl('option', { text: 'None (no wallet)', value: '' });
+
+		const parties = this.plugin.partyParser.getAllParties();
+		for (const party of parties) {
+			select.createEl('option', { text: party.name, value: party.path });
+		}
+		select.value = this.plugin.settings.activePartyPath;
+
+		select.addEventListener('change', async () => {
+			this.plugin.settings.activePartyPath = select.value;
+			await this.plugin.saveSettings();
+			this.render();
+		});
+
+		const active = this.getActiveParty();
+		if (!active) {
+			if (this.plugin.settings.activePartyPath) {
+				walletEl.createDiv({
+					cls: 'party-wallet-missing',
+					text: 'Selected party note not found or invalid'
+				});
+			}
+			return;
+		}
+
+		// Balance and coin breakdown
+		const balance = this.plugin.partyWallet.getBalance(active.party.purse);
+		const balanceEl = walletEl.createDiv({ cls: 'party-wallet-balance' });
+		balanceEl.createSpan({
+			cls: 'party-wallet-total',
+			text: this.plugin.priceCalculator.formatCurrency(balance)
+		});
+
+		const coins = this.plugin.settings.currency.denominations
+			.filter(denom => (active.party.purse[denom.name] || 0) > 0)
+			.map(denom => `${active.party.purse[denom.name]} ${denom.name}`)
+			.join(', ');
+
+		balanceEl.createSpan({
+			cls: 'party-wallet-coins',
+			text: coins ? `(${coins})` : '(empty purse)'
+		});
+	}
+
+	/**
+	 * Render orders placed from the player cart, awaiting approval
+	 */
+	private renderPendingOrdersSection(container: HTMLElement): void {
+		const orders = this.plugin.orderQueue.getPending(this.currentShopFile!.path);
+
+		// Only show the queue for cart-mode shops or when orders are waiting
+		if (!this.currentShop!.cartMode && orders.length === 0) return;
+
+		const ordersEl = container.createDiv({ cls: 'pending-orders-section' });
+		ordersEl.createEl('h3', { text: `Pending Orders (${orders.length})` });
+
+		if (orders.length === 0) {
+			ordersEl.createDiv({ cls: 'pending-orders-empty', text: 'No orders waiting' });
+			return;
+		}
+
+		for (const order of orders) {
+			const orderEl = ordersEl.createDiv({ cls: 'pending-order' });
+
+			const headerEl = orderEl.createDiv({ cls: 'pending-order-header' });
+			headerEl.createSpan({
+				cls: 'pending-order-time',
+				text: new Date(order.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+			});
+			headerEl.createSpan({
+				cls: 'pending-order-total',
+				text: this.plugin.priceCalculator.formatCurrency(order.total)
+			});
+
+			const linesEl = orderEl.createEl('ul', { cls: 'pending-order-lines' });
+			for (const line of order.lines) {
+				linesEl.createEl('li', {
+					text: `${line.quantity}x ${this.plugin.shopParser.parseWikilink(line.itemRef)} (${this.plugin.priceCalculator.formatCurrency(line.total ?? line.unitPrice * line.quantity)})`
+				});
+			}
+
+			const buttonsEl = orderEl.createDiv({ cls: 'pending-order-buttons' });
+
+			const approveButton = buttonsEl.createEl('button', {
+				cls: 'btn-small btn-primary',
+				text: '✓ Approve'
+			});
+			approveButton.addEventListener('click', async () => {
+				await this.handleApproveOrder(order, approveButton);
+			});
+
+			const rejectButton = buttonsEl.createEl('button', {
+				cls: 'btn-small btn-danger',
+				text: '✗ Reject'
+			});
+			rejectButton.addEventListener('click', () => {
+				this.handleRejectOrder(order);
+			});
+		}
+	}
+
+	/**
+	 * Render the shopkeeper NPC with lines to show on the player display
+	 */
+	private renderShopkeeperSection(container: HTMLElement): void {
+		const shopkeeper = this.currentShop!.shopkeeper;
+		if (!shopkeeper) return;
+
+		const sectionEl = container.createDiv({ cls: 'shopkeeper-section' });
+		sectionEl.createEl('h3', { text: `Shopkeeper: ${shopkeeper.name}` });
+
+		const details = [
+			shopkeeper.race,
+			shopkeeper.disposition,
+			`Haggle DC ${this.plugin.haggleManager.getBaseDC(this.currentShop!)}`
+		].filter(Boolean);
+		sectionEl.createDiv({ cls: 'shopkeeper-details', text: details.join(' · ') });
+
+		// Greeting lines
+		const linesEl = sectionEl.createDiv({ cls: 'shopkeeper-lines' });
+		for (const line of shopkeeper.greetings) {
+			const lineEl = linesEl.createDiv({ cls: 'shopkeeper-line' });
+			lineEl.createSpan({ cls: 'shopkeeper-line-text', text: line });
+
+			const sayButton = lineEl.createEl('button', {
+				cls: 'btn-small',
+				text: '💬 Say'
+			});
+			sayButton.addEventListener('click', () => {
+				this.sayShopkeeperLine(line);
+			});
+		}
+
+		// Custom line
+		const customEl = sectionEl.createDiv({ cls: 'shopkeeper-custom-line' });
+		const input = customEl.createEl('input', {
+			type: 'text',
+			attr: { placeholder: 'Say something else...' }
+		});
+		const sayButton = customEl.createEl('button', {
+			cls: 'btn-small btn-primary',
+			text: '💬 Say'
+		});
+
+		const sayCustom = () => {
+			const line = input.value.trim();
+			if (!line) return;
+
+			this.sayShopkeeperLine(line);
+			input.value = '';
+		};
+		sayButton.addEventListener('click', sayCustom);
+		input.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter') {
+				sayCustom();
+			}
+		});
+	}
+
+	/**
+	 * Show a shopkeeper line on the player display
+	 */
+	private sayShopkeeperLine(line: string): void {
+		this.app.workspace.trigger('shopboard:shopkeeper-say', this.currentShopFile!.path, line);
+		new Notice(`${this.currentShop!.shopkeeper?.name || 'Shopkeeper'}: "${line}"`);
+	}
+
+	/**
+	 * Approve a player order, recording every line as a sale
+	 */
+	private async handleApproveOrder(order: PendingOrder, button: HTMLButtonElement): Promise<void> {
+		if (this.isShopkeeperRefusing()) return;
+
+		// Match order lines to current inventory
+		const lines: Array<{ itemIndex: number; quantity: number }> = [];
+		for (const line of order.lines) {
+			const itemIndex = this.currentShop!.inventory.findIndex(invItem => invItem.itemRef === line.itemRef);
+			const itemName = this.plugin.shopParser.parseWikilink(line.itemRef);
+
+			if (itemIndex === -1 || this.currentShop!.inventory[itemIndex].quantity < line.quantity) {
+				new Notice(`Not enough ${itemName} in stock for this order. Restock or reject it.`);
+				return;
+			}
+
+			lines.push({ itemIndex, quantity: line.quantity });
+		}
+
+		// Check the party can pay
+		const activeParty = this.getActiveParty();
+		let allowShortfall = false;
+		if (activeParty) {
+			const funds = this.checkPartyFunds(activeParty.party, order.total);
+			if (funds === null) return;
+			allowShortfall = funds.allowShortfall;
+
+			const weight = lines.reduce((sum, line) =>
+				sum + line.quantity * this.plugin.encumbranceCalculator.getItemWeight(this.currentShop!.inventory[line.itemIndex].itemData), 0);
+			this.warnIfOverCapacity(null, activeParty.party, weight);
+		}
+
+		// Set updating flag to prevent race conditions
+		this.isUpdating = true;
+
+		// Disable button during processing
+		button.disabled = true;
+		button.textContent = 'Recording...';
+
+		try {
+			const before = await this.plugin.inventoryHistory.capture(this.currentShopFile!);
+
+			// Record all lines in a single write
+			const walletChange = await this.plugin.purchaseHandler.recordPurchases(
+				this.currentShopFile!,
+				lines,
+				activeParty ? { partyFile: activeParty.file, amount: order.total, allowShortfall } : null
+			);
+
+			this.plugin.orderQueue.approve(order.id);
+
+			new Notice(`Order approved: ${this.plugin.priceCalculator.formatCurrency(order.total)}`);
+
+			// Record the sales in the ledger at the prices the players saw
+			const ledgerEntries = await this.recordTransactions(order.lines.map(line => ({
+				shopPath: this.currentShopFile!.path,
+				shopName: this.currentShop!.name,
+				itemRef: line.itemRef,
+				quantity: line.quantity,
+				unitPrice: line.unitPrice,
+				total: line.total,
+				direction: 'sell' as const,
+				buyer: this.buyerName || undefined
+			})));
+
+			await this.recordHistory(
+				`Approve order (${order.lines.length} item${order.lines.length === 1 ? '' : 's'})`,
+				before,
+				ledgerEntries,
+				walletChange ?? undefined
+			);
+
+			// Re-sync to update display
+			await this.syncWithShop(this.currentShopFile!);
+
+		} catch (error) {
+			console.error('Error approving order:', error);
+			new Notice('Failed to approve order. See console for details.');
+
+			// Re-enable button on error
+			button.disabled = false;
+			button.textContent = '✓ Approve';
+		} finally {
+			this.isUpdating = false;
+		}
+	}
+
+	/**
+	 * Reject a player order
+	 */
+	private handleRejectOrder(order: PendingOrder): void {
+		try {
+			this.plugin.orderQueue.reject(order.id);
+			new Notice('Order rejected');
+		} catch (error) {
+			console.error('Error rejecting order:', error);
+			new Notice('Failed to reject order. See console for details.');
+		}
+	}
+
+	/**
+	 * Check whether the party can pay, applying the insufficient funds setting
+	 * @returns null if the sale must be refused, otherwise whether to allow a shortfall
+	 */
+	private checkPartyFunds(party: PartyData, totalPrice: number): { allowShortfall: boolean } | null {
+		if (this.plugin.partyWallet.canAfford(party.purse, totalPrice)) {
+			return { allowShortfall: false };
+		}
+
+		const balanceText = this.plugin.priceCalculator.formatCurrency(
+			this.plugin.partyWallet.getBalance(party.purse)
+		);
+		const priceText = this.plugin.priceCalculator.formatCurrency(totalPrice);
+
+		if (this.plugin.settings.insufficientFundsMode === 'refuse') {
+			new Notice(`${party.name} can't afford ${priceText} (has ${balanceText}). Sale refused.`);
+			return null;
+		}
+
+		new Notice(`Warning: ${party.name} can't afford ${priceText} (has ${balanceText}). Purse emptied.`);
+		return { allowShortfall: true };
+	}
+
+	/**
+	 * Get the active party note and its parsed data
+	 */
+	private getActiveParty(): { file: TFile; party: PartyData } | null {
+		const partyPath = this.plugin.settings.activePartyPath;
+		if (!partyPath) return null;
+
+		const file = this.app.vault.getAbstractFileByPath(partyPath);
+		if (!(file instanceof TFile)) return null;
+
+		const party = this.plugin.partyParser.parsePartyNote(file);
+		return party ? { file, party } : null;
+	}
+
+	/**
+	 * Warn when a purchase takes a character or the party over their carrying capacity
+	 * @param character Buying character, if any
+	 * @param party Paying party, if any (used when no character buys)
+	 * @param weight Weight of the purchase in pounds
+	 */
+	private warnIfOverCapacity(character: CharacterData | null, party: PartyData | null, weight: number): void {
+		const calculator = this.plugin.encumbranceCalculator;
+		const encumbrance = character
+			? calculator.getCharacterEncumbrance(character, weight)
+			: party ? this.plugin.getPartyEncumbrance(party, weight) : null;
+
+		if (encumbrance && calculator.isOverCapacity(encumbrance)) {
+			new Notice(`Warning: ${encumbrance.name} can't carry this (${encumbrance.load} of ${encumbrance.capacity} lbs)`);
+		}
 	}
 
 	/**
@@ -843,8 +1324,10 @@ export class DMControlView extends ItemView {
 			this.plugin.settings,
 			this.plugin.priceCalculator,
 			this.currentShop.priceModifier,
-			async (itemRef: string, quantity: number) => {
-				await this.handleAddItem(itemRef, quantity, null);
+			(item: ItemData) => this.plugin.shopParser.getBulkRulesForItem(this.currentShop?.bulkRules || [], item),
+			(item: ItemData, buyModifier: number) => this.plugin.shopParser.getPriceSteps(this.currentShop?.regions || [], buyModifier, item),
+			async (itemRef: string, quantity: number, unitPrice: number, total: number) => {
+				await this.handleAddItem(itemRef, quantity, null, unitPrice, total);
 			}
 		);
 		modal.open();
@@ -873,16 +1356,22 @@ export class DMControlView extends ItemView {
 
 	/**
 	 * Handle adding an item to the shop
+	 * @param buyPrice Unit price paid to the party when the shop bought the item (null when added by the DM)
+	 * @param buyTotal Total paid to the party after bulk rules (defaults to buyPrice × quantity)
 	 */
 	private async handleAddItem(
 		itemRef: string,
 		quantity: number,
-		priceOverride: number | null
+		priceOverride: number | null,
+		buyPrice: number | null = null,
+		buyTotal: number | null = null
 	): Promise<void> {
 		// Set updating flag to prevent race conditions
 		this.isUpdating = true;
 
 		try {
+			const before = await this.plugin.inventoryHistory.capture(this.currentShopFile!);
+
 			// Check if item already exists in inventory
 			const existingItemIndex = this.currentShop!.inventory.findIndex(
 				invItem => invItem.itemRef === itemRef
@@ -912,6 +1401,41 @@ export class DMControlView extends ItemView {
 				new Notice(`Added ${itemRef} to shop (qty: ${quantity})`);
 			}
 
+			// Pay the party for items bought from them
+			let walletChange: WalletChange | undefined;
+			const activeParty = buyPrice !== null ? this.getActiveParty() : null;
+			if (activeParty && buyPrice !== null) {
+				try {
+					walletChange = await this.plugin.partyWallet.credit(activeParty.file, buyTotal ?? buyPrice * quantity);
+				} catch (error) {
+					console.error('Error crediting party wallet:', error);
+					new Notice('Failed to credit party wallet. See console for details.');
+				}
+			}
+
+			// Record the buy-back in the ledger
+			let ledgerEntries: LedgerEntry[] = [];
+			if (buyPrice !== null) {
+				ledgerEntries = await this.recordTransactions([{
+					shopPath: this.currentShopFile!.path,
+					shopName: this.currentShop!.name,
+					itemRef,
+					quantity,
+					unitPrice: buyPrice,
+					total: buyTotal !== null && buyTotal !== buyPrice * quantity ? buyTotal : undefined,
+					direction: 'buy',
+					buyer: this.buyerName || undefined
+				}]);
+			}
+
+			const itemName = this.plugin.shopParser.parseWikilink(itemRef);
+			await this.recordHistory(
+				`${buyPrice !== null ? 'Buy' : 'Add'} ${quantity}x ${itemName}`,
+				before,
+				ledgerEntries,
+				walletChange
+			);
+
 			// Re-sync to update display
 			await this.syncWithShop(this.currentShopFile!);
 
@@ -926,17 +1450,33 @@ export class DMControlView extends ItemView {
 	/**
 	 * Handle restocking the shop
 	 */
-	private async handleRestock(result: any): Promise<void> {
+	private async handleRestock(result: RestockResult): Promise<void> {
 		// Set updating flag to prevent race conditions
 		this.isUpdating = true;
 
 		try {
+			const before = await this.plugin.inventoryHistory.capture(this.currentShopFile!);
+
+			// Work out incoming stock before the inventory is replaced
+			const restockEntries = this.plugin.restockScheduler.getRestockEntries(this.currentShop!, result);
+
 			// Update the shop's inventory in the frontmatter
+			// With dynamic pricing, restocked quantities become the new baselines
 			await this.plugin.shopModifier.updateInventory(
 				this.currentShopFile!,
-				result.inventory
+				this.currentShop!.dynamicPricing
+					? result.inventory.map(item => ({ ...item, baselineQuantity: item.quantity }))
+					: result.inventory
 			);
 
+			// Record incoming stock in the ledger
+			let ledgerEntries: LedgerEntry[] = [];
+			if (restockEntries.length > 0) {
+				ledgerEntries = await this.recordTransactions(restockEntries);
+			}
+
+			await this.recordHistory('Restock shop', before, ledgerEntries);
+
 			// Re-sync to update display
 			await this.syncWithShop(this.currentShopFile!);
 
@@ -949,34 +1489,156 @@ export class DMControlView extends ItemView {
 	}
 
 	/**
-	 * Handle generating images for all items in the shop
+	 * Record transactions in the ledger
+	 * Ledger failures are reported but never undo the inventory change
+	 * @returns The recorded entries (empty if recording failed)
 	 */
-	private async handleGenerateImages(button: HTMLButtonElement): Promise<void> {
-		// Check if API key is configured
-		if (!this.plugin.imageGenerator.isConfigured()) {
-			new Notice('OpenAI API key not configured. Please add your API key in Shopboard settings.');
-			return;
+	private async recordTransactions(
+		entries: Array<Omit<LedgerEntry, 'id' | 'timestamp' | 'session'>>
+	): Promise<LedgerEntry[]> {
+		try {
+			return await this.plugin.ledger.recordTransactions(entries);
+		} catch (error) {
+			console.error('Error recording transaction:', error);
+			new Notice('Failed to update transaction ledger. See console for details.');
+			return [];
 		}
+	}
 
-		// Check if shop has any items
-		if (!this.currentShop || this.currentShop.inventory.length === 0) {
-			new Notice('No items in shop to generate images for.');
-			return;
+	/**
+	 * Push a completed edit onto the undo stack
+	 * History failures are logged but never fail the edit itself
+	 */
+	private async recordHistory(
+		label: string,
+		before: ShopSnapshot,
+		ledgerEntries: LedgerEntry[] = [],
+		walletChange?: WalletChange,
+		characterChange?: CharacterChange,
+		consumedDeals: ConsumedDeal[] = []
+	): Promise<void> {
+		try {
+			await this.plugin.inventoryHistory.record(
+				this.currentShopFile!,
+				label,
+				before,
+				ledgerEntries,
+				walletChange,
+				characterChange ? [characterChange] : [],
+				consumedDeals
+			);
+		} catch (error) {
+			console.error('Error recording undo history:', error);
 		}
+	}
+
+	/**
+	 * Get the shop note the panel is showing, if any
+	 */
+	getCurrentShopFile(): TFile | null {
+		return this.currentShopFile;
+	}
+
+	/**
+	 * Check if the active shop has an edit to undo
+	 */
+	canUndo(): boolean {
+		return !!this.currentShopFile && !this.isUpdating &&
+			this.plugin.inventoryHistory.peekUndo(this.currentShopFile.path) !== null;
+	}
+
+	/**
+	 * Check if the active shop has an edit to redo
+	 */
+	canRedo(): boolean {
+		return !!this.currentShopFile && !this.isUpdating &&
+			this.plugin.inventoryHistory.peekRedo(this.currentShopFile.path) !== null;
+	}
+
+	/**
+	 * Undo the most recent inventory edit for the active shop
+	 */
+	async undo(): Promise<void> {
+		if (!this.canUndo()) return;
 
 		// Set updating flag to prevent race conditions
 		this.isUpdating = true;
 
-		// Disable button during processing
-		button.disabled = true;
-		const originalText = button.textContent;
-		button.textContent = 'Generating...';
-
 		try {
-			// Collect all unique item files that have valid item data
-			const itemFiles = new Map<string, TFile>();
+			const entry = await this.plugin.inventoryHistory.undo(this.currentShopFile!);
 
-			for (const invItem of this.currentShop.inventory) {
+			if (entry) {
+				new Notice(`Undone: ${entry.label}`);
+			}
+
+			// Re-sync to update display
+			await this.syncWithShop(this.currentShopFile!);
+
+		} catch (error) {
+			console.error('Error undoing inventory edit:', error);
+			new Notice('Failed to undo. See console for details.');
+		} finally {
+			this.isUpdating = false;
+		}
+	}
+
+	/**
+	 * Redo the most recently undone inventory edit for the active shop
+	 */
+	async redo(): Promise<void> {
+		if (!this.canRedo()) return;
+
+		// Set updating flag to prevent race conditions
+		this.isUpdating = true;
+
+		try {
+			const entry = await this.plugin.inventoryHistory.redo(this.currentShopFile!);
+
+			if (entry) {
+				new Notice(`Redone: ${entry.label}`);
+			}
+
+			// Re-sync to update display
+			await this.syncWithShop(this.currentShopFile!);
+
+		} catch (error) {
+			console.error('Error redoing inventory edit:', error);
+			new Notice('Failed to redo. See console for details.');
+		} finally {
+			this.isUpdating = false;
+		}
+	}
+
+	/**
+	 * Handle generating images for all items in the shop
+	 * Items go through the image queue, which shows per-item progress
+	 */
+	private async handleGenerateImages(button: HTMLButtonElement): Promise<void> {
+		// Check if the image provider is configured
+		if (!this.plugin.imageGenerator.isConfigured()) {
+			new Notice(this.plugin.imageGenerator.getSetupHint());
+			return;
+		}
+
+		// Check if shop has any items
+		if (!this.currentShop || this.currentShop.inventory.length === 0) {
+			new Notice('No items in shop to generate images for.');
+			return;
+		}
+
+		// Set updating flag to prevent race conditions
+		this.isUpdating = true;
+
+		// Disable button during processing
+		button.disabled = true;
+		const originalText = button.textContent;
+		button.textContent = 'Generating...';
+
+		try {
+			// Collect all unique item files that have valid item data
+			const itemFiles = new Map<string, TFile>();
+
+			for (const invItem of this.currentShop.inventory) {
 				if (invItem.itemData) {
 					// Get the TFile - either from itemData.file or by looking up the path
 					let itemFile = invItem.itemData.file;
@@ -1002,40 +1664,13 @@ export class DMControlView extends ItemView {
 				return;
 			}
 
-			new Notice(`Generating images for ${itemFiles.size} item(s)...`);
+			// Queue the items so progress, retries and the per-run limit apply
+			await this.plugin.imageQueue.enqueue(Array.from(itemFiles.values()), this.getShopTheme());
+			this.plugin.openImageQueueModal();
 
-			// Generate images for each unique item
-			let successCount = 0;
-			let failCount = 0;
-			let current = 0;
-			const total = itemFiles.size;
-
-			for (const [filePath, itemFile] of itemFiles.entries()) {
-				current++;
-				button.textContent = `Generating ${current}/${total}...`;
-
-				try {
-					const result = await this.plugin.imageGenerator.generateImageForItem(itemFile);
-					if (result) {
-						successCount++;
-						// Refresh the item cache so the new image appears immediately
-						await this.plugin.itemParser.refreshItem(itemFile);
-					} else {
-						failCount++;
-					}
-				} catch (error) {
-					console.error(`Error generating image for ${itemFile.basename}:`, error);
-					failCount++;
-				}
-			}
-
-			// Show summary
-			if (successCount > 0 && failCount === 0) {
-				new Notice(`Successfully generated ${successCount} image(s)!`);
-			} else if (successCount > 0 && failCount > 0) {
-				new Notice(`Generated ${successCount} image(s), ${failCount} failed.`);
-			} else {
-				new Notice(`Failed to generate images. Check console for details.`);
+			const result = await this.plugin.runImageQueue();
+			if (!result) {
+				return;
 			}
 
 			// Re-sync to update display with new images
@@ -1052,6 +1687,14 @@ export class DMControlView extends ItemView {
 		}
 	}
 
+	/**
+	 * Get the theme of the current shop, used to pick image prompt overrides
+	 */
+	private getShopTheme(): string | null {
+		if (!this.currentShop) return null;
+		return this.plugin.settings.shopTypes[this.currentShop.shopType]?.theme || null;
+	}
+
 	/**
 	 * Handle generating an image for a single item
 	 */
@@ -1062,9 +1705,9 @@ export class DMControlView extends ItemView {
 			return;
 		}
 
-		// Check if API key is configured
+		// Check if the image provider is configured
 		if (!this.plugin.imageGenerator.isConfigured()) {
-			new Notice('OpenAI API key not configured. Please add your API key in Shopboard settings.');
+			new Notice(this.plugin.imageGenerator.getSetupHint());
 			return;
 		}
 
@@ -1091,7 +1734,7 @@ export class DMControlView extends ItemView {
 		button.textContent = '⏳';
 
 		try {
-			const result = await this.plugin.imageGenerator.generateImageForItem(itemFile);
+			const result = await this.plugin.imageGenerator.generateImageForItem(itemFile, this.getShopTheme());
 
 			if (result) {
 				new Notice(`Successfully generated image for ${invItem.itemData.name}!`);
@@ -1130,6 +1773,9 @@ export class DMControlView extends ItemView {
 			return;
 		}
 
+		// Load player characters for per-character sales
+		this.characters = this.plugin.characterParser.getAllCharacters();
+
 		// Add search field
 		const searchContainer = inventoryEl.createDiv({ cls: 'inventory-search-container' });
 		const searchInput = searchContainer.createEl('input', {
@@ -1166,6 +1812,22 @@ export class DMControlView extends ItemView {
 			});
 		}
 
+		// Buyer name for recorded sales
+		const buyerContainer = inventoryEl.createDiv({ cls: 'buyer-container' });
+		buyerContainer.createEl('label', {
+			text: 'Buyer:',
+			cls: 'buyer-label'
+		});
+		const buyerInput = buyerContainer.createEl('input', {
+			type: 'text',
+			cls: 'buyer-input',
+			placeholder: 'Optional (e.g., Thorin)',
+			value: this.buyerName
+		});
+		buyerInput.addEventListener('change', () => {
+			this.buyerName = buyerInput.value.trim();
+		});
+
 		// Filter items by search query
 		const filteredInventory = this.currentShop!.inventory
 			.map((invItem, index) => ({ invItem, index }))
@@ -1239,6 +1901,19 @@ export class DMControlView extends ItemView {
 	private renderItemRow(tbody: HTMLElement, invItem: ShopInventoryItem, index: number, category: string): void {
 		const row = tbody.createEl('tr', { cls: 'inventory-item-row' });
 
+		// Plain lines (e.g. gems sold from loot) have a price and stock but no item note
+		if (!invItem.itemData && !this.plugin.shopParser.isItemLink(invItem.itemRef)) {
+			row.createEl('td', { text: invItem.itemRef, cls: 'item-name-cell' });
+			row.createEl('td', { text: category, cls: 'category-cell' });
+			row.createEl('td', { text: this.plugin.priceCalculator.formatCurrency(invItem.calculatedPrice), cls: 'price-cell' });
+			this.renderStockControls(row.createEl('td', { cls: 'stock-cell' }), invItem, index);
+
+			const actionsCell = row.createEl('td', { cls: 'actions-cell' });
+			this.renderSaleControls(actionsCell, invItem, index);
+			this.renderRemoveButton(actionsCell, invItem, index);
+			return;
+		}
+
 		// Handle missing item data
 		if (!invItem.itemData) {
 			row.addClass('item-missing');
@@ -1274,12 +1949,96 @@ export class DMControlView extends ItemView {
 		// Category column
 		row.createEl('td', { text: category, cls: 'category-cell' });
 
-		// Price column
+		// Price column (shows the haggled price when a deal is pending)
 		const priceText = this.plugin.priceCalculator.formatCurrency(invItem.calculatedPrice);
-		row.createEl('td', { text: priceText, cls: 'price-cell' });
+		const deal = this.plugin.haggleManager.getDeal(this.currentShopFile!.path, invItem.itemRef);
+		const priceCell = row.createEl('td', { cls: 'price-cell' });
+
+		if (deal && deal.modifier !== 0) {
+			priceCell.addClass('price-cell-haggled');
+			priceCell.createSpan({ cls: 'price-original', text: priceText });
+			priceCell.createSpan({
+				cls: 'price-haggled',
+				text: this.plugin.priceCalculator.formatCurrency(
+					this.plugin.priceCalculator.applyAdjustment(invItem.calculatedPrice, deal.modifier)
+				)
+			});
+			priceCell.createDiv({ cls: 'price-deal-label', text: deal.label });
+		} else {
+			priceCell.setText(priceText);
+		}
+
+		// Base price versus current dynamic price
+		if (invItem.staticPrice !== undefined && invItem.priceMultiplier !== undefined && invItem.priceMultiplier !== 1) {
+			const trend = invItem.priceMultiplier > 1 ? 'up' : 'down';
+			priceCell.createDiv({
+				cls: `price-dynamic price-dynamic-${trend}`,
+				text: `${trend === 'up' ? '▲' : '▼'} base ${this.plugin.priceCalculator.formatCurrency(invItem.staticPrice)} ×${invItem.priceMultiplier}`
+			});
+		}
+
+		// Regional modifiers at a glance
+		const steps = invItem.priceSteps || [];
+		if ((this.currentShop!.regions || []).length > 0 && steps.length > 0) {
+			priceCell.createDiv({
+				cls: 'price-derivation',
+				text: steps.map(step => `${step.label} ${this.formatModifier(step.modifier)}`).join(' · ')
+			});
+		}
+
+		// Full derivation on hover
+		priceCell.addClass('price-cell-derived');
+		priceCell.setAttr('title', this.getPriceDerivation(invItem).join('\n'));
 
 		// Stock column with controls
-		const stockCell = row.createEl('td', { cls: 'stock-cell' });
+		this.renderStockControls(row.createEl('td', { cls: 'stock-cell' }), invItem, index);
+
+		// Actions column
+		const actionsCell = row.createEl('td', { cls: 'actions-cell' });
+
+		// Info button (first action)
+		const infoButtonClass = this.selectedItemPath === item.path
+			? 'btn-small btn-info btn-info-active'
+			: 'btn-small btn-info';
+		const infoButton = actionsCell.createEl('button', {
+			cls: infoButtonClass,
+			text: 'ℹ️',
+			attr: { title: 'More Info' }
+		});
+		infoButton.addEventListener('click', () => {
+			this.handleShowItemDetail(invItem);
+		});
+
+		// Generate Image button
+		const generateImageButton = actionsCell.createEl('button', {
+			cls: 'btn-small btn-generate-image',
+			text: '🎨',
+			attr: { title: 'Generate Image' }
+		});
+		generateImageButton.addEventListener('click', async () => {
+			await this.handleGenerateItemImage(invItem, generateImageButton);
+		});
+
+		// Haggle button (only if item is in stock)
+		if (invItem.quantity > 0) {
+			const haggleButton = actionsCell.createEl('button', {
+				cls: 'btn-small btn-haggle',
+				text: '🤝',
+				attr: { title: 'Haggle' }
+			});
+			haggleButton.addEventListener('click', () => {
+				this.openHaggleModal(invItem);
+			});
+		}
+
+		this.renderSaleControls(actionsCell, invItem, index);
+		this.renderRemoveButton(actionsCell, invItem, index);
+	}
+
+	/**
+	 * Render the stock count with − and + buttons
+	 */
+	private renderStockControls(stockCell: HTMLElement, invItem: ShopInventoryItem, index: number): void {
 		const stockControls = stockCell.createDiv({ cls: 'stock-controls-inline' });
 
 		// Decrement button
@@ -1310,58 +2069,76 @@ export class DMControlView extends ItemView {
 		incrementButton.addEventListener('click', async () => {
 			await this.handleStockIncrement(index, invItem, incrementButton);
 		});
+	}
 
-		// Actions column
-		const actionsCell = row.createEl('td', { cls: 'actions-cell' });
+	/**
+	 * Render the quantity, buyer and Sell controls (only if the item is in stock)
+	 */
+	private renderSaleControls(actionsCell: HTMLElement, invItem: ShopInventoryItem, index: number): void {
+		if (invItem.quantity <= 0) return;
 
-		// Info button (first action)
-		const infoButtonClass = this.selectedItemPath === item.path
-			? 'btn-small btn-info btn-info-active'
-			: 'btn-small btn-info';
-		const infoButton = actionsCell.createEl('button', {
-			cls: infoButtonClass,
-			text: 'ℹ️',
-			attr: { title: 'More Info' }
-		});
-		infoButton.addEventListener('click', () => {
-			this.handleShowItemDetail(invItem);
+		const quantityInput = actionsCell.createEl('input', {
+			type: 'number',
+			cls: 'input-small qty-input',
+			attr: {
+				min: '1',
+				max: invItem.quantity.toString(),
+				value: '1',
+				title: 'Quantity to sell'
+			}
 		});
 
-		// Generate Image button
-		const generateImageButton = actionsCell.createEl('button', {
-			cls: 'btn-small btn-generate-image',
-			text: '🎨',
-			attr: { title: 'Generate Image' }
-		});
-		generateImageButton.addEventListener('click', async () => {
-			await this.handleGenerateItemImage(invItem, generateImageButton);
-		});
+		// Line total preview for multi-quantity sales
+		const lineTotalEl = actionsCell.createSpan({ cls: 'line-total-preview' });
+		const updateLineTotal = () => {
+			const quantity = parseInt(quantityInput.value);
+			lineTotalEl.empty();
 
-		// Purchase controls (only if item is in stock)
-		if (invItem.quantity > 0) {
-			const quantityInput = actionsCell.createEl('input', {
-				type: 'number',
-				cls: 'input-small qty-input',
-				attr: {
-					min: '1',
-					max: invItem.quantity.toString(),
-					value: '1',
-					title: 'Quantity to sell'
-				}
-			});
+			if (isNaN(quantity) || quantity < 2) return;
 
-			const recordButton = actionsCell.createEl('button', {
-				cls: 'btn-small btn-primary',
-				text: 'Sell',
-				attr: { title: 'Record sale' }
+			const lineTotal = this.getSaleLineTotal(invItem, quantity);
+			lineTotalEl.setText(`= ${this.plugin.priceCalculator.formatCurrency(lineTotal.total)}`);
+			lineTotalEl.toggleClass('line-total-discounted', lineTotal.label !== null);
+			if (lineTotal.label) {
+				lineTotalEl.setAttr('title', `Bulk deal: ${lineTotal.label}`);
+			}
+		};
+		quantityInput.addEventListener('input', updateLineTotal);
+
+		// Character to sell to (defaults to the party wallet)
+		let characterSelect: HTMLSelectElement | null = null;
+		if (this.characters.length > 0) {
+			characterSelect = actionsCell.createEl('select', {
+				cls: 'dropdown sale-character-select',
+				attr: { title: 'Sell to character' }
 			});
-			recordButton.addEventListener('click', async () => {
-				const quantity = parseInt(quantityInput.value);
-				await this.handlePurchase(index, quantity, recordButton, quantityInput);
+			characterSelect.createEl('option', { text: 'Party', value: '' });
+			for (const character of this.characters) {
+				characterSelect.createEl('option', { text: character.name, value: character.path });
+			}
+			characterSelect.value = this.saleCharacterPath;
+
+			characterSelect.addEventListener('change', () => {
+				// Remember the choice for the next sale
+				this.saleCharacterPath = characterSelect!.value;
 			});
 		}
 
-		// Remove button
+		const recordButton = actionsCell.createEl('button', {
+			cls: 'btn-small btn-primary',
+			text: 'Sell',
+			attr: { title: 'Record sale' }
+		});
+		recordButton.addEventListener('click', async () => {
+			const quantity = parseInt(quantityInput.value);
+			await this.handlePurchase(index, quantity, recordButton, quantityInput, characterSelect?.value || '');
+		});
+	}
+
+	/**
+	 * Render the button that removes an item from the shop
+	 */
+	private renderRemoveButton(actionsCell: HTMLElement, invItem: ShopInventoryItem, index: number): void {
 		const removeButton = actionsCell.createEl('button', {
 			cls: 'btn-small btn-danger',
 			text: '🗑️',
@@ -1372,6 +2149,139 @@ export class DMControlView extends ItemView {
 		});
 	}
 
+	/**
+	 * Describe how an item's price was derived, one step per line
+	 * Base price → region/settlement/shop modifiers (or override) → supply and demand → bulk deals
+	 */
+	private getPriceDerivation(invItem: ShopInventoryItem): string[] {
+		const calculator = this.plugin.priceCalculator;
+		const lines: string[] = [];
+
+		if (invItem.priceOverride !== null) {
+			lines.push(`Price override: ${calculator.formatCurrency(invItem.priceOverride)}`);
+		} else if (invItem.itemData) {
+			lines.push(`Base: ${calculator.formatCurrency(invItem.itemData.basePrice)}`);
+			for (const step of invItem.priceSteps || []) {
+				lines.push(`${step.label}: ${this.formatModifier(step.modifier)}`);
+			}
+		}
+
+		if (invItem.priceMultiplier !== undefined && invItem.priceMultiplier !== 1) {
+			lines.push(`Supply & demand: ×${invItem.priceMultiplier}`);
+		}
+
+		lines.push(`= ${calculator.formatCurrency(invItem.calculatedPrice)}`);
+
+		if (invItem.bulkRules && invItem.bulkRules.length > 0) {
+			lines.push(`Bulk: ${invItem.bulkRules.map(rule => calculator.formatBulkRule(rule)).join(', ')}`);
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Format a percentage modifier with its sign (e.g., "+30%", "-10%")
+	 */
+	private formatModifier(modifier: number): string {
+		return modifier >= 0 ? `+${modifier}%` : `${modifier}%`;
+	}
+
+	/**
+	 * Price a sale line: pending haggle deal on the unit price, then bulk discounts
+	 */
+	private getSaleLineTotal(invItem: ShopInventoryItem, quantity: number): LineTotal {
+		const deal = this.plugin.haggleManager.getDeal(this.currentShopFile!.path, invItem.itemRef);
+		const unitPrice = deal
+			? this.plugin.priceCalculator.applyAdjustment(invItem.calculatedPrice, deal.modifier)
+			: invItem.calculatedPrice;
+
+		return this.plugin.priceCalculator.calculateLineTotal(unitPrice, quantity, invItem.bulkRules);
+	}
+
+	/**
+	 * Render a banner while the shopkeeper refuses to trade after a failed haggle
+	 */
+	private renderRefusalBanner(container: HTMLElement): void {
+		const refusalEnd = this.plugin.haggleManager.getRefusalEnd(this.currentShopFile!.path);
+		if (refusalEnd === null) return;
+
+		const bannerEl = container.createDiv({ cls: 'haggle-refusal-banner' });
+		bannerEl.createSpan({
+			text: `😠 The shopkeeper refuses to trade until ${new Date(refusalEnd).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+		});
+
+		const forgiveButton = bannerEl.createEl('button', {
+			cls: 'btn-small',
+			text: 'Forgive',
+			attr: { title: 'End the refusal now' }
+		});
+		forgiveButton.addEventListener('click', () => {
+			this.plugin.haggleManager.clearRefusal(this.currentShopFile!.path);
+			new Notice('The shopkeeper is willing to trade again');
+			this.render();
+		});
+	}
+
+	/**
+	 * Check for a haggle refusal, telling the DM if sales are blocked
+	 */
+	private isShopkeeperRefusing(): boolean {
+		if (!this.plugin.haggleManager.isRefusing(this.currentShopFile!.path)) {
+			return false;
+		}
+
+		new Notice('The shopkeeper refuses to trade right now. Wait it out or use Forgive.');
+		return true;
+	}
+
+	/**
+	 * Open haggle modal for an item
+	 */
+	private openHaggleModal(invItem: ShopInventoryItem): void {
+		if (this.isShopkeeperRefusing()) return;
+
+		const shopPath = this.currentShopFile!.path;
+
+		new HaggleModal(
+			this.app,
+			invItem.itemData?.name || invItem.itemRef,
+			this.plugin.priceCalculator.formatCurrency(invItem.calculatedPrice),
+			this.plugin.haggleManager.getDC(this.currentShop!, invItem.itemRef),
+			this.plugin.haggleManager.getAttempts(shopPath, invItem.itemRef),
+			(skill: HaggleSkill, roll: number) => {
+				this.handleHaggle(invItem, skill, roll);
+			}
+		).open();
+	}
+
+	/**
+	 * Resolve a haggle check and show the outcome
+	 */
+	private handleHaggle(invItem: ShopInventoryItem, skill: HaggleSkill, roll: number): void {
+		try {
+			const outcome = this.plugin.haggleManager.haggle(this.currentShop!, invItem.itemRef, skill, roll);
+			const itemName = invItem.itemData?.name || invItem.itemRef;
+			const checkText = `${roll} vs DC ${outcome.dc}`;
+
+			if (outcome.refused) {
+				new Notice(`${outcome.label} (${checkText}). The shopkeeper won't trade for ${this.plugin.settings.haggleRefusalMinutes} minutes.`);
+			} else if (outcome.modifier === 0) {
+				new Notice(`${outcome.label} (${checkText}). ${itemName} stays at full price.`);
+			} else {
+				const newPrice = this.plugin.priceCalculator.formatCurrency(
+					this.plugin.priceCalculator.applyAdjustment(invItem.calculatedPrice, outcome.modifier)
+				);
+				const sign = outcome.modifier > 0 ? '+' : '';
+				new Notice(`${outcome.label} (${checkText}): ${itemName} now ${newPrice} (${sign}${outcome.modifier}%)`);
+			}
+
+			this.render();
+
+		} catch (error) {
+			console.error('Error resolving haggle:', error);
+			new Notice('Failed to resolve haggle. See console for details.');
+		}
+	}
 
 	/**
 	 * Handle showing item detail
@@ -1398,12 +2308,14 @@ export class DMControlView extends ItemView {
 
 	/**
 	 * Handle purchase recording
+	 * @param characterPath Character note paying for and receiving the items (empty for the party wallet)
 	 */
 	private async handlePurchase(
 		itemIndex: number,
 		quantity: number,
 		button: HTMLButtonElement,
-		input: HTMLInputElement
+		input: HTMLInputElement,
+		characterPath: string = ''
 	): Promise<void> {
 		// Validate quantity
 		const invItem = this.currentShop!.inventory[itemIndex];
@@ -1418,6 +2330,57 @@ export class DMControlView extends ItemView {
 			return;
 		}
 
+		if (this.isShopkeeperRefusing()) return;
+
+		// Apply a pending haggle deal, then bulk discounts
+		const deal = this.plugin.haggleManager.getDeal(this.currentShopFile!.path, invItem.itemRef);
+		const lineTotal = this.getSaleLineTotal(invItem, quantity);
+		const unitPrice = lineTotal.unitPrice;
+		const totalPrice = lineTotal.total;
+		let allowShortfall = false;
+
+		// Resolve the buying character, if any
+		let character: { file: TFile; data: CharacterData } | null = null;
+		if (characterPath) {
+			const characterFile = this.app.vault.getAbstractFileByPath(characterPath);
+			const characterData = characterFile instanceof TFile
+				? this.plugin.characterParser.parseCharacterNote(characterFile)
+				: null;
+
+			if (!(characterFile instanceof TFile) || !characterData) {
+				new Notice('Character note not found or invalid');
+				return;
+			}
+			character = { file: characterFile, data: characterData };
+
+			// Check the character can pay (notes without gold don't track money)
+			const cost = this.plugin.characterInventory.toGold(totalPrice);
+			if (characterData.gold !== null && characterData.gold < cost) {
+				const currency = this.plugin.settings.currency.displayCurrency;
+
+				if (this.plugin.settings.insufficientFundsMode === 'refuse') {
+					new Notice(`${characterData.name} can't afford ${cost} ${currency} (has ${characterData.gold} ${currency}). Sale refused.`);
+					return;
+				}
+
+				new Notice(`Warning: ${characterData.name} can't afford ${cost} ${currency} (has ${characterData.gold} ${currency}). Gold set to 0.`);
+				allowShortfall = true;
+			}
+		}
+
+		// Check the party can pay (characters pay from their own gold)
+		const activeParty = character ? null : this.getActiveParty();
+
+		if (activeParty) {
+			const funds = this.checkPartyFunds(activeParty.party, totalPrice);
+			if (funds === null) return;
+			allowShortfall = funds.allowShortfall;
+		}
+
+		// Warn when the buyer can't carry the purchase (the sale still goes ahead)
+		const weight = quantity * this.plugin.encumbranceCalculator.getItemWeight(invItem.itemData);
+		this.warnIfOverCapacity(character?.data || null, activeParty?.party || null, weight);
+
 		// Set updating flag to prevent race conditions
 		this.isUpdating = true;
 
@@ -1427,19 +2390,76 @@ export class DMControlView extends ItemView {
 		button.textContent = 'Recording...';
 
 		try {
+			const before = await this.plugin.inventoryHistory.capture(this.currentShopFile!);
+
+			// Give the items to the character and take their gold
+			let characterChange: CharacterChange | undefined;
+			if (character) {
+				characterChange = await this.plugin.characterInventory.recordPurchase(
+					character.file,
+					invItem.itemRef,
+					quantity,
+					totalPrice,
+					allowShortfall
+				);
+			}
+
 			// Record purchase using purchase handler
-			await this.plugin.purchaseHandler.recordPurchase(
-				this.currentShopFile!,
-				itemIndex,
-				quantity
-			);
+			let walletChange: WalletChange | null;
+			try {
+				walletChange = await this.plugin.purchaseHandler.recordPurchase(
+					this.currentShopFile!,
+					itemIndex,
+					quantity,
+					activeParty ? { partyFile: activeParty.file, amount: totalPrice, allowShortfall } : null
+				);
+			} catch (error) {
+				// Take the items back from the character if the shop couldn't be updated
+				if (character && characterChange) {
+					await this.plugin.characterInventory.applyChange(character.file, characterChange, -1);
+				}
+				throw error;
+			}
+
+			// The deal applies to this sale only
+			if (deal) {
+				this.plugin.haggleManager.consumeDeal(this.currentShopFile!.path, invItem.itemRef);
+			}
 
 			// Show success message
 			const itemName = invItem.itemData?.name || invItem.itemRef;
-			const totalPrice = invItem.calculatedPrice * quantity;
-			const priceText = this.plugin.priceCalculator.formatCurrency(totalPrice);
-
-			new Notice(`Sold ${quantity}x ${itemName} for ${priceText}`);
+			const priceNotes = [
+				deal && deal.modifier !== 0 ? deal.label : null,
+				lineTotal.label ? `bulk ${lineTotal.label}` : null
+			].filter(note => note !== null);
+			const priceText = this.plugin.priceCalculator.formatCurrency(totalPrice)
+				+ (priceNotes.length > 0 ? ` (${priceNotes.join(', ')})` : '');
+
+			new Notice(character
+				? `Sold ${quantity}x ${itemName} to ${character.data.name} for ${priceText}`
+				: `Sold ${quantity}x ${itemName} for ${priceText}`);
+
+			// Record the sale in the ledger
+			const ledgerEntries = await this.recordTransactions([{
+				shopPath: this.currentShopFile!.path,
+				shopName: this.currentShop!.name,
+				itemRef: invItem.itemRef,
+				quantity,
+				unitPrice,
+				total: lineTotal.rule ? totalPrice : undefined,
+				direction: 'sell',
+				buyer: character?.data.name || this.buyerName || undefined,
+				haggle: deal || undefined
+			}]);
+
+			await this.recordHistory(
+				character ? `Sell ${quantity}x ${itemName} to ${character.data.name}` : `Sell ${quantity}x ${itemName}`,
+				before,
+				ledgerEntries,
+				walletChange ?? undefined,
+				characterChange,
+				deal ? [{ itemRef: invItem.itemRef, deal }] : []
+			);
 
 			// Re-sync to update display
 			await this.syncWithShop(this.currentShopFile!);
@@ -1451,7 +2471,7 @@ export class DMControlView extends ItemView {
 			// Re-enable controls on error
 			button.disabled = false;
 			input.disabled = false;
-			button.textContent = 'Record Sale';
+			button.textContent = 'Sell';
 		} finally {
 			this.isUpdating = false;
 		}
@@ -1476,6 +2496,8 @@ export class DMControlView extends ItemView {
 		button.textContent = 'Removing...';
 
 		try {
+			const before = await this.plugin.inventoryHistory.capture(this.currentShopFile!);
+
 			await this.plugin.shopModifier.removeInventoryItem(
 				this.currentShopFile!,
 				itemIndex
@@ -1483,6 +2505,8 @@ export class DMControlView extends ItemView {
 
 			new Notice(`Removed ${itemName} from shop`);
 
+			await this.recordHistory(`Remove ${itemName}`, before);
+
 			// Re-sync to update display
 			await this.syncWithShop(this.currentShopFile!);
 
@@ -1544,12 +2568,17 @@ export class DMControlView extends ItemView {
 		button.disabled = true;
 
 		try {
+			const before = await this.plugin.inventoryHistory.capture(this.currentShopFile!);
+
 			await this.plugin.shopModifier.updateItemQuantity(
 				this.currentShopFile!,
 				itemIndex,
 				newQuantity
 			);
 
+			const itemName = invItem.itemData?.name || invItem.itemRef;
+			await this.recordHistory(`Set ${itemName} stock to ${newQuantity}`, before);
+
 			// Re-sync to update display
 			await this.syncWithShop(this.currentShopFile!);
 
@@ -1563,4 +2592,103 @@ export class DMControlView extends ItemView {
 			this.isUpdating = false;
 		}
 	}
+
+	/**
+	 * Render transaction history for the active shop
+	 */
+	private renderHistorySection(container: HTMLElement): void {
+		const historyEl = container.createDiv({ cls: 'history-section' });
+
+		const headerRow = historyEl.createDiv({ cls: 'history-header' });
+		headerRow.createEl('h3', { text: 'History' });
+
+		// New session button
+		const sessionButton = headerRow.createEl('button', {
+			text: 'New Session',
+			cls: 'btn-small history-session-button',
+			attr: { title: 'Start a new ledger session (resets session totals)' }
+		});
+		sessionButton.addEventListener('click', async () => {
+			await this.plugin.startLedgerSession();
+		});
+
+		const shopPath = this.currentShopFile!.path;
+		const session = this.plugin.ledger.getSession();
+
+		// Totals
+		const totalsEl = historyEl.createDiv({ cls: 'history-totals' });
+		this.renderHistoryTotals(totalsEl, `Session (${session})`, this.plugin.ledger.getTotals(null, session));
+		this.renderHistoryTotals(totalsEl, 'This shop (all time)', this.plugin.ledger.getTotals(shopPath, null));
+
+		// Recent transactions
+		const entries = this.plugin.ledger.getRecentEntriesForShop(shopPath, 15);
+
+		if (entries.length === 0) {
+			historyEl.createDiv({
+				cls: 'history-empty',
+				text: 'No transactions recorded for this shop yet'
+			});
+			return;
+		}
+
+		const listEl = historyEl.createDiv({ cls: 'history-list' });
+
+		for (const entry of entries) {
+			const entryEl = listEl.createDiv({ cls: `history-entry history-entry-${entry.direction}` });
+
+			// Show time for this session, date for older sessions
+			const date = new Date(entry.timestamp);
+			const timeText = entry.session === session
+				? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+				: date.toLocaleDateString();
+
+			entryEl.createSpan({ cls: 'history-time', text: timeText });
+
+			const directionLabels: Record<string, string> = {
+				sell: 'Sold',
+				buy: 'Bought',
+				restock: 'Restocked'
+			};
+
+			const itemName = this.plugin.shopParser.parseWikilink(entry.itemRef);
+			let description = `${directionLabels[entry.direction]} ${entry.quantity}x ${itemName}`;
+			if (entry.buyer) {
+				description += entry.direction === 'buy' ? ` from ${entry.buyer}` : ` to ${entry.buyer}`;
+			}
+			if (entry.haggle && entry.haggle.modifier !== 0) {
+				const sign = entry.haggle.modifier > 0 ? '+' : '';
+				description += ` (haggled ${sign}${entry.haggle.modifier}%)`;
+			}
+
+			entryEl.createSpan({ cls: 'history-description', text: description });
+
+			entryEl.createSpan({
+				cls: 'history-amount',
+				text: this.plugin.priceCalculator.formatCurrency(entry.total ?? entry.unitPrice * entry.quantity)
+			});
+		}
+	}
+
+	/**
+	 * Render a single totals row for the history section
+	 */
+	private renderHistoryTotals(container: HTMLElement, label: string, totals: { sold: number; bought: number; count: number }): void {
+		const rowEl = container.createDiv({ cls: 'history-totals-row' });
+
+		rowEl.createDiv({ cls: 'history-totals-label', text: label });
+
+		const valuesEl = rowEl.createDiv({ cls: 'history-totals-values' });
+		valuesEl.createSpan({
+			cls: 'history-total-sold',
+			text: `Sold: ${this.plugin.priceCalculator.formatCurrency(totals.sold)}`
+		});
+		valuesEl.createSpan({
+			cls: 'history-total-bought',
+			text: `Bought: ${this.plugin.priceCalculator.formatCurrency(totals.bought)}`
+		});
+		valuesEl.createSpan({
+			cls: 'history-total-count',
+			text: `${totals.count} transaction${totals.count === 1 ? '' : 's'}`
+		});
+	}
 }
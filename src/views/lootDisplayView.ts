@@ -1,5 +1,5 @@
-import { ItemView, WorkspaceLeaf } from 'obsidian';
-import { GeneratedLoot } from '../types';
+import { ItemView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
+import { GeneratedLoot, MagicItemLoot, SalvageMaterial } from '../types';
 import ShopboardPlugin from '../main';
 
 /**
@@ -14,6 +14,8 @@ export const VIEW_TYPE_LOOT_DISPLAY = 'shopboard-loot-display';
 export class LootDisplayView extends ItemView {
 	private plugin: ShopboardPlugin;
 	private lootData: GeneratedLoot | null = null;
+	private lootFile: TFile | null = null;
+	private claims: Record<string, string> = {};
 
 	constructor(leaf: WorkspaceLeaf, plugin: ShopboardPlugin) {
 		super(leaf);
@@ -49,6 +51,45 @@ export class LootDisplayView extends ItemView {
 		container.empty();
 		container.addClass('shopboard-loot-display-container');
 
+		// DM actions in the view header
+		this.addAction('save', 'Save as note', async () => {
+			if (!this.lootData) return;
+
+			if (this.lootFile) {
+				new Notice(`Loot is already saved to ${this.lootFile.path}`);
+				return;
+			}
+
+			await this.plugin.saveLootNote(this.lootData);
+		});
+
+		this.addAction('store', 'Sell to shop…', () => {
+			if (this.lootData) {
+				this.plugin.openSellLootModal(this.lootData, this.lootFile, this.claims);
+			}
+		});
+
+		this.addAction('axe', 'Harvest salvage…', () => {
+			if (this.lootData) {
+				this.plugin.openHarvestModal(this.lootData, this.lootFile);
+			}
+		});
+
+		this.addAction('eye', 'Identify items…', () => {
+			if (this.lootData) {
+				this.plugin.openIdentifyModal(this.lootFile ? this.lootFile.path : null, this.lootData, this.lootFile);
+			}
+		});
+
+		// Re-render when the displayed loot changes elsewhere (e.g., a loot sale is undone)
+		this.registerEvent(
+			this.app.workspace.on('shopboard:loot-updated', (loot: GeneratedLoot) => {
+				if (loot === this.lootData) {
+					this.render();
+				}
+			})
+		);
+
 		this.render();
 	}
 
@@ -57,16 +98,44 @@ export class LootDisplayView extends ItemView {
 	 */
 	async onClose(): Promise<void> {
 		this.lootData = null;
+		this.lootFile = null;
+		this.claims = {};
 	}
 
 	/**
 	 * Set the loot to display
+	 * @param loot Loot to display
+	 * @param file Loot note the loot is saved in, if any
+	 * @param claims Distribution claims keyed by share id
 	 */
-	setLoot(loot: GeneratedLoot): void {
+	setLoot(loot: GeneratedLoot, file: TFile | null = null, claims: Record<string, string> = {}): void {
 		this.lootData = loot;
+		this.lootFile = file;
+		this.claims = claims;
 		this.render();
 	}
 
+	/**
+	 * Get the loot currently displayed
+	 */
+	getLoot(): GeneratedLoot | null {
+		return this.lootData;
+	}
+
+	/**
+	 * Get the loot note the displayed loot is saved in (null if unsaved)
+	 */
+	getLootFile(): TFile | null {
+		return this.lootFile;
+	}
+
+	/**
+	 * Get the distribution claims of the displayed loot
+	 */
+	getClaims(): Record<string, string> {
+		return this.claims;
+	}
+
 	/**
 	 * Main render method
 	 */
@@ -147,6 +216,8 @@ export class LootDisplayView extends ItemView {
 		const coinEl = coinDisplay.createDiv({ cls: 'coin-gold' });
 		coinEl.createDiv({ text: coins.gold.toString(), cls: 'coin-amount' });
 		coinEl.createDiv({ text: 'Gold Pieces', cls: 'coin-label' });
+
+		this.renderClaims(section, ['coins']);
 	}
 
 	/**
@@ -239,24 +310,25 @@ export class LootDisplayView extends ItemView {
 			const itemEl = itemGrid.createDiv({ cls: 'magic-item' });
 
 			if (item.itemData) {
-				// Show item name
+				// Show item name (unidentified items show their unidentified name)
 				const nameEl = itemEl.createDiv({ cls: 'magic-item-name' });
-				nameEl.textContent = item.identified ? item.itemData.name : 'Unidentified Item';
+				nameEl.textContent = this.plugin.identificationManager.getDisplayName(item.itemData, item.itemRef, item.identified);
 
-				// Show rarity
-				if (item.itemData.rarity) {
+				// Show rarity (hidden until identified, it would give the item away)
+				if (item.itemData.rarity && item.identified) {
 					const rarityEl = itemEl.createDiv({ cls: `magic-item-rarity rarity-${item.itemData.rarity.toLowerCase().replace(' ', '-')}` });
 					rarityEl.textContent = item.itemData.rarity;
 				}
 
-				// Show description if identified
-				if (item.identified && item.itemData.description) {
+				// Show description (unidentified items show their unidentified description)
+				const description = this.plugin.identificationManager.getDisplayDescription(item.itemData, item.identified);
+				if (description) {
 					const descEl = itemEl.createDiv({ cls: 'magic-item-description' });
-					descEl.textContent = item.itemData.description;
+					descEl.textContent = description;
 				}
 
-				// Show image if available
-				if (item.itemData.imageUrl) {
+				// Show image if available (hidden until identified)
+				if (item.itemData.imageUrl && item.identified) {
 					const imgEl = itemEl.createEl('img', { cls: 'magic-item-image' });
 
 					// Handle both online URLs and local file paths
@@ -269,7 +341,7 @@ export class LootDisplayView extends ItemView {
 						imgEl.src = resourcePath;
 					}
 
-					imgEl.alt = item.itemData.name;
+					imgEl.alt = this.plugin.identificationManager.getDisplayName(item.itemData, item.itemRef, item.identified);
 
 					// Handle image load errors gracefully
 					imgEl.onerror = () => {
@@ -279,7 +351,7 @@ export class LootDisplayView extends ItemView {
 			} else {
 				// Fallback for missing item data
 				itemEl.createDiv({
-					text: item.itemRef,
+					text: this.plugin.identificationManager.getDisplayName(null, item.itemRef, item.identified),
 					cls: 'magic-item-name'
 				});
 			}
@@ -386,7 +458,7 @@ export class LootDisplayView extends ItemView {
 			const materialEl = salvageList.createDiv({ cls: 'salvage-item' });
 
 			materialEl.createEl('div', {
-				text: material.name,
+				text: `${material.quantity}x ${material.name}`,
 				cls: 'salvage-name'
 			});
 
@@ -405,6 +477,8 @@ export class LootDisplayView extends ItemView {
 				const tagsEl = materialEl.createDiv({ cls: 'salvage-tags' });
 				tagsEl.textContent = `Uses: ${material.craftingTags.join(', ')}`;
 			}
+
+			this.renderHarvest(materialEl, material);
 		});
 	}
 
@@ -432,6 +506,71 @@ export class LootDisplayView extends ItemView {
 		});
 	}
 
+	/**
+	 * Show the magic item table an item was rolled on, with the d100 result
+	 * Unidentified items skip it, since the table hints at what they are
+	 */
+	private renderTableRoll(container: HTMLElement, item: MagicItemLoot): void {
+		if (!item.identified) return;
+
+		container.createDiv({
+			text: item.roll !== null ? `Table ${item.table} · d100: ${item.roll}` : `Table ${item.table}`,
+			cls: 'loot-table-roll'
+		});
+	}
+
+	/**
+	 * Mark an entry as claimed, listing who received it
+	 * Entries are fully claimed once every unit has a recipient
+	 * @param container Element to add the claim line to
+	 * @param shareIds Share ids of the entry's units
+	 */
+	private renderClaims(container: HTMLElement, shareIds: string[]): void {
+		const counts = new Map<string, number>();
+		for (const id of shareIds) {
+			const recipient = this.claims[id];
+			if (recipient) {
+				counts.set(recipient, (counts.get(recipient) || 0) + 1);
+			}
+		}
+
+		if (counts.size === 0) return;
+
+		if (Array.from(counts.values()).reduce((sum, count) => sum + count, 0) === shareIds.length) {
+			container.closest('.loot-item')?.addClass('loot-item-claimed');
+		}
+
+		const names = Array.from(counts.entries()).map(([recipient, count]) => {
+			const name = this.plugin.lootDistributor.getRecipientName(recipient);
+			return count > 1 ? `${name} ×${count}` : name;
+		});
+
+		container.createDiv({ text: `Claimed: ${names.join(', ')}`, cls: 'loot-claimed' });
+	}
+
+	/**
+	 * Mark an entry that was sold to a shop
+	 * @param container Element to add the sold line to
+	 * @param sold Whether the entry was sold
+	 */
+	private renderSold(container: HTMLElement, sold: boolean | undefined): void {
+		if (!sold) return;
+
+		container.closest('.loot-item')?.addClass('loot-item-sold');
+		container.createDiv({ text: 'Sold', cls: 'loot-sold' });
+	}
+
+	/**
+	 * Build the share ids of an entry listed once per unit
+	 */
+	private getUnitIds(prefix: string, index: number, quantity: number): string[] {
+		const ids: string[] = [];
+		for (let unit = 0; unit < quantity; unit++) {
+			ids.push(`${prefix}-${index}-${unit}`);
+		}
+		return ids;
+	}
+
 	/**
 	 * Render gems inline (without section header)
 	 */
@@ -439,7 +578,7 @@ export class LootDisplayView extends ItemView {
 		const gems = this.lootData!.gems;
 		if (!gems || gems.length === 0) return;
 
-		gems.forEach(gem => {
+		gems.forEach((gem, index) => {
 			const gemEl = container.createDiv({ cls: 'loot-item grid-item-compact inline-item' });
 
 			const contentEl = gemEl.createDiv({ cls: 'grid-item-content' });
@@ -447,6 +586,9 @@ export class LootDisplayView extends ItemView {
 				text: `${gem.quantity}x ${gem.description}`,
 				cls: 'grid-item-name'
 			});
+
+			this.renderClaims(contentEl, this.getUnitIds('gem', index, gem.quantity));
+			this.renderSold(contentEl, gem.sold);
 		});
 	}
 
@@ -457,7 +599,7 @@ export class LootDisplayView extends ItemView {
 		const artObjects = this.lootData!.artObjects;
 		if (!artObjects || artObjects.length === 0) return;
 
-		artObjects.forEach(art => {
+		artObjects.forEach((art, index) => {
 			const artEl = container.createDiv({ cls: 'loot-item grid-item-compact inline-item' });
 
 			const contentEl = artEl.createDiv({ cls: 'grid-item-content' });
@@ -465,6 +607,8 @@ export class LootDisplayView extends ItemView {
 				text: art.description,
 				cls: 'grid-item-name'
 			});
+
+			this.renderClaims(contentEl, [`art-${index}`]);
 		});
 	}
 
@@ -475,17 +619,18 @@ export class LootDisplayView extends ItemView {
 		const magicItems = this.lootData!.magicItems;
 		if (!magicItems || magicItems.length === 0) return;
 
-		magicItems.forEach(item => {
+		magicItems.forEach((item, index) => {
 			const itemEl = container.createDiv({ cls: 'loot-item grid-item-compact inline-item' });
+			const shareIds = this.getUnitIds('magic', index, item.quantity);
 
-			// Add rarity class for left border
-			if (item.itemData?.rarity) {
+			// Add rarity class for left border (hidden until identified, it would give the item away)
+			if (item.itemData?.rarity && item.identified) {
 				itemEl.addClass(`rarity-${item.itemData.rarity.toLowerCase().replace(' ', '-')}`);
 			}
 
 			if (item.itemData) {
-				// Item image (left side)
-				if (item.itemData.imageUrl) {
+				// Item image (left side, hidden until identified)
+				if (item.itemData.imageUrl && item.identified) {
 					const imgContainer = itemEl.createDiv({ cls: 'grid-item-image' });
 					const imgEl = imgContainer.createEl('img');
 
@@ -499,7 +644,7 @@ export class LootDisplayView extends ItemView {
 						imgEl.src = resourcePath;
 					}
 
-					imgEl.alt = item.itemData.name;
+					imgEl.alt = this.plugin.identificationManager.getDisplayName(item.itemData, item.itemRef, item.identified);
 
 					// Handle image load errors gracefully
 					imgEl.onerror = () => {
@@ -510,22 +655,31 @@ export class LootDisplayView extends ItemView {
 				// Content wrapper (right side)
 				const contentEl = itemEl.createDiv({ cls: 'grid-item-content' });
 
-				// Item name
+				// Item name (unidentified items show their unidentified name)
 				const nameEl = contentEl.createDiv({ cls: 'grid-item-name' });
-				nameEl.textContent = item.identified ? item.itemData.name : 'Unidentified Item';
+				nameEl.textContent = this.plugin.identificationManager.getDisplayName(item.itemData, item.itemRef, item.identified);
 
-				// Item description (if identified)
-				if (item.identified && item.itemData.description) {
+				// Item description (unidentified items show their unidentified description)
+				const description = this.plugin.identificationManager.getDisplayDescription(item.itemData, item.identified);
+				if (description) {
 					const descEl = contentEl.createDiv({ cls: 'grid-item-description' });
-					descEl.textContent = item.itemData.description;
+					descEl.textContent = description;
 				}
+
+				this.renderTableRoll(contentEl, item);
+				this.renderClaims(contentEl, shareIds);
+				this.renderSold(contentEl, item.sold);
 			} else {
 				// Fallback for missing item data
 				const contentEl = itemEl.createDiv({ cls: 'grid-item-content' });
 				contentEl.createDiv({
-					text: item.itemRef,
+					text: this.plugin.identificationManager.getDisplayName(null, item.itemRef, item.identified),
 					cls: 'grid-item-name'
 				});
+
+				this.renderTableRoll(contentEl, item);
+				this.renderClaims(contentEl, shareIds);
+				this.renderSold(contentEl, item.sold);
 			}
 		});
 	}
@@ -576,6 +730,8 @@ export class LootDisplayView extends ItemView {
 					const descEl = contentEl.createDiv({ cls: 'grid-item-description' });
 					descEl.textContent = item.itemData.description;
 				}
+
+				this.renderSold(contentEl, item.sold);
 			} else {
 				// Fallback for missing item data
 				const contentEl = itemEl.createDiv({ cls: 'grid-item-content' });
@@ -583,6 +739,8 @@ export class LootDisplayView extends ItemView {
 					text: item.itemRef,
 					cls: 'grid-item-name'
 				});
+
+				this.renderSold(contentEl, item.sold);
 			}
 		});
 	}
@@ -619,7 +777,7 @@ export class LootDisplayView extends ItemView {
 
 			// Salvage name
 			contentEl.createEl('div', {
-				text: material.name,
+				text: `${material.quantity}x ${material.name}`,
 				cls: 'grid-item-name'
 			});
 
@@ -628,9 +786,28 @@ export class LootDisplayView extends ItemView {
 				text: `${material.description} (Harvest DC: ${material.harvestDC})`,
 				cls: 'grid-item-description'
 			});
+
+			this.renderHarvest(contentEl, material);
 		});
 	}
 
+	/**
+	 * Render the harvest result of a salvage material, if it was attempted
+	 */
+	private renderHarvest(container: HTMLElement, material: SalvageMaterial): void {
+		const harvest = material.harvest;
+		if (!harvest) return;
+
+		const by = harvest.character ? ` by ${harvest.character}` : '';
+		const text = harvest.outcome === 'harvested'
+			? `Harvested${by}`
+			: harvest.outcome === 'ruined'
+				? `Ruined${by}`
+				: `Harvest failed${by} - can be tried again`;
+
+		container.createDiv({ text, cls: `salvage-harvest salvage-${harvest.outcome}` });
+	}
+
 	/**
 	 * Resolve image path relative to item file location
 	 */
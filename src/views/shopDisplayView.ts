@@ -1,5 +1,5 @@
 import { ItemView, WorkspaceLeaf, TFile, MarkdownRenderer } from 'obsidian';
-import { ShopData, ItemData } from '../types';
+import { ShopData, ItemData, ShopInventoryItem } from '../types';
 import ShopboardPlugin from '../main';
 
 /**
@@ -7,6 +7,16 @@ import ShopboardPlugin from '../main';
  */
 export const VIEW_TYPE_SHOP_DISPLAY = 'shopboard-display';
 
+/**
+ * How often the shopkeeper's greeting changes
+ */
+const GREETING_INTERVAL_MS = 12000;
+
+/**
+ * How long a line sent from the DM panel stays on screen
+ */
+const SPOKEN_LINE_MS = 30000;
+
 /**
  * Shop Display View - Player-facing shop display window
  * Can be popped out to second monitor for players
@@ -22,6 +32,10 @@ export class ShopDisplayView extends ItemView {
 	private itemsPerPage: number = 20; // Will be calculated dynamically
 	private isFullscreen: boolean = false;
 	private hiddenElements: HTMLElement[] = []; // Track Obsidian UI elements hidden during fullscreen
+	private cart: Map<string, number> = new Map(); // Cart mode: item reference -> quantity
+	private greetingIndex: number = 0;
+	private spokenLine: string | null = null; // Line sent from the DM panel
+	private spokenUntil: number = 0;
 
 	constructor(leaf: WorkspaceLeaf, plugin: ShopboardPlugin) {
 		super(leaf);
@@ -100,6 +114,31 @@ export class ShopDisplayView extends ItemView {
 			})
 		);
 
+		// Listen for shopkeeper lines sent from DM control
+		this.registerEvent(
+			this.app.workspace.on('shopboard:shopkeeper-say', (shopPath: string, line: string) => {
+				if (this.shopFile?.path === shopPath) {
+					this.spokenLine = line;
+					this.spokenUntil = Date.now() + SPOKEN_LINE_MS;
+					this.updateGreeting();
+				}
+			})
+		);
+
+		// Rotate the shopkeeper's greeting
+		this.registerInterval(window.setInterval(() => {
+			this.rotateGreeting();
+		}, GREETING_INTERVAL_MS));
+
+		// Listen for order queue changes (DM approved/rejected an order)
+		this.registerEvent(
+			this.app.workspace.on('shopboard:orders-updated', () => {
+				if (this.shopData?.cartMode) {
+					this.render();
+				}
+			})
+		);
+
 		// Listen for item modification events
 		this.registerEvent(
 			this.app.workspace.on('shopboard:item-modified', async (itemPath: string) => {
@@ -120,6 +159,32 @@ export class ShopDisplayView extends ItemView {
 			})
 		);
 
+		// Listen for settlement/region changes (regional price modifiers)
+		this.registerEvent(
+			this.app.workspace.on('shopboard:settlement-modified', async (settlementPath: string) => {
+				if (this.isUpdating) {
+					return;
+				}
+
+				if (this.shopData?.regions?.some(region => region.path === settlementPath)) {
+					await this.refreshShopData();
+				}
+			})
+		);
+
+		// Listen for ledger changes (supply-and-demand prices follow recent sales)
+		this.registerEvent(
+			this.app.workspace.on('shopboard:ledger-updated', async () => {
+				if (this.isUpdating) {
+					return;
+				}
+
+				if (this.shopData?.dynamicPricing) {
+					await this.refreshShopData();
+				}
+			})
+		);
+
 		// Listen for shop file modifications (inventory changes)
 		this.registerEvent(
 			this.app.vault.on('modify', async (file) => {
@@ -183,6 +248,13 @@ export class ShopDisplayView extends ItemView {
 	 * Set the shop to display
 	 */
 	async setShop(file: TFile): Promise<void> {
+		// Carts and shopkeeper lines belong to a single shop
+		if (this.shopFile?.path !== file.path) {
+			this.cart.clear();
+			this.greetingIndex = 0;
+			this.spokenLine = null;
+		}
+
 		this.shopFile = file;
 
 		// Parse the shop note
@@ -691,6 +763,10 @@ export class ShopDisplayView extends ItemView {
 			this.renderHeader(mainDisplay);
 			this.renderInventory(mainDisplay);
 
+			if (this.shopData.cartMode) {
+				this.renderCart(mainDisplay);
+			}
+
 			// Detail panel (right side)
 			this.renderDetailPanel(splitContainer);
 		} else {
@@ -707,6 +783,170 @@ export class ShopDisplayView extends ItemView {
 
 			// Render inventory
 			this.renderInventory(displayEl);
+
+			// Render player cart (cart mode only)
+			if (this.shopData.cartMode) {
+				this.renderCart(displayEl);
+			}
+		}
+	}
+
+	/**
+	 * Render the player cart with running total and order button
+	 */
+	private renderCart(container: HTMLElement): void {
+		const cartEl = container.createDiv({ cls: 'shop-cart' });
+		cartEl.createDiv({ cls: 'shop-cart-title', text: '🛒 Cart' });
+
+		const lines = this.getCartLines();
+
+		if (lines.length === 0) {
+			// Show the outcome of the latest order, if any
+			const latest = this.plugin.orderQueue.getLatest(this.shopFile!.path);
+			const statusMessages: Record<string, string> = {
+				pending: 'Order sent. Waiting for the shopkeeper...',
+				approved: 'Order approved. Enjoy your purchase!',
+				rejected: 'The shopkeeper declined your order.'
+			};
+
+			cartEl.createDiv({
+				cls: latest ? `shop-cart-status shop-cart-status-${latest.status}` : 'shop-cart-empty',
+				text: latest ? statusMessages[latest.status] : 'Tap + on an item to add it'
+			});
+			return;
+		}
+
+		const linesEl = cartEl.createDiv({ cls: 'shop-cart-lines' });
+		let total = 0;
+
+		for (const { invItem, quantity } of lines) {
+			const lineTotal = this.plugin.priceCalculator.calculateLineTotal(
+				invItem.calculatedPrice,
+				quantity,
+				invItem.bulkRules
+			);
+			total += lineTotal.total;
+
+			const lineEl = linesEl.createDiv({ cls: 'shop-cart-line' });
+
+			// Quantity controls
+			const removeButton = lineEl.createEl('button', { cls: 'shop-cart-qty-button', text: '−' });
+			removeButton.addEventListener('click', () => {
+				this.updateCart(invItem, quantity - 1);
+			});
+
+			lineEl.createSpan({ cls: 'shop-cart-qty', text: `${quantity}×` });
+
+			const addButton = lineEl.createEl('button', { cls: 'shop-cart-qty-button', text: '+' });
+			addButton.disabled = quantity >= invItem.quantity;
+			addButton.addEventListener('click', () => {
+				this.updateCart(invItem, quantity + 1);
+			});
+
+			lineEl.createSpan({
+				cls: 'shop-cart-item-name',
+				text: invItem.itemData?.name || invItem.itemRef
+			});
+
+			const lineTotalEl = lineEl.createSpan({
+				cls: 'shop-cart-line-total',
+				text: this.plugin.priceCalculator.formatCurrency(lineTotal.total)
+			});
+
+			// Show which bulk deal applied
+			if (lineTotal.label) {
+				lineTotalEl.addClass('shop-cart-line-discounted');
+				lineTotalEl.setAttr('title', `Bulk deal: ${lineTotal.label}`);
+			}
+		}
+
+		// Running total
+		const totalEl = cartEl.createDiv({ cls: 'shop-cart-total' });
+		totalEl.createSpan({ text: 'Total' });
+		totalEl.createSpan({
+			cls: 'shop-cart-total-value',
+			text: this.plugin.priceCalculator.formatCurrency(total)
+		});
+
+		// Actions
+		const actionsEl = cartEl.createDiv({ cls: 'shop-cart-actions' });
+
+		const clearButton = actionsEl.createEl('button', { cls: 'shop-cart-clear', text: 'Clear' });
+		clearButton.addEventListener('click', () => {
+			this.cart.clear();
+			this.render();
+		});
+
+		const orderButton = actionsEl.createEl('button', { cls: 'shop-cart-order mod-cta', text: 'Place Order' });
+		orderButton.addEventListener('click', () => {
+			this.placeOrder();
+		});
+	}
+
+	/**
+	 * Get cart lines resolved against current stock
+	 * Lines for items that sold out in the meantime are dropped
+	 */
+	private getCartLines(): Array<{ invItem: ShopInventoryItem; quantity: number }> {
+		const lines: Array<{ invItem: ShopInventoryItem; quantity: number }> = [];
+
+		for (const [itemRef, requested] of this.cart) {
+			const invItem = this.shopData!.inventory.find(item => item.itemRef === itemRef && item.quantity > 0);
+			if (!invItem) {
+				this.cart.delete(itemRef);
+				continue;
+			}
+
+			const quantity = Math.min(requested, invItem.quantity);
+			this.cart.set(itemRef, quantity);
+			lines.push({ invItem, quantity });
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Set the cart quantity for an item (0 removes it)
+	 */
+	private updateCart(invItem: ShopInventoryItem, quantity: number): void {
+		const clamped = Math.min(Math.max(0, quantity), invItem.quantity);
+
+		if (clamped === 0) {
+			this.cart.delete(invItem.itemRef);
+		} else {
+			this.cart.set(invItem.itemRef, clamped);
+		}
+
+		this.render();
+	}
+
+	/**
+	 * Send the cart to the DM approval queue
+	 */
+	private placeOrder(): void {
+		const lines = this.getCartLines();
+		if (lines.length === 0) return;
+
+		try {
+			this.plugin.orderQueue.submit(
+				this.shopFile!.path,
+				this.shopData!.name,
+				lines.map(({ invItem, quantity }) => ({
+					itemRef: invItem.itemRef,
+					quantity,
+					unitPrice: invItem.calculatedPrice,
+					total: this.plugin.priceCalculator.calculateLineTotal(
+						invItem.calculatedPrice,
+						quantity,
+						invItem.bulkRules
+					).total
+				}))
+			);
+
+			this.cart.clear();
+			this.render();
+		} catch (error) {
+			console.error('Error placing order:', error);
 		}
 	}
 
@@ -745,6 +985,11 @@ export class ShopDisplayView extends ItemView {
 			text: this.shopData!.name
 		});
 
+		// Shopkeeper portrait and greeting
+		if (this.shopData!.shopkeeper) {
+			this.renderShopkeeper(headerEl);
+		}
+
 		// Page indicator
 		const totalPages = this.calculateTotalPages();
 		if (totalPages > 1) {
@@ -755,6 +1000,62 @@ export class ShopDisplayView extends ItemView {
 		}
 	}
 
+	/**
+	 * Render the shopkeeper's portrait, name and current greeting
+	 */
+	private renderShopkeeper(container: HTMLElement): void {
+		const shopkeeper = this.shopData!.shopkeeper!;
+		const shopkeeperEl = container.createDiv({ cls: 'shopkeeper' });
+
+		if (shopkeeper.portrait) {
+			const portrait = /^https?:\/\//.test(shopkeeper.portrait)
+				? shopkeeper.portrait
+				: this.app.vault.adapter.getResourcePath(this.resolveImagePath(shopkeeper.portrait, this.shopData!.path));
+			const imgEl = shopkeeperEl.createEl('img', { cls: 'shopkeeper-portrait' });
+			imgEl.src = portrait;
+			imgEl.alt = shopkeeper.name;
+		}
+
+		const infoEl = shopkeeperEl.createDiv({ cls: 'shopkeeper-info' });
+		const nameEl = infoEl.createDiv({ cls: 'shopkeeper-name', text: shopkeeper.name });
+		if (shopkeeper.race) {
+			nameEl.createSpan({ cls: 'shopkeeper-race', text: ` · ${shopkeeper.race}` });
+		}
+		infoEl.createDiv({ cls: 'shopkeeper-greeting' });
+		this.updateGreeting();
+	}
+
+	/**
+	 * Show the current greeting, or the line sent from the DM panel
+	 * Updates the speech bubble in place so the rest of the display isn't re-rendered
+	 */
+	private updateGreeting(): void {
+		const greetingEl = this.containerEl.querySelector('.shopkeeper-greeting');
+		if (!(greetingEl instanceof HTMLElement)) return;
+
+		const greetings = this.shopData?.shopkeeper?.greetings || [];
+		const spoken = this.spokenLine !== null && Date.now() < this.spokenUntil;
+		const line = spoken ? this.spokenLine : greetings[this.greetingIndex % Math.max(1, greetings.length)];
+
+		greetingEl.textContent = line ? `“${line}”` : '';
+		greetingEl.toggleClass('is-spoken', spoken);
+		greetingEl.toggleClass('is-hidden', !line);
+	}
+
+	/**
+	 * Move on to the next greeting once any line from the DM panel has expired
+	 */
+	private rotateGreeting(): void {
+		if (this.spokenLine !== null) {
+			if (Date.now() < this.spokenUntil) return;
+			this.spokenLine = null;
+		} else {
+			this.greetingIndex++;
+		}
+
+		this.updateGreeting();
+	}
+
 	/**
 	 * Render inventory items in fixed grid layout with cell-based pagination
 	 */
@@ -877,6 +1178,17 @@ export class ShopDisplayView extends ItemView {
 		const showDescriptions = this.shopData?.showDescriptions ?? true;
 		const itemEl = container.createDiv({ cls: 'inventory-item grid-item grid-item-compact' });
 
+		// Plain lines (e.g. gems sold from loot) have a name and price but no item note
+		if (!invItem.itemData && !this.plugin.shopParser.isItemLink(invItem.itemRef)) {
+			itemEl.addClass('item-plain');
+			itemEl.createDiv({ cls: 'grid-item-name', text: invItem.itemRef });
+			itemEl.createDiv({
+				cls: 'grid-item-price',
+				text: this.plugin.priceCalculator.formatCurrency(invItem.calculatedPrice)
+			});
+			return;
+		}
+
 		// Handle missing item data
 		if (!invItem.itemData) {
 			itemEl.addClass('item-missing');
@@ -961,6 +1273,23 @@ export class ShopDisplayView extends ItemView {
 			text: priceText
 		});
 
+		// Add to cart button (cart mode only)
+		if (this.shopData?.cartMode) {
+			const inCart = this.cart.get(invItem.itemRef) || 0;
+			const addButton = itemEl.createEl('button', {
+				cls: 'grid-item-add-cart',
+				text: inCart > 0 ? `+ (${inCart})` : '+',
+				attr: { title: 'Add to cart' }
+			});
+			addButton.disabled = inCart >= invItem.quantity;
+
+			addButton.addEventListener('click', (evt) => {
+				// Don't open item details
+				evt.stopPropagation();
+				this.updateCart(invItem, inCart + 1);
+			});
+		}
+
 		// Click handler
 		itemEl.addEventListener('click', () => {
 			this.showItemDetail(item);
@@ -1178,9 +1507,21 @@ export class ShopDisplayView extends ItemView {
 	}
 
 	/**
-	 * Render missing/unresolved item
+	 * Render missing/unresolved item, or a plain priced line without an item note
 	 */
 	private renderMissingItem(container: HTMLElement, invItem: any): void {
+		// Plain lines (e.g. gems sold from loot) have a name and price but no item note
+		if (!this.plugin.shopParser.isItemLink(invItem.itemRef)) {
+			container.addClass('item-plain');
+			container.createDiv({ cls: 'item-name', text: invItem.itemRef });
+			container.createDiv({
+				cls: 'item-price',
+				text: this.plugin.priceCalculator.formatCurrency(invItem.calculatedPrice)
+			});
+			container.createDiv({ cls: 'item-quantity', text: `${invItem.quantity} in stock` });
+			return;
+		}
+
 		container.addClass('item-missing');
 
 		// Show item reference